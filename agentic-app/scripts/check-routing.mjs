@@ -0,0 +1,55 @@
+#!/usr/bin/env node
+// Replays the regression corpus against the running app's workflows and fails
+// when routing differs from the recorded baseline.
+//
+//   node scripts/check-routing.mjs [http://localhost:3000]
+//   node scripts/check-routing.mjs --update    # record the current routing
+import { writeFile } from "node:fs/promises";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+
+const args = process.argv.slice(2);
+const update = args.includes("--update");
+const baseUrl =
+  args.find((arg) => !arg.startsWith("--")) ?? "http://localhost:3000";
+const baselinePath = path.join(
+  path.dirname(fileURLToPath(import.meta.url)),
+  "fixtures",
+  "regression",
+  "baseline.json",
+);
+
+const response = await fetch(new URL("/api/simulations", baseUrl));
+if (!response.ok) {
+  console.error(response.status, await response.text());
+  process.exit(1);
+}
+const { report, baseline, changes, passed } = await response.json();
+
+if (update) {
+  await writeFile(baselinePath, `${JSON.stringify(report, null, 2)}\n`);
+  console.log(
+    `Recorded routing for ${report.results.length} emails in ${baselinePath}`,
+  );
+  process.exit(0);
+}
+
+if (!baseline) {
+  console.error("No baseline recorded yet; run with --update first.");
+  process.exit(1);
+}
+
+for (const result of report.results) {
+  const routed = result.workflowIds.length
+    ? result.workflowIds.join(", ")
+    : "(no workflow)";
+  console.log(`${result.emailId}: ${routed} @ ${result.confidence}`);
+}
+for (const change of changes) {
+  console.log(
+    `${change.kind === "added" ? "NEW " : "FAIL"} ${change.emailId} ${change.kind}: ` +
+      `${JSON.stringify(change.expected)} -> ${JSON.stringify(change.actual)}`,
+  );
+}
+console.log(passed ? "Routing matches the baseline." : "Routing changed.");
+process.exit(passed ? 0 : 1);
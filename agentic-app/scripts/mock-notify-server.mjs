@@ -0,0 +1,102 @@
+#!/usr/bin/env node
+// Local stand-in for the WhatsApp Cloud API and a Slack incoming webhook, for
+// exercising notification channels without real credentials:
+//
+//   node scripts/mock-notify-server.mjs [port] [--fail=N]
+//
+//   NOTIFY_CHANNELS=whatsapp,slack \
+//   WHATSAPP_API_URL=http://localhost:4010 WHATSAPP_PHONE_NUMBER_ID=123 \
+//   WHATSAPP_TOKEN=test SLACK_WEBHOOK_URL=http://localhost:4010/slack \
+//   npm run dev
+//
+// --fail=N answers the first N requests with 503 so retries and backoff show
+// up in the dashboard. Set WHATSAPP_APP_SECRET and APP_URL to also post a
+// signed "delivered" status callback for every WhatsApp message.
+import { createHmac, randomUUID } from "node:crypto";
+import http from "node:http";
+
+const args = process.argv.slice(2);
+const port = Number(args.find((arg) => !arg.startsWith("--")) ?? 4010);
+let failuresLeft = Number(
+  args.find((arg) => arg.startsWith("--fail="))?.split("=")[1] ?? 0,
+);
+const appUrl = process.env.APP_URL;
+const appSecret = process.env.WHATSAPP_APP_SECRET;
+
+async function readBody(request) {
+  const chunks = [];
+  for await (const chunk of request) chunks.push(chunk);
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+function reply(response, status, body) {
+  response.writeHead(status, { "content-type": "application/json" });
+  response.end(JSON.stringify(body));
+}
+
+async function sendDeliveredCallback(messageId) {
+  const body = JSON.stringify({
+    entry: [
+      {
+        changes: [
+          { value: { statuses: [{ id: messageId, status: "delivered" }] } },
+        ],
+      },
+    ],
+  });
+  const signature = `sha256=${createHmac("sha256", appSecret).update(body).digest("hex")}`;
+  const response = await fetch(new URL("/api/webhooks/whatsapp", appUrl), {
+    method: "POST",
+    headers: {
+      "content-type": "application/json",
+      "x-hub-signature-256": signature,
+    },
+    body,
+  });
+  console.log(`  status callback for ${messageId}: ${response.status}`);
+}
+
+const server = http.createServer(async (request, response) => {
+  const body = await readBody(request);
+  console.log(`${request.method} ${request.url} ${body}`);
+
+  if (failuresLeft > 0) {
+    failuresLeft -= 1;
+    reply(response, 503, { error: "mock outage", failuresLeft });
+    return;
+  }
+
+  if (request.method === "POST" && /^\/[^/]+\/messages$/.test(request.url)) {
+    if (!request.headers.authorization?.startsWith("Bearer ")) {
+      reply(response, 401, { error: { message: "Missing access token" } });
+      return;
+    }
+    const messageId = `wamid.${randomUUID()}`;
+    reply(response, 200, {
+      messaging_product: "whatsapp",
+      messages: [{ id: messageId }],
+    });
+    if (appUrl && appSecret) {
+      setTimeout(
+        () => sendDeliveredCallback(messageId).catch(console.error),
+        500,
+      );
+    }
+    return;
+  }
+
+  if (request.method === "POST" && request.url === "/slack") {
+    response.writeHead(200, { "content-type": "text/plain" });
+    response.end("ok");
+    return;
+  }
+
+  reply(response, 404, { error: "not found" });
+});
+
+// Port 0 picks a free port; the line below reports the one in use.
+server.listen(port, () => {
+  console.log(
+    `Mock notification server on http://localhost:${server.address().port}`,
+  );
+});
@@ -0,0 +1,47 @@
+#!/usr/bin/env node
+// Posts an inbound-email fixture to the local webhook, signed like a provider.
+//
+//   INBOUND_WEBHOOK_SECRET=dev node scripts/post-inbound-fixture.mjs \
+//     scripts/fixtures/inbound/sendgrid.form.json [http://localhost:3000]
+//
+// `*.form.json` fixtures are sent as multipart/form-data, everything else as JSON.
+import { createHmac } from "node:crypto";
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+
+const [fixturePath, baseUrl = "http://localhost:3000"] = process.argv.slice(2);
+const secret = process.env.INBOUND_WEBHOOK_SECRET;
+
+if (!fixturePath || !secret) {
+  console.error(
+    "Usage: INBOUND_WEBHOOK_SECRET=... node scripts/post-inbound-fixture.mjs <fixture> [baseUrl]",
+  );
+  process.exit(1);
+}
+
+const fixture = JSON.parse(await readFile(fixturePath, "utf8"));
+let body;
+let contentType;
+
+if (path.basename(fixturePath).endsWith(".form.json")) {
+  const form = new FormData();
+  for (const [key, value] of Object.entries(fixture)) {
+    form.append(key, String(value));
+  }
+  const encoded = new Response(form);
+  contentType = encoded.headers.get("content-type");
+  body = Buffer.from(await encoded.arrayBuffer());
+} else {
+  contentType = "application/json";
+  body = Buffer.from(JSON.stringify(fixture));
+}
+
+const signature = `sha256=${createHmac("sha256", secret).update(body).digest("hex")}`;
+const response = await fetch(new URL("/api/webhooks/inbound", baseUrl), {
+  method: "POST",
+  headers: { "content-type": contentType, "x-agent-signature": signature },
+  body,
+});
+
+console.log(response.status, await response.text());
+process.exit(response.ok ? 0 : 1);
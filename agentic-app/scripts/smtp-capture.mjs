@@ -0,0 +1,98 @@
+#!/usr/bin/env node
+// Local SMTP relay that accepts everything and writes each message to disk,
+// for trying reply drafts without a real mail provider:
+//
+//   node scripts/smtp-capture.mjs [port] [--out=dir]
+//
+//   REPLY_SMTP_URL=smtp://localhost:2525 REPLY_FROM=you@example.com npm run dev
+//
+// Messages land in --out (default .data/outbox) as <n>-<timestamp>.eml. No
+// STARTTLS is offered, so the app talks plain SMTP; any AUTH is accepted.
+import { mkdirSync, writeFileSync } from "node:fs";
+import net from "node:net";
+import path from "node:path";
+
+const args = process.argv.slice(2);
+const port = Number(args.find((arg) => !arg.startsWith("--")) ?? 2525);
+const outDir = path.resolve(
+  args.find((arg) => arg.startsWith("--out="))?.split("=")[1] ?? ".data/outbox",
+);
+mkdirSync(outDir, { recursive: true });
+let captured = 0;
+
+const server = net.createServer((socket) => {
+  let buffer = "";
+  let data = null;
+  let envelope = { from: "", to: [] };
+  const send = (line) => socket.write(`${line}\r\n`);
+
+  const handle = (line) => {
+    const [verb] = line.split(/\s+/, 1);
+    switch (verb.toUpperCase()) {
+      case "EHLO":
+      case "HELO":
+        send("250-smtp-capture");
+        send("250 AUTH PLAIN LOGIN");
+        return;
+      case "AUTH":
+        send("235 2.7.0 Authentication successful");
+        return;
+      case "MAIL":
+        envelope = { from: line.slice(10).trim(), to: [] };
+        send("250 OK");
+        return;
+      case "RCPT":
+        envelope.to.push(line.slice(8).trim());
+        send("250 OK");
+        return;
+      case "DATA":
+        data = [];
+        send("354 End data with <CR><LF>.<CR><LF>");
+        return;
+      case "RSET":
+      case "NOOP":
+        send("250 OK");
+        return;
+      case "QUIT":
+        send("221 Bye");
+        socket.end();
+        return;
+      default:
+        send("502 Command not implemented");
+    }
+  };
+
+  const finishMessage = () => {
+    captured += 1;
+    const file = path.join(outDir, `${captured}-${Date.now()}.eml`);
+    writeFileSync(file, `${data.join("\r\n")}\r\n`);
+    console.log(
+      `Captured ${envelope.from} -> ${envelope.to.join(", ")} as ${file}`,
+    );
+    data = null;
+    send(`250 OK queued as ${captured}`);
+  };
+
+  send("220 smtp-capture ready");
+  socket.on("data", (chunk) => {
+    buffer += chunk.toString("utf8");
+    let index;
+    while ((index = buffer.indexOf("\r\n")) !== -1) {
+      const line = buffer.slice(0, index);
+      buffer = buffer.slice(index + 2);
+      if (data === null) {
+        handle(line);
+      } else if (line === ".") {
+        finishMessage();
+      } else {
+        // Undo dot-stuffing.
+        data.push(line.startsWith("..") ? line.slice(1) : line);
+      }
+    }
+  });
+  socket.on("error", (error) => console.error(error.message));
+});
+
+server.listen(port, () => {
+  console.log(`Capturing SMTP on localhost:${port}, writing to ${outDir}`);
+});
@@ -0,0 +1,14 @@
+import { NextResponse } from "next/server";
+import { parseWindowHours } from "@/lib/analytics";
+import { handleRouteError } from "@/lib/http";
+import { getAnalytics } from "@/lib/store";
+
+// GET /api/analytics?hours=24 — per-workflow counts, rates and hourly series.
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    return NextResponse.json(getAnalytics(parseWindowHours(searchParams)));
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+import { operatorFrom } from "@/lib/audit";
+import { HttpError, handleRouteError, readJson } from "@/lib/http";
+import { getApplication, recordAudit, saveApplications } from "@/lib/store";
+import { applyUpdate } from "@/lib/tracker";
+import { parseApplicationUpdate } from "@/lib/validation";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+function findApplication(id: string) {
+  const application = getApplication(id);
+  if (!application) throw new HttpError(404, `Application ${id} not found`);
+  return application;
+}
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    return NextResponse.json({ application: findApplication(id) });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
+
+// Body: { stage?, deadline?, portalUrl?, note? }; null clears a field.
+export async function PATCH(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const update = parseApplicationUpdate(await readJson(request));
+    const before = findApplication(id);
+    const application = applyUpdate(before, update);
+    saveApplications([application]);
+    // Filed under the latest email so its trail shows the manual move.
+    recordAudit([
+      {
+        type: "application.updated",
+        emailId: application.emailIds.at(-1) ?? null,
+        workflowId: application.workflowId,
+        actor: operatorFrom(request),
+        input: { applicationId: id, ...update },
+        output: { from: before.stage, stage: application.stage },
+      },
+    ]);
+    return NextResponse.json({ application });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
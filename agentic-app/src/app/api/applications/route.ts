@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import { HttpError, handleRouteError } from "@/lib/http";
+import { paginate, parsePageRequest } from "@/lib/pagination";
+import { listApplications } from "@/lib/store";
+import { ApplicationStage, applicationStages } from "@/lib/tracker";
+
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const stage = searchParams.get("stage");
+    if (stage && !applicationStages.includes(stage as ApplicationStage)) {
+      throw new HttpError(
+        400,
+        `stage must be one of ${applicationStages.join(", ")}`,
+      );
+    }
+    return NextResponse.json(
+      paginate(
+        listApplications((stage as ApplicationStage | null) ?? undefined),
+        parsePageRequest(searchParams),
+      ),
+    );
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
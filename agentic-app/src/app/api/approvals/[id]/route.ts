@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+import { decideApproval } from "@/lib/automation-service";
+import { HttpError, handleRouteError, readJson } from "@/lib/http";
+import { getApproval } from "@/lib/store";
+import { parseApprovalDecision } from "@/lib/validation";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const approval = getApproval(id);
+    if (!approval) throw new HttpError(404, `Approval ${id} not found`);
+    return NextResponse.json({ approval });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
+
+// Body: { decision: "approve" | "reject", reviewer, summary?, details?, note? }
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const decision = parseApprovalDecision(await readJson(request));
+    return NextResponse.json(await decideApproval(id, decision));
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
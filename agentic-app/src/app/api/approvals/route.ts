@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import { ApprovalStatus } from "@/lib/approvals";
+import { HttpError, handleRouteError } from "@/lib/http";
+import { paginate, parsePageRequest } from "@/lib/pagination";
+import { listApprovals } from "@/lib/store";
+
+const statuses: ApprovalStatus[] = ["pending", "approved", "rejected"];
+
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get("status");
+    if (status && !statuses.includes(status as ApprovalStatus)) {
+      throw new HttpError(400, `status must be one of ${statuses.join(", ")}`);
+    }
+    return NextResponse.json(
+      paginate(
+        listApprovals((status as ApprovalStatus | null) ?? undefined),
+        parsePageRequest(searchParams),
+      ),
+    );
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
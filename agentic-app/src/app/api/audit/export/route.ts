@@ -0,0 +1,27 @@
+import { toCsv, toJsonLines } from "@/lib/audit";
+import { handleRouteError } from "@/lib/http";
+import { listAuditRecords } from "@/lib/store";
+import { parseAuditQuery } from "@/lib/validation";
+
+// GET /api/audit/export?format=jsonl|csv&from=2025-01-01&to=2025-01-31
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const format = searchParams.get("format") === "csv" ? "csv" : "jsonl";
+    const query = parseAuditQuery(searchParams);
+    const records = listAuditRecords(query);
+    const range = [query.from, query.to].filter(Boolean).join("_to_");
+    return new Response(
+      format === "csv" ? toCsv(records) : toJsonLines(records),
+      {
+        headers: {
+          "Content-Type":
+            format === "csv" ? "text/csv" : "application/x-ndjson",
+          "Content-Disposition": `attachment; filename="audit${range ? `-${range}` : ""}.${format}"`,
+        },
+      },
+    );
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+import { handleRouteError } from "@/lib/http";
+import { paginate, parsePageRequest } from "@/lib/pagination";
+import { listAuditRecords } from "@/lib/store";
+import { parseAuditQuery } from "@/lib/validation";
+
+// ?emailId= returns that email's whole trail, oldest first; otherwise the
+// newest records first, paged, optionally within ?from=&to=.
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const query = parseAuditQuery(searchParams);
+    const records = listAuditRecords(query);
+    if (query.emailId) return NextResponse.json({ records });
+    return NextResponse.json(
+      paginate(records.reverse(), parsePageRequest(searchParams)),
+    );
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server";
+import { operatorFrom } from "@/lib/audit";
+import { requeueEmail } from "@/lib/automation-service";
+import { handleRouteError } from "@/lib/http";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// `id` is the email's. Puts it back in the queue to be run from scratch.
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    return NextResponse.json({
+      email: requeueEmail(id, operatorFrom(request)),
+    });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
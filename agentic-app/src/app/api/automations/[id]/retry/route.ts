@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server";
+import { operatorFrom } from "@/lib/audit";
+import { retryFailedSteps } from "@/lib/automation-service";
+import { handleRouteError } from "@/lib/http";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// `id` is the email's. Re-runs only the failed steps of its latest run.
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    return NextResponse.json(await retryFailedSteps(id, operatorFrom(request)));
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import { operatorFrom } from "@/lib/audit";
+import { runEmail, runQueuedEmail } from "@/lib/automation-service";
+import { HttpError, handleRouteError, readJson } from "@/lib/http";
+import { parsePageRequest } from "@/lib/pagination";
+import { listProcessedEmails } from "@/lib/store";
+import { parseEmailPayload } from "@/lib/validation";
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  return NextResponse.json(listProcessedEmails(parsePageRequest(searchParams)));
+}
+
+// Accepts either `{ emailId }` for a queued email or `{ email }` to run an
+// ad-hoc payload without queueing it first.
+export async function POST(request: Request) {
+  try {
+    const body = (await readJson(request)) as {
+      emailId?: unknown;
+      email?: unknown;
+    } | null;
+    if (typeof body?.emailId === "string") {
+      return NextResponse.json(
+        await runQueuedEmail(body.emailId, operatorFrom(request)),
+      );
+    }
+    if (body?.email !== undefined) {
+      return NextResponse.json(
+        await runEmail(parseEmailPayload(body.email), operatorFrom(request)),
+      );
+    }
+    throw new HttpError(400, "Provide either emailId or email");
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
@@ -0,0 +1,10 @@
+import { eventStream } from "@/lib/sse";
+
+export const dynamic = "force-dynamic";
+
+// Server-sent events with every autopilot event as it happens.
+export async function GET(request: Request) {
+  return eventStream(request, (event) =>
+    event.type === "autopilot" ? event.event : null,
+  );
+}
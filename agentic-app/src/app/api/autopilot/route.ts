@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+import {
+  drainNow,
+  getAutopilotStatus,
+  pauseAutopilot,
+  resumeAutopilot,
+} from "@/lib/autopilot";
+import { HttpError, handleRouteError, readJson } from "@/lib/http";
+
+export async function GET() {
+  return NextResponse.json(getAutopilotStatus());
+}
+
+// Body: { action: "pause" | "resume" | "drain" }
+export async function POST(request: Request) {
+  try {
+    const body = (await readJson(request)) as { action?: unknown } | null;
+    switch (body?.action) {
+      case "pause":
+        return NextResponse.json(pauseAutopilot());
+      case "resume":
+        return NextResponse.json(resumeAutopilot());
+      case "drain":
+        return NextResponse.json(await drainNow());
+      default:
+        throw new HttpError(400, 'action must be "pause", "resume" or "drain"');
+    }
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
@@ -0,0 +1,8 @@
+import { NextResponse } from "next/server";
+import { listClaims } from "@/lib/claims";
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  return NextResponse.json({ claims: listClaims() });
+}
@@ -0,0 +1,28 @@
+import { HttpError, handleRouteError } from "@/lib/http";
+import { readVersion } from "@/lib/vault";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Downloads the latest version, or ?version=N.
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const requested = new URL(request.url).searchParams.get("version");
+    const number = requested === null ? undefined : Number(requested);
+    if (number !== undefined && !Number.isInteger(number)) {
+      throw new HttpError(400, "version must be a whole number");
+    }
+    const { version, data } = readVersion(id, number);
+    return new Response(new Uint8Array(data), {
+      headers: {
+        "content-type": version.contentType,
+        "content-length": String(version.size),
+        "content-disposition": `attachment; filename="${version.filename.replace(/["\\\r\n]/g, "_")}"`,
+      },
+    });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
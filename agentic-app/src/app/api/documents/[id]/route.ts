@@ -0,0 +1,62 @@
+import { NextResponse } from "next/server";
+import { operatorFrom } from "@/lib/audit";
+import { HttpError, handleRouteError } from "@/lib/http";
+import { getDocument, recordAudit } from "@/lib/store";
+import { addVersion, readDocumentForm, removeDocument } from "@/lib/vault";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const document = getDocument(id);
+    if (!document) throw new HttpError(404, `Document ${id} not found`);
+    return NextResponse.json({ document });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
+
+// Uploads a new version; name, type and tags are updated when given.
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const { file, fields } = await readDocumentForm(request);
+    const document = addVersion(id, file, fields);
+    recordAudit([
+      {
+        type: "document.uploaded",
+        emailId: null,
+        workflowId: null,
+        actor: operatorFrom(request),
+        input: { documentId: id, ...fields },
+        output: document.versions.at(-1),
+      },
+    ]);
+    return NextResponse.json({ document }, { status: 201 });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    removeDocument(id);
+    recordAudit([
+      {
+        type: "document.deleted",
+        emailId: null,
+        workflowId: null,
+        actor: operatorFrom(request),
+        input: { documentId: id },
+        output: null,
+      },
+    ]);
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
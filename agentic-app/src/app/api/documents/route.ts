@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { operatorFrom } from "@/lib/audit";
+import { handleRouteError } from "@/lib/http";
+import { listDocuments, recordAudit } from "@/lib/store";
+import { addDocument, readDocumentForm } from "@/lib/vault";
+
+export async function GET() {
+  return NextResponse.json({ documents: listDocuments() });
+}
+
+export async function POST(request: Request) {
+  try {
+    const { file, fields } = await readDocumentForm(request);
+    const document = addDocument(file, fields);
+    recordAudit([
+      {
+        type: "document.uploaded",
+        emailId: null,
+        workflowId: null,
+        actor: operatorFrom(request),
+        input: { documentId: document.id, ...fields },
+        output: document.versions.at(-1),
+      },
+    ]);
+    return NextResponse.json({ document }, { status: 201 });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
@@ -0,0 +1,65 @@
+import { NextResponse } from "next/server";
+import { operatorFrom } from "@/lib/audit";
+import { claimEmail, getClaim, holdsClaim, releaseEmail } from "@/lib/claims";
+import { HttpError, handleRouteError } from "@/lib/http";
+import { getQueuedEmail, recordAudit } from "@/lib/store";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Claims or renews the email for the caller (X-Actor). 409 while someone else
+// holds it, unless ?force=true takes it over. Renewals aren't audited; new
+// claims and takeovers are.
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    if (!getQueuedEmail(id)) {
+      throw new HttpError(404, `Email ${id} is not in the queue`);
+    }
+    const { searchParams } = new URL(request.url);
+    const actor = operatorFrom(request);
+    const previous = getClaim(id);
+    const claim = claimEmail(id, actor, {
+      force: searchParams.get("force") === "true",
+    });
+    if (!previous || !holdsClaim(previous, actor)) {
+      recordAudit([
+        {
+          type: "email.claimed",
+          emailId: id,
+          workflowId: null,
+          actor,
+          input: { takenOverFrom: previous?.actor ?? null },
+          output: { expiresAt: claim.expiresAt },
+        },
+      ]);
+    }
+    return NextResponse.json({ claim });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const actor = operatorFrom(request);
+    const released = releaseEmail(id, actor);
+    if (released) {
+      recordAudit([
+        {
+          type: "email.released",
+          emailId: id,
+          workflowId: null,
+          actor,
+          input: null,
+          output: null,
+        },
+      ]);
+    }
+    return NextResponse.json({ released });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
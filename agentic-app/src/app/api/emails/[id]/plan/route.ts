@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server";
+import { HttpError, handleRouteError } from "@/lib/http";
+import { simulateEmail } from "@/lib/simulation";
+import { getQueuedEmail, listWorkflows } from "@/lib/store";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// What a run would do for the email right now: the workflows that match, and
+// their actions with branches settled and approvals flagged.
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const email = getQueuedEmail(id);
+    if (!email) throw new HttpError(404, `Email ${id} is not in the queue`);
+    return NextResponse.json({
+      plan: simulateEmail(email, listWorkflows(), Date.now()),
+    });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
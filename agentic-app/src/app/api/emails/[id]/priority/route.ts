@@ -0,0 +1,51 @@
+import { NextResponse } from "next/server";
+import { operatorFrom } from "@/lib/audit";
+import { HttpError, handleRouteError, readJson } from "@/lib/http";
+import {
+  getPriorityOverride,
+  getQueuedEmail,
+  rankQueue,
+  recordAudit,
+  savePriorityOverride,
+} from "@/lib/store";
+import { parsePriorityOverride } from "@/lib/validation";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Body: { pinned?, priority? }; priority null goes back to the computed score.
+export async function PUT(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    if (!getQueuedEmail(id)) {
+      throw new HttpError(404, `Email ${id} is not in the queue`);
+    }
+    const update = parsePriorityOverride(await readJson(request));
+    const current = getPriorityOverride(id);
+    const override = {
+      emailId: id,
+      pinned: update.pinned ?? current?.pinned ?? false,
+      priority:
+        update.priority === undefined
+          ? (current?.priority ?? null)
+          : update.priority,
+      updatedAt: new Date().toISOString(),
+    };
+    savePriorityOverride(override);
+    recordAudit([
+      {
+        type: "priority.changed",
+        emailId: id,
+        workflowId: null,
+        actor: operatorFrom(request),
+        input: update,
+        output: { pinned: override.pinned, priority: override.priority },
+      },
+    ]);
+    const priority = rankQueue().priorities.find((item) => item.emailId === id);
+    return NextResponse.json({ priority });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
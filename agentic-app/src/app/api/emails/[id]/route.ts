@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server";
+import { operatorFrom } from "@/lib/audit";
+import { discardEmail } from "@/lib/automation-service";
+import { HttpError, handleRouteError } from "@/lib/http";
+import { getQueuedEmail } from "@/lib/store";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const email = getQueuedEmail(id);
+    if (!email) throw new HttpError(404, `Email ${id} is not in the queue`);
+    return NextResponse.json({ email });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    if (!discardEmail(id, operatorFrom(request))) {
+      throw new HttpError(404, `Email ${id} is not in the queue`);
+    }
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
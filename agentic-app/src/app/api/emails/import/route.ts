@@ -0,0 +1,68 @@
+import { NextResponse } from "next/server";
+import { operatorFrom } from "@/lib/audit";
+import { acceptEmail } from "@/lib/automation-service";
+import { HttpError, handleRouteError } from "@/lib/http";
+import { ParsedEmail, isMbox, parseEml, splitMbox } from "@/lib/mime";
+
+interface ImportFailure {
+  file: string;
+  error: string;
+}
+
+async function readBinary(blob: Blob) {
+  return Buffer.from(await blob.arrayBuffer()).toString("latin1");
+}
+
+// Accepts multipart uploads (`files` fields holding .eml or mbox archives) or a
+// single raw message/mbox as the request body.
+export async function POST(request: Request) {
+  try {
+    const contentType = request.headers.get("content-type") ?? "";
+    const sources: { name: string; raw: string }[] = [];
+
+    if (contentType.startsWith("multipart/form-data")) {
+      const form = await request.formData();
+      for (const entry of form.getAll("files")) {
+        if (typeof entry === "string") continue;
+        sources.push({ name: entry.name, raw: await readBinary(entry) });
+      }
+    } else {
+      sources.push({
+        name: "body",
+        raw: await readBinary(await request.blob()),
+      });
+    }
+
+    if (!sources.length || sources.every((source) => !source.raw.trim())) {
+      throw new HttpError(400, "Upload at least one .eml or mbox file");
+    }
+
+    const actor = operatorFrom(request);
+    const emails: ParsedEmail[] = [];
+    const failures: ImportFailure[] = [];
+    for (const source of sources) {
+      const messages = isMbox(source.raw)
+        ? splitMbox(source.raw)
+        : [source.raw];
+      messages.forEach((message, index) => {
+        try {
+          emails.push(acceptEmail(parseEml(message), actor));
+        } catch (error) {
+          failures.push({
+            file:
+              messages.length > 1 ? `${source.name}#${index + 1}` : source.name,
+            error:
+              error instanceof Error ? error.message : "Unreadable message",
+          });
+        }
+      });
+    }
+
+    return NextResponse.json(
+      { emails, failures },
+      { status: emails.length ? 201 : 422 },
+    );
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
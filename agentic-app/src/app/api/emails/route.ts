@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server";
+import { operatorFrom } from "@/lib/audit";
+import { acceptEmail } from "@/lib/automation-service";
+import { handleRouteError, readJson } from "@/lib/http";
+import { rankQueue } from "@/lib/store";
+import { parseEmailPayload } from "@/lib/validation";
+
+// Highest priority first; `priorities` explains each email's rank.
+export async function GET() {
+  return NextResponse.json(rankQueue());
+}
+
+export async function POST(request: Request) {
+  try {
+    const email = parseEmailPayload(await readJson(request));
+    return NextResponse.json(
+      { email: acceptEmail(email, operatorFrom(request)) },
+      { status: 201 },
+    );
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
@@ -0,0 +1,9 @@
+import { eventStream } from "@/lib/sse";
+
+export const dynamic = "force-dynamic";
+
+// Server-sent events for dashboards: queue changes, run progress, log lines,
+// notifications, claims and autopilot events, each tagged with its `type`.
+export async function GET(request: Request) {
+  return eventStream(request, (event) => event);
+}
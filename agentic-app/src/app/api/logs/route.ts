@@ -0,0 +1,8 @@
+import { NextResponse } from "next/server";
+import { parsePageRequest } from "@/lib/pagination";
+import { listActionLog } from "@/lib/store";
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  return NextResponse.json(listActionLog(parsePageRequest(searchParams)));
+}
@@ -0,0 +1,18 @@
+import { handleRouteError } from "@/lib/http";
+import { formatMetrics } from "@/lib/metrics";
+import { getAnalytics, listApprovals, listQueue } from "@/lib/store";
+
+// Scrape target for Prometheus.
+export async function GET() {
+  try {
+    return new Response(
+      formatMetrics(getAnalytics(), {
+        queued: listQueue().length,
+        pendingApprovals: listApprovals("pending").length,
+      }),
+      { headers: { "Content-Type": "text/plain; version=0.0.4" } },
+    );
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
@@ -0,0 +1,10 @@
+import { NextResponse } from "next/server";
+import { parsePageRequest } from "@/lib/pagination";
+import { listWhatsAppMessages } from "@/lib/store";
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  return NextResponse.json(
+    listWhatsAppMessages(parsePageRequest(searchParams)),
+  );
+}
@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+import { operatorFrom } from "@/lib/audit";
+import { HttpError, handleRouteError, readJson } from "@/lib/http";
+import { discardReply, editReply } from "@/lib/reply-sender";
+import { getReplyDraft } from "@/lib/store";
+import { parseReplyEdit } from "@/lib/validation";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const reply = getReplyDraft(id);
+    if (!reply) throw new HttpError(404, `Reply ${id} not found`);
+    return NextResponse.json({ reply });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
+
+// Body: { to?, subject?, body? }; only drafts and failed replies can change.
+export async function PATCH(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const reply = editReply(
+      id,
+      parseReplyEdit(await readJson(request)),
+      operatorFrom(request),
+    );
+    return NextResponse.json({ reply });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    return NextResponse.json({
+      reply: discardReply(id, operatorFrom(request)),
+    });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+import { operatorFrom } from "@/lib/audit";
+import { handleRouteError } from "@/lib/http";
+import { sendReply } from "@/lib/reply-sender";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// A relay failure keeps the draft (now "failed") so it can be edited and retried.
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const { ok, reply } = await sendReply(id, operatorFrom(request));
+    return ok
+      ? NextResponse.json({ reply })
+      : NextResponse.json({ error: reply.error, reply }, { status: 502 });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { HttpError, handleRouteError } from "@/lib/http";
+import { paginate, parsePageRequest } from "@/lib/pagination";
+import { ReplyStatus, replyStatuses } from "@/lib/replies";
+import { listReplyDrafts } from "@/lib/store";
+
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get("status");
+    if (status && !replyStatuses.includes(status as ReplyStatus)) {
+      throw new HttpError(
+        400,
+        `status must be one of ${replyStatuses.join(", ")}`,
+      );
+    }
+    return NextResponse.json(
+      paginate(
+        listReplyDrafts({
+          status: (status as ReplyStatus | null) ?? undefined,
+          emailId: searchParams.get("emailId") ?? undefined,
+        }),
+        parsePageRequest(searchParams),
+      ),
+    );
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server";
+import { handleRouteError } from "@/lib/http";
+import { parsePageRequest } from "@/lib/pagination";
+import { parseSearchQuery } from "@/lib/search";
+import { searchAll } from "@/lib/store";
+
+// ?q=&in=queue,processed,log&workflow=&action=&from=&to=&minConfidence=&status=
+// with `offset` and `limit` applied to each list.
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    return NextResponse.json(
+      searchAll(parseSearchQuery(searchParams), parsePageRequest(searchParams)),
+    );
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import { HttpError, handleRouteError, readJson } from "@/lib/http";
+import { checkRouting, dryRunWorkflow } from "@/lib/simulation";
+import { listWorkflows } from "@/lib/store";
+import { parseEmailPayload, parseWorkflow } from "@/lib/validation";
+
+// Replays the regression corpus against the saved workflows.
+export async function GET() {
+  try {
+    return NextResponse.json(checkRouting(listWorkflows()));
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
+
+// Dry-runs an unsaved `workflow` against the corpus, or against `emails` when
+// given. Nothing is queued, recorded or sent.
+export async function POST(request: Request) {
+  try {
+    const body = (await readJson(request)) as {
+      workflow?: unknown;
+      emails?: unknown;
+    } | null;
+    if (body?.emails !== undefined && !Array.isArray(body.emails)) {
+      throw new HttpError(400, "emails must be an array");
+    }
+    const emails = Array.isArray(body?.emails)
+      ? body.emails.map(parseEmailPayload)
+      : undefined;
+    if (body?.workflow === undefined) {
+      return NextResponse.json(checkRouting(listWorkflows(), emails));
+    }
+    return NextResponse.json(
+      dryRunWorkflow(parseWorkflow(body.workflow), listWorkflows(), emails),
+    );
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
@@ -0,0 +1,11 @@
+import { NextResponse } from "next/server";
+import { isOpen } from "@/lib/sla";
+import { getSlaReport, listSlaClocks } from "@/lib/store";
+
+// Compliance per workflow plus the clocks that are still open.
+export async function GET() {
+  return NextResponse.json({
+    report: getSlaReport(),
+    clocks: listSlaClocks().filter(isOpen),
+  });
+}
@@ -0,0 +1,88 @@
+import { NextResponse } from "next/server";
+import { webhookActor } from "@/lib/audit";
+import { acceptEmail } from "@/lib/automation-service";
+import { HttpError, handleRouteError } from "@/lib/http";
+import {
+  normalizeInbound,
+  signatureHeader,
+  verifySignature,
+} from "@/lib/inbound";
+import { EmailAttachment } from "@/lib/mime";
+import { claimMessageId, releaseMessageId } from "@/lib/store";
+
+async function readFields(contentType: string, body: Buffer) {
+  if (contentType.startsWith("application/json")) {
+    try {
+      return { fields: JSON.parse(body.toString("utf8")), files: [] };
+    } catch {
+      throw new HttpError(400, "Request body must be valid JSON");
+    }
+  }
+
+  if (
+    contentType.startsWith("multipart/form-data") ||
+    contentType.startsWith("application/x-www-form-urlencoded")
+  ) {
+    const form = await new Response(new Uint8Array(body), {
+      headers: { "content-type": contentType },
+    }).formData();
+    const fields: Record<string, unknown> = {};
+    const files: EmailAttachment[] = [];
+    for (const [key, value] of form.entries()) {
+      if (typeof value === "string") {
+        fields[key] ??= value;
+      } else {
+        files.push({
+          filename: value.name,
+          contentType: value.type || "application/octet-stream",
+          size: value.size,
+        });
+      }
+    }
+    return { fields, files };
+  }
+
+  throw new HttpError(
+    415,
+    `Unsupported content type ${contentType || "(none)"}`,
+  );
+}
+
+export async function POST(request: Request) {
+  try {
+    const secret = process.env.INBOUND_WEBHOOK_SECRET;
+    if (!secret) {
+      throw new HttpError(503, "INBOUND_WEBHOOK_SECRET is not configured");
+    }
+
+    const body = Buffer.from(await request.arrayBuffer());
+    if (!verifySignature(secret, body, request.headers.get(signatureHeader))) {
+      throw new HttpError(401, "Invalid webhook signature");
+    }
+
+    const { fields, files } = await readFields(
+      request.headers.get("content-type") ?? "",
+      body,
+    );
+    const email = normalizeInbound(fields, files);
+    const messageId = email.messageId ?? email.id;
+    if (!claimMessageId(messageId)) {
+      return NextResponse.json(
+        { error: `Message ${messageId} was already received` },
+        { status: 409 },
+      );
+    }
+
+    try {
+      return NextResponse.json(
+        { email: acceptEmail(email, webhookActor) },
+        { status: 202 },
+      );
+    } catch (error) {
+      releaseMessageId(messageId);
+      throw error;
+    }
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
@@ -0,0 +1,64 @@
+import { NextResponse } from "next/server";
+import { HttpError, handleRouteError } from "@/lib/http";
+import { verifySignature } from "@/lib/inbound";
+import { applyProviderStatus } from "@/lib/notifications";
+import { parseStatusCallback } from "@/lib/validation";
+
+const statusMap = {
+  sent: "sent",
+  delivered: "delivered",
+  read: "delivered",
+  failed: "failed",
+} as const;
+
+// Subscription handshake from the Meta app dashboard.
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const token = process.env.WHATSAPP_VERIFY_TOKEN;
+  if (
+    token &&
+    searchParams.get("hub.mode") === "subscribe" &&
+    searchParams.get("hub.verify_token") === token
+  ) {
+    return new NextResponse(searchParams.get("hub.challenge") ?? "");
+  }
+  return NextResponse.json({ error: "Verification failed" }, { status: 403 });
+}
+
+// Message status callbacks, signed with the app secret.
+export async function POST(request: Request) {
+  try {
+    const secret = process.env.WHATSAPP_APP_SECRET;
+    if (!secret) {
+      throw new HttpError(503, "WHATSAPP_APP_SECRET is not configured");
+    }
+    const body = Buffer.from(await request.arrayBuffer());
+    if (
+      !verifySignature(secret, body, request.headers.get("x-hub-signature-256"))
+    ) {
+      throw new HttpError(401, "Invalid webhook signature");
+    }
+
+    let payload: unknown;
+    try {
+      payload = JSON.parse(body.toString("utf8"));
+    } catch {
+      throw new HttpError(400, "Request body must be valid JSON");
+    }
+
+    let updated = 0;
+    for (const status of parseStatusCallback(payload)) {
+      // "constructor" and friends are not statuses.
+      if (!status.id || !Object.hasOwn(statusMap, status.status ?? "")) {
+        continue;
+      }
+      const mapped = statusMap[status.status as keyof typeof statusMap];
+      if (applyProviderStatus(status.id, mapped, status.error)) {
+        updated += 1;
+      }
+    }
+    return NextResponse.json({ updated });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
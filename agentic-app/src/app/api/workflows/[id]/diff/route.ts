@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+import { HttpError, handleRouteError } from "@/lib/http";
+import { getWorkflowVersion, listWorkflowVersions } from "@/lib/store";
+import { diffWorkflows } from "@/lib/workflow-versions";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+function versionParam(searchParams: URLSearchParams, key: string) {
+  const value = searchParams.get(key);
+  if (value === null || value === "") return null;
+  const version = Number(value);
+  if (!Number.isInteger(version) || version < 1) {
+    throw new HttpError(400, `${key} must be a version number`);
+  }
+  return version;
+}
+
+// GET /api/workflows/:id/diff?from=2&to=3. `to` defaults to the latest
+// version and `from` to the one before it.
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const toVersion =
+      versionParam(searchParams, "to") ?? listWorkflowVersions(id)[0]?.version;
+    const to = toVersion ? getWorkflowVersion(id, toVersion) : null;
+    if (!to) throw new HttpError(404, `Workflow ${id} has no such version`);
+    const fromVersion = versionParam(searchParams, "from") ?? to.version - 1;
+    const from = fromVersion ? getWorkflowVersion(id, fromVersion) : null;
+    if (fromVersion && !from) {
+      throw new HttpError(404, `Workflow ${id} has no version ${fromVersion}`);
+    }
+    return NextResponse.json({
+      from,
+      to,
+      changes: diffWorkflows(from?.workflow ?? null, to.workflow),
+    });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+import { operatorFrom } from "@/lib/audit";
+import { HttpError, handleRouteError, readJson } from "@/lib/http";
+import { currentWorkflowVersion, rollbackWorkflow } from "@/lib/store";
+import { parseRollback } from "@/lib/validation";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Body: { version }. Saves that version's definition as a new version.
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const version = parseRollback(await readJson(request));
+    const workflow = rollbackWorkflow(id, version, operatorFrom(request));
+    if (!workflow) {
+      throw new HttpError(404, `Workflow ${id} has no version ${version}`);
+    }
+    return NextResponse.json({
+      workflow,
+      version: currentWorkflowVersion(id),
+    });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
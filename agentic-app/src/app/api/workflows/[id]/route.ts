@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+import { operatorFrom } from "@/lib/audit";
+import { HttpError, handleRouteError, readJson } from "@/lib/http";
+import {
+  currentWorkflowVersion,
+  deleteWorkflow,
+  getWorkflow,
+  saveWorkflow,
+} from "@/lib/store";
+import { parseWorkflow } from "@/lib/validation";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const workflow = getWorkflow(id);
+    if (!workflow) throw new HttpError(404, `Workflow ${id} not found`);
+    return NextResponse.json({ workflow });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
+
+export async function PUT(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    if (!getWorkflow(id)) throw new HttpError(404, `Workflow ${id} not found`);
+    const workflow = parseWorkflow(await readJson(request));
+    return NextResponse.json({
+      workflow: saveWorkflow(
+        { ...workflow, id },
+        { source: "updated", actor: operatorFrom(request) },
+      ),
+      version: currentWorkflowVersion(id),
+    });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    if (!deleteWorkflow(id, operatorFrom(request)))
+      throw new HttpError(404, `Workflow ${id} not found`);
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
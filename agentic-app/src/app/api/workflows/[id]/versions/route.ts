@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+import { HttpError, handleRouteError } from "@/lib/http";
+import { listWorkflowVersions } from "@/lib/store";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Newest first; still answers after the workflow itself was deleted.
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const versions = listWorkflowVersions(id);
+    if (!versions.length) {
+      throw new HttpError(404, `Workflow ${id} has no history`);
+    }
+    return NextResponse.json({ versions });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
@@ -0,0 +1,20 @@
+import { listWorkflows } from "@/lib/store";
+import { serializeWorkflowDocument } from "@/lib/workflow-definition";
+
+// GET /api/workflows/export?format=yaml&id=a&id=b — omit `id` to export all.
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const format = searchParams.get("format") === "json" ? "json" : "yaml";
+  const ids = searchParams.getAll("id");
+  const workflows = listWorkflows().filter(
+    (workflow) => !ids.length || ids.includes(workflow.id),
+  );
+
+  return new Response(serializeWorkflowDocument(workflows, format), {
+    headers: {
+      "Content-Type":
+        format === "json" ? "application/json" : "application/yaml",
+      "Content-Disposition": `attachment; filename="workflows.${format}"`,
+    },
+  });
+}
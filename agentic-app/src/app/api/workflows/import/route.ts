@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+import { operatorFrom } from "@/lib/audit";
+import { HttpError, handleRouteError } from "@/lib/http";
+import {
+  createWorkflow,
+  getWorkflow,
+  listWorkflows,
+  saveWorkflow,
+} from "@/lib/store";
+import { toHttpError } from "@/lib/validation";
+import { detectFormat, parseWorkflowDocument } from "@/lib/workflow-definition";
+import { WorkflowChange } from "@/lib/workflow-versions";
+
+// Upserts every workflow in a JSON or YAML definition document. Nothing is
+// saved unless the whole document validates.
+export async function POST(request: Request) {
+  try {
+    const text = await request.text();
+    if (!text.trim()) {
+      throw new HttpError(400, "Request body must be a workflow document");
+    }
+    const { searchParams } = new URL(request.url);
+    const format = detectFormat(
+      text,
+      searchParams.get("format") ?? request.headers.get("content-type"),
+    );
+
+    let document;
+    try {
+      document = parseWorkflowDocument(text, format);
+    } catch (error) {
+      throw toHttpError(error);
+    }
+
+    const change: WorkflowChange = {
+      source: "imported",
+      actor: operatorFrom(request),
+    };
+    const created: string[] = [];
+    const updated: string[] = [];
+    for (const workflow of document.workflows) {
+      if (workflow.id && getWorkflow(workflow.id)) {
+        saveWorkflow(workflow, change);
+        updated.push(workflow.id);
+      } else {
+        created.push(createWorkflow(workflow, change).id);
+      }
+    }
+
+    return NextResponse.json({ created, updated, workflows: listWorkflows() });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
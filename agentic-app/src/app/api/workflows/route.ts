@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { operatorFrom } from "@/lib/audit";
+import { HttpError, handleRouteError, readJson } from "@/lib/http";
+import { createWorkflow, getWorkflow, listWorkflows } from "@/lib/store";
+import { parseWorkflow } from "@/lib/validation";
+
+export async function GET() {
+  return NextResponse.json({ workflows: listWorkflows() });
+}
+
+export async function POST(request: Request) {
+  try {
+    const workflow = parseWorkflow(await readJson(request));
+    if (workflow.id && getWorkflow(workflow.id)) {
+      throw new HttpError(409, `Workflow ${workflow.id} already exists`);
+    }
+    return NextResponse.json(
+      {
+        workflow: createWorkflow(workflow, {
+          source: "created",
+          actor: operatorFrom(request),
+        }),
+      },
+      { status: 201 },
+    );
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
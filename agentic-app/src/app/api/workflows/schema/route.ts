@@ -0,0 +1,8 @@
+import { NextResponse } from "next/server";
+import { workflowDocumentSchema } from "@/lib/workflow-definition";
+
+export async function GET() {
+  return NextResponse.json(workflowDocumentSchema, {
+    headers: { "Content-Type": "application/schema+json" },
+  });
+}
@@ -1,5 +1,26 @@
 import { AgentDashboard } from "@/components/AgentDashboard";
+import { getAutopilotStatus } from "@/lib/autopilot";
+import { listClaims } from "@/lib/claims";
+import { parseSearchQuery } from "@/lib/search";
+import { getSnapshot } from "@/lib/store";
 
-export default function Home() {
-  return <AgentDashboard />;
+export const dynamic = "force-dynamic";
+
+interface HomeProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+export default async function Home({ searchParams }: HomeProps) {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(await searchParams)) {
+    if (typeof value === "string") params.set(key, value);
+  }
+  return (
+    <AgentDashboard
+      initialState={getSnapshot()}
+      initialAutopilot={getAutopilotStatus()}
+      initialClaims={listClaims()}
+      initialSearch={parseSearchQuery(params)}
+    />
+  );
 }
@@ -0,0 +1,324 @@
+"use client";
+
+import { useState } from "react";
+import { PluginActionFields } from "@/components/PluginActionFields";
+import { PluginAction, pluginOf } from "@/lib/action-plugins";
+import { WorkflowAction } from "@/lib/approvals";
+import { BranchAction } from "@/lib/branches";
+import { AutomationActionType } from "@/lib/types";
+import { automationTypes } from "@/lib/workflows";
+
+interface ActionListEditorProps {
+  actions: BranchAction[];
+  onChange: (actions: BranchAction[]) => void;
+}
+
+const fieldClass =
+  "rounded-lg border border-zinc-200 px-2 py-1 text-sm text-zinc-900 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-500/30";
+
+// Plugin actions come from the plugin form; these are the ones typed inline.
+const inlineTypes = automationTypes.filter((type) => type !== "custom");
+
+function newAction(type: AutomationActionType): WorkflowAction {
+  return { id: "", type, summary: "", details: "" };
+}
+
+export function ActionListEditor({ actions, onChange }: ActionListEditorProps) {
+  const [dragging, setDragging] = useState<number | null>(null);
+  // Index of the plugin action being edited; "new" while adding one.
+  const [pluginEditor, setPluginEditor] = useState<number | "new" | null>(null);
+
+  const update = (index: number, patch: Partial<BranchAction>) =>
+    onChange(
+      actions.map((action, other) =>
+        other === index ? { ...action, ...patch } : action,
+      ),
+    );
+
+  const move = (from: number, to: number) => {
+    if (from === to || to < 0 || to >= actions.length) return;
+    const next = [...actions];
+    const [moved] = next.splice(from, 1);
+    next.splice(to, 0, moved);
+    onChange(next);
+    setPluginEditor(null);
+  };
+
+  const remove = (index: number) => {
+    onChange(actions.filter((_, other) => other !== index));
+    setPluginEditor(null);
+  };
+
+  const savePlugin = (action: PluginAction) => {
+    onChange(
+      pluginEditor === "new"
+        ? [...actions, action]
+        : actions.map((item, index) =>
+            index === pluginEditor ? action : item,
+          ),
+    );
+    setPluginEditor(null);
+  };
+
+  return (
+    <div className="flex flex-col gap-2 text-xs text-zinc-600">
+      <span className="font-medium">
+        Actions, in the order they run (drag to reorder)
+      </span>
+      <ol className="flex flex-col gap-2">
+        {actions.map((action, index) => {
+          const plugin = pluginOf(action);
+          const { when, otherwise } = action;
+          return (
+            <li
+              key={`${action.id}-${index}`}
+              onDragOver={(event) => {
+                if (dragging !== null) event.preventDefault();
+              }}
+              onDrop={(event) => {
+                event.preventDefault();
+                if (dragging !== null) move(dragging, index);
+                setDragging(null);
+              }}
+              className={`flex flex-col gap-2 rounded-xl border p-2 ${
+                dragging === index
+                  ? "border-indigo-300 bg-indigo-50/60"
+                  : "border-zinc-200"
+              }`}
+            >
+              <div className="flex items-center gap-2">
+                <span
+                  draggable
+                  onDragStart={(event) => {
+                    event.dataTransfer.effectAllowed = "move";
+                    event.dataTransfer.setData("text/plain", String(index));
+                    setDragging(index);
+                  }}
+                  onDragEnd={() => setDragging(null)}
+                  title="Drag to reorder"
+                  className="cursor-grab select-none px-1 text-zinc-400"
+                >
+                  ⠿
+                </span>
+                <span className="w-4 text-zinc-400">{index + 1}.</span>
+                {plugin ? (
+                  <>
+                    <span className="font-medium text-zinc-800">
+                      {plugin.label}
+                    </span>
+                    <span className="truncate">{action.summary}</span>
+                  </>
+                ) : (
+                  <>
+                    <select
+                      value={action.type}
+                      onChange={(event) =>
+                        update(index, {
+                          type: event.target.value as AutomationActionType,
+                        })
+                      }
+                      aria-label="Action type"
+                      className={fieldClass}
+                    >
+                      {inlineTypes.map((type) => (
+                        <option key={type} value={type}>
+                          {type}
+                        </option>
+                      ))}
+                    </select>
+                    <input
+                      value={action.summary}
+                      onChange={(event) =>
+                        update(index, { summary: event.target.value })
+                      }
+                      placeholder="Summary"
+                      className={`${fieldClass} min-w-0 flex-1`}
+                    />
+                  </>
+                )}
+                <div className="ml-auto flex items-center gap-1">
+                  <button
+                    type="button"
+                    onClick={() => move(index, index - 1)}
+                    disabled={index === 0}
+                    aria-label="Move up"
+                    className="px-1 text-zinc-500 enabled:hover:text-zinc-900 disabled:opacity-30"
+                  >
+                    ↑
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => move(index, index + 1)}
+                    disabled={index === actions.length - 1}
+                    aria-label="Move down"
+                    className="px-1 text-zinc-500 enabled:hover:text-zinc-900 disabled:opacity-30"
+                  >
+                    ↓
+                  </button>
+                  {plugin ? (
+                    <button
+                      type="button"
+                      onClick={() => setPluginEditor(index)}
+                      className="font-medium text-indigo-600 hover:text-indigo-500"
+                    >
+                      Edit
+                    </button>
+                  ) : null}
+                  <button
+                    type="button"
+                    onClick={() => remove(index)}
+                    className="font-medium text-rose-600 hover:text-rose-500"
+                  >
+                    Remove
+                  </button>
+                </div>
+              </div>
+              {plugin ? null : (
+                <input
+                  value={action.details}
+                  onChange={(event) =>
+                    update(index, { details: event.target.value })
+                  }
+                  placeholder="Details (optional)"
+                  className={fieldClass}
+                />
+              )}
+              {when === undefined ? (
+                <button
+                  type="button"
+                  onClick={() => update(index, { when: "deadline < 24h" })}
+                  className="self-start font-medium text-indigo-600 hover:text-indigo-500"
+                >
+                  + Only if…
+                </button>
+              ) : (
+                <div className="flex flex-col gap-1 rounded-lg bg-zinc-50 p-2">
+                  <label className="flex items-center gap-2 font-medium">
+                    If
+                    <input
+                      value={when}
+                      onChange={(event) =>
+                        update(index, { when: event.target.value })
+                      }
+                      placeholder="deadline < 24h"
+                      className={`${fieldClass} flex-1 font-mono`}
+                    />
+                    <button
+                      type="button"
+                      onClick={() =>
+                        update(index, { when: undefined, otherwise: undefined })
+                      }
+                      className="font-medium text-zinc-500 hover:text-zinc-700"
+                    >
+                      Always run
+                    </button>
+                  </label>
+                  {otherwise && pluginOf(otherwise) ? (
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">Else</span>
+                      <span className="text-zinc-800">
+                        {pluginOf(otherwise)?.label} · {otherwise.summary}
+                      </span>
+                      <button
+                        type="button"
+                        onClick={() => update(index, { otherwise: undefined })}
+                        className="ml-auto font-medium text-rose-600 hover:text-rose-500"
+                      >
+                        Remove
+                      </button>
+                    </div>
+                  ) : otherwise ? (
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">Else</span>
+                      <select
+                        value={otherwise.type}
+                        onChange={(event) =>
+                          update(index, {
+                            otherwise: {
+                              ...otherwise,
+                              type: event.target.value as AutomationActionType,
+                            },
+                          })
+                        }
+                        aria-label="Else action type"
+                        className={fieldClass}
+                      >
+                        {inlineTypes.map((type) => (
+                          <option key={type} value={type}>
+                            {type}
+                          </option>
+                        ))}
+                      </select>
+                      <input
+                        value={otherwise.summary}
+                        onChange={(event) =>
+                          update(index, {
+                            otherwise: {
+                              ...otherwise,
+                              summary: event.target.value,
+                            },
+                          })
+                        }
+                        placeholder="Summary"
+                        className={`${fieldClass} min-w-0 flex-1`}
+                      />
+                      <button
+                        type="button"
+                        onClick={() => update(index, { otherwise: undefined })}
+                        className="font-medium text-rose-600 hover:text-rose-500"
+                      >
+                        Remove
+                      </button>
+                    </div>
+                  ) : (
+                    <button
+                      type="button"
+                      onClick={() =>
+                        update(index, { otherwise: newAction("draft_reply") })
+                      }
+                      className="self-start font-medium text-indigo-600 hover:text-indigo-500"
+                    >
+                      + Else…
+                    </button>
+                  )}
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+      {pluginEditor !== null ? (
+        <PluginActionFields
+          key={String(pluginEditor)}
+          action={
+            pluginEditor === "new"
+              ? null
+              : (actions[pluginEditor] as PluginAction)
+          }
+          onSave={savePlugin}
+          onCancel={() => setPluginEditor(null)}
+        />
+      ) : null}
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={() => onChange([...actions, newAction("analysis")])}
+          className="rounded-full border border-zinc-200 px-3 py-1 font-medium text-zinc-700 transition hover:bg-zinc-100"
+        >
+          Add step
+        </button>
+        <button
+          type="button"
+          onClick={() => setPluginEditor("new")}
+          className="rounded-full border border-zinc-200 px-3 py-1 font-medium text-zinc-700 transition hover:bg-zinc-100"
+        >
+          Add plugin action
+        </button>
+      </div>
+      <span className="font-normal text-zinc-400">
+        Conditions use deadline (e.g. &lt; 24h, &gt;= 3d), urgency (= immediate,
+        soon, normal), amount and documents; combine with AND and OR.
+      </span>
+    </div>
+  );
+}
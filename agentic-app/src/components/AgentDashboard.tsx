@@ -1,44 +1,135 @@
 "use client";
 
-import { useEffect, useMemo, useRef, useState } from "react";
-import { runAutomation } from "@/lib/agent";
-import { defaultWorkflows, seedEmails } from "@/lib/data";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { ActionListEditor } from "@/components/ActionListEditor";
+import { AnalyticsPanel } from "@/components/AnalyticsPanel";
+import { ApplicationBoard } from "@/components/ApplicationBoard";
+import { ApprovalInbox } from "@/components/ApprovalInbox";
+import { AuditTrail } from "@/components/AuditTrail";
+import { AutopilotPanel } from "@/components/AutopilotPanel";
+import { DocumentVault } from "@/components/DocumentVault";
+import { FailedRuns } from "@/components/FailedRuns";
+import {
+  OperatorField,
+  useOperatorName,
+  useOperatorSession,
+} from "@/components/OperatorField";
+import { ReplyDrafts } from "@/components/ReplyDrafts";
+import { SearchPanel } from "@/components/SearchPanel";
+import { WorkflowHistory } from "@/components/WorkflowHistory";
+import { WorkflowList } from "@/components/WorkflowList";
+import { ExecutedEmail } from "@/lib/action-plugins";
+import type { AnalyticsReport } from "@/lib/analytics";
+import type { AnalyzedEmail } from "@/lib/analyzers";
+import {
+  ApiError,
+  AutomationRunResult,
+  agentApi,
+  setOperatorName,
+  setOperatorSession,
+} from "@/lib/api-client";
+import {
+  ApprovalDecision,
+  ApprovalRequest,
+  WorkflowAction,
+} from "@/lib/approvals";
+import type { AuditActor } from "@/lib/audit";
+import type { AutopilotEvent, AutopilotStatus } from "@/lib/autopilot";
+import { BranchAction } from "@/lib/branches";
+import type { DeliveryStatus, TrackedNotification } from "@/lib/channels";
+import type { EmailClaim } from "@/lib/claims";
+import { DocumentType, DocumentedEmail, VaultDocument } from "@/lib/documents";
+import type { AgentEvent } from "@/lib/events";
+import { Urgency, extractEntities } from "@/lib/extraction";
+import { attachmentsOf } from "@/lib/mime";
+import { EmailPriority, maxPriority, orderByPriority } from "@/lib/priority";
+import { ReplyDraft, ReplyEdit } from "@/lib/replies";
+import {
+  ActionOutcome,
+  OutcomeEmail,
+  OutcomeLogEntry,
+} from "@/lib/run-outcomes";
+import { SearchQuery } from "@/lib/search";
+import type { SimulationResult, WorkflowDryRun } from "@/lib/simulation";
+import {
+  EscalatingWorkflow,
+  EscalationAction,
+  SlaClock,
+  SlaComplianceRow,
+  describeSlaClock,
+  escalationActions,
+  nextDueClock,
+} from "@/lib/sla";
+import type { AgentSnapshot } from "@/lib/store";
+import { Application, ApplicationStage } from "@/lib/tracker";
+import {
+  describeConditions,
+  formatCondition,
+  isEnabled,
+  triggerConditions,
+} from "@/lib/triggers";
 import {
   ActionLogEntry,
-  AutomationActionType,
   EmailPayload,
   ProcessedEmail,
-  WhatsAppNotification,
   Workflow,
 } from "@/lib/types";
-
-const automationTypes: AutomationActionType[] = [
-  "analysis",
-  "draft_reply",
-  "submit_application",
-  "notify_whatsapp",
-  "update_tracker",
-  "coordinate",
-  "collect_documents",
-  "custom",
-];
+import {
+  ValidationIssue,
+  WorkflowValidationError,
+  toDefinition,
+  validateWorkflow,
+} from "@/lib/workflow-definition";
+import { VersionedEmail } from "@/lib/workflow-versions";
+import { automationTypes } from "@/lib/workflows";
 
 interface NewWorkflowFormState {
   name: string;
   description: string;
   keywords: string;
-  actions: string;
+  conditions: string;
+  actions: BranchAction[];
   autopilot: boolean;
   slaMinutes: number;
+  escalation: EscalationAction;
 }
 
 const defaultFormState: NewWorkflowFormState = {
   name: "",
   description: "",
   keywords: "",
-  actions: "",
+  conditions: "",
+  actions: [],
   autopilot: true,
   slaMinutes: 30,
+  escalation: "notify",
+};
+
+function formFromWorkflow(workflow: Workflow): NewWorkflowFormState {
+  const conditions = triggerConditions(workflow);
+  return {
+    name: workflow.name,
+    description: workflow.description,
+    keywords: workflow.trigger.keywords.join(", "),
+    conditions: conditions ? formatCondition(conditions) : "",
+    actions: [...workflow.actions],
+    autopilot: workflow.autopilot,
+    slaMinutes: workflow.slaMinutes,
+    escalation: (workflow as EscalatingWorkflow).escalation?.action ?? "notify",
+  };
+}
+
+// "id v3" when the run recorded which version handled it.
+function workflowVersionLabel(processed: ProcessedEmail, workflowId: string) {
+  const version = (processed as VersionedEmail).workflowVersions?.[workflowId];
+  return version ? `${workflowId} v${version}` : workflowId;
+}
+
+const deliveryStatusStyles: Record<DeliveryStatus, string> = {
+  queued: "bg-zinc-100 text-zinc-600",
+  sent: "bg-sky-100 text-sky-700",
+  delivered: "bg-emerald-100 text-emerald-700",
+  failed: "bg-rose-100 text-rose-700",
 };
 
 const highlightColors = [
@@ -63,18 +154,29 @@ function formatRelativeTime(dateIso: string) {
   return `${days} days ago`;
 }
 
-function computeProcessingVelocity(processed: ProcessedEmail[]) {
-  if (!processed.length) return 0;
-  const recent = processed.slice(0, 5);
-  const totalRuntime = recent.reduce((acc, item) => {
-    const runtime = item.actions.reduce(
-      (actionAcc, action) => actionAcc + action.runtimeSeconds,
-      0,
-    );
-    return acc + runtime;
-  }, 0);
-  const avgSeconds = totalRuntime / recent.length || 1;
-  return Math.round((60 / avgSeconds) * 10) / 10;
+const urgencyStyles: Record<Urgency, string> = {
+  immediate: "bg-rose-100 text-rose-700",
+  soon: "bg-amber-100 text-amber-700",
+  normal: "bg-zinc-100 text-zinc-600",
+};
+
+function missingDocuments(processed: ProcessedEmail) {
+  const { documents } = processed as DocumentedEmail;
+  return documents?.missing.map((item) => item.label).join(", ") ?? "";
+}
+
+function formatPoints(points: number) {
+  return points >= 0 ? `+${points}` : `${points}`;
+}
+
+// Older records predate pluggable analyzers and came from the agent itself.
+function analyzerLabel(processed: ProcessedEmail) {
+  const { analysis } = processed as AnalyzedEmail;
+  if (!analysis) return "agent";
+  const label = `${analysis.analyzer} · ${analysis.category}`;
+  return analysis.fallbackFrom
+    ? `${label} (${analysis.fallbackFrom} unavailable)`
+    : label;
 }
 
 function generateMockEmail(counter: number): EmailPayload {
@@ -122,7 +224,7 @@ Thanks!`,
   const template = templates[counter % templates.length];
 
   return {
-    id: `email-generated-${counter}`,
+    id: `email-generated-${Date.now()}-${counter}`,
     subject: template.subject,
     sender: template.sender,
     senderName: template.sender.split("@")[0],
@@ -134,21 +236,116 @@ Thanks!`,
   };
 }
 
-export function AgentDashboard() {
-  const [workflows, setWorkflows] = useState<Workflow[]>(defaultWorkflows);
-  const [emailQueue, setEmailQueue] = useState<EmailPayload[]>(seedEmails);
-  const [processedEmails, setProcessedEmails] = useState<ProcessedEmail[]>([]);
+interface AgentDashboardProps {
+  initialState: AgentSnapshot;
+  initialAutopilot: AutopilotStatus;
+  initialClaims: EmailClaim[];
+  initialSearch: SearchQuery;
+}
+
+// A run in progress anywhere, as reported on the event stream.
+interface LiveRun {
+  actor: AuditActor;
+  outcomes: ActionOutcome[];
+}
+
+function actorName(actor: AuditActor) {
+  return actor.name ?? actor.type;
+}
+
+export function AgentDashboard({
+  initialState,
+  initialAutopilot,
+  initialClaims,
+  initialSearch,
+}: AgentDashboardProps) {
+  const [workflows, setWorkflows] = useState<Workflow[]>(
+    initialState.workflows,
+  );
+  const [emailQueue, setEmailQueue] = useState<EmailPayload[]>(
+    initialState.emailQueue,
+  );
+  const [processedEmails, setProcessedEmails] = useState<ProcessedEmail[]>(
+    initialState.processedEmails.items,
+  );
+  const [auditEmailId, setAuditEmailId] = useState<string | null>(null);
   const [selectedEmailId, setSelectedEmailId] = useState<string | null>(
-    seedEmails[0]?.id ?? null,
+    initialState.emailQueue[0]?.id ?? null,
+  );
+  const [actionLog, setActionLog] = useState<ActionLogEntry[]>(
+    initialState.actionLog.items,
+  );
+  const [actionLogNextOffset, setActionLogNextOffset] = useState(
+    initialState.actionLog.nextOffset,
   );
-  const [actionLog, setActionLog] = useState<ActionLogEntry[]>([]);
   const [whatsappMessages, setWhatsappMessages] = useState<
-    WhatsAppNotification[]
-  >([]);
+    TrackedNotification[]
+  >(initialState.whatsappMessages.items);
+  const [whatsappNextOffset, setWhatsappNextOffset] = useState(
+    initialState.whatsappMessages.nextOffset,
+  );
+  const [approvals, setApprovals] = useState<ApprovalRequest[]>(
+    initialState.approvals,
+  );
+  const [slaClocks, setSlaClocks] = useState<SlaClock[]>(
+    initialState.slaClocks,
+  );
+  const [slaReport, setSlaReport] = useState<SlaComplianceRow[]>(
+    initialState.slaReport,
+  );
+  const [analytics, setAnalytics] = useState<AnalyticsReport>(
+    initialState.analytics,
+  );
+  const [applications, setApplications] = useState<Application[]>(
+    initialState.applications,
+  );
+  const [documents, setDocuments] = useState<VaultDocument[]>(
+    initialState.documents,
+  );
+  const [priorities, setPriorities] = useState<EmailPriority[]>(
+    initialState.priorities,
+  );
+  const [replyDrafts, setReplyDrafts] = useState<ReplyDraft[]>(
+    initialState.replyDrafts,
+  );
+  const [autopilot, setAutopilot] =
+    useState<AutopilotStatus>(initialAutopilot);
+  const [now, setNow] = useState(() => Date.now());
+  const [totals, setTotals] = useState({
+    completed: initialState.processedEmails.total,
+    events: initialState.actionLog.total,
+    whatsapp: initialState.whatsappMessages.total,
+  });
+  const [isRunning, setIsRunning] = useState(false);
   const [formState, setFormState] =
     useState<NewWorkflowFormState>(defaultFormState);
+  const [designerIssues, setDesignerIssues] = useState<ValidationIssue[]>([]);
+  const [editingWorkflowId, setEditingWorkflowId] = useState<string | null>(
+    null,
+  );
+  const [dryRun, setDryRun] = useState<WorkflowDryRun | null>(null);
+  const [plan, setPlan] = useState<SimulationResult | null>(null);
   const [toast, setToast] = useState<string | null>(null);
+  const [claims, setClaims] = useState<EmailClaim[]>(initialClaims);
+  const [liveRuns, setLiveRuns] = useState<Record<string, LiveRun>>({});
+  const operatorName = useOperatorName();
+  const operatorSession = useOperatorSession();
   const generatedCountRef = useRef(0);
+  // Runs, log lines and messages can arrive both in a response and on the
+  // event stream; these keep them from being shown twice.
+  const appliedRunIdsRef = useRef(new Set<string>());
+  const seenLogIdsRef = useRef(
+    new Set(initialState.actionLog.items.map((log) => log.id)),
+  );
+  const seenMessageIdsRef = useRef(
+    new Set(initialState.whatsappMessages.items.map((message) => message.id)),
+  );
+  const analyticsWindowRef = useRef(initialState.analytics.windowHours);
+
+  useEffect(() => {
+    setOperatorName(operatorName);
+    setOperatorSession(operatorSession);
+  }, [operatorName, operatorSession]);
 
   useEffect(() => {
     if (toast) {
@@ -158,53 +355,614 @@ export function AgentDashboard() {
     return () => {};
   }, [toast]);
 
+  // Re-render SLA countdowns twice a minute.
+  useEffect(() => {
+    const id = setInterval(() => setNow(Date.now()), 30_000);
+    return () => clearInterval(id);
+  }, []);
+
+  const refreshSla = useCallback(async () => {
+    try {
+      const { report, clocks } = await agentApi.getSla();
+      setSlaReport(report);
+      setSlaClocks(clocks);
+    } catch {
+      // Countdowns keep using the last known clocks.
+    }
+  }, []);
+
+  const refreshAnalytics = useCallback(async () => {
+    try {
+      setAnalytics(await agentApi.getAnalytics(analyticsWindowRef.current));
+    } catch {
+      // Charts keep the last report until the next refresh.
+    }
+  }, []);
+
+  // Hourly buckets roll over while the dashboard stays open.
+  useEffect(() => {
+    const id = setInterval(refreshAnalytics, 60_000);
+    return () => clearInterval(id);
+  }, [refreshAnalytics]);
+
+  const handleAnalyticsWindow = async (hours: number) => {
+    analyticsWindowRef.current = hours;
+    await refreshAnalytics();
+  };
+
+  const refreshQueue = useCallback(async () => {
+    try {
+      const queue = await agentApi.listQueue();
+      setEmailQueue(queue.emails);
+      setPriorities(queue.priorities);
+    } catch {
+      // The feed keeps its last known order.
+    }
+  }, []);
+
+  // Deadlines and SLA clocks move scores as time passes.
+  useEffect(() => {
+    const id = setInterval(refreshQueue, 30_000);
+    return () => clearInterval(id);
+  }, [refreshQueue]);
+
+  const refreshApplications = useCallback(async () => {
+    try {
+      setApplications((await agentApi.listApplications()).items);
+    } catch {
+      // The board keeps the last known applications.
+    }
+  }, []);
+
+  // Known messages are updated in place, e.g. when a delivery goes out.
+  const prependActivity = useCallback(
+    (logs: ActionLogEntry[], whatsapp: TrackedNotification[]) => {
+      const freshLogs = logs.filter(
+        (log) => !seenLogIdsRef.current.has(log.id),
+      );
+      const freshMessages = whatsapp.filter(
+        (message) => !seenMessageIdsRef.current.has(message.id),
+      );
+      freshLogs.forEach((log) => seenLogIdsRef.current.add(log.id));
+      freshMessages.forEach((message) =>
+        seenMessageIdsRef.current.add(message.id),
+      );
+      const updates = new Map(whatsapp.map((message) => [message.id, message]));
+      setActionLog((prev) => [...freshLogs, ...prev]);
+      setActionLogNextOffset((prev) =>
+        prev === null ? null : prev + freshLogs.length,
+      );
+      setWhatsappMessages((prev) => [
+        ...freshMessages,
+        ...prev.map((message) => updates.get(message.id) ?? message),
+      ]);
+      setWhatsappNextOffset((prev) =>
+        prev === null ? null : prev + freshMessages.length,
+      );
+      setTotals((prev) => ({
+        ...prev,
+        events: prev.events + freshLogs.length,
+        whatsapp: prev.whatsapp + freshMessages.length,
+      }));
+    },
+    [],
+  );
+
+  // Shared by manual runs and runs the background autopilot reports.
+  const applyRun = useCallback(
+    (emailId: string, result: AutomationRunResult) => {
+      const {
+        processedEmail,
+        logs,
+        whatsappMessages: whatsapp,
+        approvals: held,
+        replies,
+      } = result;
+      const { runId } = processedEmail as OutcomeEmail;
+      if (runId) {
+        if (appliedRunIdsRef.current.has(runId)) return;
+        appliedRunIdsRef.current.add(runId);
+      }
+      setProcessedEmails((prev) => [
+        processedEmail,
+        ...prev.filter((item) => item.email.id !== emailId),
+      ]);
+      setEmailQueue((prev) => prev.filter((item) => item.id !== emailId));
+      // Falls back to the first email still in the queue.
+      setSelectedEmailId((prev) => (prev === emailId ? null : prev));
+      setApprovals((prev) => [...held, ...prev]);
+      setReplyDrafts((prev) => [
+        ...replies,
+        ...prev.filter((item) => !replies.some(({ id }) => id === item.id)),
+      ]);
+      prependActivity(logs, whatsapp);
+      refreshSla();
+      refreshQueue();
+      refreshApplications();
+      refreshAnalytics();
+      setTotals((prev) => ({ ...prev, completed: prev.completed + 1 }));
+    },
+    [
+      prependActivity,
+      refreshAnalytics,
+      refreshApplications,
+      refreshQueue,
+      refreshSla,
+    ],
+  );
+
+  const applyAutopilotEvent = useCallback((event: AutopilotEvent) => {
+    setAutopilot((prev) => {
+      const heldEmailIds = prev.heldEmailIds.filter(
+        (id) => id !== event.emailId,
+      );
+      if (event.kind === "held" && event.emailId) {
+        heldEmailIds.push(event.emailId);
+      }
+      return {
+        ...prev,
+        paused:
+          event.kind === "paused"
+            ? true
+            : event.kind === "resumed"
+              ? false
+              : prev.paused,
+        processed: prev.processed + (event.kind === "processed" ? 1 : 0),
+        heldEmailIds,
+        events: [{ ...event, result: undefined }, ...prev.events].slice(0, 50),
+      };
+    });
+  }, []);
+
+  // Live feed shared by every open dashboard, so operators see each other's
+  // runs and claims; EventSource reconnects by itself. Autopilot runs arrive
+  // as run events like anyone else's.
+  useEffect(() => {
+    const source = new EventSource("/api/events");
+    source.onmessage = (message) => {
+      const event = JSON.parse(message.data) as AgentEvent;
+      switch (event.type) {
+        case "queue":
+          setEmailQueue(event.emails);
+          setPriorities(event.priorities);
+          break;
+        case "run.started":
+          setLiveRuns((prev) => ({
+            ...prev,
+            [event.emailId]: { actor: event.actor, outcomes: [] },
+          }));
+          break;
+        case "run.step":
+          setLiveRuns((prev) => {
+            const run = prev[event.emailId];
+            if (!run) return prev;
+            return {
+              ...prev,
+              [event.emailId]: {
+                ...run,
+                outcomes: [...run.outcomes, event.outcome],
+              },
+            };
+          });
+          break;
+        case "run.finished":
+          setLiveRuns((prev) => {
+            const next = { ...prev };
+            delete next[event.emailId];
+            return next;
+          });
+          if (event.result) applyRun(event.emailId, event.result);
+          break;
+        case "activity":
+          prependActivity(event.logs, event.notifications);
+          break;
+        case "claims":
+          setClaims(event.claims);
+          break;
+        case "autopilot":
+          applyAutopilotEvent(event.event);
+          break;
+      }
+    };
+    return () => source.close();
+  }, [applyAutopilotEvent, applyRun, prependActivity]);
+
+  const liveClaims = claims.filter(
+    (claim) => Date.parse(claim.expiresAt) > now,
+  );
+  const claimOf = (emailId: string) =>
+    liveClaims.find((claim) => claim.emailId === emailId) ?? null;
+  // Claims belong to the tab that made them, whatever name it works under.
+  const isMine = (claim: EmailClaim) =>
+    claim.actor.type === "operator" &&
+    Boolean(operatorSession) &&
+    claim.actor.session === operatorSession;
+  const myClaimIds = liveClaims
+    .filter(isMine)
+    .map((claim) => claim.emailId)
+    .join(",");
+
+  // Claims lapse after two minutes unless renewed.
+  useEffect(() => {
+    if (!myClaimIds) return () => {};
+    const id = setInterval(async () => {
+      for (const emailId of myClaimIds.split(",")) {
+        try {
+          await agentApi.claimEmail(emailId);
+        } catch {
+          // Taken over or run elsewhere; the claims event says which.
+        }
+      }
+    }, 60_000);
+    return () => clearInterval(id);
+  }, [myClaimIds]);
+
+  const rankedQueue = useMemo(
+    () => orderByPriority(emailQueue, priorities),
+    [emailQueue, priorities],
+  );
+
+  const priorityOf = (emailId: string) =>
+    priorities.find((priority) => priority.emailId === emailId) ?? null;
+
   const selectedEmail = useMemo(() => {
     if (selectedEmailId) {
       return emailQueue.find((email) => email.id === selectedEmailId) ?? null;
     }
-    return emailQueue[0] ?? null;
-  }, [emailQueue, selectedEmailId]);
+    return rankedQueue[0] ?? null;
+  }, [emailQueue, rankedQueue, selectedEmailId]);
+
+  const selectedPriority = selectedEmail ? priorityOf(selectedEmail.id) : null;
+
+  const entities = useMemo(
+    () => (selectedEmail ? extractEntities(selectedEmail) : null),
+    [selectedEmail],
+  );
+
+  const planEmailId = selectedEmail?.id ?? null;
+
+  // Planned again whenever a workflow changes, since any of them may start or
+  // stop matching.
+  useEffect(() => {
+    if (!planEmailId) return () => {};
+    let cancelled = false;
+    const load = async () => {
+      try {
+        const result = await agentApi.planEmail(planEmailId);
+        if (!cancelled) setPlan(result);
+      } catch {
+        // The brief says it is still working out the plan.
+      }
+    };
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [planEmailId, workflows]);
+
+  const selectedPlan = plan?.emailId === planEmailId ? plan : null;
+  const selectedRun = selectedEmail ? liveRuns[selectedEmail.id] : undefined;
+  const selectedClaim = selectedEmail ? claimOf(selectedEmail.id) : null;
+  const lockedByOther =
+    Boolean(selectedRun) || Boolean(selectedClaim && !isMine(selectedClaim));
 
   const stats = useMemo(
     () => ({
       queue: emailQueue.length,
-      completed: processedEmails.length,
-      whatsapp: whatsappMessages.length,
-      velocity: computeProcessingVelocity(processedEmails),
+      completed: totals.completed,
+      whatsapp: totals.whatsapp,
+      // Runs completed since the top of the current hour.
+      lastHour: analytics.runsPerHour.at(-1) ?? 0,
     }),
-    [emailQueue.length, processedEmails, whatsappMessages.length],
+    [analytics.runsPerHour, emailQueue.length, totals],
   );
 
-  const handleRunAutomation = (email: EmailPayload | null) => {
-    if (!email) return;
+  const handleRunAutomation = async (email: EmailPayload | null) => {
+    if (!email || isRunning) return;
 
-    const { processedEmail, logs, whatsappMessages: whatsapp } = runAutomation(
-      email,
-      workflows,
+    setIsRunning(true);
+    let result: AutomationRunResult;
+    try {
+      result = await agentApi.runAutomation(email.id);
+    } catch (error) {
+      setToast(error instanceof Error ? error.message : "Automation failed");
+      return;
+    } finally {
+      setIsRunning(false);
+    }
+    applyRun(email.id, result);
+    const held = result.approvals.length;
+    setToast(
+      held
+        ? `Automation finished for “${email.subject}”; ${held} actions await approval`
+        : `Automation finished for “${email.subject}”`,
     );
+  };
 
-    setProcessedEmails((prev) => [processedEmail, ...prev].slice(0, 15));
-    setEmailQueue((prev) => prev.filter((item) => item.id !== email.id));
-    setSelectedEmailId((prev) => {
-      if (prev === email.id) {
-        const next = emailQueue.filter((item) => item.id !== email.id)[0];
-        return next?.id ?? null;
+  const handleRetryRun = async (emailId: string) => {
+    try {
+      const result = await agentApi.retryFailedSteps(emailId);
+      setProcessedEmails((prev) =>
+        prev.map((item) =>
+          item.email.id === emailId ? result.processedEmail : item,
+        ),
+      );
+      setReplyDrafts((prev) => [
+        ...result.replies,
+        ...prev.filter(
+          (item) => !result.replies.some(({ id }) => id === item.id),
+        ),
+      ]);
+      prependActivity(result.logs, []);
+      refreshApplications();
+      setToast(
+        `Retried failed steps for “${result.processedEmail.email.subject}”`,
+      );
+    } catch (error) {
+      setToast(error instanceof Error ? error.message : "Retry failed");
+    }
+  };
+
+  const handleRequeue = async (emailId: string) => {
+    try {
+      const { email } = await agentApi.requeueEmail(emailId);
+      setEmailQueue((prev) => [
+        email,
+        ...prev.filter((item) => item.id !== email.id),
+      ]);
+      refreshSla();
+      refreshQueue();
+      setToast(`Sent “${email.subject}” back to the queue`);
+    } catch (error) {
+      setToast(error instanceof Error ? error.message : "Requeue failed");
+    }
+  };
+
+  // `force` takes the email over from whoever holds it.
+  const handleClaim = async (emailId: string, force = false) => {
+    try {
+      const { claim } = await agentApi.claimEmail(emailId, force);
+      setClaims((prev) => [
+        claim,
+        ...prev.filter((item) => item.emailId !== emailId),
+      ]);
+    } catch (error) {
+      setToast(error instanceof Error ? error.message : "Claim failed");
+    }
+  };
+
+  const handleRelease = async (emailId: string) => {
+    try {
+      await agentApi.releaseEmail(emailId);
+      setClaims((prev) => prev.filter((item) => item.emailId !== emailId));
+    } catch (error) {
+      setToast(error instanceof Error ? error.message : "Release failed");
+    }
+  };
+
+  const handleControlAutopilot = async (
+    action: "pause" | "resume" | "drain",
+  ) => {
+    try {
+      // Runs made while draining arrive through the event stream.
+      setAutopilot(await agentApi.controlAutopilot(action));
+    } catch (error) {
+      setToast(error instanceof Error ? error.message : "Autopilot failed");
+    }
+  };
+
+  const handleDecideApproval = async (
+    approval: ApprovalRequest,
+    decision: ApprovalDecision,
+  ) => {
+    try {
+      const result = await agentApi.decideApproval(approval.id, decision);
+      setApprovals((prev) => prev.filter((item) => item.id !== approval.id));
+      setReplyDrafts((prev) => [...result.replies, ...prev]);
+      prependActivity(result.logs, result.whatsappMessages);
+      refreshApplications();
+      setToast(
+        `${result.approval.status === "approved" ? "Approved" : "Rejected"}: ${result.approval.action.summary}`,
+      );
+    } catch (error) {
+      // Someone else already decided it; drop it from this inbox too.
+      if (error instanceof ApiError && error.status === 409) {
+        setApprovals((prev) => prev.filter((item) => item.id !== approval.id));
       }
-      return prev;
-    });
-    setActionLog((prev) => [...logs, ...prev].slice(0, 40));
-    setWhatsappMessages((prev) => [...whatsapp, ...prev].slice(0, 20));
-    setToast(`Automation finished for “${email.subject}”`);
+      setToast(error instanceof Error ? error.message : "Decision failed");
+    }
   };
 
-  const handleGenerateEmail = () => {
+  const replaceReply = (reply: ReplyDraft) =>
+    setReplyDrafts((prev) =>
+      reply.status === "sent" || reply.status === "discarded"
+        ? prev.filter((item) => item.id !== reply.id)
+        : prev.map((item) => (item.id === reply.id ? reply : item)),
+    );
+
+  const handleSendReply = async (reply: ReplyDraft, edit: ReplyEdit) => {
+    try {
+      await agentApi.updateReply(reply.id, edit);
+      const sent = await agentApi.sendReply(reply.id);
+      replaceReply(sent);
+      setToast(`Reply sent to ${sent.to}`);
+    } catch (error) {
+      // A relay failure leaves the draft in place marked as failed.
+      if (error instanceof ApiError && error.status === 502) {
+        replaceReply({
+          ...reply,
+          ...edit,
+          status: "failed",
+          error: error.message,
+        });
+      }
+      setToast(error instanceof Error ? error.message : "Send failed");
+    }
+  };
+
+  const handleDiscardReply = async (reply: ReplyDraft) => {
+    try {
+      replaceReply(await agentApi.discardReply(reply.id));
+    } catch (error) {
+      setToast(error instanceof Error ? error.message : "Discard failed");
+    }
+  };
+
+  const handleSetPriority = async (
+    email: EmailPayload,
+    update: { pinned?: boolean; priority?: number | null },
+  ) => {
+    try {
+      await agentApi.setPriority(email.id, update);
+      await refreshQueue();
+    } catch (error) {
+      setToast(error instanceof Error ? error.message : "Priority failed");
+    }
+  };
+
+  const handleMoveApplication = async (
+    application: Application,
+    stage: ApplicationStage,
+  ) => {
+    try {
+      const updated = await agentApi.updateApplication(application.id, {
+        stage,
+      });
+      setApplications((prev) =>
+        prev.map((item) => (item.id === updated.id ? updated : item)),
+      );
+    } catch (error) {
+      setToast(error instanceof Error ? error.message : "Move failed");
+    }
+  };
+
+  const handleUploadDocument = async (
+    file: File,
+    fields: { type?: DocumentType; tags?: string },
+    documentId?: string,
+  ) => {
+    try {
+      const stored = await agentApi.uploadDocument(file, fields, documentId);
+      setDocuments((prev) => [
+        stored,
+        ...prev.filter((item) => item.id !== stored.id),
+      ]);
+      setToast(`${stored.name} saved as version ${stored.versions.length}`);
+    } catch (error) {
+      setToast(error instanceof Error ? error.message : "Upload failed");
+    }
+  };
+
+  const handleDeleteDocument = async (document: VaultDocument) => {
+    try {
+      await agentApi.deleteDocument(document.id);
+      setDocuments((prev) => prev.filter((item) => item.id !== document.id));
+    } catch (error) {
+      setToast(error instanceof Error ? error.message : "Delete failed");
+    }
+  };
+
+  const handleLoadOlderEvents = async () => {
+    if (actionLogNextOffset === null) return;
+    try {
+      const page = await agentApi.listActionLog(actionLogNextOffset);
+      setActionLog((prev) => [...prev, ...page.items]);
+      setActionLogNextOffset(page.nextOffset);
+    } catch (error) {
+      setToast(error instanceof Error ? error.message : "Could not load log");
+    }
+  };
+
+  const handleLoadOlderMessages = async () => {
+    if (whatsappNextOffset === null) return;
+    try {
+      const page = await agentApi.listNotifications(whatsappNextOffset);
+      page.items.forEach((message) =>
+        seenMessageIdsRef.current.add(message.id),
+      );
+      setWhatsappMessages((prev) => [...prev, ...page.items]);
+      setWhatsappNextOffset(page.nextOffset);
+    } catch (error) {
+      setToast(
+        error instanceof Error ? error.message : "Could not load messages",
+      );
+    }
+  };
+
+  const handleGenerateEmail = async () => {
     generatedCountRef.current += 1;
-    const email = generateMockEmail(generatedCountRef.current);
+    let email: EmailPayload;
+    try {
+      email = await agentApi.ingestEmail(
+        generateMockEmail(generatedCountRef.current),
+      );
+    } catch (error) {
+      setToast(error instanceof Error ? error.message : "Ingestion failed");
+      return;
+    }
     setEmailQueue((prev) => [email, ...prev]);
+    refreshSla();
+    refreshQueue();
     setToast(`New email ingested: ${email.subject}`);
     setSelectedEmailId(email.id);
   };
 
+  const handleImportMail = async (
+    event: React.ChangeEvent<HTMLInputElement>,
+  ) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = "";
+    if (!files.length) return;
+
+    let imported: EmailPayload[];
+    let failed: number;
+    try {
+      const result = await agentApi.importMail(files);
+      imported = result.emails;
+      failed = result.failures.length;
+    } catch (error) {
+      setToast(error instanceof Error ? error.message : "Import failed");
+      return;
+    }
+
+    const importedIds = new Set(imported.map((email) => email.id));
+    setEmailQueue((prev) => [
+      ...imported,
+      ...prev.filter((email) => !importedIds.has(email.id)),
+    ]);
+    setSelectedEmailId(imported[0]?.id ?? null);
+    refreshSla();
+    refreshQueue();
+    setToast(
+      failed
+        ? `Imported ${imported.length} emails, ${failed} could not be parsed`
+        : `Imported ${imported.length} emails`,
+    );
+  };
+
+  const handleImportWorkflows = async (
+    event: React.ChangeEvent<HTMLInputElement>,
+  ) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    try {
+      const result = await agentApi.importWorkflows(
+        await file.text(),
+        file.name,
+      );
+      setWorkflows(result.workflows);
+      setDesignerIssues([]);
+      setToast(
+        `Imported workflows: ${result.created.length} created, ${result.updated.length} updated`,
+      );
+    } catch (error) {
+      if (error instanceof ApiError) setDesignerIssues(error.issues);
+      setToast(error instanceof Error ? error.message : "Import failed");
+    }
+  };
+
   const handleFormChange = <K extends keyof NewWorkflowFormState>(
     key: K,
     value: NewWorkflowFormState[K],
@@ -215,71 +973,249 @@ export function AgentDashboard() {
     }));
   };
 
-  const handleCreateWorkflow = (event: React.FormEvent<HTMLFormElement>) => {
-    event.preventDefault();
+  // Validates the designer form; reports issues and returns null when invalid.
+  // When editing, fields the form doesn't cover keep their saved values.
+  const workflowFromForm = (base?: Workflow): Workflow | null => {
     if (!formState.name.trim()) {
       setToast("Workflow name required");
-      return;
+      return null;
     }
     const keywords = formState.keywords
       .split(",")
       .map((item) => item.trim().toLowerCase())
       .filter(Boolean);
 
-    const actions = formState.actions
-      .split("\n")
-      .map((line) => line.trim())
-      .filter(Boolean)
-      .map((line, index) => {
-        const [rawType, rawSummary, rawDetails] = line.split("|").map((part) =>
-          (part ?? "").trim(),
-        );
-        const type = automationTypes.includes(
-          rawType as AutomationActionType,
-        )
-          ? (rawType as AutomationActionType)
-          : "custom";
-
-        return {
-          id: `custom-${formState.name}-${index}`,
-          type,
-          summary: rawSummary || `Custom action ${index + 1}`,
-          details:
-            rawDetails ||
-            "Automatically executed as part of the custom workflow.",
-        };
-      });
+    // New actions have no id yet; the validator assigns one.
+    const toInput = (
+      { id, summary, details, ...action }: WorkflowAction,
+      index: number,
+    ) => ({
+      ...action,
+      ...(id ? { id } : {}),
+      summary: summary.trim() || `Custom action ${index + 1}`,
+      details:
+        details.trim() ||
+        "Automatically executed as part of the custom workflow.",
+    });
+    const actions = formState.actions.map(
+      ({ otherwise, ...action }, index) => ({
+        ...toInput(action, index),
+        ...(otherwise ? { otherwise: toInput(otherwise, index) } : {}),
+      }),
+    );
 
     if (!actions.length) {
       actions.push({
-        id: `custom-${formState.name}-default`,
         type: "analysis",
         summary: "Analyze email context",
         details: "Generate structured summary and recommended response.",
       });
     }
 
-    const workflow: Workflow = {
-      id: formState.name.toLowerCase().replace(/\s+/g, "-"),
-      name: formState.name,
-      description:
-        formState.description ||
-        "Custom automation created from the dashboard.",
-      trigger: {
-        keywords: keywords.length ? keywords : [formState.name],
-        categories: ["custom"],
-        autoDetect: true,
-      },
-      actions,
-      autopilot: formState.autopilot,
-      slaMinutes: formState.slaMinutes,
-      successMetric: "Automation executed per custom configuration",
-      playbookHighlights: ["Custom workflow"],
-    };
+    const definition = base ? toDefinition(base) : null;
+    try {
+      return validateWorkflow({
+        ...definition,
+        name: formState.name,
+        description:
+          formState.description ||
+          "Custom automation created from the dashboard.",
+        trigger: {
+          categories: ["custom"],
+          autoDetect: true,
+          ...definition?.trigger,
+          keywords: keywords.length ? keywords : [formState.name],
+          conditions: formState.conditions.trim() || undefined,
+        },
+        actions,
+        autopilot: formState.autopilot,
+        slaMinutes: formState.slaMinutes,
+        escalation:
+          formState.escalation === "notify"
+            ? { ...definition?.escalation, action: formState.escalation }
+            : { action: formState.escalation },
+        successMetric:
+          definition?.successMetric ??
+          "Automation executed per custom configuration",
+        playbookHighlights: definition?.playbookHighlights ?? [
+          "Custom workflow",
+        ],
+      });
+    } catch (error) {
+      if (error instanceof WorkflowValidationError) {
+        setDesignerIssues(error.issues);
+        setToast(error.message);
+        return null;
+      }
+      throw error;
+    }
+  };
+
+  const handleDryRun = async () => {
+    const workflow = workflowFromForm();
+    if (!workflow) return;
+    try {
+      setDryRun(await agentApi.simulateWorkflow(workflow));
+      setDesignerIssues([]);
+    } catch (error) {
+      if (error instanceof ApiError) setDesignerIssues(error.issues);
+      setToast(error instanceof Error ? error.message : "Dry run failed");
+    }
+  };
 
-    setWorkflows((prev) => [workflow, ...prev]);
+  const editingWorkflow = editingWorkflowId
+    ? (workflows.find((workflow) => workflow.id === editingWorkflowId) ?? null)
+    : null;
+
+  const resetDesigner = () => {
+    setDesignerIssues([]);
+    setDryRun(null);
     setFormState(defaultFormState);
-    setToast(`Workflow “${workflow.name}” created`);
+    setEditingWorkflowId(null);
+  };
+
+  const handleEditWorkflow = (workflow: Workflow) => {
+    setFormState(formFromWorkflow(workflow));
+    setEditingWorkflowId(workflow.id);
+    setDesignerIssues([]);
+    setDryRun(null);
+  };
+
+  const replaceWorkflow = (stored: Workflow) => {
+    setWorkflows((prev) =>
+      prev.some((workflow) => workflow.id === stored.id)
+        ? prev.map((workflow) =>
+            workflow.id === stored.id ? stored : workflow,
+          )
+        : [stored, ...prev],
+    );
+  };
+
+  const handleCreateWorkflow = async (
+    event: React.FormEvent<HTMLFormElement>,
+  ) => {
+    event.preventDefault();
+    const workflow = workflowFromForm(editingWorkflow ?? undefined);
+    if (!workflow) return;
+
+    let stored: Workflow;
+    try {
+      stored = editingWorkflow
+        ? await agentApi.updateWorkflow(editingWorkflow.id, workflow)
+        : await agentApi.createWorkflow(workflow);
+    } catch (error) {
+      if (error instanceof ApiError) setDesignerIssues(error.issues);
+      setToast(error instanceof Error ? error.message : "Workflow not saved");
+      return;
+    }
+
+    replaceWorkflow(stored);
+    resetDesigner();
+    setToast(
+      editingWorkflow
+        ? `Workflow “${stored.name}” updated`
+        : `Workflow “${stored.name}” created`,
+    );
+  };
+
+  // The copy opens in the designer so it can be changed before it matters.
+  const handleDuplicateWorkflow = async (workflow: Workflow) => {
+    try {
+      const copy = await agentApi.createWorkflow(
+        validateWorkflow({
+          ...toDefinition(workflow),
+          id: undefined,
+          name: `${workflow.name} (copy)`,
+        }),
+      );
+      replaceWorkflow(copy);
+      handleEditWorkflow(copy);
+      setToast(`Duplicated as “${copy.name}”`);
+    } catch (error) {
+      setToast(error instanceof Error ? error.message : "Duplicate failed");
+    }
+  };
+
+  const handleToggleWorkflow = async (workflow: Workflow) => {
+    const enabled = !isEnabled(workflow);
+    try {
+      const stored = await agentApi.updateWorkflow(
+        workflow.id,
+        validateWorkflow({ ...toDefinition(workflow), enabled }),
+      );
+      replaceWorkflow(stored);
+      setToast(`“${stored.name}” ${enabled ? "enabled" : "disabled"}`);
+    } catch (error) {
+      setToast(error instanceof Error ? error.message : "Workflow not saved");
+    }
+  };
+
+  const handleDeleteWorkflow = async (workflow: Workflow) => {
+    try {
+      await agentApi.deleteWorkflow(workflow.id);
+    } catch (error) {
+      setToast(error instanceof Error ? error.message : "Delete failed");
+      return;
+    }
+    setWorkflows((prev) => prev.filter((item) => item.id !== workflow.id));
+    if (editingWorkflowId === workflow.id) resetDesigner();
+    setToast(`Workflow “${workflow.name}” deleted`);
+  };
+
+  const slaBadge = (emailId: string) => {
+    const clock = nextDueClock(slaClocks, emailId);
+    if (!clock) return null;
+    const breached = new Date(clock.dueAt).getTime() <= now;
+    return (
+      <span
+        className={`rounded-full px-2 py-1 text-xs font-medium ${
+          breached ? "bg-rose-100 text-rose-700" : "bg-amber-100 text-amber-700"
+        }`}
+      >
+        {describeSlaClock(clock, now)}
+      </span>
+    );
+  };
+
+  // The tooltip lists why the email ranks where it does.
+  const priorityBadge = (emailId: string) => {
+    const priority = priorityOf(emailId);
+    if (!priority) return null;
+    return (
+      <span
+        title={priority.factors
+          .map((factor) => `${factor.label} (${formatPoints(factor.points)})`)
+          .join("\n")}
+        className="rounded-full bg-zinc-100 px-2 py-1 text-xs text-zinc-500"
+      >
+        {priority.pinned ? "📌 " : ""}Rank #{priority.rank} · {priority.score}
+      </span>
+    );
+  };
+
+  // Who holds the email, or how far a run of it has got.
+  const claimBadge = (emailId: string) => {
+    const run = liveRuns[emailId];
+    if (run) {
+      return (
+        <span className="rounded-full bg-sky-100 px-2 py-1 text-xs font-medium text-sky-700">
+          Running · {actorName(run.actor)} · {run.outcomes.length} steps done
+        </span>
+      );
+    }
+    const claim = claimOf(emailId);
+    if (!claim) return null;
+    return (
+      <span className="rounded-full bg-violet-100 px-2 py-1 text-xs font-medium text-violet-700">
+        🔒 {isMine(claim) ? "You" : actorName(claim.actor)}
+      </span>
+    );
+  };
+
+  const complianceLabel = (workflowId: string) => {
+    const row = slaReport.find((item) => item.workflowId === workflowId);
+    if (!row || row.compliance === null) return "";
+    return ` · ${Math.round(row.compliance * 100)}% met (${row.met + row.breached})`;
   };
 
   return (
@@ -297,6 +1233,7 @@ export function AgentDashboard() {
             automatically, and surface confirmations on WhatsApp without leaving
             this dashboard.
           </p>
+          <OperatorField />
         </div>
         <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
           <div className="rounded-2xl bg-white p-4 shadow-inner ring-1 ring-black/5">
@@ -318,14 +1255,20 @@ export function AgentDashboard() {
             </p>
           </div>
           <div className="rounded-2xl bg-white p-4 shadow-inner ring-1 ring-black/5">
-            <p className="text-sm text-zinc-500">Runs / minute (avg)</p>
+            <p className="text-sm text-zinc-500">Runs this hour</p>
             <p className="text-2xl font-semibold text-zinc-900">
-              {stats.velocity.toFixed(1)}
+              {stats.lastHour}
             </p>
           </div>
         </div>
       </header>
 
+      <SearchPanel
+        workflows={workflows}
+        initialQuery={initialSearch}
+        onSelectEmail={setSelectedEmailId}
+      />
+
       <main className="grid flex-1 gap-6 lg:grid-cols-[minmax(0,0.9fr)_minmax(0,1.1fr)] xl:grid-cols-[minmax(0,1fr)_minmax(0,1.2fr)_minmax(0,0.8fr)]">
         <section className="flex flex-col gap-4 rounded-3xl bg-white/70 p-6 shadow-sm ring-1 ring-black/5 backdrop-blur">
           <div className="flex items-center justify-between">
@@ -337,13 +1280,25 @@ export function AgentDashboard() {
                 Enriched emails ready for autopilot routing
               </p>
             </div>
-            <button
-              type="button"
-              onClick={handleGenerateEmail}
-              className="rounded-full bg-zinc-900 px-5 py-2 text-sm font-medium text-white shadow-sm transition hover:bg-zinc-700"
-            >
-              Ingest sample
-            </button>
+            <div className="flex items-center gap-2">
+              <label className="cursor-pointer rounded-full border border-zinc-200 px-4 py-2 text-sm font-medium text-zinc-700 transition hover:bg-zinc-100">
+                Import mail
+                <input
+                  type="file"
+                  multiple
+                  accept=".eml,.mbox,message/rfc822,application/mbox"
+                  onChange={handleImportMail}
+                  className="sr-only"
+                />
+              </label>
+              <button
+                type="button"
+                onClick={handleGenerateEmail}
+                className="rounded-full bg-zinc-900 px-5 py-2 text-sm font-medium text-white shadow-sm transition hover:bg-zinc-700"
+              >
+                Ingest sample
+              </button>
+            </div>
           </div>
           <div className="flex flex-col gap-3">
             {emailQueue.length === 0 ? (
@@ -351,7 +1306,7 @@ export function AgentDashboard() {
                 Inbox is empty. Ingest a sample to keep the agent busy.
               </div>
             ) : (
-              emailQueue.map((email, index) => (
+              rankedQueue.map((email) => (
                 <button
                   key={email.id}
                   type="button"
@@ -383,9 +1338,14 @@ export function AgentDashboard() {
                         {tag}
                       </span>
                     ))}
-                    <span className="rounded-full bg-zinc-100 px-2 py-1 text-xs text-zinc-500">
-                      Rank #{index + 1}
-                    </span>
+                    {priorityBadge(email.id)}
+                    {slaBadge(email.id)}
+                    {claimBadge(email.id)}
+                    {autopilot.heldEmailIds.includes(email.id) ? (
+                      <span className="rounded-full bg-amber-100 px-2 py-1 text-xs font-medium text-amber-700">
+                        Needs human
+                      </span>
+                    ) : null}
                   </div>
                 </button>
               ))
@@ -406,13 +1366,67 @@ export function AgentDashboard() {
             <button
               type="button"
               onClick={() => handleRunAutomation(selectedEmail)}
-              disabled={!selectedEmail}
+              disabled={!selectedEmail || isRunning || lockedByOther}
               className="rounded-full bg-indigo-600 px-5 py-2 text-sm font-medium text-white shadow-sm transition enabled:hover:bg-indigo-500 disabled:cursor-not-allowed disabled:bg-zinc-300"
             >
-              Run automation
+              {isRunning ? "Running…" : "Run automation"}
             </button>
           </header>
 
+          {selectedEmail ? (
+            <div className="flex flex-wrap items-center justify-between gap-2 rounded-2xl bg-zinc-50 px-4 py-2 text-sm text-zinc-600">
+              {selectedRun ? (
+                <span>
+                  {actorName(selectedRun.actor)} is running this email ·{" "}
+                  {selectedRun.outcomes.length} steps done
+                </span>
+              ) : selectedClaim && isMine(selectedClaim) ? (
+                <>
+                  <span>You are working on this email</span>
+                  <button
+                    type="button"
+                    onClick={() => handleRelease(selectedEmail.id)}
+                    className="font-medium text-zinc-700 hover:text-zinc-900"
+                  >
+                    Release
+                  </button>
+                </>
+              ) : selectedClaim ? (
+                <>
+                  <span>
+                    🔒 {actorName(selectedClaim.actor)} is working on this email
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => {
+                      if (
+                        window.confirm(
+                          `Take this email over from ${actorName(selectedClaim.actor)}?`,
+                        )
+                      ) {
+                        handleClaim(selectedEmail.id, true);
+                      }
+                    }}
+                    className="font-medium text-rose-600 hover:text-rose-500"
+                  >
+                    Take over
+                  </button>
+                </>
+              ) : (
+                <>
+                  <span>Nobody is working on this email</span>
+                  <button
+                    type="button"
+                    onClick={() => handleClaim(selectedEmail.id)}
+                    className="font-medium text-indigo-600 hover:text-indigo-500"
+                  >
+                    Claim
+                  </button>
+                </>
+              )}
+            </div>
+          ) : null}
+
           {selectedEmail ? (
             <div className="flex flex-col gap-4">
               <article className="rounded-2xl bg-zinc-900 text-zinc-50">
@@ -440,6 +1454,15 @@ export function AgentDashboard() {
                         {tag}
                       </span>
                     ))}
+                    {attachmentsOf(selectedEmail).map((attachment, index) => (
+                      <span
+                        key={`${attachment.filename}-${index}`}
+                        className="rounded-full bg-white/10 px-3 py-1"
+                      >
+                        📎 {attachment.filename} ·{" "}
+                        {Math.max(1, Math.round(attachment.size / 1024))} KB
+                      </span>
+                    ))}
                   </div>
                 </div>
                 <div className="flex flex-col gap-3 p-5 text-sm leading-relaxed text-zinc-200">
@@ -449,39 +1472,222 @@ export function AgentDashboard() {
                 </div>
               </article>
 
-              <div className="grid gap-4 md:grid-cols-2">
-                {workflows.slice(0, 4).map((workflow, index) => (
-                  <div
-                    key={workflow.id}
-                    className={`rounded-2xl border border-zinc-200 bg-gradient-to-br ${highlightColors[index % highlightColors.length]} p-4`}
-                  >
-                    <div className="flex flex-col gap-2">
-                      <span className="text-xs font-semibold uppercase tracking-[0.3em] text-zinc-500">
-                        Workflow
-                      </span>
-                      <h3 className="text-base font-semibold text-zinc-900">
-                        {workflow.name}
-                      </h3>
-                      <p className="text-sm text-zinc-600 line-clamp-2">
-                        {workflow.description}
-                      </p>
-                      <div className="flex flex-wrap gap-2 text-xs text-zinc-500">
-                        {workflow.trigger.keywords.slice(0, 4).map((keyword) => (
-                          <span
-                            key={keyword}
-                            className="rounded-full bg-white/80 px-2 py-1 font-medium text-zinc-700 shadow-sm"
-                          >
-                            #{keyword}
-                          </span>
-                        ))}
-                        <span className="rounded-full bg-white/80 px-2 py-1 text-xs">
-                          SLA: {workflow.slaMinutes}m
+              {selectedPriority ? (
+                <div className="flex flex-col gap-2 rounded-2xl border border-zinc-200 p-4 text-sm">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <p className="font-semibold text-zinc-900">
+                      Priority {selectedPriority.score} · rank #
+                      {selectedPriority.rank}
+                      {selectedPriority.overridden ? (
+                        <span className="ml-2 text-xs font-normal text-zinc-500">
+                          set by operator; model says{" "}
+                          {selectedPriority.computedScore}
                         </span>
-                      </div>
+                      ) : null}
+                    </p>
+                    <div className="flex items-center gap-2 text-xs">
+                      <button
+                        type="button"
+                        onClick={() =>
+                          handleSetPriority(selectedEmail, {
+                            pinned: !selectedPriority.pinned,
+                          })
+                        }
+                        className="rounded-full border border-zinc-200 px-3 py-1 font-medium text-zinc-700 transition hover:bg-zinc-100"
+                      >
+                        {selectedPriority.pinned ? "Unpin" : "📌 Pin"}
+                      </button>
+                      <input
+                        key={`${selectedEmail.id}-${selectedPriority.score}`}
+                        type="number"
+                        min={0}
+                        max={maxPriority}
+                        defaultValue={selectedPriority.score}
+                        onKeyDown={(event) => {
+                          if (event.key === "Enter") {
+                            handleSetPriority(selectedEmail, {
+                              priority: Number(event.currentTarget.value),
+                            });
+                          }
+                        }}
+                        aria-label="Override priority (press Enter)"
+                        className="w-16 rounded-lg border border-zinc-200 px-2 py-1 text-zinc-900"
+                      />
+                      {selectedPriority.overridden ? (
+                        <button
+                          type="button"
+                          onClick={() =>
+                            handleSetPriority(selectedEmail, { priority: null })
+                          }
+                          className="font-medium text-indigo-600 hover:underline"
+                        >
+                          Reset
+                        </button>
+                      ) : null}
                     </div>
                   </div>
-                ))}
-              </div>
+                  {selectedPriority.factors.length ? (
+                    <ul className="flex flex-wrap gap-2 text-xs text-zinc-600">
+                      {selectedPriority.factors.map((factor) => (
+                        <li
+                          key={factor.label}
+                          className="rounded-full bg-zinc-100 px-3 py-1"
+                        >
+                          {factor.label} {formatPoints(factor.points)}
+                        </li>
+                      ))}
+                    </ul>
+                  ) : (
+                    <p className="text-xs text-zinc-500">
+                      Nothing raises this email&apos;s priority.
+                    </p>
+                  )}
+                </div>
+              ) : null}
+
+              {entities ? (
+                <div className="flex flex-wrap gap-2 text-xs">
+                  <span
+                    className={`rounded-full px-3 py-1 font-medium ${urgencyStyles[entities.urgency]}`}
+                  >
+                    {entities.urgency} urgency
+                  </span>
+                  {entities.nextDeadline ? (
+                    <span className="rounded-full bg-zinc-100 px-3 py-1 text-zinc-700">
+                      Due {new Date(entities.nextDeadline.dueAt).toLocaleString()}{" "}
+                      ({entities.nextDeadline.text})
+                    </span>
+                  ) : null}
+                  {entities.portalUrl ? (
+                    <a
+                      href={entities.portalUrl}
+                      target="_blank"
+                      rel="noreferrer"
+                      className="rounded-full bg-indigo-100 px-3 py-1 font-medium text-indigo-600 hover:underline"
+                    >
+                      Portal ↗
+                    </a>
+                  ) : null}
+                  {entities.amounts.map((amount, index) => (
+                    <span
+                      key={`${amount.text}-${index}`}
+                      className="rounded-full bg-emerald-100 px-3 py-1 text-emerald-700"
+                    >
+                      {amount.text}
+                    </span>
+                  ))}
+                  {entities.requestedDocuments.map((item) => (
+                    <span
+                      key={item.label}
+                      className="rounded-full bg-amber-100 px-3 py-1 text-amber-700"
+                    >
+                      Needs {item.label}
+                    </span>
+                  ))}
+                  {entities.contacts.slice(1).map((contact, index) => (
+                    <span
+                      key={`${contact.email ?? contact.name}-${index}`}
+                      className="rounded-full bg-zinc-100 px-3 py-1 text-zinc-700"
+                    >
+                      Contact {contact.name ?? contact.email}
+                    </span>
+                  ))}
+                </div>
+              ) : null}
+
+              {!selectedPlan ? (
+                <p className="text-sm text-zinc-500">Working out the plan…</p>
+              ) : selectedPlan.workflowIds.length === 0 ? (
+                <div className="rounded-2xl border border-dashed border-zinc-200 p-4 text-sm text-zinc-500">
+                  No enabled workflow matches this email.
+                </div>
+              ) : (
+                <div className="grid gap-4 md:grid-cols-2">
+                  {selectedPlan.workflowIds.map((workflowId, index) => {
+                    const workflow = workflows.find(
+                      (item) => item.id === workflowId,
+                    );
+                    const steps = selectedPlan.plannedActions.filter(
+                      (action) => action.workflowId === workflowId,
+                    );
+                    return (
+                      <div
+                        key={workflowId}
+                        className={`rounded-2xl border border-zinc-200 bg-gradient-to-br ${highlightColors[index % highlightColors.length]} p-4`}
+                      >
+                        <div className="flex flex-col gap-2">
+                          <span className="text-xs font-semibold uppercase tracking-[0.3em] text-zinc-500">
+                            Workflow
+                          </span>
+                          <h3 className="text-base font-semibold text-zinc-900">
+                            {workflow?.name ?? workflowId}
+                          </h3>
+                          {workflow ? (
+                            <div className="flex flex-wrap gap-2 text-xs text-zinc-500">
+                              {workflow.trigger.keywords
+                                .slice(0, 4)
+                                .map((keyword) => (
+                                  <span
+                                    key={keyword}
+                                    className="rounded-full bg-white/80 px-2 py-1 font-medium text-zinc-700 shadow-sm"
+                                  >
+                                    #{keyword}
+                                  </span>
+                                ))}
+                              <span className="rounded-full bg-white/80 px-2 py-1 text-xs">
+                                SLA: {workflow.slaMinutes}m
+                                {complianceLabel(workflow.id)}
+                              </span>
+                            </div>
+                          ) : null}
+                          {workflow && describeConditions(workflow) ? (
+                            <code className="rounded-lg bg-white/80 px-2 py-1 font-mono text-[11px] text-zinc-600">
+                              {describeConditions(workflow)}
+                            </code>
+                          ) : null}
+                          <ol className="flex flex-col gap-1 text-sm text-zinc-700">
+                            {steps.map((step, position) => (
+                              <li
+                                key={step.actionId}
+                                className="flex flex-col rounded-lg bg-white/80 px-2 py-1"
+                              >
+                                <span>
+                                  <span className="text-zinc-400">
+                                    {position + 1}.
+                                  </span>{" "}
+                                  <span className="font-medium">
+                                    {step.type}
+                                  </span>{" "}
+                                  · {step.summary}
+                                </span>
+                                <span className="flex flex-wrap gap-2 text-[11px] text-zinc-500">
+                                  {step.condition ? (
+                                    <span className="font-mono">
+                                      {step.branch === "then"
+                                        ? `if ${step.condition}`
+                                        : `else (not ${step.condition})`}
+                                    </span>
+                                  ) : null}
+                                  {step.needsApproval ? (
+                                    <span className="font-medium text-amber-700">
+                                      needs approval
+                                    </span>
+                                  ) : null}
+                                </span>
+                              </li>
+                            ))}
+                          </ol>
+                          {steps.length === 0 ? (
+                            <p className="text-xs text-zinc-500">
+                              Every action is on a branch this email skips.
+                            </p>
+                          ) : null}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
 
               {processedEmails.length > 0 && (
                 <div className="rounded-2xl border border-dashed border-zinc-200 p-4">
@@ -496,8 +1702,34 @@ export function AgentDashboard() {
                         </span>
                         <span className="text-xs text-zinc-500">
                           Confidence {(item.confidence * 100).toFixed(0)}% •{" "}
-                          {item.workflowIds.join(", ")}
+                          {item.workflowIds
+                            .map((id) => workflowVersionLabel(item, id))
+                            .join(", ")}{" "}
+                          • by {analyzerLabel(item)}
                         </span>
+                        {(item as ExecutedEmail).executions?.map(
+                          (execution) => (
+                            <span
+                              key={`${execution.workflowId}-${execution.actionId}`}
+                              className={`text-xs ${execution.status === "succeeded" ? "text-emerald-700" : "text-rose-600"}`}
+                            >
+                              {execution.summary} ·{" "}
+                              {execution.runtimeSeconds.toFixed(2)}s
+                            </span>
+                          ),
+                        )}
+                        <button
+                          type="button"
+                          onClick={() => setAuditEmailId(item.email.id)}
+                          className="self-start text-xs font-medium text-indigo-600 hover:text-indigo-500"
+                        >
+                          Audit trail
+                        </button>
+                        {missingDocuments(item) ? (
+                          <span className="text-xs font-medium text-rose-600">
+                            Missing documents: {missingDocuments(item)}
+                          </span>
+                        ) : null}
                       </li>
                     ))}
                   </ul>
@@ -509,6 +1741,12 @@ export function AgentDashboard() {
               Select an email from the queue to see the automation plan.
             </div>
           )}
+
+          <ReplyDrafts
+            replies={replyDrafts}
+            onSend={handleSendReply}
+            onDiscard={handleDiscardReply}
+          />
         </section>
 
         <aside className="flex flex-col gap-4 rounded-3xl bg-white p-6 shadow-sm ring-1 ring-black/5">
@@ -517,27 +1755,46 @@ export function AgentDashboard() {
               Agent telemetry
             </h2>
             <p className="text-sm text-zinc-500">
-              Logs, WhatsApp updates, and workflow designer
+              Approvals, logs, WhatsApp updates, and workflow designer
             </p>
           </div>
 
+          <AutopilotPanel
+            status={autopilot}
+            onControl={handleControlAutopilot}
+          />
+
+          <ApprovalInbox
+            approvals={approvals}
+            onDecide={handleDecideApproval}
+          />
+
+          <FailedRuns
+            runs={processedEmails.filter(
+              (item) =>
+                !emailQueue.some((queued) => queued.id === item.email.id),
+            )}
+            onRetry={handleRetryRun}
+            onRequeue={handleRequeue}
+          />
+
           <div className="flex flex-col gap-3">
             <div className="flex items-center justify-between">
               <h3 className="text-sm font-semibold text-zinc-900">
                 WhatsApp confirmations
               </h3>
               <span className="text-xs text-zinc-500">
-                {whatsappMessages.length} sent
+                {totals.whatsapp} sent
               </span>
             </div>
-            <div className="flex flex-col gap-3">
+            <div className="flex max-h-80 flex-col gap-3 overflow-auto pr-1">
               {whatsappMessages.length === 0 ? (
                 <div className="rounded-xl border border-dashed border-zinc-200 p-4 text-sm text-zinc-500">
                   No WhatsApp messages yet. Run an automation to broadcast
                   confirmation.
                 </div>
               ) : (
-                whatsappMessages.slice(0, 3).map((message) => (
+                whatsappMessages.map((message) => (
                   <div
                     key={message.id}
                     className="rounded-2xl border border-zinc-200 p-4 text-sm text-zinc-700"
@@ -549,9 +1806,35 @@ export function AgentDashboard() {
                     <pre className="whitespace-pre-wrap text-zinc-700">
                       {message.message}
                     </pre>
+                    {message.deliveries.length > 0 ? (
+                      <div className="mt-2 flex flex-wrap gap-1 text-[11px] font-medium">
+                        {message.deliveries.map((delivery) => (
+                          <span
+                            key={delivery.id}
+                            title={delivery.lastError}
+                            className={`rounded-full px-2 py-0.5 ${deliveryStatusStyles[delivery.status]}`}
+                          >
+                            {delivery.channel}: {delivery.status}
+                            {delivery.status === "queued" &&
+                            delivery.attempts > 0
+                              ? ` (retry ${delivery.attempts})`
+                              : ""}
+                          </span>
+                        ))}
+                      </div>
+                    ) : null}
                   </div>
                 ))
               )}
+              {whatsappNextOffset !== null ? (
+                <button
+                  type="button"
+                  onClick={handleLoadOlderMessages}
+                  className="rounded-full border border-zinc-200 px-4 py-1.5 text-xs font-medium text-zinc-600 transition hover:bg-zinc-100"
+                >
+                  Load older messages
+                </button>
+              ) : null}
             </div>
           </div>
 
@@ -561,7 +1844,7 @@ export function AgentDashboard() {
                 Automation log
               </h3>
               <span className="text-xs text-zinc-500">
-                {actionLog.length} events
+                {totals.events} events
               </span>
             </div>
             <div className="flex max-h-60 flex-col gap-3 overflow-auto pr-1">
@@ -570,10 +1853,14 @@ export function AgentDashboard() {
                   No events yet.
                 </div>
               ) : (
-                actionLog.slice(0, 6).map((log) => (
+                actionLog.map((log) => (
                   <div
                     key={log.id}
-                    className="rounded-2xl border border-zinc-200 p-4 text-sm"
+                    className={`rounded-2xl border p-4 text-sm ${
+                      (log as OutcomeLogEntry).status === "failed"
+                        ? "border-rose-200 bg-rose-50/40"
+                        : "border-zinc-200"
+                    }`}
                   >
                     <div className="flex items-center justify-between text-xs text-zinc-500">
                       <span>{log.workflowId}</span>
@@ -588,16 +1875,56 @@ export function AgentDashboard() {
                   </div>
                 ))
               )}
+              {actionLogNextOffset !== null ? (
+                <button
+                  type="button"
+                  onClick={handleLoadOlderEvents}
+                  className="rounded-full border border-zinc-200 px-4 py-1.5 text-xs font-medium text-zinc-600 transition hover:bg-zinc-100"
+                >
+                  Load older events
+                </button>
+              ) : null}
             </div>
           </div>
 
+          <WorkflowList
+            workflows={workflows}
+            editingId={editingWorkflowId}
+            onEdit={handleEditWorkflow}
+            onDuplicate={handleDuplicateWorkflow}
+            onToggle={handleToggleWorkflow}
+            onDelete={handleDeleteWorkflow}
+          />
+
           <form
             onSubmit={handleCreateWorkflow}
             className="mt-auto flex flex-col gap-3 rounded-2xl border border-zinc-200 p-4"
           >
-            <h3 className="text-sm font-semibold text-zinc-900">
-              Design new workflow
-            </h3>
+            <div className="flex items-center justify-between gap-2">
+              <h3 className="text-sm font-semibold text-zinc-900">
+                {editingWorkflow
+                  ? `Edit “${editingWorkflow.name}”`
+                  : "Design new workflow"}
+              </h3>
+              <div className="flex items-center gap-2 text-xs font-medium text-zinc-600">
+                <label className="cursor-pointer rounded-full border border-zinc-200 px-3 py-1 transition hover:bg-zinc-100">
+                  Import
+                  <input
+                    type="file"
+                    accept=".json,.yaml,.yml,application/json,application/yaml"
+                    onChange={handleImportWorkflows}
+                    className="sr-only"
+                  />
+                </label>
+                <a
+                  href="/api/workflows/export?format=yaml"
+                  download
+                  className="rounded-full border border-zinc-200 px-3 py-1 transition hover:bg-zinc-100"
+                >
+                  Export
+                </a>
+              </div>
+            </div>
             <label className="flex flex-col gap-1 text-xs font-medium text-zinc-600">
               Name
               <input
@@ -632,17 +1959,25 @@ export function AgentDashboard() {
               />
             </label>
             <label className="flex flex-col gap-1 text-xs font-medium text-zinc-600">
-              Actions (one per line: type | summary | details)
-              <textarea
-                value={formState.actions}
+              Conditions (optional)
+              <input
+                value={formState.conditions}
                 onChange={(event) =>
-                  handleFormChange("actions", event.target.value)
+                  handleFormChange("conditions", event.target.value)
                 }
-                rows={3}
-                placeholder="submit_application | Apply on portal | Use stored profile to submit"
-                className="rounded-xl border border-zinc-200 px-3 py-2 text-sm text-zinc-900 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-500/30"
+                placeholder="domain:techhire.io AND body:/apply/i"
+                className="rounded-xl border border-zinc-200 px-3 py-2 font-mono text-sm text-zinc-900 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-500/30"
               />
+              <span className="font-normal text-zinc-400">
+                Fields: sender, domain, tag, subject, body, has:attachment,
+                received:HH:MM-HH:MM, day:mon-fri (UTC). Combine with AND, OR,
+                NOT and parentheses.
+              </span>
             </label>
+            <ActionListEditor
+              actions={formState.actions}
+              onChange={(actions) => handleFormChange("actions", actions)}
+            />
             <div className="flex items-center justify-between text-xs text-zinc-600">
               <label className="flex items-center gap-2 font-medium">
                 <input
@@ -669,19 +2004,162 @@ export function AgentDashboard() {
                 min
               </label>
             </div>
-            <button
-              type="submit"
-              className="mt-2 rounded-full bg-zinc-900 px-5 py-2 text-sm font-medium text-white transition hover:bg-zinc-700"
-            >
-              Save workflow
-            </button>
+            <label className="flex items-center justify-between gap-2 text-xs font-medium text-zinc-600">
+              On SLA breach
+              <select
+                value={formState.escalation}
+                onChange={(event) =>
+                  handleFormChange(
+                    "escalation",
+                    event.target.value as EscalationAction,
+                  )
+                }
+                className="rounded-xl border border-zinc-200 px-2 py-1 text-sm text-zinc-900 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-500/30"
+              >
+                {escalationActions.map((action) => (
+                  <option key={action} value={action}>
+                    {action === "bump_priority"
+                      ? "Bump priority"
+                      : action === "notify"
+                        ? "Send notification"
+                        : "Flag only"}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <div className="mt-2 flex gap-2">
+              <button
+                type="button"
+                onClick={handleDryRun}
+                className="flex-1 rounded-full border border-zinc-200 px-5 py-2 text-sm font-medium text-zinc-700 transition hover:bg-zinc-100"
+              >
+                Dry run
+              </button>
+              {editingWorkflow ? (
+                <button
+                  type="button"
+                  onClick={resetDesigner}
+                  className="rounded-full border border-zinc-200 px-5 py-2 text-sm font-medium text-zinc-700 transition hover:bg-zinc-100"
+                >
+                  Cancel
+                </button>
+              ) : null}
+              <button
+                type="submit"
+                className="flex-1 rounded-full bg-zinc-900 px-5 py-2 text-sm font-medium text-white transition hover:bg-zinc-700"
+              >
+                {editingWorkflow ? "Save new version" : "Save workflow"}
+              </button>
+            </div>
+            {dryRun ? (
+              <div className="flex flex-col gap-2 rounded-xl bg-zinc-50 p-3 text-xs text-zinc-600">
+                <p className="font-medium text-zinc-800">
+                  Matches{" "}
+                  {
+                    dryRun.report.results.filter((result) =>
+                      result.workflowIds.includes(dryRun.workflowId),
+                    ).length
+                  }{" "}
+                  of {dryRun.report.results.length} corpus emails
+                </p>
+                <ul className="flex flex-col gap-1">
+                  {dryRun.report.results
+                    .filter((result) =>
+                      result.workflowIds.includes(dryRun.workflowId),
+                    )
+                    .map((result) => (
+                      <li key={result.emailId}>
+                        “{result.subject}” ·{" "}
+                        {Math.round(result.confidence * 100)}% ·{" "}
+                        {result.plannedActions
+                          .filter(
+                            (action) => action.workflowId === dryRun.workflowId,
+                          )
+                          .map((action) =>
+                            action.needsApproval
+                              ? `${action.type} (approval)`
+                              : action.type,
+                          )
+                          .join(", ")}
+                      </li>
+                    ))}
+                </ul>
+                {dryRun.baseline === null ? (
+                  <p className="text-amber-600">
+                    No routing baseline recorded yet, so the check fails.
+                  </p>
+                ) : dryRun.changes.length === 0 ? (
+                  <p className="text-emerald-600">
+                    Routing matches the baseline.
+                  </p>
+                ) : (
+                  <ul className="flex flex-col gap-1 text-rose-700">
+                    {dryRun.changes.map((change) => (
+                      <li key={`${change.emailId}-${change.kind}`}>
+                        <span className="font-medium">{change.kind}</span> for “
+                        {change.subject}”: {JSON.stringify(change.expected)} →{" "}
+                        {JSON.stringify(change.actual)}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            ) : null}
+            {designerIssues.length > 0 ? (
+              <ul className="flex flex-col gap-1 rounded-xl bg-rose-50 p-3 text-xs text-rose-700">
+                {designerIssues.map((issue) => (
+                  <li key={`${issue.path}-${issue.message}`}>
+                    <code className="font-mono">{issue.path}</code>{" "}
+                    {issue.message}
+                  </li>
+                ))}
+              </ul>
+            ) : null}
             <p className="text-[11px] text-zinc-400">
-              Supported action types: {automationTypes.join(", ")}.
+              Supported action types: {automationTypes.join(", ")}. Definitions
+              follow the{" "}
+              <a
+                href="/api/workflows/schema"
+                target="_blank"
+                rel="noreferrer"
+                className="underline"
+              >
+                workflow schema
+              </a>
+              .
             </p>
           </form>
+
+          <WorkflowHistory
+            workflows={workflows}
+            onEdit={handleEditWorkflow}
+            onRolledBack={(workflow, version) => {
+              replaceWorkflow(workflow);
+              setToast(`“${workflow.name}” is now v${version}`);
+            }}
+          />
         </aside>
       </main>
 
+      <AnalyticsPanel
+        report={analytics}
+        onWindowChange={handleAnalyticsWindow}
+      />
+
+      <ApplicationBoard
+        applications={applications}
+        now={now}
+        onMove={handleMoveApplication}
+      />
+
+      <DocumentVault
+        documents={documents}
+        onUpload={handleUploadDocument}
+        onDelete={handleDeleteDocument}
+      />
+
+      <AuditTrail emailId={auditEmailId} onEmailIdChange={setAuditEmailId} />
+
       {toast ? (
         <div className="pointer-events-none fixed inset-x-0 bottom-6 flex justify-center px-4">
           <div className="pointer-events-auto rounded-full bg-zinc-900 px-5 py-2 text-sm font-medium text-white shadow-lg">
@@ -0,0 +1,243 @@
+"use client";
+
+import { useState } from "react";
+import { AnalyticsReport, HourlySla, confidenceBuckets } from "@/lib/analytics";
+
+interface AnalyticsPanelProps {
+  report: AnalyticsReport;
+  onWindowChange: (hours: number) => Promise<void>;
+}
+
+interface BarChartProps {
+  values: number[];
+  titles: string[];
+  barClass: string;
+}
+
+interface SlaChartProps {
+  values: HourlySla[];
+  titles: string[];
+}
+
+const windows = [24, 72, 168];
+
+function percent(value: number | null) {
+  return value === null ? "—" : `${Math.round(value * 100)}%`;
+}
+
+function hourLabel(iso: string) {
+  return new Date(iso).toLocaleString([], {
+    weekday: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+function BarChart({ values, titles, barClass }: BarChartProps) {
+  const peak = Math.max(1, ...values);
+  return (
+    <div className="flex h-20 items-end gap-px rounded-lg bg-zinc-50 p-1">
+      {values.map((value, index) => (
+        <div
+          key={index}
+          title={`${titles[index]}: ${value}`}
+          style={{ height: `${(value / peak) * 100}%` }}
+          className={`min-h-px flex-1 rounded-sm ${value ? barClass : "bg-zinc-200"}`}
+        />
+      ))}
+    </div>
+  );
+}
+
+function SlaChart({ values, titles }: SlaChartProps) {
+  const peak = Math.max(1, ...values.map((hour) => hour.met + hour.breached));
+  return (
+    <div className="flex h-20 items-end gap-px rounded-lg bg-zinc-50 p-1">
+      {values.map((hour, index) => (
+        <div
+          key={index}
+          title={`${titles[index]}: ${hour.met} met, ${hour.breached} breached`}
+          style={{ height: `${((hour.met + hour.breached) / peak) * 100}%` }}
+          className="flex min-h-px flex-1 flex-col-reverse overflow-hidden rounded-sm bg-zinc-200"
+        >
+          <div style={{ flexGrow: hour.met }} className="bg-emerald-500" />
+          <div style={{ flexGrow: hour.breached }} className="bg-rose-500" />
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function AnalyticsPanel({
+  report,
+  onWindowChange,
+}: AnalyticsPanelProps) {
+  const [workflowId, setWorkflowId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const selected =
+    report.workflows.find((row) => row.workflowId === workflowId) ??
+    report.workflows[0] ??
+    null;
+  const titles = report.hours.map(hourLabel);
+
+  const changeWindow = async (hours: number) => {
+    setLoading(true);
+    try {
+      await onWindowChange(hours);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <section className="flex flex-col gap-4 rounded-3xl bg-white p-6 shadow-sm ring-1 ring-black/5">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h2 className="text-lg font-semibold text-zinc-900">
+            Workflow analytics
+          </h2>
+          <p className="text-sm text-zinc-500">
+            {report.runs} runs recorded · {percent(report.matchRate)} matched a
+            workflow
+          </p>
+        </div>
+        <div className="flex items-center gap-3 text-sm">
+          <select
+            value={report.windowHours}
+            disabled={loading}
+            onChange={(event) => changeWindow(Number(event.target.value))}
+            aria-label="Time window"
+            className="rounded-xl border border-zinc-200 px-3 py-2 text-zinc-900 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-500/30"
+          >
+            {windows.map((hours) => (
+              <option key={hours} value={hours}>
+                Last {hours === 168 ? "7 days" : `${hours} hours`}
+              </option>
+            ))}
+          </select>
+          <a
+            href="/api/metrics"
+            target="_blank"
+            rel="noreferrer"
+            className="font-medium text-indigo-600 hover:text-indigo-500"
+          >
+            Prometheus metrics
+          </a>
+        </div>
+      </div>
+
+      <div className="flex flex-col gap-1 text-xs text-zinc-500">
+        <span className="font-medium text-zinc-700">All runs per hour</span>
+        <BarChart
+          values={report.runsPerHour}
+          titles={titles}
+          barClass="bg-zinc-700"
+        />
+      </div>
+
+      {report.workflows.length ? (
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-xs">
+            <thead className="text-zinc-500">
+              <tr>
+                <th className="py-1 font-medium">Workflow</th>
+                <th className="py-1 font-medium">Runs</th>
+                <th className="py-1 font-medium">Match rate</th>
+                <th className="py-1 font-medium">Action failures</th>
+                <th className="py-1 font-medium">SLA met</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.workflows.map((row) => (
+                <tr
+                  key={row.workflowId}
+                  onClick={() => setWorkflowId(row.workflowId)}
+                  className={`cursor-pointer border-t border-zinc-100 ${
+                    selected?.workflowId === row.workflowId
+                      ? "bg-indigo-50"
+                      : "hover:bg-zinc-50"
+                  }`}
+                >
+                  <td className="py-1.5 font-medium text-zinc-800">
+                    {row.workflowName}
+                  </td>
+                  <td className="py-1.5">{row.runs}</td>
+                  <td className="py-1.5">{percent(row.matchRate)}</td>
+                  <td
+                    className={`py-1.5 ${row.failureRate ? "text-rose-600" : ""}`}
+                  >
+                    {percent(row.failureRate)}
+                  </td>
+                  <td className="py-1.5">{percent(row.slaCompliance)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : null}
+
+      {selected ? (
+        <div className="grid gap-4 text-xs text-zinc-500 md:grid-cols-2">
+          <div className="flex flex-col gap-1">
+            <span className="font-medium text-zinc-700">
+              {selected.workflowName} · runs per hour
+            </span>
+            <BarChart
+              values={selected.runsPerHour}
+              titles={titles}
+              barClass="bg-indigo-500"
+            />
+          </div>
+          <div className="flex flex-col gap-1">
+            <span className="font-medium text-zinc-700">
+              Confidence · {selected.runs} runs
+            </span>
+            <BarChart
+              values={selected.confidence}
+              titles={confidenceBuckets.map((bound, index) =>
+                index
+                  ? `${confidenceBuckets[index - 1]}–${bound}`
+                  : `≤ ${bound}`,
+              )}
+              barClass="bg-sky-500"
+            />
+            <div className="flex justify-between">
+              <span>low</span>
+              <span>high</span>
+            </div>
+          </div>
+          <div className="flex flex-col gap-1">
+            <span className="font-medium text-zinc-700">
+              Action outcomes · {percent(selected.failureRate)} failed
+            </span>
+            <div className="flex h-3 overflow-hidden rounded-full bg-zinc-100">
+              <div
+                style={{ flexGrow: selected.actions.succeeded }}
+                className="bg-emerald-500"
+              />
+              <div
+                style={{ flexGrow: selected.actions.failed }}
+                className="bg-rose-500"
+              />
+              <div
+                style={{ flexGrow: selected.actions.skipped }}
+                className="bg-zinc-300"
+              />
+            </div>
+            <span>
+              {selected.actions.succeeded} succeeded · {selected.actions.failed}{" "}
+              failed · {selected.actions.skipped} skipped
+            </span>
+          </div>
+          <div className="flex flex-col gap-1">
+            <span className="font-medium text-zinc-700">
+              SLA compliance · {percent(selected.slaCompliance)} met
+              {selected.sla.running ? ` · ${selected.sla.running} running` : ""}
+            </span>
+            <SlaChart values={selected.slaPerHour} titles={titles} />
+          </div>
+        </div>
+      ) : null}
+    </section>
+  );
+}
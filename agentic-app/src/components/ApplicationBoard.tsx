@@ -0,0 +1,130 @@
+"use client";
+
+import {
+  Application,
+  ApplicationStage,
+  applicationStages,
+  stageLabels,
+} from "@/lib/tracker";
+
+interface ApplicationBoardProps {
+  applications: Application[];
+  now: number;
+  onMove: (application: Application, stage: ApplicationStage) => Promise<void>;
+}
+
+function deadlineLabel(deadline: string, now: number) {
+  const days = Math.ceil(
+    (new Date(`${deadline}T23:59:59Z`).getTime() - now) / 86_400_000,
+  );
+  if (days < 0) return { text: `Closed ${deadline}`, urgent: false };
+  if (days === 0) return { text: "Due today", urgent: true };
+  return { text: `Due in ${days}d (${deadline})`, urgent: days <= 3 };
+}
+
+export function ApplicationBoard({
+  applications,
+  now,
+  onMove,
+}: ApplicationBoardProps) {
+  return (
+    <section className="flex flex-col gap-4 rounded-3xl bg-white p-6 shadow-sm ring-1 ring-black/5">
+      <div>
+        <h2 className="text-lg font-semibold text-zinc-900">
+          Application tracker
+        </h2>
+        <p className="text-sm text-zinc-500">
+          Scholarships and roles the agent is following, by stage
+        </p>
+      </div>
+      <div className="grid gap-3 md:grid-cols-3 xl:grid-cols-5">
+        {applicationStages.map((stage) => {
+          const column = applications.filter((item) => item.stage === stage);
+          return (
+            <div
+              key={stage}
+              className="flex flex-col gap-2 rounded-2xl bg-zinc-50 p-3"
+            >
+              <div className="flex items-center justify-between text-xs font-semibold uppercase tracking-wide text-zinc-500">
+                <span>{stageLabels[stage]}</span>
+                <span>{column.length}</span>
+              </div>
+              {column.length === 0 ? (
+                <div className="rounded-xl border border-dashed border-zinc-200 p-3 text-xs text-zinc-400">
+                  Nothing here
+                </div>
+              ) : (
+                column.map((application) => {
+                  const deadline = application.deadline
+                    ? deadlineLabel(application.deadline, now)
+                    : null;
+                  return (
+                    <div
+                      key={application.id}
+                      className="flex flex-col gap-2 rounded-xl bg-white p-3 text-sm shadow-sm ring-1 ring-black/5"
+                    >
+                      <div>
+                        <p className="font-medium text-zinc-900">
+                          {application.role}
+                        </p>
+                        <p className="text-xs text-zinc-500">
+                          {application.organization} · {application.kind}
+                        </p>
+                      </div>
+                      <div className="flex flex-wrap gap-1 text-xs">
+                        {deadline ? (
+                          <span
+                            className={`rounded-full px-2 py-0.5 font-medium ${
+                              deadline.urgent
+                                ? "bg-rose-100 text-rose-700"
+                                : "bg-zinc-100 text-zinc-600"
+                            }`}
+                          >
+                            {deadline.text}
+                          </span>
+                        ) : null}
+                        <span className="rounded-full bg-zinc-100 px-2 py-0.5 text-zinc-600">
+                          {application.emailIds.length} emails
+                        </span>
+                      </div>
+                      <div className="flex items-center justify-between gap-2">
+                        {application.portalUrl ? (
+                          <a
+                            href={application.portalUrl}
+                            target="_blank"
+                            rel="noreferrer"
+                            className="text-xs font-medium text-indigo-600 hover:underline"
+                          >
+                            Portal
+                          </a>
+                        ) : (
+                          <span />
+                        )}
+                        <select
+                          value={application.stage}
+                          onChange={(event) =>
+                            onMove(
+                              application,
+                              event.target.value as ApplicationStage,
+                            )
+                          }
+                          className="rounded-lg border border-zinc-200 px-2 py-1 text-xs text-zinc-700"
+                        >
+                          {applicationStages.map((option) => (
+                            <option key={option} value={option}>
+                              {stageLabels[option]}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    </div>
+                  );
+                })
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </section>
+  );
+}
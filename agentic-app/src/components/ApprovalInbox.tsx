@@ -0,0 +1,152 @@
+"use client";
+
+import { useState } from "react";
+import {
+  ApprovalDecision,
+  ApprovalRequest,
+  approvalReasonLabels,
+} from "@/lib/approvals";
+
+interface ApprovalInboxProps {
+  approvals: ApprovalRequest[];
+  onDecide: (
+    approval: ApprovalRequest,
+    decision: ApprovalDecision,
+  ) => Promise<void>;
+}
+
+interface Draft {
+  summary: string;
+  details: string;
+  note: string;
+}
+
+export function ApprovalInbox({ approvals, onDecide }: ApprovalInboxProps) {
+  const [reviewer, setReviewer] = useState("");
+  const [drafts, setDrafts] = useState<Record<string, Draft>>({});
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const draftFor = (approval: ApprovalRequest): Draft =>
+    drafts[approval.id] ?? {
+      summary: approval.action.summary,
+      details: approval.action.details,
+      note: "",
+    };
+
+  const updateDraft = (
+    approval: ApprovalRequest,
+    key: keyof Draft,
+    value: string,
+  ) => {
+    setDrafts((prev) => ({
+      ...prev,
+      [approval.id]: { ...draftFor(approval), [key]: value },
+    }));
+  };
+
+  const decide = async (
+    approval: ApprovalRequest,
+    decision: ApprovalDecision["decision"],
+  ) => {
+    const draft = draftFor(approval);
+    setBusyId(approval.id);
+    try {
+      await onDecide(approval, {
+        decision,
+        reviewer: reviewer.trim(),
+        summary: draft.summary,
+        details: draft.details,
+        note: draft.note,
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-zinc-900">Approval inbox</h3>
+        <span className="text-xs text-zinc-500">
+          {approvals.length} waiting
+        </span>
+      </div>
+      <input
+        value={reviewer}
+        onChange={(event) => setReviewer(event.target.value)}
+        placeholder="Your name (recorded with each decision)"
+        className="rounded-xl border border-zinc-200 px-3 py-2 text-sm text-zinc-900 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-500/30"
+      />
+      {approvals.length === 0 ? (
+        <div className="rounded-xl border border-dashed border-zinc-200 p-4 text-sm text-zinc-500">
+          Nothing to review. Actions from manual workflows and risky action
+          types wait here.
+        </div>
+      ) : (
+        <div className="flex max-h-96 flex-col gap-3 overflow-auto pr-1">
+          {approvals.map((approval) => {
+            const draft = draftFor(approval);
+            const busy = busyId === approval.id;
+            return (
+              <div
+                key={approval.id}
+                className="flex flex-col gap-2 rounded-2xl border border-amber-200 bg-amber-50/40 p-4 text-sm"
+              >
+                <div className="flex items-center justify-between text-xs text-zinc-500">
+                  <span>
+                    {approval.workflowName} · {approval.action.type}
+                  </span>
+                  <span>{approvalReasonLabels[approval.reason]}</span>
+                </div>
+                <p className="text-xs text-zinc-600">
+                  For “{approval.email.subject}” from {approval.email.sender}
+                </p>
+                <input
+                  value={draft.summary}
+                  onChange={(event) =>
+                    updateDraft(approval, "summary", event.target.value)
+                  }
+                  className="rounded-lg border border-zinc-200 bg-white px-3 py-1.5 text-sm font-medium text-zinc-900 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-500/30"
+                />
+                <textarea
+                  value={draft.details}
+                  onChange={(event) =>
+                    updateDraft(approval, "details", event.target.value)
+                  }
+                  rows={3}
+                  className="rounded-lg border border-zinc-200 bg-white px-3 py-1.5 text-xs text-zinc-700 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-500/30"
+                />
+                <input
+                  value={draft.note}
+                  onChange={(event) =>
+                    updateDraft(approval, "note", event.target.value)
+                  }
+                  placeholder="Note for the log (optional)"
+                  className="rounded-lg border border-zinc-200 bg-white px-3 py-1.5 text-xs text-zinc-700 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-500/30"
+                />
+                <div className="flex justify-end gap-2">
+                  <button
+                    type="button"
+                    disabled={busy || !reviewer.trim()}
+                    onClick={() => decide(approval, "reject")}
+                    className="rounded-full border border-zinc-200 px-4 py-1.5 text-xs font-medium text-zinc-600 transition enabled:hover:bg-zinc-100 disabled:cursor-not-allowed disabled:opacity-50"
+                  >
+                    Reject
+                  </button>
+                  <button
+                    type="button"
+                    disabled={busy || !reviewer.trim() || !draft.summary.trim()}
+                    onClick={() => decide(approval, "approve")}
+                    className="rounded-full bg-indigo-600 px-4 py-1.5 text-xs font-medium text-white transition enabled:hover:bg-indigo-500 disabled:cursor-not-allowed disabled:bg-zinc-300"
+                  >
+                    Approve
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,163 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { agentApi } from "@/lib/api-client";
+import type { AuditActor, AuditRecord, AuditVerification } from "@/lib/audit";
+
+interface AuditTrailProps {
+  emailId: string | null;
+  onEmailIdChange: (emailId: string | null) => void;
+}
+
+const fieldClass =
+  "rounded-xl border border-zinc-200 px-3 py-2 text-sm text-zinc-900 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-500/30";
+
+function actorLabel(actor: AuditActor) {
+  return actor.name ? `${actor.type}: ${actor.name}` : actor.type;
+}
+
+function exportUrl(format: "jsonl" | "csv", from: string, to: string) {
+  const params = new URLSearchParams({ format });
+  if (from) params.set("from", from);
+  if (to) params.set("to", to);
+  return `/api/audit/export?${params}`;
+}
+
+export function AuditTrail({ emailId, onEmailIdChange }: AuditTrailProps) {
+  const [trail, setTrail] = useState<{
+    emailId: string;
+    records: AuditRecord[];
+  } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [verification, setVerification] = useState<AuditVerification | null>(
+    null,
+  );
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+
+  useEffect(() => {
+    if (!emailId) return;
+    let cancelled = false;
+    agentApi
+      .auditTrail(emailId)
+      .then(({ records }) => {
+        if (cancelled) return;
+        setTrail({ emailId, records });
+        setError(null);
+      })
+      .catch((reason) => {
+        if (!cancelled) {
+          setError(reason instanceof Error ? reason.message : "Load failed");
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [emailId]);
+
+  const verify = async () => {
+    try {
+      setVerification(await agentApi.verifyAudit());
+    } catch (reason) {
+      setError(reason instanceof Error ? reason.message : "Verify failed");
+    }
+  };
+
+  const records = trail && trail.emailId === emailId ? trail.records : [];
+
+  return (
+    <section className="flex flex-col gap-4 rounded-3xl bg-white p-6 shadow-sm ring-1 ring-black/5">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <h2 className="text-lg font-semibold text-zinc-900">Audit trail</h2>
+          <p className="text-sm text-zinc-500">
+            Every action taken on an email, hash-chained so edits show up
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <input
+            type="date"
+            value={from}
+            onChange={(event) => setFrom(event.target.value)}
+            className={fieldClass}
+          />
+          <input
+            type="date"
+            value={to}
+            onChange={(event) => setTo(event.target.value)}
+            className={fieldClass}
+          />
+          <a
+            href={exportUrl("jsonl", from, to)}
+            className="rounded-full border border-zinc-200 px-4 py-1.5 text-xs font-medium text-zinc-700 transition hover:bg-zinc-100"
+          >
+            Export JSONL
+          </a>
+          <a
+            href={exportUrl("csv", from, to)}
+            className="rounded-full border border-zinc-200 px-4 py-1.5 text-xs font-medium text-zinc-700 transition hover:bg-zinc-100"
+          >
+            Export CSV
+          </a>
+          <button
+            type="button"
+            onClick={verify}
+            className="rounded-full bg-zinc-900 px-4 py-1.5 text-xs font-semibold text-white transition hover:bg-zinc-700"
+          >
+            Verify chain
+          </button>
+        </div>
+      </div>
+      {verification ? (
+        <p
+          className={`text-sm font-medium ${verification.valid ? "text-emerald-700" : "text-rose-600"}`}
+        >
+          {verification.valid
+            ? `Intact: ${verification.checked} records verified.`
+            : `Broken at #${verification.problem?.seq}: ${verification.problem?.reason}.`}
+        </p>
+      ) : null}
+      <input
+        value={emailId ?? ""}
+        onChange={(event) => onEmailIdChange(event.target.value.trim() || null)}
+        placeholder="Email id, e.g. email-123"
+        className={fieldClass}
+      />
+      {error ? (
+        <p className="text-sm font-medium text-rose-600">{error}</p>
+      ) : null}
+      {emailId && trail?.emailId === emailId && records.length === 0 ? (
+        <p className="text-sm text-zinc-500">
+          Nothing recorded for this email.
+        </p>
+      ) : null}
+      <ol className="flex flex-col gap-2">
+        {records.map((record) => (
+          <li key={record.id} className="rounded-xl bg-zinc-50 p-3 text-sm">
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="font-medium text-zinc-900">{record.type}</span>
+              <span className="text-xs text-zinc-500">
+                {new Date(record.timestamp).toLocaleString()} ·{" "}
+                {actorLabel(record.actor)}
+                {record.workflowId ? ` · ${record.workflowId}` : ""}
+              </span>
+              <code className="ml-auto font-mono text-[11px] text-zinc-400">
+                #{record.seq} {record.hash.slice(0, 12)}
+              </code>
+            </div>
+            <details className="mt-1 text-xs text-zinc-600">
+              <summary className="cursor-pointer">Input and output</summary>
+              <pre className="mt-1 overflow-x-auto whitespace-pre-wrap rounded-lg bg-white p-2 font-mono text-[11px]">
+                {JSON.stringify(
+                  { input: record.input, output: record.output },
+                  null,
+                  2,
+                )}
+              </pre>
+            </details>
+          </li>
+        ))}
+      </ol>
+    </section>
+  );
+}
@@ -0,0 +1,89 @@
+"use client";
+
+import { useState } from "react";
+import type { AutopilotEventKind, AutopilotStatus } from "@/lib/autopilot";
+
+interface AutopilotPanelProps {
+  status: AutopilotStatus;
+  onControl: (action: "pause" | "resume" | "drain") => Promise<void>;
+}
+
+const kindStyles: Record<AutopilotEventKind, string> = {
+  processed: "bg-emerald-100 text-emerald-700",
+  held: "bg-amber-100 text-amber-700",
+  deferred: "bg-sky-100 text-sky-700",
+  failed: "bg-rose-100 text-rose-700",
+  paused: "bg-zinc-100 text-zinc-600",
+  resumed: "bg-zinc-100 text-zinc-600",
+  drained: "bg-indigo-100 text-indigo-600",
+};
+
+export function AutopilotPanel({ status, onControl }: AutopilotPanelProps) {
+  const [busy, setBusy] = useState(false);
+
+  const control = async (action: "pause" | "resume" | "drain") => {
+    setBusy(true);
+    try {
+      await onControl(action);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-zinc-900">Autopilot</h3>
+        <span
+          className={`rounded-full px-2 py-1 text-xs font-medium ${
+            status.paused
+              ? "bg-zinc-100 text-zinc-600"
+              : "bg-emerald-100 text-emerald-700"
+          }`}
+        >
+          {status.paused ? "Paused" : `Running · ${status.inFlight} in flight`}
+        </span>
+      </div>
+      <p className="text-xs text-zinc-500">
+        {status.processed} emails processed since start
+        {status.heldEmailIds.length
+          ? ` · ${status.heldEmailIds.length} waiting for a human`
+          : ""}
+      </p>
+      <div className="flex gap-2">
+        <button
+          onClick={() => control(status.paused ? "resume" : "pause")}
+          disabled={busy}
+          className="rounded-full border border-zinc-200 px-3 py-1.5 text-xs font-semibold text-zinc-700 transition hover:border-zinc-300 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          {status.paused ? "Resume" : "Pause"}
+        </button>
+        <button
+          onClick={() => control("drain")}
+          disabled={busy}
+          className="rounded-full bg-zinc-900 px-3 py-1.5 text-xs font-semibold text-white transition hover:bg-zinc-700 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          {busy ? "Working…" : "Drain now"}
+        </button>
+      </div>
+      {status.events.length === 0 ? (
+        <div className="rounded-xl border border-dashed border-zinc-200 p-4 text-sm text-zinc-500">
+          Nothing yet. New emails are picked up as soon as they arrive.
+        </div>
+      ) : (
+        <ul className="flex max-h-48 flex-col gap-2 overflow-y-auto text-xs text-zinc-600">
+          {status.events.slice(0, 10).map((event) => (
+            <li key={event.id} className="flex items-start gap-2">
+              <span
+                className={`shrink-0 rounded-full px-2 py-0.5 font-medium ${kindStyles[event.kind]}`}
+              >
+                {event.kind}
+              </span>
+              <span>{event.message}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
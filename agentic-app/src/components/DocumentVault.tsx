@@ -0,0 +1,148 @@
+"use client";
+
+import { useState } from "react";
+import {
+  DocumentType,
+  VaultDocument,
+  documentTypeLabels,
+  documentTypes,
+  latestVersion,
+} from "@/lib/documents";
+
+interface DocumentVaultProps {
+  documents: VaultDocument[];
+  onUpload: (
+    file: File,
+    fields: { type?: DocumentType; tags?: string; name?: string },
+    documentId?: string,
+  ) => Promise<void>;
+  onDelete: (document: VaultDocument) => Promise<void>;
+}
+
+function formatSize(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export function DocumentVault({
+  documents,
+  onUpload,
+  onDelete,
+}: DocumentVaultProps) {
+  const [type, setType] = useState<DocumentType>("resume");
+  const [tags, setTags] = useState("");
+
+  const upload = async (
+    event: React.ChangeEvent<HTMLInputElement>,
+    documentId?: string,
+  ) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    await onUpload(file, documentId ? {} : { type, tags }, documentId);
+    if (!documentId) setTags("");
+  };
+
+  return (
+    <section className="flex flex-col gap-4 rounded-3xl bg-white p-6 shadow-sm ring-1 ring-black/5">
+      <div>
+        <h2 className="text-lg font-semibold text-zinc-900">Document vault</h2>
+        <p className="text-sm text-zinc-500">
+          Files the agent attaches when an email asks for them
+        </p>
+      </div>
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <select
+          value={type}
+          onChange={(event) => setType(event.target.value as DocumentType)}
+          className="rounded-xl border border-zinc-200 px-3 py-2 text-zinc-900"
+        >
+          {documentTypes.map((option) => (
+            <option key={option} value={option}>
+              {documentTypeLabels[option]}
+            </option>
+          ))}
+        </select>
+        <input
+          value={tags}
+          onChange={(event) => setTags(event.target.value)}
+          placeholder="Tags, e.g. video, official"
+          className="flex-1 rounded-xl border border-zinc-200 px-3 py-2 text-zinc-900 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-500/30"
+        />
+        <label className="cursor-pointer rounded-full bg-zinc-900 px-4 py-2 text-xs font-semibold text-white transition hover:bg-zinc-700">
+          Upload
+          <input
+            type="file"
+            className="hidden"
+            onChange={(event) => upload(event)}
+          />
+        </label>
+      </div>
+      {documents.length === 0 ? (
+        <div className="rounded-xl border border-dashed border-zinc-200 p-4 text-sm text-zinc-500">
+          No documents yet. Upload a resume, transcript, statement or portfolio.
+        </div>
+      ) : (
+        <ul className="grid gap-2 md:grid-cols-2 xl:grid-cols-3">
+          {documents.map((document) => {
+            const latest = latestVersion(document);
+            return (
+              <li
+                key={document.id}
+                className="flex flex-col gap-2 rounded-2xl border border-zinc-200 p-3 text-sm"
+              >
+                <div className="flex items-start justify-between gap-2">
+                  <div>
+                    <p className="font-medium text-zinc-900">{document.name}</p>
+                    <p className="text-xs text-zinc-500">
+                      v{latest.version} · {formatSize(latest.size)} ·{" "}
+                      {latest.filename}
+                    </p>
+                  </div>
+                  <span className="rounded-full bg-indigo-100 px-2 py-0.5 text-xs font-medium text-indigo-600">
+                    {documentTypeLabels[document.type]}
+                  </span>
+                </div>
+                {document.tags.length > 0 ? (
+                  <div className="flex flex-wrap gap-1">
+                    {document.tags.map((tag) => (
+                      <span
+                        key={tag}
+                        className="rounded-full bg-zinc-100 px-2 py-0.5 text-xs text-zinc-600"
+                      >
+                        {tag}
+                      </span>
+                    ))}
+                  </div>
+                ) : null}
+                <div className="flex items-center gap-3 text-xs font-medium">
+                  <a
+                    href={`/api/documents/${document.id}/content`}
+                    className="text-indigo-600 hover:underline"
+                  >
+                    Download
+                  </a>
+                  <label className="cursor-pointer text-zinc-600 hover:text-zinc-900">
+                    New version
+                    <input
+                      type="file"
+                      className="hidden"
+                      onChange={(event) => upload(event, document.id)}
+                    />
+                  </label>
+                  <button
+                    onClick={() => onDelete(document)}
+                    className="ml-auto text-rose-600 hover:text-rose-700"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,109 @@
+"use client";
+
+import { useState } from "react";
+import { ActionOutcome, OutcomeEmail } from "@/lib/run-outcomes";
+import { ProcessedEmail } from "@/lib/types";
+
+interface FailedRunsProps {
+  runs: ProcessedEmail[];
+  onRetry: (emailId: string) => Promise<void>;
+  onRequeue: (emailId: string) => Promise<void>;
+}
+
+const statusStyles: Record<ActionOutcome["status"], string> = {
+  succeeded: "text-emerald-700",
+  failed: "text-rose-600",
+  skipped: "text-zinc-400",
+};
+
+export function FailedRuns({ runs, onRetry, onRequeue }: FailedRunsProps) {
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const failed = runs.filter(
+    (run) => (run as OutcomeEmail).status === "failed",
+  );
+
+  const act = async (emailId: string, action: typeof onRetry) => {
+    setBusyId(emailId);
+    try {
+      await action(emailId);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (!failed.length) return null;
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-zinc-900">Failed runs</h3>
+        <span className="text-xs text-zinc-500">
+          {failed.length} to resolve
+        </span>
+      </div>
+      <div className="flex max-h-96 flex-col gap-3 overflow-auto pr-1">
+        {failed.map((run) => {
+          const { outcomes = [], attempt = 1 } = run as OutcomeEmail;
+          const busy = busyId === run.email.id;
+          return (
+            <div
+              key={run.email.id}
+              className="flex flex-col gap-2 rounded-2xl border border-rose-200 bg-rose-50/40 p-4 text-sm"
+            >
+              <div className="flex items-center justify-between text-xs text-zinc-500">
+                <span className="font-medium text-zinc-800">
+                  {run.email.subject}
+                </span>
+                <span>attempt {attempt}</span>
+              </div>
+              <ul className="flex flex-col gap-1 text-xs">
+                {outcomes.map((outcome) => (
+                  <li
+                    key={`${outcome.workflowId}-${outcome.actionId}`}
+                    className="flex flex-wrap gap-1"
+                  >
+                    <span
+                      className={`font-medium ${statusStyles[outcome.status]}`}
+                    >
+                      {outcome.status}
+                    </span>
+                    <span className="text-zinc-700">
+                      {outcome.plugin ?? outcome.type}
+                    </span>
+                    <span className="text-zinc-400">{outcome.workflowId}</span>
+                    {outcome.message ? (
+                      <span className="text-zinc-600">· {outcome.message}</span>
+                    ) : null}
+                    {outcome.attempts > 1 ? (
+                      <span className="text-zinc-400">
+                        · {outcome.attempts} attempts
+                      </span>
+                    ) : null}
+                  </li>
+                ))}
+              </ul>
+              <div className="flex justify-end gap-2">
+                <button
+                  type="button"
+                  disabled={busy}
+                  onClick={() => act(run.email.id, onRequeue)}
+                  className="rounded-full border border-zinc-200 px-4 py-1.5 text-xs font-medium text-zinc-600 transition enabled:hover:bg-zinc-100 disabled:cursor-not-allowed disabled:opacity-50"
+                >
+                  Send back to queue
+                </button>
+                <button
+                  type="button"
+                  disabled={busy}
+                  onClick={() => act(run.email.id, onRetry)}
+                  className="rounded-full bg-indigo-600 px-4 py-1.5 text-xs font-medium text-white transition enabled:hover:bg-indigo-500 disabled:cursor-not-allowed disabled:bg-zinc-300"
+                >
+                  Retry failed steps
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+"use client";
+
+import { useState, useSyncExternalStore } from "react";
+
+const storageKey = "agent-ops.operator";
+const sessionKey = "agent-ops.session";
+const listeners = new Set<() => void>();
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  window.addEventListener("storage", listener);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener("storage", listener);
+  };
+}
+
+function readName() {
+  return window.localStorage.getItem(storageKey) ?? "";
+}
+
+function saveName(name: string) {
+  window.localStorage.setItem(storageKey, name.trim());
+  listeners.forEach((listener) => listener());
+}
+
+// The name this browser works under, shared by every tab; empty until set.
+export function useOperatorName() {
+  return useSyncExternalStore(subscribe, readName, () => "");
+}
+
+// sessionStorage is per tab, so each tab gets its own id and keeps it across
+// reloads. Not crypto.randomUUID, which plain-http origins don't have.
+function readSession() {
+  let session = window.sessionStorage.getItem(sessionKey);
+  if (!session) {
+    session = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+    window.sessionStorage.setItem(sessionKey, session);
+  }
+  return session;
+}
+
+// Identifies this tab's claims; empty while rendering on the server.
+export function useOperatorSession() {
+  return useSyncExternalStore(subscribe, readSession, () => "");
+}
+
+export function OperatorField() {
+  const name = useOperatorName();
+  const [draft, setDraft] = useState<string | null>(null);
+
+  return (
+    <form
+      onSubmit={(event) => {
+        event.preventDefault();
+        if (draft !== null) saveName(draft);
+        setDraft(null);
+      }}
+      className="flex items-center gap-2 text-sm text-zinc-600"
+    >
+      <label htmlFor="operator-name">Working as</label>
+      <input
+        id="operator-name"
+        value={draft ?? name}
+        onChange={(event) => setDraft(event.target.value)}
+        onBlur={() => {
+          if (draft !== null) saveName(draft);
+          setDraft(null);
+        }}
+        placeholder="Your name"
+        className="w-40 rounded-xl border border-zinc-200 bg-white px-3 py-1.5 text-sm text-zinc-900 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-500/30"
+      />
+      {name ? null : (
+        <span className="text-xs text-amber-600">
+          Add a name so teammates see what you are working on
+        </span>
+      )}
+    </form>
+  );
+}
@@ -0,0 +1,196 @@
+"use client";
+
+import { useState } from "react";
+import {
+  ActionPlugin,
+  PluginAction,
+  actionPlugins,
+  getPlugin,
+  readPluginParams,
+} from "@/lib/action-plugins";
+
+interface PluginActionFieldsProps {
+  // Null to add a new action.
+  action: PluginAction | null;
+  onSave: (action: PluginAction) => void;
+  onCancel: () => void;
+}
+
+const fieldClass =
+  "rounded-xl border border-zinc-200 px-3 py-2 text-sm text-zinc-900 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-500/30";
+
+// Form inputs hold text; numbers and JSON are parsed when the action is added.
+function toInputs(plugin: ActionPlugin, params: Record<string, unknown> = {}) {
+  return Object.fromEntries(
+    plugin.params.map((param) => {
+      const value = params[param.name] ?? param.default;
+      if (value === undefined) return [param.name, ""];
+      return [
+        param.name,
+        param.type === "json" ? JSON.stringify(value, null, 2) : String(value),
+      ];
+    }),
+  );
+}
+
+function fromInputs(plugin: ActionPlugin, inputs: Record<string, string>) {
+  const params: Record<string, unknown> = {};
+  for (const param of plugin.params) {
+    const text = inputs[param.name]?.trim();
+    if (!text) continue;
+    if (param.type === "number") {
+      params[param.name] = Number(text);
+    } else if (param.type === "json") {
+      try {
+        params[param.name] = JSON.parse(text);
+      } catch {
+        throw new Error(`${param.label} must be valid JSON`);
+      }
+    } else {
+      params[param.name] = text;
+    }
+  }
+  return params;
+}
+
+export function PluginActionFields({
+  action,
+  onSave,
+  onCancel,
+}: PluginActionFieldsProps) {
+  const initial = getPlugin(action?.plugin ?? "") ?? actionPlugins[0];
+  const [pluginType, setPluginType] = useState(initial.type);
+  const [summary, setSummary] = useState(action?.summary ?? "");
+  const [inputs, setInputs] = useState(() => toInputs(initial, action?.params));
+  const [error, setError] = useState<string | null>(null);
+
+  const plugin = getPlugin(pluginType) ?? actionPlugins[0];
+
+  const choose = (next: ActionPlugin) => {
+    setPluginType(next.type);
+    setInputs(toInputs(next));
+    setError(null);
+  };
+
+  const save = () => {
+    let params: Record<string, unknown>;
+    try {
+      params = fromInputs(plugin, inputs);
+    } catch (reason) {
+      setError(reason instanceof Error ? reason.message : "Invalid value");
+      return;
+    }
+    const { problems } = readPluginParams(plugin, params);
+    if (problems.length) {
+      setError(
+        problems
+          .map((problem) => `${problem.param} ${problem.message}`)
+          .join("; "),
+      );
+      return;
+    }
+    onSave({
+      ...action,
+      id: action?.id ?? "",
+      type: "custom",
+      summary: summary.trim() || plugin.label,
+      details: plugin.description,
+      plugin: plugin.type,
+      params,
+    });
+  };
+
+  return (
+    <div className="flex flex-col gap-2 rounded-xl border border-zinc-200 p-3 text-xs text-zinc-600">
+      <span className="font-medium">
+        {action ? "Edit plugin action" : "New plugin action"}
+      </span>
+      <select
+        value={pluginType}
+        onChange={(event) =>
+          choose(getPlugin(event.target.value) ?? actionPlugins[0])
+        }
+        className={fieldClass}
+      >
+        {actionPlugins.map((item) => (
+          <option key={item.type} value={item.type}>
+            {item.label}
+          </option>
+        ))}
+      </select>
+      <span className="text-zinc-400">{plugin.description}</span>
+      <input
+        value={summary}
+        onChange={(event) => setSummary(event.target.value)}
+        placeholder="Summary"
+        className={fieldClass}
+      />
+      {plugin.params.map((param) => (
+        <label key={param.name} className="flex flex-col gap-1 font-medium">
+          {param.label}
+          {param.required ? " *" : ""}
+          {param.type === "select" ? (
+            <select
+              value={inputs[param.name] ?? ""}
+              onChange={(event) =>
+                setInputs({ ...inputs, [param.name]: event.target.value })
+              }
+              className={fieldClass}
+            >
+              {param.options?.map((option) => (
+                <option key={option} value={option}>
+                  {option}
+                </option>
+              ))}
+            </select>
+          ) : param.type === "json" ? (
+            <textarea
+              value={inputs[param.name] ?? ""}
+              onChange={(event) =>
+                setInputs({ ...inputs, [param.name]: event.target.value })
+              }
+              rows={4}
+              placeholder='{ "subject": "{{subject}}" }'
+              className={`${fieldClass} font-mono`}
+            />
+          ) : (
+            <input
+              type={
+                param.type === "number"
+                  ? "number"
+                  : param.type === "url"
+                    ? "url"
+                    : "text"
+              }
+              value={inputs[param.name] ?? ""}
+              onChange={(event) =>
+                setInputs({ ...inputs, [param.name]: event.target.value })
+              }
+              className={fieldClass}
+            />
+          )}
+          {param.help ? (
+            <span className="font-normal text-zinc-400">{param.help}</span>
+          ) : null}
+        </label>
+      ))}
+      {error ? <p className="font-medium text-rose-600">{error}</p> : null}
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={save}
+          className="rounded-full border border-zinc-200 px-3 py-1 font-medium text-zinc-700 transition hover:bg-zinc-100"
+        >
+          {action ? "Update action" : "Add action"}
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-3 py-1 font-medium text-zinc-500 hover:text-zinc-700"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
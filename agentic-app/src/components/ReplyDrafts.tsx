@@ -0,0 +1,121 @@
+"use client";
+
+import { useState } from "react";
+import { ReplyDraft, ReplyEdit } from "@/lib/replies";
+
+interface ReplyDraftsProps {
+  replies: ReplyDraft[];
+  onSend: (reply: ReplyDraft, edit: ReplyEdit) => Promise<void>;
+  onDiscard: (reply: ReplyDraft) => Promise<void>;
+}
+
+interface Edit {
+  to: string;
+  subject: string;
+  body: string;
+}
+
+export function ReplyDrafts({ replies, onSend, onDiscard }: ReplyDraftsProps) {
+  const [edits, setEdits] = useState<Record<string, Edit>>({});
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const editFor = (reply: ReplyDraft): Edit =>
+    edits[reply.id] ?? {
+      to: reply.to,
+      subject: reply.subject,
+      body: reply.body,
+    };
+
+  const updateEdit = (reply: ReplyDraft, key: keyof Edit, value: string) => {
+    setEdits((prev) => ({
+      ...prev,
+      [reply.id]: { ...editFor(reply), [key]: value },
+    }));
+  };
+
+  const act = async (reply: ReplyDraft, action: () => Promise<void>) => {
+    setBusyId(reply.id);
+    try {
+      await action();
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (replies.length === 0) return null;
+
+  return (
+    <div className="flex flex-col gap-3 rounded-2xl border border-zinc-200 p-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-zinc-900">Reply drafts</h3>
+        <span className="text-xs text-zinc-500">
+          {replies.length} waiting to send
+        </span>
+      </div>
+      {replies.map((reply) => {
+        const edit = editFor(reply);
+        const busy = busyId === reply.id;
+        return (
+          <div
+            key={reply.id}
+            className="flex flex-col gap-2 rounded-xl bg-zinc-50 p-3 text-sm"
+          >
+            <div className="flex items-center gap-2 text-xs text-zinc-500">
+              <span>To</span>
+              <input
+                value={edit.to}
+                onChange={(event) =>
+                  updateEdit(reply, "to", event.target.value)
+                }
+                className="flex-1 rounded-lg border border-zinc-200 bg-white px-2 py-1 text-xs text-zinc-900 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-500/30"
+              />
+              <span>{reply.workflowId}</span>
+            </div>
+            <input
+              value={edit.subject}
+              onChange={(event) =>
+                updateEdit(reply, "subject", event.target.value)
+              }
+              className="rounded-lg border border-zinc-200 bg-white px-3 py-1.5 text-sm font-medium text-zinc-900 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-500/30"
+            />
+            <textarea
+              value={edit.body}
+              onChange={(event) =>
+                updateEdit(reply, "body", event.target.value)
+              }
+              rows={5}
+              className="rounded-lg border border-zinc-200 bg-white px-3 py-1.5 text-xs text-zinc-700 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-500/30"
+            />
+            {reply.status === "failed" ? (
+              <p className="text-xs font-medium text-rose-600">
+                Last attempt failed: {reply.error}
+              </p>
+            ) : null}
+            <div className="flex justify-end gap-2">
+              <button
+                type="button"
+                disabled={busy}
+                onClick={() => act(reply, () => onDiscard(reply))}
+                className="rounded-full border border-zinc-200 px-4 py-1.5 text-xs font-medium text-zinc-600 transition enabled:hover:bg-zinc-100 disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                Discard
+              </button>
+              <button
+                type="button"
+                disabled={busy || !edit.subject.trim() || !edit.to.trim()}
+                onClick={() => act(reply, () => onSend(reply, edit))}
+                className="rounded-full bg-indigo-600 px-4 py-1.5 text-xs font-medium text-white transition enabled:hover:bg-indigo-500 disabled:cursor-not-allowed disabled:bg-zinc-300"
+              >
+                {busy
+                  ? "Sending…"
+                  : reply.status === "failed"
+                    ? "Retry"
+                    : "Send"}
+              </button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,307 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { agentApi } from "@/lib/api-client";
+import {
+  FacetCount,
+  SearchQuery,
+  SearchResults,
+  SearchScope,
+  SearchStatus,
+  emptySearchQuery,
+  isEmptySearch,
+  searchScopes,
+  toSearchParams,
+} from "@/lib/search";
+import { AutomationActionType, Workflow } from "@/lib/types";
+
+interface SearchPanelProps {
+  workflows: Workflow[];
+  initialQuery: SearchQuery;
+  onSelectEmail: (emailId: string) => void;
+}
+
+const scopeLabels: Record<SearchScope, string> = {
+  queue: "Queue",
+  processed: "History",
+  log: "Log",
+};
+
+const statusLabels: Record<SearchStatus, string> = {
+  queued: "Queued",
+  processed: "Processed",
+  needs_approval: "Needs approval",
+};
+
+const fieldClass =
+  "rounded-xl border border-zinc-200 px-3 py-2 text-sm text-zinc-900 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-500/30";
+
+function FacetSelect({
+  label,
+  value,
+  counts,
+  describe,
+  onChange,
+}: {
+  label: string;
+  value: string | null;
+  counts: FacetCount[];
+  describe: (value: string) => string;
+  onChange: (value: string | null) => void;
+}) {
+  // Keep the current choice selectable even when nothing matches it any more.
+  const options =
+    value && !counts.some((facet) => facet.value === value)
+      ? [...counts, { value, count: 0 }]
+      : counts;
+  return (
+    <select
+      value={value ?? ""}
+      onChange={(event) => onChange(event.target.value || null)}
+      className={fieldClass}
+    >
+      <option value="">{label}</option>
+      {options.map((facet) => (
+        <option key={facet.value} value={facet.value}>
+          {describe(facet.value)} ({facet.count})
+        </option>
+      ))}
+    </select>
+  );
+}
+
+export function SearchPanel({
+  workflows,
+  initialQuery,
+  onSelectEmail,
+}: SearchPanelProps) {
+  const [query, setQuery] = useState(initialQuery);
+  const [results, setResults] = useState<SearchResults | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Debounced so typing doesn't fire a request per keystroke; the URL follows
+  // the query so a filtered view can be shared.
+  useEffect(() => {
+    const timer = setTimeout(async () => {
+      const params = toSearchParams(query).toString();
+      window.history.replaceState(
+        null,
+        "",
+        params ? `?${params}` : window.location.pathname,
+      );
+      if (isEmptySearch(query)) {
+        setResults(null);
+        return;
+      }
+      try {
+        setResults(await agentApi.search(query));
+        setError(null);
+      } catch (reason) {
+        setError(reason instanceof Error ? reason.message : "Search failed");
+      }
+    }, 250);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  const update = (patch: Partial<SearchQuery>) =>
+    setQuery((prev) => ({ ...prev, ...patch }));
+
+  const toggleScope = (scope: SearchScope) => {
+    const scopes = query.scopes.includes(scope)
+      ? query.scopes.filter((item) => item !== scope)
+      : searchScopes.filter(
+          (item) => item === scope || query.scopes.includes(item),
+        );
+    if (scopes.length) update({ scopes });
+  };
+
+  const loadMore = async (scope: SearchScope) => {
+    const offset = results?.[scope].nextOffset;
+    if (!results || offset === null || offset === undefined) return;
+    try {
+      const page = await agentApi.search({ ...query, scopes: [scope] }, offset);
+      setResults((prev) =>
+        prev
+          ? {
+              ...prev,
+              [scope]: {
+                ...page[scope],
+                items: [...prev[scope].items, ...page[scope].items],
+              },
+            }
+          : prev,
+      );
+    } catch (reason) {
+      setError(reason instanceof Error ? reason.message : "Search failed");
+    }
+  };
+
+  const workflowName = (id: string) =>
+    workflows.find((workflow) => workflow.id === id)?.name ?? id;
+
+  const moreButton = (scope: SearchScope) =>
+    results?.[scope].nextOffset !== null ? (
+      <button
+        type="button"
+        onClick={() => loadMore(scope)}
+        className="self-start text-xs font-medium text-indigo-600 hover:text-indigo-500"
+      >
+        Load more
+      </button>
+    ) : null;
+
+  return (
+    <section className="flex flex-col gap-4 rounded-3xl bg-white/70 p-6 shadow-sm ring-1 ring-black/5 backdrop-blur">
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          value={query.text}
+          onChange={(event) => update({ text: event.target.value })}
+          placeholder='Search subject, sender, body, tags — "exact phrase"'
+          className={`min-w-64 flex-1 ${fieldClass}`}
+        />
+        {searchScopes.map((scope) => (
+          <label
+            key={scope}
+            className="flex items-center gap-1 text-sm text-zinc-600"
+          >
+            <input
+              type="checkbox"
+              checked={query.scopes.includes(scope)}
+              onChange={() => toggleScope(scope)}
+            />
+            {scopeLabels[scope]}
+          </label>
+        ))}
+        {isEmptySearch(query) ? null : (
+          <button
+            type="button"
+            onClick={() => setQuery(emptySearchQuery)}
+            className="rounded-full border border-zinc-200 px-4 py-1.5 text-xs font-medium text-zinc-600 transition hover:bg-zinc-100"
+          >
+            Clear
+          </button>
+        )}
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        <FacetSelect
+          label="Any workflow"
+          value={query.workflowId}
+          counts={results?.facets.workflow ?? []}
+          describe={workflowName}
+          onChange={(workflowId) => update({ workflowId })}
+        />
+        <FacetSelect
+          label="Any action"
+          value={query.actionType}
+          counts={results?.facets.actionType ?? []}
+          describe={(value) => value.replace(/_/g, " ")}
+          onChange={(value) =>
+            update({ actionType: value as AutomationActionType | null })
+          }
+        />
+        <FacetSelect
+          label="Any status"
+          value={query.status}
+          counts={results?.facets.status ?? []}
+          describe={(value) => statusLabels[value as SearchStatus] ?? value}
+          onChange={(value) => update({ status: value as SearchStatus | null })}
+        />
+        <FacetSelect
+          label="Any confidence"
+          value={
+            query.minConfidence === null ? null : String(query.minConfidence)
+          }
+          counts={results?.facets.confidence ?? []}
+          describe={(value) => `≥ ${Math.round(Number(value) * 100)}%`}
+          onChange={(value) =>
+            update({ minConfidence: value === null ? null : Number(value) })
+          }
+        />
+        <label className="flex items-center gap-1 text-sm text-zinc-500">
+          From
+          <input
+            type="date"
+            value={query.from ?? ""}
+            onChange={(event) => update({ from: event.target.value || null })}
+            className={fieldClass}
+          />
+        </label>
+        <label className="flex items-center gap-1 text-sm text-zinc-500">
+          To
+          <input
+            type="date"
+            value={query.to ?? ""}
+            onChange={(event) => update({ to: event.target.value || null })}
+            className={fieldClass}
+          />
+        </label>
+      </div>
+      {error ? (
+        <p className="text-sm font-medium text-rose-600">{error}</p>
+      ) : null}
+      {results ? (
+        <div className="grid gap-4 md:grid-cols-3">
+          {query.scopes.includes("queue") ? (
+            <div className="flex flex-col gap-2">
+              <h3 className="text-sm font-semibold text-zinc-900">
+                Queue ({results.queue.total})
+              </h3>
+              {results.queue.items.map((email) => (
+                <button
+                  key={email.id}
+                  type="button"
+                  onClick={() => onSelectEmail(email.id)}
+                  className="rounded-xl bg-zinc-50 p-3 text-left text-sm transition hover:bg-indigo-50"
+                >
+                  <p className="font-medium text-zinc-900">{email.subject}</p>
+                  <p className="text-xs text-zinc-500">{email.senderName}</p>
+                </button>
+              ))}
+              {moreButton("queue")}
+            </div>
+          ) : null}
+          {query.scopes.includes("processed") ? (
+            <div className="flex flex-col gap-2">
+              <h3 className="text-sm font-semibold text-zinc-900">
+                History ({results.processed.total})
+              </h3>
+              {results.processed.items.map((item) => (
+                <div
+                  key={item.email.id}
+                  className="rounded-xl bg-zinc-50 p-3 text-sm"
+                >
+                  <p className="font-medium text-zinc-900">
+                    {item.email.subject}
+                  </p>
+                  <p className="text-xs text-zinc-500">
+                    {item.workflowIds.map(workflowName).join(", ") ||
+                      "No workflow"}{" "}
+                    · {Math.round(item.confidence * 100)}%
+                  </p>
+                </div>
+              ))}
+              {moreButton("processed")}
+            </div>
+          ) : null}
+          {query.scopes.includes("log") ? (
+            <div className="flex flex-col gap-2">
+              <h3 className="text-sm font-semibold text-zinc-900">
+                Log ({results.log.total})
+              </h3>
+              {results.log.items.map((entry) => (
+                <div
+                  key={entry.id}
+                  className="rounded-xl bg-zinc-50 p-3 text-sm"
+                >
+                  <p className="font-medium text-zinc-900">{entry.title}</p>
+                  <p className="text-xs text-zinc-500">{entry.body}</p>
+                </div>
+              ))}
+              {moreButton("log")}
+            </div>
+          ) : null}
+        </div>
+      ) : null}
+    </section>
+  );
+}
@@ -0,0 +1,227 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { agentApi } from "@/lib/api-client";
+import { Workflow } from "@/lib/types";
+import {
+  FieldChange,
+  WorkflowVersion,
+  describeChange,
+} from "@/lib/workflow-versions";
+
+interface WorkflowHistoryProps {
+  workflows: Workflow[];
+  onEdit: (workflow: Workflow) => void;
+  onRolledBack: (workflow: Workflow, version: number) => void;
+}
+
+interface Comparison {
+  from: number | null;
+  to: number;
+  changes: FieldChange[];
+}
+
+function formatValue(value: unknown) {
+  if (value === undefined) return "—";
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  return text.length > 120 ? `${text.slice(0, 119)}…` : text;
+}
+
+export function WorkflowHistory({
+  workflows,
+  onEdit,
+  onRolledBack,
+}: WorkflowHistoryProps) {
+  const [workflowId, setWorkflowId] = useState(workflows[0]?.id ?? "");
+  const [history, setHistory] = useState<{
+    workflowId: string;
+    versions: WorkflowVersion[];
+  } | null>(null);
+  const [comparison, setComparison] = useState<Comparison | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const selected =
+    workflows.find((workflow) => workflow.id === workflowId) ?? null;
+
+  // Reloads whenever the selected workflow is saved, so a new version shows
+  // up with its diff against the one before.
+  useEffect(() => {
+    if (!selected) return;
+    let cancelled = false;
+    const load = async () => {
+      try {
+        const { versions } = await agentApi.listWorkflowVersions(selected.id);
+        const latest = versions[0];
+        const diff = latest
+          ? await agentApi.diffWorkflow(selected.id, null, latest.version)
+          : null;
+        if (cancelled) return;
+        setHistory({ workflowId: selected.id, versions });
+        setComparison(
+          diff
+            ? {
+                from: diff.from?.version ?? null,
+                to: diff.to.version,
+                changes: diff.changes,
+              }
+            : null,
+        );
+        setError(null);
+      } catch (reason) {
+        if (!cancelled) {
+          setError(reason instanceof Error ? reason.message : "Load failed");
+        }
+      }
+    };
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [selected]);
+
+  const versions =
+    history && history.workflowId === workflowId ? history.versions : [];
+
+  const compare = async (from: number | null, to: number) => {
+    if (!selected) return;
+    try {
+      const diff = await agentApi.diffWorkflow(selected.id, from, to);
+      setComparison({ from, to, changes: diff.changes });
+    } catch (reason) {
+      setError(reason instanceof Error ? reason.message : "Diff failed");
+    }
+  };
+
+  const rollback = async (version: WorkflowVersion) => {
+    if (!window.confirm(`Restore v${version.version} as a new version?`)) {
+      return;
+    }
+    setBusy(true);
+    try {
+      const result = await agentApi.rollbackWorkflow(
+        version.workflowId,
+        version.version,
+      );
+      onRolledBack(result.workflow, result.version);
+    } catch (reason) {
+      setError(reason instanceof Error ? reason.message : "Rollback failed");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (!workflows.length) return null;
+
+  return (
+    <div className="flex flex-col gap-3 rounded-2xl border border-zinc-200 p-4">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="text-sm font-semibold text-zinc-900">
+          Workflow history
+        </h3>
+        {selected ? (
+          <button
+            type="button"
+            onClick={() => onEdit(selected)}
+            className="rounded-full border border-zinc-200 px-3 py-1 text-xs font-medium text-zinc-600 transition hover:bg-zinc-100"
+          >
+            Edit
+          </button>
+        ) : null}
+      </div>
+      <select
+        value={workflowId}
+        onChange={(event) => setWorkflowId(event.target.value)}
+        className="rounded-xl border border-zinc-200 px-3 py-2 text-sm text-zinc-900"
+      >
+        {workflows.map((workflow) => (
+          <option key={workflow.id} value={workflow.id}>
+            {workflow.name}
+          </option>
+        ))}
+      </select>
+      {error ? (
+        <p className="text-xs font-medium text-rose-600">{error}</p>
+      ) : null}
+      <ul className="flex flex-col gap-1 text-xs text-zinc-600">
+        {versions.map((version, index) => (
+          <li
+            key={version.version}
+            className={`flex items-center gap-2 rounded-lg px-2 py-1 ${
+              comparison?.to === version.version ? "bg-indigo-50" : ""
+            }`}
+          >
+            <button
+              type="button"
+              onClick={() =>
+                compare(versions[index + 1]?.version ?? null, version.version)
+              }
+              className="font-medium text-zinc-900 hover:text-indigo-600"
+            >
+              v{version.version}
+            </button>
+            <span>
+              {describeChange(version)} by{" "}
+              {version.actor.name ?? version.actor.type} ·{" "}
+              {new Date(version.createdAt).toLocaleString()}
+            </span>
+            {index > 0 ? (
+              <button
+                type="button"
+                disabled={busy}
+                onClick={() => rollback(version)}
+                className="ml-auto font-medium text-indigo-600 enabled:hover:text-indigo-500 disabled:opacity-50"
+              >
+                Roll back
+              </button>
+            ) : (
+              <span className="ml-auto text-zinc-400">current</span>
+            )}
+          </li>
+        ))}
+      </ul>
+      {comparison ? (
+        <div className="flex flex-col gap-1 rounded-xl bg-zinc-50 p-3 text-xs text-zinc-600">
+          <p className="font-medium text-zinc-800">
+            {comparison.from
+              ? `v${comparison.from} → v${comparison.to}`
+              : `v${comparison.to} (first version)`}
+          </p>
+          {comparison.changes.length === 0 ? (
+            <p>No differences.</p>
+          ) : (
+            comparison.changes.map((change) => (
+              <div key={change.path} className="flex flex-wrap gap-1">
+                <code className="font-mono text-zinc-800">{change.path}</code>
+                {change.added || change.removed ? (
+                  <>
+                    {change.added?.map((item) => (
+                      <span key={`+${item}`} className="text-emerald-700">
+                        +{item}
+                      </span>
+                    ))}
+                    {change.removed?.map((item) => (
+                      <span key={`-${item}`} className="text-rose-600">
+                        −{item}
+                      </span>
+                    ))}
+                  </>
+                ) : (
+                  <span>
+                    <span className="text-rose-600">
+                      {formatValue(change.before)}
+                    </span>{" "}
+                    →{" "}
+                    <span className="text-emerald-700">
+                      {formatValue(change.after)}
+                    </span>
+                  </span>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+"use client";
+
+import { useState } from "react";
+import { isEnabled } from "@/lib/triggers";
+import { Workflow } from "@/lib/types";
+
+interface WorkflowListProps {
+  workflows: Workflow[];
+  editingId: string | null;
+  onEdit: (workflow: Workflow) => void;
+  onDuplicate: (workflow: Workflow) => Promise<void>;
+  onToggle: (workflow: Workflow) => Promise<void>;
+  onDelete: (workflow: Workflow) => Promise<void>;
+}
+
+export function WorkflowList({
+  workflows,
+  editingId,
+  onEdit,
+  onDuplicate,
+  onToggle,
+  onDelete,
+}: WorkflowListProps) {
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const act = async (workflow: Workflow, action: typeof onToggle) => {
+    setBusyId(workflow.id);
+    try {
+      await action(workflow);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (!workflows.length) return null;
+
+  return (
+    <div className="flex flex-col gap-2 rounded-2xl border border-zinc-200 p-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-zinc-900">Workflows</h3>
+        <span className="text-xs text-zinc-500">
+          {workflows.filter(isEnabled).length} of {workflows.length} enabled
+        </span>
+      </div>
+      <ul className="flex max-h-72 flex-col gap-1 overflow-auto pr-1 text-xs">
+        {workflows.map((workflow) => {
+          const enabled = isEnabled(workflow);
+          const busy = busyId === workflow.id;
+          return (
+            <li
+              key={workflow.id}
+              className={`flex items-center gap-2 rounded-lg px-2 py-1.5 ${
+                editingId === workflow.id ? "bg-indigo-50" : ""
+              }`}
+            >
+              <input
+                type="checkbox"
+                checked={enabled}
+                disabled={busy}
+                onChange={() => act(workflow, onToggle)}
+                aria-label={enabled ? "Disable workflow" : "Enable workflow"}
+                className="size-4 rounded border border-zinc-300 text-indigo-600 focus:ring-indigo-500"
+              />
+              <span
+                className={`truncate font-medium ${
+                  enabled ? "text-zinc-800" : "text-zinc-400 line-through"
+                }`}
+              >
+                {workflow.name}
+              </span>
+              <span className="text-zinc-400">
+                {workflow.actions.length}{" "}
+                {workflow.actions.length === 1 ? "action" : "actions"}
+              </span>
+              <div className="ml-auto flex items-center gap-2 font-medium">
+                <button
+                  type="button"
+                  onClick={() => onEdit(workflow)}
+                  className="text-indigo-600 hover:text-indigo-500"
+                >
+                  Edit
+                </button>
+                <button
+                  type="button"
+                  disabled={busy}
+                  onClick={() => act(workflow, onDuplicate)}
+                  className="text-zinc-600 enabled:hover:text-zinc-900 disabled:opacity-50"
+                >
+                  Duplicate
+                </button>
+                <button
+                  type="button"
+                  disabled={busy}
+                  onClick={() => {
+                    if (window.confirm(`Delete “${workflow.name}”?`)) {
+                      act(workflow, onDelete);
+                    }
+                  }}
+                  className="text-rose-600 enabled:hover:text-rose-500 disabled:opacity-50"
+                >
+                  Delete
+                </button>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
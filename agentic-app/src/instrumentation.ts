@@ -0,0 +1,12 @@
+// Next.js calls this once per server start: resume notification deliveries
+// and SLA clocks left over from the previous process, and start the autopilot.
+export async function register() {
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { scheduleDeliveries } = await import("@/lib/notifications");
+    const { checkSlaBreaches } = await import("@/lib/sla-monitor");
+    const { startAutopilot } = await import("@/lib/autopilot");
+    scheduleDeliveries();
+    checkSlaBreaches();
+    startAutopilot();
+  }
+}
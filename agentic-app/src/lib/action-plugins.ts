@@ -0,0 +1,408 @@
+import { WorkflowAction } from "@/lib/approvals";
+import { EmailEntities, entityValues } from "@/lib/extraction";
+import {
+  OutcomeLogEntry,
+  RetryPolicy,
+  errorMessage,
+  singleAttempt,
+  withRetries,
+} from "@/lib/run-outcomes";
+import { EmailPayload, Workflow } from "@/lib/types";
+
+// Plugin actions are stored as `custom` actions naming the plugin that runs
+// them, so the agent's own action types stay as they are.
+export type PluginAction = WorkflowAction & {
+  plugin?: string;
+  params?: Record<string, unknown>;
+};
+
+export type PluginParamType = "string" | "url" | "select" | "number" | "json";
+
+export interface PluginParam {
+  name: string;
+  label: string;
+  type: PluginParamType;
+  required?: boolean;
+  // Choices for select params.
+  options?: readonly string[];
+  default?: string | number;
+  help?: string;
+  // String params must match this; `message` explains what was expected.
+  pattern?: { test: RegExp; message: string };
+}
+
+type ParamValue<T extends PluginParamType> = T extends "number"
+  ? number
+  : T extends "json"
+    ? unknown
+    : string;
+
+export type ParamsOf<S extends readonly PluginParam[]> = {
+  [P in S[number] as P["name"]]: P extends { required: true }
+    ? ParamValue<P["type"]>
+    : ParamValue<P["type"]> | undefined;
+};
+
+export interface PluginContext {
+  email: EmailPayload;
+  entities: EmailEntities;
+  workflow: Workflow;
+  action: WorkflowAction;
+}
+
+export interface PluginOutcome {
+  summary: string;
+  output: unknown;
+}
+
+export interface ActionPlugin<
+  S extends readonly PluginParam[] = readonly PluginParam[],
+> {
+  type: string;
+  label: string;
+  description: string;
+  params: S;
+  // Throw PluginError (or anything else) to report a failed execution.
+  execute(params: ParamsOf<S>, context: PluginContext): Promise<PluginOutcome>;
+}
+
+export interface ActionExecution {
+  emailId: string;
+  actionId: string;
+  workflowId: string;
+  plugin: string;
+  status: "succeeded" | "failed";
+  summary: string;
+  output: unknown;
+  error: string | null;
+  startedAt: string;
+  attempts: number;
+  // Measured wall-clock time, unlike the agent's estimates.
+  runtimeSeconds: number;
+}
+
+export type ExecutedEmail = { executions?: ActionExecution[] };
+
+export class PluginError extends Error {
+  constructor(
+    message: string,
+    public readonly output: unknown = null,
+    public readonly retryable = true,
+  ) {
+    super(message);
+    this.name = "PluginError";
+  }
+}
+
+export interface ParamProblem {
+  param: string;
+  message: string;
+}
+
+// Names usable as {{placeholders}} in JSON params. A string that is only a
+// placeholder takes the value as is, so lists and objects stay structured.
+export const payloadVariables = [
+  "emailId",
+  "subject",
+  "sender",
+  "senderName",
+  "to",
+  "receivedAt",
+  "body",
+  "tags",
+  "portalUrl",
+  "deadline",
+  "urgency",
+  "contact",
+  "amount",
+  "documents",
+  "entities",
+] as const;
+
+export type PayloadVariable = (typeof payloadVariables)[number];
+
+const variablePattern = /\{\{\s*([a-zA-Z]+)\s*\}\}/g;
+const wholeVariablePattern = /^\{\{\s*([a-zA-Z]+)\s*\}\}$/;
+
+export function payloadValues(
+  email: EmailPayload,
+  entities: EmailEntities,
+): Record<PayloadVariable, unknown> {
+  return {
+    ...entityValues(entities),
+    emailId: email.id,
+    subject: email.subject,
+    sender: email.sender,
+    senderName: email.senderName,
+    to: email.to,
+    receivedAt: email.receivedAt,
+    body: email.body,
+    tags: email.tags,
+    entities,
+  };
+}
+
+export function renderPayload(
+  template: unknown,
+  values: Record<PayloadVariable, unknown>,
+): unknown {
+  if (typeof template === "string") {
+    const whole = template.match(wholeVariablePattern);
+    if (whole && Object.hasOwn(values, whole[1])) {
+      return values[whole[1] as PayloadVariable] ?? null;
+    }
+    return template.replace(variablePattern, (placeholder, name: string) => {
+      if (!Object.hasOwn(values, name)) return placeholder;
+      const value = values[name as PayloadVariable];
+      if (value === null || value === undefined) return "";
+      return typeof value === "string" ? value : JSON.stringify(value);
+    });
+  }
+  if (Array.isArray(template)) {
+    return template.map((item) => renderPayload(item, values));
+  }
+  if (template && typeof template === "object") {
+    return Object.fromEntries(
+      Object.entries(template).map(([key, value]) => [
+        key,
+        renderPayload(value, values),
+      ]),
+    );
+  }
+  return template;
+}
+
+function placeholdersIn(value: unknown): string[] {
+  if (typeof value === "string") {
+    return [...value.matchAll(variablePattern)].map(([, name]) => name);
+  }
+  if (value && typeof value === "object") {
+    return Object.values(value).flatMap(placeholdersIn);
+  }
+  return [];
+}
+
+// Definitions can be imported and edited by anyone with API access, so they may
+// only point at variables set aside for webhook tokens, never at other secrets.
+const tokenEnvPattern = /^WEBHOOK_TOKEN_[A-Z0-9_]+$/;
+
+const webhookParams = [
+  { name: "url", label: "URL", type: "url", required: true },
+  {
+    name: "method",
+    label: "Method",
+    type: "select",
+    options: ["POST", "PUT", "PATCH"],
+    default: "POST",
+  },
+  {
+    name: "payload",
+    label: "JSON payload",
+    type: "json",
+    required: true,
+    help: `{{placeholders}}: ${payloadVariables.join(", ")}`,
+  },
+  {
+    name: "tokenEnv",
+    label: "Bearer token variable",
+    type: "string",
+    help: "Server environment variable holding the token, kept out of the definition",
+    pattern: {
+      test: tokenEnvPattern,
+      message: "must name a WEBHOOK_TOKEN_* environment variable",
+    },
+  },
+  {
+    name: "timeoutSeconds",
+    label: "Timeout (seconds)",
+    type: "number",
+    default: 10,
+  },
+] as const satisfies readonly PluginParam[];
+
+export const webhookPlugin: ActionPlugin<typeof webhookParams> = {
+  type: "webhook",
+  label: "HTTP webhook",
+  description: "Sends a JSON payload built from the email to a URL",
+  params: webhookParams,
+  async execute(params, { email, entities }) {
+    const headers: Record<string, string> = {
+      "content-type": "application/json",
+    };
+    if (params.tokenEnv) {
+      // Definitions saved before the prefix was enforced may name anything.
+      if (!tokenEnvPattern.test(params.tokenEnv)) {
+        throw new PluginError(
+          `${params.tokenEnv} is not a WEBHOOK_TOKEN_* variable`,
+          null,
+          false,
+        );
+      }
+      const token = process.env[params.tokenEnv];
+      if (!token) {
+        throw new PluginError(`${params.tokenEnv} is not set`, null, false);
+      }
+      headers.authorization = `Bearer ${token}`;
+    }
+    const payload = renderPayload(
+      params.payload,
+      payloadValues(email, entities),
+    );
+    let response: Response;
+    try {
+      response = await fetch(params.url, {
+        method: params.method ?? "POST",
+        headers,
+        body: JSON.stringify(payload),
+        signal: AbortSignal.timeout((params.timeoutSeconds ?? 10) * 1000),
+      });
+    } catch (error) {
+      throw new PluginError(
+        error instanceof Error ? error.message : "Request failed",
+        { payload },
+      );
+    }
+    const text = (await response.text().catch(() => "")).slice(0, 500);
+    const output = { payload, status: response.status, response: text };
+    if (!response.ok) {
+      // Client errors other than rate limiting will fail the same way again.
+      throw new PluginError(
+        `HTTP ${response.status}`,
+        output,
+        response.status >= 500 || response.status === 429,
+      );
+    }
+    return { summary: `HTTP ${response.status} from ${params.url}`, output };
+  },
+};
+
+export const actionPlugins: ActionPlugin[] = [webhookPlugin];
+
+export const pluginTypes = actionPlugins.map((plugin) => plugin.type);
+
+export function getPlugin(type: string) {
+  return actionPlugins.find((plugin) => plugin.type === type) ?? null;
+}
+
+export function pluginOf(action: WorkflowAction) {
+  const { plugin } = action as PluginAction;
+  return plugin ? getPlugin(plugin) : null;
+}
+
+// Drops empty values and fills defaults, so stored params are what runs.
+export function readPluginParams(
+  plugin: ActionPlugin,
+  input: Record<string, unknown>,
+) {
+  const params: Record<string, unknown> = {};
+  const problems: ParamProblem[] = [];
+  const problem = (param: string, message: string) =>
+    problems.push({ param, message });
+  for (const key of Object.keys(input)) {
+    if (!plugin.params.some((param) => param.name === key)) {
+      problem(key, "is not a parameter of this plugin");
+    }
+  }
+  for (const param of plugin.params) {
+    const value = input[param.name];
+    if (value === undefined || value === null || value === "") {
+      if (param.required) problem(param.name, "is required");
+      else if (param.default !== undefined) params[param.name] = param.default;
+      continue;
+    }
+    switch (param.type) {
+      case "number":
+        if (
+          typeof value !== "number" ||
+          !Number.isFinite(value) ||
+          value <= 0
+        ) {
+          problem(param.name, "must be a positive number");
+          continue;
+        }
+        break;
+      case "select":
+        if (!param.options?.includes(value as string)) {
+          problem(param.name, `must be one of ${param.options?.join(", ")}`);
+          continue;
+        }
+        break;
+      case "url":
+        if (typeof value !== "string" || !/^https?:\/\/\S+$/i.test(value)) {
+          problem(param.name, "must be an http(s) URL");
+          continue;
+        }
+        break;
+      case "json":
+        for (const name of placeholdersIn(value)) {
+          if (!payloadVariables.includes(name as PayloadVariable)) {
+            problem(
+              param.name,
+              `unknown placeholder {{${name}}}; expected one of ${payloadVariables.join(", ")}`,
+            );
+          }
+        }
+        break;
+      default:
+        if (typeof value !== "string") {
+          problem(param.name, "must be a string");
+          continue;
+        }
+        if (param.pattern && !param.pattern.test.test(value)) {
+          problem(param.name, param.pattern.message);
+          continue;
+        }
+    }
+    params[param.name] = value;
+  }
+  return { params, problems };
+}
+
+export async function executePluginAction(
+  plugin: ActionPlugin,
+  context: PluginContext,
+  policy: RetryPolicy = singleAttempt,
+): Promise<ActionExecution> {
+  const startedAt = new Date().toISOString();
+  const { ok, value, error, attempts, runtimeSeconds } = await withRetries(
+    policy,
+    () =>
+      plugin.execute((context.action as PluginAction).params ?? {}, context),
+    {
+      retryable: (reason) =>
+        !(reason instanceof PluginError) || reason.retryable,
+    },
+  );
+  const message = ok ? null : errorMessage(error);
+  return {
+    emailId: context.email.id,
+    actionId: context.action.id,
+    workflowId: context.workflow.id,
+    plugin: plugin.type,
+    status: ok ? "succeeded" : "failed",
+    summary: value?.summary ?? `${plugin.label} failed: ${message}`,
+    output: ok
+      ? value?.output
+      : error instanceof PluginError
+        ? error.output
+        : null,
+    error: message,
+    startedAt,
+    attempts,
+    runtimeSeconds,
+  };
+}
+
+export function executionLogEntry(execution: ActionExecution): OutcomeLogEntry {
+  return {
+    id: `log-${execution.emailId}-${execution.actionId}-${Date.parse(execution.startedAt)}`,
+    workflowId: execution.workflowId,
+    title:
+      execution.status === "succeeded"
+        ? `${execution.plugin} action succeeded`
+        : `${execution.plugin} action failed`,
+    body: `${execution.summary} (${execution.runtimeSeconds}s, ${execution.attempts} ${execution.attempts === 1 ? "attempt" : "attempts"})`,
+    timestamp: execution.startedAt,
+    status: execution.status,
+  };
+}
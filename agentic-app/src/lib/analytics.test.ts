@@ -0,0 +1,170 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import {
+  analyticsReport,
+  completedAt,
+  parseWindowHours,
+} from "@/lib/analytics";
+import { formatMetrics } from "@/lib/metrics";
+import { ActionOutcome, OutcomeEmail } from "@/lib/run-outcomes";
+import { SlaClock } from "@/lib/sla";
+import { ProcessedEmail, Workflow } from "@/lib/types";
+
+const now = Date.parse("2024-05-08T12:30:00.000Z");
+
+const workflows = [
+  { id: "offer-desk", name: "Offer desk", slaMinutes: 30 },
+  { id: "scholarship-desk", name: "Scholarship desk", slaMinutes: 60 },
+] as Workflow[];
+
+function outcome(
+  status: ActionOutcome["status"],
+  finishedAt: string,
+): ActionOutcome {
+  return {
+    actionId: `offer-desk-${status}`,
+    workflowId: "offer-desk",
+    type: "custom",
+    status,
+    message: null,
+    attempts: 1,
+    runtimeSeconds: null,
+    finishedAt,
+  };
+}
+
+function run(
+  workflowIds: string[],
+  confidence: number,
+  extra: Partial<OutcomeEmail> = {},
+) {
+  return {
+    email: { id: "email", receivedAt: "2024-05-08T09:00:00.000Z" },
+    workflowIds,
+    confidence,
+    ...extra,
+  } as unknown as ProcessedEmail;
+}
+
+function clock(status: SlaClock["status"], at: string): SlaClock {
+  return {
+    id: `sla-${status}`,
+    emailId: "email",
+    subject: "Offer",
+    workflowId: "offer-desk",
+    startedAt: "2024-05-08T10:00:00.000Z",
+    dueAt: "2024-05-08T10:30:00.000Z",
+    status,
+    breachedAt: status === "breached" ? at : null,
+    completedAt: at,
+    escalatedWith: null,
+  };
+}
+
+const processed = [
+  run(["offer-desk"], 0.95, {
+    completedAt: "2024-05-08T12:05:00.000Z",
+    outcomes: [
+      outcome("succeeded", "2024-05-08T12:05:00.000Z"),
+      outcome("failed", "2024-05-08T12:05:00.000Z"),
+    ],
+  }),
+  run(["offer-desk"], 0.55, {
+    outcomes: [outcome("skipped", "2024-05-08T11:10:00.000Z")],
+  }),
+  run([], 0.3),
+];
+
+const clocks = [
+  clock("met", "2024-05-08T10:20:00.000Z"),
+  clock("breached", "2024-05-08T11:40:00.000Z"),
+];
+
+test("the window defaults to a day and stops at a week", () => {
+  const hours = (query: string) => parseWindowHours(new URLSearchParams(query));
+  assert.equal(hours(""), 24);
+  assert.equal(hours("hours=6"), 6);
+  assert.equal(hours("hours=1000"), 168);
+  assert.equal(hours("hours=-1"), 24);
+  assert.equal(hours("hours=1.5"), 24);
+});
+
+test("older runs fall back to their last step, then arrival", () => {
+  assert.equal(completedAt(processed[0]), "2024-05-08T12:05:00.000Z");
+  assert.equal(completedAt(processed[1]), "2024-05-08T11:10:00.000Z");
+  assert.equal(completedAt(processed[2]), "2024-05-08T09:00:00.000Z");
+});
+
+test("counts, rates and hourly series per workflow", () => {
+  const report = analyticsReport(workflows, processed, clocks, {
+    windowHours: 3,
+    now,
+  });
+  assert.deepEqual(report.hours, [
+    "2024-05-08T10:00:00.000Z",
+    "2024-05-08T11:00:00.000Z",
+    "2024-05-08T12:00:00.000Z",
+  ]);
+  assert.equal(report.runs, 3);
+  assert.deepEqual(report.runsPerHour, [0, 1, 1]);
+  assert.equal(report.matched, 2);
+
+  const [offers, scholarships] = report.workflows;
+  assert.equal(offers.runs, 2);
+  assert.equal(offers.matchRate, 2 / 3);
+  assert.deepEqual(offers.confidence, [0, 1, 0, 0, 0, 1]);
+  assert.equal(offers.confidenceSum, 1.5);
+  assert.deepEqual(offers.actions, { succeeded: 1, failed: 1, skipped: 1 });
+  assert.equal(offers.failureRate, 0.5);
+  assert.deepEqual(offers.sla, { met: 1, breached: 1, running: 0 });
+  assert.equal(offers.slaCompliance, 0.5);
+  assert.deepEqual(offers.slaPerHour, [
+    { met: 1, breached: 0 },
+    { met: 0, breached: 1 },
+    { met: 0, breached: 0 },
+  ]);
+
+  assert.equal(scholarships.runs, 0);
+  assert.equal(scholarships.failureRate, null);
+  assert.equal(scholarships.slaCompliance, null);
+});
+
+test("metrics leave out ratios with nothing to divide by", () => {
+  const text = formatMetrics(
+    analyticsReport(workflows, processed, clocks, { windowHours: 3, now }),
+    { queued: 4, pendingApprovals: 1 },
+  );
+  const lines = text.split("\n");
+  assert.ok(lines.includes("# TYPE agent_runs gauge"));
+  assert.ok(lines.includes("agent_runs 3"));
+  assert.ok(lines.includes("agent_queue_emails 4"));
+  assert.ok(
+    lines.includes(
+      'agent_workflow_actions{workflow="offer-desk",status="failed"} 1',
+    ),
+  );
+  assert.ok(
+    lines.includes(
+      'agent_workflow_confidence_bucket{workflow="offer-desk",le="0.6"} 1',
+    ),
+  );
+  assert.ok(
+    lines.includes(
+      'agent_workflow_confidence_bucket{workflow="offer-desk",le="+Inf"} 2',
+    ),
+  );
+  assert.ok(
+    lines.includes(
+      'agent_workflow_action_failure_ratio{workflow="offer-desk"} 0.5',
+    ),
+  );
+  assert.equal(
+    lines.some((line) =>
+      line.startsWith(
+        'agent_workflow_action_failure_ratio{workflow="scholarship-desk"}',
+      ),
+    ),
+    false,
+  );
+  assert.ok(text.endsWith("\n"));
+});
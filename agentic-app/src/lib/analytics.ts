@@ -0,0 +1,162 @@
+import { ActionStatus, OutcomeEmail } from "@/lib/run-outcomes";
+import { SlaClock, slaReport } from "@/lib/sla";
+import { ProcessedEmail, Workflow } from "@/lib/types";
+
+// Upper bounds of the confidence histogram buckets.
+export const confidenceBuckets = [0.5, 0.6, 0.7, 0.8, 0.9, 1];
+
+const hourMs = 3_600_000;
+const defaultWindowHours = 24;
+const maxWindowHours = 168;
+
+export interface HourlySla {
+  met: number;
+  breached: number;
+}
+
+// Counts and rates cover every recorded run; the per-hour series cover the
+// window only.
+export interface WorkflowAnalytics {
+  workflowId: string;
+  workflowName: string;
+  runs: number;
+  runsPerHour: number[];
+  // Share of all runs this workflow matched.
+  matchRate: number | null;
+  // Runs per confidence bucket, not cumulative.
+  confidence: number[];
+  confidenceSum: number;
+  actions: Record<ActionStatus, number>;
+  // Failed over failed and succeeded; skipped actions don't count.
+  failureRate: number | null;
+  sla: { met: number; breached: number; running: number };
+  slaCompliance: number | null;
+  slaPerHour: HourlySla[];
+}
+
+export interface AnalyticsReport {
+  generatedAt: string;
+  windowHours: number;
+  // Start of each hour in the window, oldest first.
+  hours: string[];
+  runs: number;
+  runsPerHour: number[];
+  // Runs that matched at least one workflow.
+  matched: number;
+  matchRate: number | null;
+  workflows: WorkflowAnalytics[];
+}
+
+export function parseWindowHours(searchParams: URLSearchParams) {
+  const hours = Number(searchParams.get("hours") ?? defaultWindowHours);
+  return Number.isInteger(hours) && hours > 0
+    ? Math.min(hours, maxWindowHours)
+    : defaultWindowHours;
+}
+
+// Runs recorded before completedAt existed fall back to their last step,
+// then to when the email arrived.
+export function completedAt(run: ProcessedEmail) {
+  const { completedAt: recorded, outcomes = [] } = run as OutcomeEmail;
+  const finished = outcomes.map((outcome) => outcome.finishedAt).sort();
+  return recorded ?? finished.at(-1) ?? run.email.receivedAt;
+}
+
+function ratio(part: number, whole: number) {
+  return whole ? part / whole : null;
+}
+
+export function analyticsReport(
+  workflows: Workflow[],
+  processed: ProcessedEmail[],
+  clocks: SlaClock[],
+  { windowHours = defaultWindowHours, now = Date.now() } = {},
+): AnalyticsReport {
+  const start = Math.floor(now / hourMs) * hourMs - (windowHours - 1) * hourMs;
+  const hourOf = (iso: string | null) => {
+    if (!iso) return -1;
+    const index = Math.floor((Date.parse(iso) - start) / hourMs);
+    return index >= 0 && index < windowHours ? index : -1;
+  };
+  const series = () => Array.from({ length: windowHours }, () => 0);
+  const runHours = processed.map((run) => hourOf(completedAt(run)));
+
+  const runsPerHour = series();
+  runHours.forEach((hour) => {
+    if (hour >= 0) runsPerHour[hour] += 1;
+  });
+
+  const matched = processed.filter((run) => run.workflowIds.length > 0).length;
+  const sla = new Map(
+    slaReport(workflows, clocks).map((row) => [row.workflowId, row]),
+  );
+
+  return {
+    generatedAt: new Date(now).toISOString(),
+    windowHours,
+    hours: Array.from({ length: windowHours }, (_, index) =>
+      new Date(start + index * hourMs).toISOString(),
+    ),
+    runs: processed.length,
+    runsPerHour,
+    matched,
+    matchRate: ratio(matched, processed.length),
+    workflows: workflows.map((workflow) => {
+      const own = processed
+        .map((run, index) => ({ run, hour: runHours[index] }))
+        .filter(({ run }) => run.workflowIds.includes(workflow.id));
+      const perHour = series();
+      const confidence = confidenceBuckets.map(() => 0);
+      let confidenceSum = 0;
+      const actions: Record<ActionStatus, number> = {
+        succeeded: 0,
+        failed: 0,
+        skipped: 0,
+      };
+      for (const { run, hour } of own) {
+        if (hour >= 0) perHour[hour] += 1;
+        const bucket = confidenceBuckets.findIndex(
+          (bound) => run.confidence <= bound,
+        );
+        confidence[bucket === -1 ? confidence.length - 1 : bucket] += 1;
+        confidenceSum += run.confidence;
+        for (const outcome of (run as OutcomeEmail).outcomes ?? []) {
+          if (outcome.workflowId === workflow.id) actions[outcome.status] += 1;
+        }
+      }
+
+      const slaPerHour = Array.from({ length: windowHours }, () => ({
+        met: 0,
+        breached: 0,
+      }));
+      for (const clock of clocks) {
+        if (clock.workflowId !== workflow.id) continue;
+        if (clock.status !== "met" && clock.status !== "breached") continue;
+        const hour = hourOf(
+          clock.status === "met" ? clock.completedAt : clock.breachedAt,
+        );
+        if (hour >= 0) slaPerHour[hour][clock.status] += 1;
+      }
+
+      const row = sla.get(workflow.id);
+      return {
+        workflowId: workflow.id,
+        workflowName: workflow.name,
+        runs: own.length,
+        runsPerHour: perHour,
+        matchRate: ratio(own.length, processed.length),
+        confidence,
+        confidenceSum,
+        actions,
+        failureRate: ratio(actions.failed, actions.failed + actions.succeeded),
+        sla: {
+          met: row?.met ?? 0,
+          breached: row?.breached ?? 0,
+          running: row?.running ?? 0,
+        },
+        slaCompliance: row?.compliance ?? null,
+        slaPerHour,
+      };
+    }),
+  };
+}
@@ -0,0 +1,215 @@
+import assert from "node:assert/strict";
+import { createServer } from "node:http";
+import { AddressInfo } from "node:net";
+import { test } from "node:test";
+import {
+  Analyzer,
+  analyzeEmail,
+  analyzeLocally,
+  classify,
+  configuredAnalyzer,
+  llmAnalyzer,
+  localAnalyzer,
+  summarize,
+} from "@/lib/analyzers";
+import { EmailPayload, Workflow } from "@/lib/types";
+
+function workflow(
+  id: string,
+  categories: string[],
+  keywords: string[],
+  description: string,
+) {
+  return {
+    id,
+    name: id,
+    description,
+    trigger: { keywords, categories },
+    playbookHighlights: [],
+  } as unknown as Workflow;
+}
+
+const workflows = [
+  workflow(
+    "offer-desk",
+    ["job"],
+    ["offer", "salary"],
+    "Signs offer letters and negotiates salary",
+  ),
+  workflow(
+    "invoices",
+    ["finance"],
+    ["invoice", "payment"],
+    "Pays supplier invoices before they are overdue",
+  ),
+];
+
+const email = {
+  id: "email-offer",
+  subject: "Your offer letter",
+  sender: "recruiter@techhire.io",
+  senderName: "TechHire Recruiting",
+  to: "you@example.com",
+  preview: "",
+  body: [
+    "Hi Sam,",
+    "Great news from the hiring team.",
+    "The offer letter lists your salary and the offer expires on Friday.",
+    "Best regards,",
+    "TechHire",
+  ].join("\n"),
+  receivedAt: "2024-05-06T09:15:00.000Z",
+  tags: [],
+} as EmailPayload;
+
+test("classify ranks the category whose workflows share the email's terms", () => {
+  const ranked = classify(email, workflows);
+  assert.deepEqual(
+    ranked.map((item) => item.category),
+    ["job", "finance"],
+  );
+  assert.ok(ranked[0].score > 0);
+  assert.equal(ranked[1].score, 0);
+});
+
+test("summaries skip greetings and sign-offs and are capped", () => {
+  assert.equal(
+    summarize(email),
+    "The offer letter lists your salary and the offer expires on Friday.",
+  );
+  const short = summarize(email, 20);
+  assert.equal(short.length, 20);
+  assert.ok(short.endsWith("…"));
+  assert.equal(
+    summarize({ ...email, body: "Hi Sam,\nThanks!" }),
+    "Your offer letter",
+  );
+});
+
+test("local analysis is deterministic and falls back to general", () => {
+  const analysis = analyzeLocally(email, workflows);
+  assert.deepEqual(analysis, analyzeLocally(email, workflows));
+  assert.equal(analysis.analyzer, "local");
+  assert.equal(analysis.category, "job");
+  assert.ok(analysis.confidence > 0.5 && analysis.confidence <= 0.99);
+
+  const unrelated = analyzeLocally(
+    { ...email, subject: "Lunch", body: "Shall we grab lunch tomorrow?" },
+    workflows,
+  );
+  assert.equal(unrelated.category, "general");
+  assert.equal(unrelated.confidence, 0.2);
+});
+
+test("a failing analyzer falls back to the local one", async () => {
+  const failing: Analyzer = {
+    name: "llm:test",
+    async analyze() {
+      throw new Error("HTTP 503");
+    },
+  };
+  const analysis = await analyzeEmail(failing, email, workflows);
+  assert.deepEqual(analysis, {
+    ...analyzeLocally(email, workflows),
+    fallbackFrom: "llm:test",
+    error: "HTTP 503",
+  });
+  assert.deepEqual(
+    await analyzeEmail(localAnalyzer, email, workflows),
+    analyzeLocally(email, workflows),
+  );
+});
+
+test("a misconfigured analyzer falls back instead of failing the run", async () => {
+  const cases: [Record<string, string | undefined>, string, string][] = [
+    [{ ANALYZER: "gpt" }, "gpt", 'Unknown analyzer "gpt"'],
+    [
+      { ANALYZER: "llm", ANALYZER_URL: undefined },
+      "llm",
+      "ANALYZER_URL is required for ANALYZER=llm",
+    ],
+  ];
+  const saved = { ...process.env };
+  try {
+    for (const [env, fallbackFrom, error] of cases) {
+      for (const [key, value] of Object.entries(env)) {
+        if (value === undefined) delete process.env[key];
+        else process.env[key] = value;
+      }
+      const analysis = await analyzeEmail(
+        configuredAnalyzer(),
+        email,
+        workflows,
+      );
+      assert.equal(analysis.analyzer, "local");
+      assert.equal(analysis.fallbackFrom, fallbackFrom);
+      assert.equal(analysis.error, error);
+    }
+  } finally {
+    process.env = saved;
+  }
+});
+
+// Answers every request with `status` and a chat completion whose message
+// content is `content`.
+async function withModel(
+  status: number,
+  content: string,
+  run: (analyzer: Analyzer) => Promise<void>,
+) {
+  const server = createServer((request, response) => {
+    request.resume().on("end", () => {
+      response.writeHead(status, { "content-type": "application/json" });
+      response.end(JSON.stringify({ choices: [{ message: { content } }] }));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  try {
+    await run(
+      llmAnalyzer({ url: `http://127.0.0.1:${port}`, model: "test-model" }),
+    );
+  } finally {
+    server.close();
+  }
+}
+
+test("the LLM's answer is clamped to the candidate categories", async () => {
+  await withModel(
+    200,
+    JSON.stringify({ category: "job", summary: " Sign it. ", confidence: 1.7 }),
+    async (analyzer) => {
+      assert.deepEqual(await analyzer.analyze(email, workflows), {
+        analyzer: "llm:test-model",
+        category: "job",
+        summary: "Sign it.",
+        confidence: 1,
+      });
+    },
+  );
+  await withModel(
+    200,
+    JSON.stringify({ category: "spam", summary: "Junk", confidence: "high" }),
+    async (analyzer) => {
+      const analysis = await analyzer.analyze(email, workflows);
+      assert.equal(analysis.category, "general");
+      assert.equal(analysis.confidence, 0.5);
+    },
+  );
+});
+
+test("unusable LLM responses are analyzer errors", async () => {
+  const cases: [number, string, string][] = [
+    [503, "{}", "HTTP 503"],
+    [200, "not json", "The model did not return JSON"],
+    [200, JSON.stringify({ category: "job" }), "The model returned no summary"],
+  ];
+  for (const [status, content, message] of cases) {
+    await withModel(status, content, async (analyzer) => {
+      await assert.rejects(analyzer.analyze(email, workflows), {
+        name: "AnalyzerError",
+        message,
+      });
+    });
+  }
+});
@@ -0,0 +1,352 @@
+import {
+  ActionLogEntry,
+  EmailPayload,
+  ProcessedEmail,
+  Workflow,
+} from "@/lib/types";
+
+export interface Analysis {
+  // Which analyzer produced this, e.g. "local" or "llm:gpt-4o-mini".
+  analyzer: string;
+  category: string;
+  summary: string;
+  confidence: number;
+  // Set when the configured analyzer failed and the local one stood in.
+  fallbackFrom?: string;
+  error?: string;
+}
+
+export type AnalyzedEmail = ProcessedEmail & { analysis?: Analysis };
+
+// Workflows are the candidates the email could belong to; their trigger
+// categories are the labels an analyzer may choose from.
+export interface Analyzer {
+  name: string;
+  analyze(email: EmailPayload, workflows: Workflow[]): Promise<Analysis>;
+}
+
+export const fallbackCategory = "general";
+
+const stopwords = new Set(
+  "the and for you your with this that from have has are was were will would can could our their there here about into been also just than then them they what when which while who whom why how all any but not its it's i'm we're please thanks thank regards hello dear".split(
+    " ",
+  ),
+);
+
+function tokenize(text: string) {
+  return (text.toLowerCase().match(/[a-z0-9][a-z0-9'-]*/g) ?? []).filter(
+    (token) => token.length > 2 && !stopwords.has(token),
+  );
+}
+
+function termCounts(tokens: string[]) {
+  const counts = new Map<string, number>();
+  for (const token of tokens) counts.set(token, (counts.get(token) ?? 0) + 1);
+  return counts;
+}
+
+export function categoriesOf(workflows: Workflow[]) {
+  const categories = [
+    ...new Set(workflows.flatMap((workflow) => workflow.trigger.categories)),
+  ];
+  return categories.length ? categories : [fallbackCategory];
+}
+
+// One document per category, built from every workflow that claims it.
+function categoryDocuments(workflows: Workflow[]) {
+  const documents = new Map<string, string[]>();
+  for (const workflow of workflows) {
+    const tokens = tokenize(
+      [
+        workflow.name,
+        workflow.description,
+        // Keywords are what the workflow author expects in the email itself.
+        ...workflow.trigger.keywords,
+        ...workflow.trigger.keywords,
+        ...workflow.trigger.categories,
+        ...workflow.playbookHighlights,
+      ].join(" "),
+    );
+    for (const category of workflow.trigger.categories) {
+      documents.set(category, [...(documents.get(category) ?? []), ...tokens]);
+    }
+  }
+  return documents;
+}
+
+function tfidf(counts: Map<string, number>, idf: (term: string) => number) {
+  const vector = new Map<string, number>();
+  for (const [term, count] of counts) {
+    vector.set(term, (1 + Math.log(count)) * idf(term));
+  }
+  return vector;
+}
+
+function cosine(left: Map<string, number>, right: Map<string, number>) {
+  let dot = 0;
+  for (const [term, weight] of left) dot += weight * (right.get(term) ?? 0);
+  const norm = (vector: Map<string, number>) =>
+    Math.sqrt([...vector.values()].reduce((sum, w) => sum + w * w, 0));
+  const denominator = norm(left) * norm(right);
+  return denominator ? dot / denominator : 0;
+}
+
+// Ranks categories by TF-IDF cosine similarity between the email and each
+// category's workflows; ties go to the category listed first.
+export function classify(email: EmailPayload, workflows: Workflow[]) {
+  const documents = categoryDocuments(workflows);
+  const documentFrequency = new Map<string, number>();
+  for (const tokens of documents.values()) {
+    for (const term of new Set(tokens)) {
+      documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+    }
+  }
+  const idf = (term: string) =>
+    Math.log((documents.size + 1) / ((documentFrequency.get(term) ?? 0) + 1)) +
+    1;
+  const emailTokens = tokenize(
+    `${email.subject} ${email.subject} ${email.body}`,
+  );
+  const emailVector = tfidf(termCounts(emailTokens), idf);
+  return [...documents.entries()]
+    .map(([category, tokens]) => ({
+      category,
+      score: cosine(emailVector, tfidf(termCounts(tokens), idf)),
+    }))
+    .sort((left, right) => right.score - left.score);
+}
+
+const greetingPattern =
+  /^(hi|hello|dear|hey|good (morning|afternoon|evening))\b/i;
+const signOffPattern =
+  /^(best|regards|thanks|thank you|sincerely|cheers|warmly)\b/i;
+
+// Extractive: the body sentence carrying the most of the email's own repeated
+// terms, weighted towards the start of the message.
+export function summarize(email: EmailPayload, maxLength = 180) {
+  const sentences = email.body
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map((sentence) => sentence.trim())
+    .filter(
+      (sentence) =>
+        tokenize(sentence).length >= 3 &&
+        !greetingPattern.test(sentence) &&
+        !signOffPattern.test(sentence),
+    );
+  if (!sentences.length) return email.subject;
+  const counts = termCounts(tokenize(`${email.subject} ${email.body}`));
+  const best = sentences
+    .map((sentence, index) => {
+      const tokens = tokenize(sentence);
+      const weight = tokens.reduce(
+        (sum, token) => sum + (counts.get(token) ?? 0),
+        0,
+      );
+      return {
+        sentence,
+        score: weight / Math.sqrt(tokens.length) / (1 + index * 0.1),
+      };
+    })
+    .reduce((top, item) => (item.score > top.score ? item : top));
+  return best.sentence.length > maxLength
+    ? `${best.sentence.slice(0, maxLength - 1).trimEnd()}…`
+    : best.sentence;
+}
+
+function round(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+// Deterministic and offline, so the same email and workflows always produce
+// the same analysis. Simulations call it directly.
+export function analyzeLocally(
+  email: EmailPayload,
+  workflows: Workflow[],
+): Analysis {
+  const [best, runnerUp] = classify(email, workflows);
+  if (!best || best.score === 0) {
+    return {
+      analyzer: "local",
+      category: fallbackCategory,
+      summary: summarize(email),
+      confidence: 0.2,
+    };
+  }
+  const text = `${email.subject} ${email.body}`.toLowerCase();
+  const keywordHits = workflows
+    .filter((workflow) => workflow.trigger.categories.includes(best.category))
+    .flatMap((workflow) => workflow.trigger.keywords)
+    .filter((keyword) => text.includes(keyword.toLowerCase())).length;
+  // A clear winner and literal keyword hits both raise confidence.
+  const margin = best.score - (runnerUp?.score ?? 0);
+  return {
+    analyzer: "local",
+    category: best.category,
+    summary: summarize(email),
+    confidence: round(
+      Math.min(
+        0.99,
+        0.3 + 0.4 * best.score + 0.2 * margin + 0.05 * keywordHits,
+      ),
+    ),
+  };
+}
+
+export const localAnalyzer: Analyzer = {
+  name: "local",
+  async analyze(email, workflows) {
+    return analyzeLocally(email, workflows);
+  },
+};
+
+export class AnalyzerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AnalyzerError";
+  }
+}
+
+// Any OpenAI-compatible chat completions endpoint.
+export function llmAnalyzer(options: {
+  url: string;
+  model: string;
+  apiKey?: string;
+  timeoutMs?: number;
+}): Analyzer {
+  const name = `llm:${options.model}`;
+  return {
+    name,
+    async analyze(email, workflows) {
+      const categories = categoriesOf(workflows);
+      let response: Response;
+      try {
+        response = await fetch(options.url, {
+          method: "POST",
+          headers: {
+            "content-type": "application/json",
+            ...(options.apiKey
+              ? { authorization: `Bearer ${options.apiKey}` }
+              : {}),
+          },
+          body: JSON.stringify({
+            model: options.model,
+            temperature: 0,
+            response_format: { type: "json_object" },
+            messages: [
+              {
+                role: "system",
+                content: `You triage an inbox. Reply with JSON {"category": string, "summary": string, "confidence": number}. category is one of: ${categories.join(", ")}. summary is one sentence under 180 characters. confidence is between 0 and 1.`,
+              },
+              {
+                role: "user",
+                content: `From: ${email.senderName} <${email.sender}>\nSubject: ${email.subject}\n\n${email.body}`,
+              },
+            ],
+          }),
+          signal: AbortSignal.timeout(options.timeoutMs ?? 15_000),
+        });
+      } catch (error) {
+        throw new AnalyzerError(
+          error instanceof Error ? error.message : "Request failed",
+        );
+      }
+      if (!response.ok) {
+        throw new AnalyzerError(`HTTP ${response.status}`);
+      }
+      const payload = (await response.json().catch(() => null)) as {
+        choices?: { message?: { content?: string } }[];
+      } | null;
+      let result: Partial<Record<keyof Analysis, unknown>>;
+      try {
+        result = JSON.parse(payload?.choices?.[0]?.message?.content ?? "");
+      } catch {
+        throw new AnalyzerError("The model did not return JSON");
+      }
+      if (typeof result.summary !== "string" || !result.summary.trim()) {
+        throw new AnalyzerError("The model returned no summary");
+      }
+      const confidence = Number(result.confidence);
+      return {
+        analyzer: name,
+        category: categories.includes(result.category as string)
+          ? (result.category as string)
+          : fallbackCategory,
+        summary: result.summary.trim(),
+        confidence: Number.isFinite(confidence)
+          ? round(Math.min(1, Math.max(0, confidence)))
+          : 0.5,
+      };
+    },
+  };
+}
+
+// Stands in for a misconfigured analyzer: it always fails, so analyzeEmail
+// falls back to the local one and each record says what's wrong.
+function misconfiguredAnalyzer(name: string, message: string): Analyzer {
+  return {
+    name,
+    async analyze() {
+      throw new AnalyzerError(message);
+    },
+  };
+}
+
+// ANALYZER=local (the default) or llm; the LLM needs ANALYZER_URL and
+// usually ANALYZER_API_KEY.
+export function configuredAnalyzer(): Analyzer {
+  const name = process.env.ANALYZER ?? "local";
+  switch (name) {
+    case "local":
+      return localAnalyzer;
+    case "llm": {
+      const url = process.env.ANALYZER_URL;
+      if (!url) {
+        return misconfiguredAnalyzer(
+          "llm",
+          "ANALYZER_URL is required for ANALYZER=llm",
+        );
+      }
+      return llmAnalyzer({
+        url,
+        model: process.env.ANALYZER_MODEL ?? "gpt-4o-mini",
+        apiKey: process.env.ANALYZER_API_KEY,
+        timeoutMs: Number(process.env.ANALYZER_TIMEOUT_MS) || undefined,
+      });
+    }
+    default:
+      return misconfiguredAnalyzer(name, `Unknown analyzer "${name}"`);
+  }
+}
+
+// A failing external analyzer never blocks a run; the local one stands in.
+export async function analyzeEmail(
+  analyzer: Analyzer,
+  email: EmailPayload,
+  workflows: Workflow[],
+): Promise<Analysis> {
+  if (analyzer === localAnalyzer) return analyzer.analyze(email, workflows);
+  try {
+    return await analyzer.analyze(email, workflows);
+  } catch (error) {
+    return {
+      ...(await localAnalyzer.analyze(email, workflows)),
+      fallbackFrom: analyzer.name,
+      error: error instanceof Error ? error.message : "Analyzer failed",
+    };
+  }
+}
+
+export function analysisLogEntry(
+  email: EmailPayload,
+  workflowId: string,
+  analysis: Analysis,
+): ActionLogEntry {
+  const timestamp = new Date().toISOString();
+  return {
+    id: `log-${email.id}-${workflowId}-analysis-${timestamp}`,
+    workflowId,
+    timestamp,
+    title: `Analysis: ${analysis.category}`,
+    body: `${analysis.summary} (${analysis.analyzer}, ${Math.round(analysis.confidence * 100)}% confidence${analysis.fallbackFrom ? `; ${analysis.fallbackFrom} failed: ${analysis.error}` : ""})`,
+  };
+}
@@ -0,0 +1,369 @@
+import { ActionExecution } from "@/lib/action-plugins";
+import type { AnalyticsReport } from "@/lib/analytics";
+import { ApprovalDecision, ApprovalRequest } from "@/lib/approvals";
+import type { AuditRecord, AuditVerification } from "@/lib/audit";
+import type { AutopilotStatus } from "@/lib/autopilot";
+import type { TrackedNotification } from "@/lib/channels";
+import type { EmailClaim } from "@/lib/claims";
+import { DocumentType, VaultDocument } from "@/lib/documents";
+import { ParsedEmail } from "@/lib/mime";
+import { Page } from "@/lib/pagination";
+import { EmailPriority, PriorityOverride } from "@/lib/priority";
+import { ReplyDraft, ReplyEdit } from "@/lib/replies";
+import { SearchQuery, SearchResults, toSearchParams } from "@/lib/search";
+import type { SimulationResult, WorkflowDryRun } from "@/lib/simulation";
+import { SlaClock, SlaComplianceRow } from "@/lib/sla";
+import { Application, ApplicationUpdate } from "@/lib/tracker";
+import {
+  ActionLogEntry,
+  EmailPayload,
+  ProcessedEmail,
+  Workflow,
+} from "@/lib/types";
+import { ValidationIssue } from "@/lib/workflow-definition";
+import { FieldChange, WorkflowVersion } from "@/lib/workflow-versions";
+
+export interface MailImportResult {
+  emails: ParsedEmail[];
+  failures: { file: string; error: string }[];
+}
+
+export interface WorkflowImportResult {
+  created: string[];
+  updated: string[];
+  workflows: Workflow[];
+}
+
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly issues: ValidationIssue[] = [],
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+export interface AutomationRunResult {
+  processedEmail: ProcessedEmail;
+  logs: ActionLogEntry[];
+  whatsappMessages: TrackedNotification[];
+  approvals: ApprovalRequest[];
+  replies: ReplyDraft[];
+}
+
+export interface RetryResult {
+  processedEmail: ProcessedEmail;
+  logs: ActionLogEntry[];
+  replies: ReplyDraft[];
+}
+
+export interface ApprovalDecisionResult {
+  approval: ApprovalRequest;
+  execution: ActionExecution | null;
+  logs: ActionLogEntry[];
+  whatsappMessages: TrackedNotification[];
+  replies: ReplyDraft[];
+}
+
+// Sent as X-Actor and X-Actor-Session, so the audit trail names the operator
+// and claims belong to this tab.
+let operatorName: string | null = null;
+let operatorSession: string | null = null;
+
+export function setOperatorName(name: string) {
+  operatorName = name.trim() || null;
+}
+
+export function setOperatorSession(session: string) {
+  operatorSession = session || null;
+}
+
+function withOperator(init?: RequestInit): RequestInit {
+  const headers = new Headers(init?.headers);
+  if (typeof init?.body === "string" && !headers.has("Content-Type")) {
+    headers.set("Content-Type", "application/json");
+  }
+  if (operatorName) headers.set("X-Actor", operatorName);
+  if (operatorSession) headers.set("X-Actor-Session", operatorSession);
+  return { ...init, headers };
+}
+
+async function request<T>(path: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(path, withOperator(init));
+  if (!response.ok) {
+    const payload = (await response.json().catch(() => null)) as {
+      error?: string;
+      details?: unknown;
+    } | null;
+    throw new ApiError(
+      payload?.error ?? `Request failed (${response.status})`,
+      response.status,
+      Array.isArray(payload?.details) ? payload.details : [],
+    );
+  }
+  return response.json() as Promise<T>;
+}
+
+export const agentApi = {
+  listQueue() {
+    return request<{ emails: EmailPayload[]; priorities: EmailPriority[] }>(
+      "/api/emails",
+    );
+  },
+
+  search(query: SearchQuery, offset = 0, limit = 20) {
+    const params = toSearchParams(query);
+    params.set("offset", String(offset));
+    params.set("limit", String(limit));
+    return request<SearchResults>(`/api/search?${params}`);
+  },
+
+  async setPriority(
+    emailId: string,
+    update: Partial<Pick<PriorityOverride, "pinned" | "priority">>,
+  ) {
+    const { priority } = await request<{ priority: EmailPriority }>(
+      `/api/emails/${encodeURIComponent(emailId)}/priority`,
+      { method: "PUT", body: JSON.stringify(update) },
+    );
+    return priority;
+  },
+
+  claimEmail(emailId: string, force = false) {
+    return request<{ claim: EmailClaim }>(
+      `/api/emails/${encodeURIComponent(emailId)}/claim${force ? "?force=true" : ""}`,
+      { method: "POST" },
+    );
+  },
+
+  releaseEmail(emailId: string) {
+    return request<{ released: boolean }>(
+      `/api/emails/${encodeURIComponent(emailId)}/claim`,
+      { method: "DELETE" },
+    );
+  },
+
+  async ingestEmail(email: EmailPayload) {
+    const { email: stored } = await request<{ email: EmailPayload }>(
+      "/api/emails",
+      { method: "POST", body: JSON.stringify(email) },
+    );
+    return stored;
+  },
+
+  importMail(files: File[]) {
+    const form = new FormData();
+    files.forEach((file) => form.append("files", file));
+    return request<MailImportResult>("/api/emails/import", {
+      method: "POST",
+      body: form,
+    });
+  },
+
+  async createWorkflow(workflow: Workflow) {
+    const { workflow: stored } = await request<{ workflow: Workflow }>(
+      "/api/workflows",
+      { method: "POST", body: JSON.stringify(workflow) },
+    );
+    return stored;
+  },
+
+  async updateWorkflow(id: string, workflow: Workflow) {
+    const { workflow: stored } = await request<{ workflow: Workflow }>(
+      `/api/workflows/${encodeURIComponent(id)}`,
+      { method: "PUT", body: JSON.stringify(workflow) },
+    );
+    return stored;
+  },
+
+  async deleteWorkflow(id: string) {
+    const response = await fetch(
+      `/api/workflows/${encodeURIComponent(id)}`,
+      withOperator({ method: "DELETE" }),
+    );
+    if (!response.ok) {
+      throw new ApiError(`Delete failed (${response.status})`, response.status);
+    }
+  },
+
+  listWorkflowVersions(id: string) {
+    return request<{ versions: WorkflowVersion[] }>(
+      `/api/workflows/${encodeURIComponent(id)}/versions`,
+    );
+  },
+
+  diffWorkflow(id: string, from: number | null, to: number) {
+    const params = new URLSearchParams({ to: String(to) });
+    if (from) params.set("from", String(from));
+    return request<{
+      from: WorkflowVersion | null;
+      to: WorkflowVersion;
+      changes: FieldChange[];
+    }>(`/api/workflows/${encodeURIComponent(id)}/diff?${params}`);
+  },
+
+  rollbackWorkflow(id: string, version: number) {
+    return request<{ workflow: Workflow; version: number }>(
+      `/api/workflows/${encodeURIComponent(id)}/rollback`,
+      { method: "POST", body: JSON.stringify({ version }) },
+    );
+  },
+
+  simulateWorkflow(workflow: Workflow) {
+    return request<WorkflowDryRun>("/api/simulations", {
+      method: "POST",
+      body: JSON.stringify({ workflow }),
+    });
+  },
+
+  async planEmail(emailId: string) {
+    const { plan } = await request<{ plan: SimulationResult }>(
+      `/api/emails/${encodeURIComponent(emailId)}/plan`,
+    );
+    return plan;
+  },
+
+  importWorkflows(text: string, filename: string) {
+    const format = /\.ya?ml$/i.test(filename) ? "yaml" : "json";
+    return request<WorkflowImportResult>(
+      `/api/workflows/import?format=${format}`,
+      { method: "POST", body: text },
+    );
+  },
+
+  listActionLog(offset: number, limit = 20) {
+    return request<Page<ActionLogEntry>>(
+      `/api/logs?offset=${offset}&limit=${limit}`,
+    );
+  },
+
+  auditTrail(emailId: string) {
+    return request<{ records: AuditRecord[] }>(
+      `/api/audit?emailId=${encodeURIComponent(emailId)}`,
+    );
+  },
+
+  verifyAudit() {
+    return request<AuditVerification>("/api/audit/verify");
+  },
+
+  listNotifications(offset: number, limit = 20) {
+    return request<Page<TrackedNotification>>(
+      `/api/notifications?offset=${offset}&limit=${limit}`,
+    );
+  },
+
+  getSla() {
+    return request<{ report: SlaComplianceRow[]; clocks: SlaClock[] }>(
+      "/api/sla",
+    );
+  },
+
+  getAnalytics(hours = 24) {
+    return request<AnalyticsReport>(`/api/analytics?hours=${hours}`);
+  },
+
+  async uploadDocument(
+    file: File,
+    fields: { type?: DocumentType; tags?: string; name?: string },
+    documentId?: string,
+  ) {
+    const form = new FormData();
+    form.append("file", file);
+    Object.entries(fields).forEach(([key, value]) => {
+      if (value) form.append(key, value);
+    });
+    const { document } = await request<{ document: VaultDocument }>(
+      documentId
+        ? `/api/documents/${encodeURIComponent(documentId)}`
+        : "/api/documents",
+      { method: "POST", body: form },
+    );
+    return document;
+  },
+
+  async deleteDocument(id: string) {
+    const response = await fetch(
+      `/api/documents/${encodeURIComponent(id)}`,
+      withOperator({ method: "DELETE" }),
+    );
+    if (!response.ok) {
+      throw new ApiError(`Delete failed (${response.status})`, response.status);
+    }
+  },
+
+  listApplications(offset = 0, limit = 100) {
+    return request<Page<Application>>(
+      `/api/applications?offset=${offset}&limit=${limit}`,
+    );
+  },
+
+  async updateApplication(id: string, update: ApplicationUpdate) {
+    const { application } = await request<{ application: Application }>(
+      `/api/applications/${encodeURIComponent(id)}`,
+      { method: "PATCH", body: JSON.stringify(update) },
+    );
+    return application;
+  },
+
+  async updateReply(id: string, edit: ReplyEdit) {
+    const { reply } = await request<{ reply: ReplyDraft }>(
+      `/api/replies/${encodeURIComponent(id)}`,
+      { method: "PATCH", body: JSON.stringify(edit) },
+    );
+    return reply;
+  },
+
+  async sendReply(id: string) {
+    const { reply } = await request<{ reply: ReplyDraft }>(
+      `/api/replies/${encodeURIComponent(id)}/send`,
+      { method: "POST" },
+    );
+    return reply;
+  },
+
+  async discardReply(id: string) {
+    const { reply } = await request<{ reply: ReplyDraft }>(
+      `/api/replies/${encodeURIComponent(id)}`,
+      { method: "DELETE" },
+    );
+    return reply;
+  },
+
+  controlAutopilot(action: "pause" | "resume" | "drain") {
+    return request<AutopilotStatus>("/api/autopilot", {
+      method: "POST",
+      body: JSON.stringify({ action }),
+    });
+  },
+
+  runAutomation(emailId: string) {
+    return request<AutomationRunResult>("/api/automations", {
+      method: "POST",
+      body: JSON.stringify({ emailId }),
+    });
+  },
+
+  retryFailedSteps(emailId: string) {
+    return request<RetryResult>(
+      `/api/automations/${encodeURIComponent(emailId)}/retry`,
+      { method: "POST" },
+    );
+  },
+
+  requeueEmail(emailId: string) {
+    return request<{ email: EmailPayload }>(
+      `/api/automations/${encodeURIComponent(emailId)}/requeue`,
+      { method: "POST" },
+    );
+  },
+
+  decideApproval(id: string, decision: ApprovalDecision) {
+    return request<ApprovalDecisionResult>(
+      `/api/approvals/${encodeURIComponent(id)}`,
+      { method: "POST", body: JSON.stringify(decision) },
+    );
+  },
+};
@@ -0,0 +1,107 @@
+import {
+  ActionLogEntry,
+  AutomationActionType,
+  EmailPayload,
+  Workflow,
+} from "@/lib/types";
+
+export type WorkflowAction = Workflow["actions"][number];
+
+export type ApprovalStatus = "pending" | "approved" | "rejected";
+
+export type ApprovalReason = "manual_workflow" | "risky_action";
+
+export interface ApprovalRequest {
+  id: string;
+  email: EmailPayload;
+  workflowId: string;
+  workflowName: string;
+  action: WorkflowAction;
+  reason: ApprovalReason;
+  status: ApprovalStatus;
+  createdAt: string;
+  decidedBy?: string;
+  decidedAt?: string;
+  note?: string;
+}
+
+export interface ApprovalDecision {
+  decision: "approve" | "reject";
+  reviewer: string;
+  summary?: string;
+  details?: string;
+  note?: string;
+}
+
+// Actions that act on someone's behalf outside the inbox always wait for a
+// reviewer, even in autopilot workflows.
+export const riskyActionTypes: AutomationActionType[] = ["submit_application"];
+
+export function approvalReason(
+  workflow: Workflow,
+  action: WorkflowAction,
+): ApprovalReason | null {
+  if (!workflow.autopilot) return "manual_workflow";
+  if (riskyActionTypes.includes(action.type)) return "risky_action";
+  return null;
+}
+
+export function splitGatedActions(workflow: Workflow) {
+  const immediate: WorkflowAction[] = [];
+  const gated: { action: WorkflowAction; reason: ApprovalReason }[] = [];
+  for (const action of workflow.actions) {
+    const reason = approvalReason(workflow, action);
+    if (reason) gated.push({ action, reason });
+    else immediate.push(action);
+  }
+  return { immediate, gated };
+}
+
+export function createApprovalRequest(
+  email: EmailPayload,
+  workflow: Workflow,
+  action: WorkflowAction,
+  reason: ApprovalReason,
+): ApprovalRequest {
+  return {
+    id: `approval-${crypto.randomUUID()}`,
+    email,
+    workflowId: workflow.id,
+    workflowName: workflow.name,
+    action,
+    reason,
+    status: "pending",
+    createdAt: new Date().toISOString(),
+  };
+}
+
+export const approvalReasonLabels: Record<ApprovalReason, string> = {
+  manual_workflow: "Workflow is not on autopilot",
+  risky_action: "Action type needs human sign-off",
+};
+
+export function approvalLogEntry(approval: ApprovalRequest): ActionLogEntry {
+  const timestamp = approval.decidedAt ?? approval.createdAt;
+  if (approval.status === "pending") {
+    return {
+      id: `log-${approval.id}-requested`,
+      workflowId: approval.workflowId,
+      timestamp,
+      title: `Awaiting approval: ${approval.action.summary}`,
+      body: `${approvalReasonLabels[approval.reason]} — “${approval.email.subject}”.`,
+    };
+  }
+  const verb = approval.status === "approved" ? "Approved" : "Rejected";
+  return {
+    id: `log-${approval.id}-${approval.status}`,
+    workflowId: approval.workflowId,
+    timestamp,
+    title: `${verb} by ${approval.decidedBy}: ${approval.action.summary}`,
+    body: [
+      `${verb} at ${timestamp} for “${approval.email.subject}”.`,
+      approval.note ? `Note: ${approval.note}` : null,
+    ]
+      .filter(Boolean)
+      .join(" "),
+  };
+}
@@ -0,0 +1,129 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import {
+  AuditEntry,
+  AuditRecord,
+  chainEntries,
+  genesisHash,
+  operator,
+  systemActor,
+  toJsonLines,
+  verifyChain,
+} from "@/lib/audit";
+
+const timestamp = "2024-05-06T09:15:00.000Z";
+
+function entry(emailId: string): AuditEntry {
+  return {
+    type: "email.received",
+    emailId,
+    workflowId: null,
+    actor: { ...operator, name: "Ana" },
+    input: { subject: "Offer", tags: ["job"] },
+    output: null,
+  };
+}
+
+function trail(length = 4) {
+  return chainEntries(
+    null,
+    Array.from({ length }, (_, index) => entry(`email-${index + 1}`)),
+    timestamp,
+  );
+}
+
+function headOf(records: AuditRecord[]) {
+  const last = records.at(-1)!;
+  return { seq: last.seq, hash: last.hash };
+}
+
+test("records link from the genesis hash", () => {
+  const records = trail();
+  assert.deepEqual(
+    records.map((record) => record.seq),
+    [1, 2, 3, 4],
+  );
+  assert.equal(records[0].previousHash, genesisHash);
+  assert.equal(records[2].previousHash, records[1].hash);
+  assert.deepEqual(verifyChain(records, headOf(records)), {
+    valid: true,
+    checked: 4,
+    head: headOf(records),
+    problem: null,
+  });
+  assert.equal(verifyChain([], null).valid, true);
+});
+
+test("appending continues from the stored head", () => {
+  const records = trail(2);
+  const more = chainEntries(headOf(records), [entry("email-3")], timestamp);
+  assert.equal(more[0].seq, 3);
+  assert.equal(more[0].previousHash, records[1].hash);
+  const all = [...records, ...more];
+  assert.equal(verifyChain(all, headOf(all)).valid, true);
+});
+
+test("the hash survives a JSON round trip", () => {
+  const records = trail();
+  const parsed = toJsonLines(records)
+    .trim()
+    .split("\n")
+    .map((line) => JSON.parse(line) as AuditRecord);
+  assert.equal(verifyChain(parsed, headOf(records)).valid, true);
+  // Key order doesn't matter, and undefined fields are not hashed.
+  const reordered = parsed.map(
+    (record) =>
+      Object.fromEntries(
+        Object.entries({ ...record, note: undefined }).reverse(),
+      ) as unknown as AuditRecord,
+  );
+  assert.equal(verifyChain(reordered).valid, true);
+});
+
+test("tampering is found at the record it happened to", () => {
+  const records = trail();
+  const edited = records.map((record) =>
+    record.seq === 2 ? { ...record, actor: systemActor } : record,
+  );
+  assert.deepEqual(verifyChain(edited).problem, {
+    seq: 2,
+    reason: "Contents do not match its hash",
+  });
+
+  const rehashed = chainEntries(
+    { seq: 1, hash: records[0].hash },
+    [{ ...entry("email-2"), actor: systemActor }],
+    timestamp,
+  );
+  assert.deepEqual(
+    verifyChain([records[0], ...rehashed, ...records.slice(2)]).problem,
+    { seq: 3, reason: "Does not link to the record before it" },
+  );
+
+  assert.deepEqual(verifyChain([records[0], ...records.slice(2)]).problem, {
+    seq: 3,
+    reason: "Expected #2 next",
+  });
+  assert.deepEqual(
+    verifyChain([records[1], records[0], ...records.slice(2)]).problem,
+    { seq: 1, reason: "Expected #3 next" },
+  );
+});
+
+test("a slice verifies on its own but not as the whole trail", () => {
+  const records = trail();
+  const slice = records.slice(1, 3);
+  assert.equal(verifyChain(slice).valid, true);
+  assert.deepEqual(verifyChain(slice, headOf(records)).problem, {
+    seq: 2,
+    reason: "Expected #1 next",
+  });
+  assert.deepEqual(verifyChain(records.slice(0, 3), headOf(records)).problem, {
+    seq: 3,
+    reason: "Trail ends at #3 but the recorded head is #4",
+  });
+  assert.deepEqual(verifyChain([], headOf(records)).problem, {
+    seq: 0,
+    reason: "Trail ends at #0 but the recorded head is #4",
+  });
+});
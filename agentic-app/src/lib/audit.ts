@@ -0,0 +1,236 @@
+import { createHash } from "node:crypto";
+
+// Who caused an action. Operators and reviewers may carry a name; the rest
+// are the agent acting on its own.
+export interface AuditActor {
+  type: "operator" | "reviewer" | "autopilot" | "webhook" | "system";
+  name?: string;
+  // The dashboard tab the request came from; claims are held per tab.
+  session?: string;
+}
+
+export type AuditEventType =
+  | "email.received"
+  | "email.discarded"
+  | "email.requeued"
+  | "email.claimed"
+  | "email.released"
+  | "priority.changed"
+  | "application.updated"
+  | "run.completed"
+  | "run.retried"
+  | "workflow.executed"
+  | "approval.requested"
+  | "approval.decided"
+  | "reply.drafted"
+  | "reply.edited"
+  | "reply.discarded"
+  | "reply.sent"
+  | "reply.failed"
+  | "sla.breached"
+  | "workflow.changed"
+  | "workflow.deleted"
+  | "document.uploaded"
+  | "document.deleted";
+
+export interface AuditEntry {
+  type: AuditEventType;
+  emailId: string | null;
+  workflowId: string | null;
+  actor: AuditActor;
+  input: unknown;
+  output: unknown;
+}
+
+// `hash` covers every other field, including the previous record's hash, so
+// editing, reordering or removing a record breaks every link after it.
+export interface AuditRecord extends AuditEntry {
+  seq: number;
+  id: string;
+  timestamp: string;
+  previousHash: string;
+  hash: string;
+}
+
+export interface AuditHead {
+  seq: number;
+  hash: string;
+}
+
+export interface AuditVerification {
+  valid: boolean;
+  checked: number;
+  head: AuditHead | null;
+  problem: { seq: number; reason: string } | null;
+}
+
+export interface AuditQuery {
+  // Inclusive UTC dates, YYYY-MM-DD.
+  from: string | null;
+  to: string | null;
+  emailId: string | null;
+}
+
+export const genesisHash = "0".repeat(64);
+
+export const operator: AuditActor = { type: "operator" };
+export const autopilotActor: AuditActor = { type: "autopilot" };
+export const webhookActor: AuditActor = { type: "webhook" };
+export const systemActor: AuditActor = { type: "system" };
+
+// There are no accounts; callers name themselves with X-Actor. Dashboards also
+// send X-Actor-Session, generated once per browser tab.
+export function operatorFrom(request: Request): AuditActor {
+  const name = request.headers.get("x-actor")?.trim();
+  const session = request.headers.get("x-actor-session")?.trim();
+  return {
+    ...operator,
+    ...(name ? { name } : {}),
+    ...(session ? { session } : {}),
+  };
+}
+
+export function describeActor(actor: AuditActor) {
+  return actor.name ? `${actor.type}:${actor.name}` : actor.type;
+}
+
+// Sorted keys, so a record hashes the same after a JSON round trip.
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`;
+  if (value && typeof value === "object") {
+    const record = value as Record<string, unknown>;
+    return `{${Object.keys(record)
+      .filter((key) => record[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson(record[key])}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+export function hashRecord(record: Omit<AuditRecord, "hash">) {
+  return createHash("sha256").update(canonicalJson(record)).digest("hex");
+}
+
+export function chainEntries(
+  head: AuditHead | null,
+  entries: AuditEntry[],
+  timestamp = new Date().toISOString(),
+): AuditRecord[] {
+  let previous = head ?? { seq: 0, hash: genesisHash };
+  return entries.map((entry) => {
+    const seq = previous.seq + 1;
+    const unsigned = {
+      seq,
+      id: `audit-${seq}`,
+      timestamp,
+      ...entry,
+      previousHash: previous.hash,
+    };
+    const record = { ...unsigned, hash: hashRecord(unsigned) };
+    previous = record;
+    return record;
+  });
+}
+
+// Records must be oldest first. A slice (e.g. a date-range export) is checked
+// from its own first link; pass the stored head to also catch a trail that
+// was cut short.
+export function verifyChain(
+  records: AuditRecord[],
+  head?: AuditHead | null,
+): AuditVerification {
+  const fail = (seq: number, reason: string, checked: number) => ({
+    valid: false,
+    checked,
+    head: head ?? null,
+    problem: { seq, reason },
+  });
+  // The whole trail must start at the genesis record.
+  const whole = head !== undefined;
+  for (const [index, record] of records.entries()) {
+    const previous = records[index - 1];
+    const expectedSeq = previous ? previous.seq + 1 : whole ? 1 : record.seq;
+    if (record.seq !== expectedSeq) {
+      return fail(record.seq, `Expected #${expectedSeq} next`, index);
+    }
+    const expectedPrevious = previous
+      ? previous.hash
+      : record.seq === 1
+        ? genesisHash
+        : record.previousHash;
+    if (record.previousHash !== expectedPrevious) {
+      return fail(record.seq, "Does not link to the record before it", index);
+    }
+    const { hash, ...unsigned } = record;
+    if (hashRecord(unsigned) !== hash) {
+      return fail(record.seq, "Contents do not match its hash", index);
+    }
+  }
+  if (whole) {
+    const last = records.at(-1);
+    if ((last?.seq ?? 0) !== (head?.seq ?? 0) || last?.hash !== head?.hash) {
+      return fail(
+        last?.seq ?? 0,
+        `Trail ends at #${last?.seq ?? 0} but the recorded head is #${head?.seq ?? 0}`,
+        records.length,
+      );
+    }
+  }
+  return {
+    valid: true,
+    checked: records.length,
+    head: head ?? null,
+    problem: null,
+  };
+}
+
+export function matchesAuditQuery(record: AuditRecord, query: AuditQuery) {
+  const day = record.timestamp.slice(0, 10);
+  return (
+    (!query.from || day >= query.from) &&
+    (!query.to || day <= query.to) &&
+    (!query.emailId || record.emailId === query.emailId)
+  );
+}
+
+const csvColumns = [
+  "seq",
+  "timestamp",
+  "type",
+  "emailId",
+  "workflowId",
+  "actor",
+  "input",
+  "output",
+  "previousHash",
+  "hash",
+] as const;
+
+function csvCell(value: unknown) {
+  const text =
+    value === null || value === undefined
+      ? ""
+      : typeof value === "string"
+        ? value
+        : JSON.stringify(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Inputs and outputs become JSON cells; re-verify from the JSONL export.
+export function toCsv(records: AuditRecord[]) {
+  const rows = records.map((record) =>
+    csvColumns
+      .map((column) =>
+        csvCell(
+          column === "actor" ? describeActor(record.actor) : record[column],
+        ),
+      )
+      .join(","),
+  );
+  return [csvColumns.join(","), ...rows].map((row) => `${row}\r\n`).join("");
+}
+
+export function toJsonLines(records: AuditRecord[]) {
+  return records.map((record) => `${JSON.stringify(record)}\n`).join("");
+}
@@ -0,0 +1,809 @@
+import {
+  ActionExecution,
+  ExecutedEmail,
+  executePluginAction,
+  executionLogEntry,
+  pluginOf,
+} from "@/lib/action-plugins";
+import { runAutomation } from "@/lib/agent";
+import {
+  Analysis,
+  AnalyzedEmail,
+  analysisLogEntry,
+  analyzeEmail,
+  configuredAnalyzer,
+} from "@/lib/analyzers";
+import { AuditActor, AuditEntry } from "@/lib/audit";
+import {
+  ApprovalDecision,
+  ApprovalRequest,
+  approvalLogEntry,
+  WorkflowAction,
+  createApprovalRequest,
+  splitGatedActions,
+} from "@/lib/approvals";
+import { branchAlternatives, resolveBranches } from "@/lib/branches";
+import { assertNotClaimed, claimEmail, releaseEmail } from "@/lib/claims";
+import {
+  DocumentCheck,
+  DocumentedEmail,
+  attachDocuments,
+  matchDocuments,
+} from "@/lib/documents";
+import { publish } from "@/lib/events";
+import {
+  EmailEntities,
+  ExtractedEmail,
+  extractEntities,
+  fillPlaceholders,
+} from "@/lib/extraction";
+import { HttpError } from "@/lib/http";
+import { queueNotifications } from "@/lib/notifications";
+import { replyFrom } from "@/lib/reply-sender";
+import { ReplyDraft, createReplyDraft, replyLogEntry } from "@/lib/replies";
+import {
+  ActionOutcome,
+  OutcomeEmail,
+  configuredRetryPolicies,
+  errorMessage,
+  failureLogEntry,
+  mergeOutcomes,
+  retryPolicyFor,
+  retryableOutcomes,
+  runStatus,
+  withRetries,
+} from "@/lib/run-outcomes";
+import { startSlaClocks, stopSlaClocks } from "@/lib/sla-monitor";
+import {
+  currentWorkflowVersion,
+  enqueueEmail,
+  getApproval,
+  getLatestRun,
+  getQueuedEmail,
+  getWorkflow,
+  getWorkflowVersion,
+  listApplications,
+  listDocuments,
+  listWorkflows,
+  recordActivity,
+  recordAudit,
+  recordRun,
+  removeFromQueue,
+  saveApplications,
+  saveApprovals,
+  saveReplyDrafts,
+} from "@/lib/store";
+import { findApplication, trackEmail, trackerLogEntry } from "@/lib/tracker";
+import { eligibleWorkflows } from "@/lib/triggers";
+import {
+  ActionLogEntry,
+  AutomationActionType,
+  EmailPayload,
+  Workflow,
+} from "@/lib/types";
+import { VersionedEmail } from "@/lib/workflow-versions";
+
+function receivedEntry(
+  email: EmailPayload,
+  actor: AuditActor,
+  queued: boolean,
+): AuditEntry {
+  return {
+    type: "email.received",
+    emailId: email.id,
+    workflowId: null,
+    actor,
+    input: email,
+    output: { queued },
+  };
+}
+
+function replyDraftedEntry(reply: ReplyDraft, actor: AuditActor): AuditEntry {
+  return {
+    type: "reply.drafted",
+    emailId: reply.emailId,
+    workflowId: reply.workflowId,
+    actor,
+    input: { from: reply.from, inReplyTo: reply.inReplyTo },
+    output: {
+      replyId: reply.id,
+      to: reply.to,
+      subject: reply.subject,
+      body: reply.body,
+    },
+  };
+}
+
+// Every way into the queue goes through here so SLA clocks start on arrival.
+export function acceptEmail<T extends EmailPayload>(
+  email: T,
+  actor: AuditActor,
+) {
+  const stored = enqueueEmail(email);
+  startSlaClocks(stored);
+  recordAudit([receivedEntry(stored, actor, true)]);
+  publish({ type: "email.queued", email: stored });
+  return stored;
+}
+
+export function discardEmail(emailId: string, actor: AuditActor) {
+  assertNotClaimed(emailId, actor);
+  if (!removeFromQueue(emailId)) return false;
+  releaseEmail(emailId, actor, { force: true });
+  stopSlaClocks(emailId, "cancelled");
+  recordAudit([
+    {
+      type: "email.discarded",
+      emailId,
+      workflowId: null,
+      actor,
+      input: null,
+      output: null,
+    },
+  ]);
+  return true;
+}
+
+function analyze(email: EmailPayload) {
+  return analyzeEmail(
+    configuredAnalyzer(),
+    email,
+    eligibleWorkflows(listWorkflows(), email),
+  );
+}
+
+// The run holds the email's claim, so nobody else can start it meanwhile, and
+// every dashboard follows it through run events.
+export async function runQueuedEmail(emailId: string, actor: AuditActor) {
+  const email = getQueuedEmail(emailId);
+  if (!email) {
+    throw new HttpError(404, `Email ${emailId} is not in the queue`);
+  }
+  claimEmail(emailId, actor);
+  publish({ type: "run.started", emailId, actor });
+  let result: AutomationRun | null = null;
+  let error: string | null = null;
+  try {
+    const analysis = await analyze(email);
+    // It may have been discarded while the analyzer was working.
+    if (!getQueuedEmail(emailId)) {
+      throw new HttpError(404, `Email ${emailId} is not in the queue`);
+    }
+    result = await completeRun(email, analysis, actor, { queued: true });
+    return result;
+  } catch (caught) {
+    error = errorMessage(caught);
+    throw caught;
+  } finally {
+    releaseEmail(emailId, actor, { force: true });
+    publish({ type: "run.finished", emailId, result, error });
+  }
+}
+
+// Ad-hoc runs skip the queue, so the trail records the email here instead.
+// A queued email with the same id stays queued, and can't be run this way
+// while someone holds it.
+export async function runEmail(email: EmailPayload, actor: AuditActor) {
+  assertNotClaimed(email.id, actor);
+  const analysis = await analyze(email);
+  recordAudit([receivedEntry(email, actor, false)]);
+  return completeRun(email, analysis, actor);
+}
+
+// Backs the update_tracker action: the email either opens an application or
+// moves the one it follows up on.
+function updateTracker(
+  email: EmailPayload,
+  workflowId: string,
+  options: { submitted?: boolean } = {},
+) {
+  const applications = listApplications();
+  const before = findApplication(applications, email);
+  const after = trackEmail(applications, email, workflowId, options);
+  saveApplications([after]);
+  return trackerLogEntry(before, after, workflowId);
+}
+
+function hasAction(workflow: Workflow, type: AutomationActionType) {
+  return workflow.actions.some((action) => action.type === type);
+}
+
+// Actions the agent does not do itself: plugins, the tracker, reply drafts and
+// the document check.
+function isStep(action: WorkflowAction) {
+  return (
+    pluginOf(action) !== null ||
+    action.type === "update_tracker" ||
+    action.type === "draft_reply" ||
+    action.type === "collect_documents"
+  );
+}
+
+interface StepResults {
+  outcomes: ActionOutcome[];
+  executions: ActionExecution[];
+  replies: ReplyDraft[];
+  logs: ActionLogEntry[];
+}
+
+// Runs the steps of each workflow in definition order, one at a time, so a
+// webhook can rely on the ones before it. Once a step fails the rest of that
+// workflow's steps are skipped. Actions the agent already ran succeed as is.
+async function runSteps(
+  email: EmailPayload,
+  entities: EmailEntities,
+  workflows: Workflow[],
+  documents: DocumentCheck | null,
+): Promise<StepResults> {
+  const policies = configuredRetryPolicies();
+  const results: StepResults = {
+    outcomes: [],
+    executions: [],
+    replies: [],
+    logs: [],
+  };
+  // The tracker follows one workflow per email, and each workflow drafts one
+  // reply however many draft_reply actions it lists.
+  let tracked: { workflowId: string; outcome: ActionOutcome } | null = null;
+  for (const workflow of workflows) {
+    let failed: WorkflowAction | null = null;
+    let drafted: ActionOutcome | null = null;
+    for (const action of workflow.actions) {
+      const plugin = pluginOf(action);
+      const base = {
+        actionId: action.id,
+        workflowId: workflow.id,
+        type: action.type,
+        ...(plugin ? { plugin: plugin.type } : {}),
+      };
+      const finishedAt = new Date().toISOString();
+      let outcome: ActionOutcome;
+      if (!isStep(action)) {
+        outcome = {
+          ...base,
+          status: "succeeded",
+          message: null,
+          attempts: 1,
+          runtimeSeconds: null,
+          finishedAt,
+        };
+      } else if (failed) {
+        outcome = {
+          ...base,
+          status: "skipped",
+          message: `Skipped because ${failed.summary} failed`,
+          skipReason: "earlier_failure",
+          attempts: 0,
+          runtimeSeconds: null,
+          finishedAt,
+        };
+      } else if (plugin) {
+        const execution = await executePluginAction(
+          plugin,
+          { email, entities, workflow, action },
+          retryPolicyFor(policies, action.type, plugin.type),
+        );
+        results.executions.push(execution);
+        results.logs.push(executionLogEntry(execution));
+        outcome = {
+          ...base,
+          status: execution.status,
+          message: execution.error,
+          attempts: execution.attempts,
+          runtimeSeconds: execution.runtimeSeconds,
+          finishedAt: new Date().toISOString(),
+        };
+      } else if (action.type === "update_tracker" && tracked) {
+        outcome = {
+          ...tracked.outcome,
+          ...base,
+          message:
+            tracked.outcome.message ?? `Tracked under ${tracked.workflowId}`,
+        };
+      } else if (action.type === "draft_reply" && drafted) {
+        outcome = { ...drafted, ...base };
+      } else if (action.type === "collect_documents") {
+        const missing = documents?.missing ?? [];
+        outcome = {
+          ...base,
+          status: missing.length ? "failed" : "succeeded",
+          message: missing.length
+            ? `Missing documents: ${missing.map((item) => item.label).join(", ")}`
+            : null,
+          attempts: 1,
+          runtimeSeconds: null,
+          finishedAt,
+        };
+      } else {
+        const attempted = await withRetries(
+          retryPolicyFor(policies, action.type),
+          () =>
+            action.type === "update_tracker"
+              ? updateTracker(email, workflow.id)
+              : createReplyDraft(
+                  email,
+                  workflow,
+                  entities,
+                  replyFrom(email.to),
+                ),
+        );
+        if (attempted.ok) {
+          if (action.type === "update_tracker") {
+            results.logs.push(attempted.value as ActionLogEntry);
+          } else {
+            const reply = attempted.value as ReplyDraft;
+            results.replies.push(reply);
+            results.logs.push(replyLogEntry(reply));
+          }
+        }
+        outcome = {
+          ...base,
+          status: attempted.ok ? "succeeded" : "failed",
+          message: attempted.ok ? null : errorMessage(attempted.error),
+          attempts: attempted.attempts,
+          runtimeSeconds: attempted.runtimeSeconds,
+          finishedAt: new Date().toISOString(),
+        };
+        if (action.type === "update_tracker") {
+          tracked = { workflowId: workflow.id, outcome };
+        } else {
+          drafted = outcome;
+        }
+      }
+      if (outcome.status === "failed") {
+        failed ??= action;
+        if (!plugin) results.logs.push(failureLogEntry(email.id, outcome));
+      }
+      results.outcomes.push(outcome);
+      publish({ type: "run.step", emailId: email.id, outcome });
+    }
+  }
+  return results;
+}
+
+function heldOutcome(
+  workflow: Workflow,
+  action: WorkflowAction,
+): ActionOutcome {
+  const plugin = pluginOf(action);
+  return {
+    actionId: action.id,
+    workflowId: workflow.id,
+    type: action.type,
+    ...(plugin ? { plugin: plugin.type } : {}),
+    status: "skipped",
+    message: "Waiting for approval",
+    skipReason: "approval",
+    attempts: 0,
+    runtimeSeconds: null,
+    finishedAt: new Date().toISOString(),
+  };
+}
+
+function outcomesOrdered(workflow: Workflow, outcomes: ActionOutcome[]) {
+  return workflow.actions.flatMap((action) =>
+    outcomes.filter(
+      (outcome) =>
+        outcome.workflowId === workflow.id && outcome.actionId === action.id,
+    ),
+  );
+}
+
+export type AutomationRun = Awaited<ReturnType<typeof completeRun>>;
+
+// Gated actions are held back from the agent and parked as approval requests
+// for the workflows that actually matched. The analyzer's summary and
+// confidence replace the agent's own. Steps the app carries out itself run
+// after the agent and report real outcomes, attempts and runtimes.
+async function completeRun(
+  email: EmailPayload,
+  analysis: Analysis,
+  actor: AuditActor,
+  { queued = false } = {},
+) {
+  const entities = extractEntities(email);
+  // Branches are settled and placeholders filled first so approvals show
+  // the action that will actually run, with the real values.
+  const workflows = eligibleWorkflows(listWorkflows(), email)
+    .map((workflow) => resolveBranches(workflow, entities))
+    .map((workflow) => ({
+      ...workflow,
+      actions: workflow.actions.map((action) => ({
+        ...action,
+        summary: fillPlaceholders(action.summary, entities),
+        details: fillPlaceholders(action.details, entities),
+      })),
+    }));
+  const splits = new Map(
+    workflows.map((workflow) => [workflow.id, splitGatedActions(workflow)]),
+  );
+  const runnable = workflows.map((workflow) => ({
+    ...workflow,
+    actions: splits.get(workflow.id)?.immediate ?? [],
+  }));
+  // collect_documents actions carry the vault items the email asks for.
+  const documents = runnable.some((workflow) =>
+    hasAction(workflow, "collect_documents"),
+  )
+    ? matchDocuments(entities.requestedDocuments, listDocuments())
+    : null;
+  const result = runAutomation(
+    email,
+    runnable.map((workflow) => ({
+      ...workflow,
+      actions: workflow.actions
+        .filter((action) => !pluginOf(action))
+        .map((action) =>
+          documents ? attachDocuments(action, documents) : action,
+        ),
+    })),
+  );
+  const matched = runnable.filter((workflow) =>
+    result.processedEmail.workflowIds.includes(workflow.id),
+  );
+  // Taken off the queue before the first await so a second run of the same
+  // email stops at the queue check.
+  if (queued) {
+    removeFromQueue(email.id);
+    stopSlaClocks(email.id, "handled");
+  }
+  const steps = await runSteps(email, entities, matched, documents);
+
+  const approvals = matched.flatMap((workflow) =>
+    (splits.get(workflow.id)?.gated ?? []).map(({ action, reason }) =>
+      createApprovalRequest(email, workflow, action, reason),
+    ),
+  );
+  const outcomes = workflows
+    .filter((workflow) => matched.some(({ id }) => id === workflow.id))
+    .flatMap((workflow) =>
+      outcomesOrdered(workflow, [
+        ...steps.outcomes,
+        ...(splits.get(workflow.id)?.gated ?? []).map(({ action }) =>
+          heldOutcome(workflow, action),
+        ),
+      ]),
+    );
+  const processedEmail: AnalyzedEmail &
+    DocumentedEmail &
+    ExecutedEmail &
+    ExtractedEmail &
+    OutcomeEmail &
+    VersionedEmail = {
+    ...result.processedEmail,
+    runId: `run-${crypto.randomUUID()}`,
+    completedAt: new Date().toISOString(),
+    attempt: 1,
+    status: runStatus(outcomes),
+    outcomes,
+    summary: analysis.summary,
+    confidence: analysis.confidence,
+    analysis,
+    entities,
+    workflowVersions: Object.fromEntries(
+      matched.map((workflow) => [
+        workflow.id,
+        currentWorkflowVersion(workflow.id) ?? 1,
+      ]),
+    ),
+    ...(documents &&
+    matched.some((workflow) => hasAction(workflow, "collect_documents"))
+      ? { documents }
+      : {}),
+    ...(steps.executions.length ? { executions: steps.executions } : {}),
+  };
+
+  const logs = [
+    ...matched
+      .filter((workflow) => hasAction(workflow, "analysis"))
+      .map((workflow) => analysisLogEntry(email, workflow.id, analysis)),
+    ...approvals.map(approvalLogEntry),
+    ...steps.logs,
+    ...result.logs,
+  ];
+
+  saveApprovals(approvals);
+  saveReplyDrafts(steps.replies);
+  recordRun(processedEmail, logs, result.whatsappMessages);
+  recordAudit([
+    {
+      type: "run.completed",
+      emailId: email.id,
+      workflowId: null,
+      actor,
+      input: { analysis },
+      output: {
+        runId: processedEmail.runId,
+        status: processedEmail.status,
+        workflowIds: processedEmail.workflowIds,
+        workflowVersions: processedEmail.workflowVersions,
+        summary: processedEmail.summary,
+        confidence: processedEmail.confidence,
+        notifications: result.whatsappMessages,
+      },
+    },
+    ...matched.map((workflow): AuditEntry => ({
+      type: "workflow.executed",
+      emailId: email.id,
+      workflowId: workflow.id,
+      actor,
+      input: { actions: workflow.actions },
+      output: {
+        outcomes: outcomes.filter(
+          (outcome) => outcome.workflowId === workflow.id,
+        ),
+        logs: logs.filter((log) => log.workflowId === workflow.id),
+        executions: steps.executions.filter(
+          (execution) => execution.workflowId === workflow.id,
+        ),
+      },
+    })),
+    ...approvals.map((approval): AuditEntry => ({
+      type: "approval.requested",
+      emailId: email.id,
+      workflowId: approval.workflowId,
+      actor,
+      input: { action: approval.action, reason: approval.reason },
+      output: { approvalId: approval.id },
+    })),
+    ...steps.replies.map((reply) => replyDraftedEntry(reply, actor)),
+  ]);
+  return {
+    ...result,
+    processedEmail,
+    logs,
+    approvals,
+    replies: steps.replies,
+    whatsappMessages: queueNotifications(result.whatsappMessages),
+  };
+}
+
+// Re-runs the failed steps of the email's latest run, and the ones they held
+// back, with the workflow versions that run used. The run is recorded again
+// under the same runId with the merged outcomes.
+export async function retryFailedSteps(emailId: string, actor: AuditActor) {
+  const run = getLatestRun(emailId) as
+    (DocumentedEmail & ExecutedEmail & OutcomeEmail & VersionedEmail) | null;
+  if (!run) {
+    throw new HttpError(404, `No run found for email ${emailId}`);
+  }
+  const retrying = retryableOutcomes(run.outcomes ?? []);
+  if (!retrying.length) {
+    throw new HttpError(
+      409,
+      `The latest run for ${emailId} has no failed steps`,
+    );
+  }
+  // Held like a queued run, so two people can't retry the same steps at once.
+  claimEmail(emailId, actor);
+  try {
+    const { email } = run;
+    const entities = extractEntities(email);
+    const workflows = [
+      ...new Set(retrying.map((outcome) => outcome.workflowId)),
+    ].flatMap((workflowId) => {
+      const version = run.workflowVersions?.[workflowId];
+      const workflow =
+        (version ? getWorkflowVersion(workflowId, version)?.workflow : null) ??
+        getWorkflow(workflowId);
+      if (!workflow) return [];
+      return [
+        {
+          ...workflow,
+          // Whichever side of a branch the run took, not a fresh evaluation.
+          actions: branchAlternatives(workflow)
+            .filter((action) =>
+              retrying.some(
+                (outcome) =>
+                  outcome.workflowId === workflowId &&
+                  outcome.actionId === action.id,
+              ),
+            )
+            .map((action) => ({
+              ...action,
+              summary: fillPlaceholders(action.summary, entities),
+              details: fillPlaceholders(action.details, entities),
+            })),
+        },
+      ];
+    });
+    // The vault may have gained the missing documents since.
+    const documents = workflows.some((workflow) =>
+      hasAction(workflow, "collect_documents"),
+    )
+      ? matchDocuments(entities.requestedDocuments, listDocuments())
+      : null;
+    const steps = await runSteps(email, entities, workflows, documents);
+    const outcomes = mergeOutcomes(run.outcomes ?? [], steps.outcomes);
+    const processedEmail: typeof run = {
+      ...run,
+      attempt: (run.attempt ?? 1) + 1,
+      status: runStatus(outcomes),
+      outcomes,
+      ...(documents ? { documents } : {}),
+      ...(steps.executions.length
+        ? {
+            executions: [...(run.executions ?? []), ...steps.executions],
+          }
+        : {}),
+    };
+    saveReplyDrafts(steps.replies);
+    recordRun(processedEmail, steps.logs, []);
+    recordAudit([
+      {
+        type: "run.retried",
+        emailId,
+        workflowId: null,
+        actor,
+        input: {
+          runId: run.runId,
+          steps: retrying.map(({ workflowId, actionId }) => ({
+            workflowId,
+            actionId,
+          })),
+        },
+        output: {
+          attempt: processedEmail.attempt,
+          status: processedEmail.status,
+          outcomes: steps.outcomes,
+        },
+      },
+      ...steps.replies.map((reply) => replyDraftedEntry(reply, actor)),
+    ]);
+    return {
+      processedEmail,
+      logs: steps.logs,
+      replies: steps.replies,
+    };
+  } finally {
+    releaseEmail(emailId, actor);
+  }
+}
+
+// Sends a handled email back to the queue to be run from scratch.
+export function requeueEmail(emailId: string, actor: AuditActor) {
+  const run = getLatestRun(emailId);
+  if (!run) {
+    throw new HttpError(404, `No run found for email ${emailId}`);
+  }
+  if (getQueuedEmail(emailId)) {
+    throw new HttpError(409, `Email ${emailId} is already in the queue`);
+  }
+  const stored = enqueueEmail(run.email);
+  startSlaClocks(stored);
+  recordAudit([
+    {
+      type: "email.requeued",
+      emailId,
+      workflowId: null,
+      actor,
+      input: { runId: run.runId ?? null },
+      output: { queued: true },
+    },
+  ]);
+  publish({ type: "email.queued", email: stored });
+  return stored;
+}
+
+export async function decideApproval(id: string, input: ApprovalDecision) {
+  const approval = getApproval(id);
+  if (!approval) {
+    throw new HttpError(404, `Approval ${id} not found`);
+  }
+  if (approval.status !== "pending") {
+    throw new HttpError(
+      409,
+      `Approval ${id} was already ${approval.status} by ${approval.decidedBy}`,
+    );
+  }
+
+  const decided: ApprovalRequest = {
+    ...approval,
+    action: {
+      ...approval.action,
+      summary: input.summary ?? approval.action.summary,
+      details: input.details ?? approval.action.details,
+    },
+    status: input.decision === "approve" ? "approved" : "rejected",
+    decidedBy: input.reviewer,
+    decidedAt: new Date().toISOString(),
+    note: input.note,
+  };
+
+  let execution: ReturnType<typeof runAutomation> | null = null;
+  let pluginExecution: ActionExecution | null = null;
+  const workflow = getWorkflow(approval.workflowId);
+  if (decided.status === "approved" && !workflow) {
+    throw new HttpError(
+      409,
+      `Workflow ${approval.workflowId} no longer exists; reject this approval instead`,
+    );
+  }
+  // Saved before anything runs so a second decision gets the 409 above.
+  saveApprovals([decided]);
+  const plugin = pluginOf(decided.action);
+  if (decided.status === "approved" && workflow && plugin) {
+    pluginExecution = await executePluginAction(
+      plugin,
+      {
+        email: approval.email,
+        entities: extractEntities(approval.email),
+        workflow,
+        action: decided.action,
+      },
+      retryPolicyFor(
+        configuredRetryPolicies(),
+        decided.action.type,
+        plugin.type,
+      ),
+    );
+  } else if (decided.status === "approved" && workflow) {
+    // Replays just the approved (possibly edited) action for the original email.
+    execution = runAutomation(approval.email, [
+      { ...workflow, autopilot: true, actions: [decided.action] },
+    ]);
+  }
+
+  // An approved submission or tracker update lands on the application board.
+  const { type } = decided.action;
+  const tracked =
+    decided.status === "approved" &&
+    (type === "update_tracker" || type === "submit_application")
+      ? [
+          updateTracker(approval.email, approval.workflowId, {
+            submitted: type === "submit_application",
+          }),
+        ]
+      : [];
+  const replies =
+    decided.status === "approved" && type === "draft_reply" && workflow
+      ? [
+          createReplyDraft(
+            approval.email,
+            workflow,
+            extractEntities(approval.email),
+            replyFrom(approval.email.to),
+          ),
+        ]
+      : [];
+  const logs = [
+    approvalLogEntry(decided),
+    ...tracked,
+    ...replies.map(replyLogEntry),
+    ...(pluginExecution ? [executionLogEntry(pluginExecution)] : []),
+    ...(execution?.logs ?? []),
+  ];
+  const whatsappMessages = execution?.whatsappMessages ?? [];
+  saveReplyDrafts(replies);
+  recordActivity(logs, whatsappMessages);
+  const reviewer: AuditActor = { type: "reviewer", name: input.reviewer };
+  recordAudit([
+    {
+      type: "approval.decided",
+      emailId: approval.email.id,
+      workflowId: approval.workflowId,
+      actor: reviewer,
+      input: {
+        approvalId: approval.id,
+        decision: input.decision,
+        note: input.note,
+        action: decided.action,
+      },
+      output: {
+        status: decided.status,
+        workflowVersion: currentWorkflowVersion(approval.workflowId),
+        execution: pluginExecution,
+        logs,
+        notifications: whatsappMessages,
+      },
+    },
+    ...replies.map((reply) => replyDraftedEntry(reply, reviewer)),
+  ]);
+  return {
+    approval: decided,
+    execution: pluginExecution,
+    logs,
+    replies,
+    whatsappMessages: queueNotifications(whatsappMessages),
+  };
+}
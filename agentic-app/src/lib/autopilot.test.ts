@@ -0,0 +1,66 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { after, before, test } from "node:test";
+import type * as Autopilot from "@/lib/autopilot";
+import type * as Store from "@/lib/store";
+import { EmailPayload } from "@/lib/types";
+import { validateWorkflow } from "@/lib/workflow-definition";
+
+// The store reads AGENT_DATA_DIR when it is first imported, so the queue and
+// workflows are seeded through its state file.
+const dataDirectory = mkdtempSync(path.join(os.tmpdir(), "agent-autopilot-"));
+process.env.AGENT_DATA_DIR = dataDirectory;
+process.env.AUTOPILOT = "off";
+
+const newsletter = {
+  id: "email-newsletter",
+  subject: "This week in frontend",
+  sender: "digest@devweekly.news",
+  senderName: "Dev Weekly",
+  to: "you@example.com",
+  preview: "",
+  body: "Ten links on bundlers, signals and CSS nesting.",
+  receivedAt: "2024-05-10T06:00:00.000Z",
+  tags: ["newsletter"],
+} as EmailPayload;
+
+const offerDesk = validateWorkflow({
+  id: "offer-desk",
+  name: "Offer desk",
+  trigger: { keywords: ["offer"], autoDetect: false },
+  actions: [{ type: "update_tracker", summary: "Track the offer" }],
+  autopilot: true,
+});
+
+let autopilot: typeof Autopilot;
+let store: typeof Store;
+
+before(async () => {
+  writeFileSync(
+    path.join(dataDirectory, "state.json"),
+    JSON.stringify({ workflows: [offerDesk], emailQueue: [newsletter] }),
+  );
+  autopilot = await import("@/lib/autopilot");
+  store = await import("@/lib/store");
+});
+
+after(() => {
+  rmSync(dataDirectory, { recursive: true, force: true });
+});
+
+test("emails no workflow matches stay queued for a human", async () => {
+  const status = await autopilot.drainNow();
+
+  assert.deepEqual(
+    store.listQueue().map((email) => email.id),
+    [newsletter.id],
+  );
+  assert.deepEqual(status.heldEmailIds, [newsletter.id]);
+  assert.equal(status.processed, 0);
+  assert.match(
+    status.events.find((event) => event.kind === "held")?.message ?? "",
+    /no workflow matches/,
+  );
+});
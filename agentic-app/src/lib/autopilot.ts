@@ -0,0 +1,362 @@
+import { autopilotActor } from "@/lib/audit";
+import { AutomationRun, runQueuedEmail } from "@/lib/automation-service";
+import { getClaim, holdsClaim } from "@/lib/claims";
+import { publish, subscribe } from "@/lib/events";
+import { HttpError } from "@/lib/http";
+import { simulateEmail } from "@/lib/simulation";
+import {
+  getAutopilotPaused,
+  listQueue,
+  listWorkflows,
+  rankQueue,
+  setAutopilotPaused,
+} from "@/lib/store";
+import { EmailPayload, Workflow } from "@/lib/types";
+
+export interface WorkflowLimits {
+  // Emails of this workflow the worker may have in flight at once.
+  concurrency?: number;
+  // Runs the worker may start for this workflow in any rolling minute.
+  perMinute?: number;
+}
+
+export type LimitedWorkflow = Workflow & { limits?: WorkflowLimits };
+
+export type AutopilotEventKind =
+  | "processed"
+  | "held"
+  | "deferred"
+  | "failed"
+  | "paused"
+  | "resumed"
+  | "drained";
+
+export interface AutopilotEvent {
+  id: string;
+  kind: AutopilotEventKind;
+  timestamp: string;
+  message: string;
+  emailId?: string;
+  result?: AutomationRun;
+}
+
+export interface AutopilotStatus {
+  paused: boolean;
+  intervalMs: number;
+  inFlight: number;
+  processed: number;
+  lastPassAt: string | null;
+  heldEmailIds: string[];
+  events: AutopilotEvent[];
+}
+
+const intervalMs = Number(process.env.AUTOPILOT_INTERVAL_MS) || 10_000;
+const maxConcurrency = Number(process.env.AUTOPILOT_CONCURRENCY) || 4;
+const defaultWorkflowConcurrency =
+  Number(process.env.AUTOPILOT_WORKFLOW_CONCURRENCY) || 2;
+const eventHistory = 50;
+
+interface WorkerState {
+  paused: boolean;
+  timer?: ReturnType<typeof setTimeout>;
+  currentPass: Promise<number> | null;
+  inFlightEmails: Set<string>;
+  inFlight: Map<string, number>;
+  starts: Map<string, number[]>;
+  processed: number;
+  lastPassAt: string | null;
+  // Emails already reported as held/deferred/failed, so each is logged once.
+  held: Set<string>;
+  deferred: Set<string>;
+  failed: Set<string>;
+  events: AutopilotEvent[];
+  unsubscribe?: () => void;
+}
+
+const globalForAutopilot = globalThis as typeof globalThis & {
+  autopilot?: WorkerState;
+};
+
+function worker(): WorkerState {
+  globalForAutopilot.autopilot ??= {
+    paused: getAutopilotPaused() ?? process.env.AUTOPILOT === "off",
+    currentPass: null,
+    inFlightEmails: new Set(),
+    inFlight: new Map(),
+    starts: new Map(),
+    processed: 0,
+    lastPassAt: null,
+    held: new Set(),
+    deferred: new Set(),
+    failed: new Set(),
+    events: [],
+  };
+  return globalForAutopilot.autopilot;
+}
+
+function emit(
+  kind: AutopilotEventKind,
+  message: string,
+  extra: Pick<AutopilotEvent, "emailId" | "result"> = {},
+) {
+  const event: AutopilotEvent = {
+    id: `autopilot-${crypto.randomUUID()}`,
+    kind,
+    timestamp: new Date().toISOString(),
+    message,
+    ...extra,
+  };
+  const state = worker();
+  state.events = [event, ...state.events].slice(0, eventHistory);
+  publish({ type: "autopilot", event });
+}
+
+export function workflowLimits(workflow: Workflow) {
+  const { limits } = workflow as LimitedWorkflow;
+  return {
+    concurrency: limits?.concurrency ?? defaultWorkflowConcurrency,
+    perMinute: limits?.perMinute ?? null,
+  };
+}
+
+function recentStarts(workflowId: string, now: number) {
+  const state = worker();
+  const recent = (state.starts.get(workflowId) ?? []).filter(
+    (startedAt) => now - startedAt < 60_000,
+  );
+  state.starts.set(workflowId, recent);
+  return recent.length;
+}
+
+function blockedBy(workflows: Workflow[], now: number) {
+  const state = worker();
+  for (const workflow of workflows) {
+    const { concurrency, perMinute } = workflowLimits(workflow);
+    if ((state.inFlight.get(workflow.id) ?? 0) >= concurrency) {
+      return `${workflow.name} is at its concurrency limit of ${concurrency}`;
+    }
+    if (perMinute !== null && recentStarts(workflow.id, now) >= perMinute) {
+      return `${workflow.name} reached its limit of ${perMinute} runs per minute`;
+    }
+  }
+  return null;
+}
+
+function adjustInFlight(workflows: Workflow[], delta: number) {
+  const state = worker();
+  for (const workflow of workflows) {
+    state.inFlight.set(
+      workflow.id,
+      (state.inFlight.get(workflow.id) ?? 0) + delta,
+    );
+  }
+}
+
+// Resolves to whether a run actually happened, failed ones included.
+async function processEmail(email: EmailPayload, matched: Workflow[]) {
+  const state = worker();
+  const now = Date.now();
+  state.inFlightEmails.add(email.id);
+  adjustInFlight(matched, 1);
+  for (const workflow of matched) {
+    state.starts.set(workflow.id, [
+      ...(state.starts.get(workflow.id) ?? []),
+      now,
+    ]);
+  }
+  try {
+    // Yield first so a pass can launch its whole batch before any run starts.
+    await Promise.resolve();
+    const result = await runQueuedEmail(email.id, autopilotActor);
+    state.processed += 1;
+    state.deferred.delete(email.id);
+    emit(
+      "processed",
+      result.approvals.length
+        ? `Ran “${email.subject}”; ${result.approvals.length} actions await approval`
+        : `Ran “${email.subject}”`,
+      { emailId: email.id, result },
+    );
+    return true;
+  } catch (error) {
+    // Someone ran or deleted it by hand in the meantime.
+    if (error instanceof HttpError && error.status === 404) return false;
+    // Someone claimed it first; try again on the next regular pass.
+    if (error instanceof HttpError && error.status === 409) {
+      if (!state.deferred.has(email.id)) {
+        state.deferred.add(email.id);
+        emit("deferred", `Deferred “${email.subject}”: ${error.message}`, {
+          emailId: email.id,
+        });
+      }
+      return false;
+    }
+    state.failed.add(email.id);
+    emit(
+      "failed",
+      `“${email.subject}” failed: ${error instanceof Error ? error.message : "unknown error"}`,
+      { emailId: email.id },
+    );
+    return true;
+  } finally {
+    adjustInFlight(matched, -1);
+    state.inFlightEmails.delete(email.id);
+  }
+}
+
+// Launches every queued email the limits allow, highest priority first, and
+// waits for the batch. Returns how many runs happened.
+async function launchBatch() {
+  const state = worker();
+  const tasks: Promise<boolean>[] = [];
+  let started = 0;
+  try {
+    const workflows = listWorkflows();
+    const now = Date.now();
+    const queued = rankQueue().emails;
+    const queuedIds = new Set(queued.map((email) => email.id));
+    for (const ids of [state.held, state.deferred, state.failed]) {
+      for (const id of ids) if (!queuedIds.has(id)) ids.delete(id);
+    }
+
+    for (const email of queued) {
+      if (state.inFlightEmails.size >= maxConcurrency) break;
+      if (state.inFlightEmails.has(email.id) || state.failed.has(email.id)) {
+        continue;
+      }
+      const { workflowIds } = simulateEmail(email, workflows);
+      const matched = workflows.filter((workflow) =>
+        workflowIds.includes(workflow.id),
+      );
+
+      // Autopilot only acts for workflows that enable it; anything else stays
+      // queued for a human.
+      if (!matched.some((workflow) => workflow.autopilot)) {
+        if (!state.held.has(email.id)) {
+          state.held.add(email.id);
+          emit(
+            "held",
+            matched.length
+              ? `Left “${email.subject}” for a human: only manual workflows match`
+              : `Left “${email.subject}” for a human: no workflow matches`,
+            { emailId: email.id },
+          );
+        }
+        continue;
+      }
+      state.held.delete(email.id);
+
+      // An operator is working on it; it's theirs until the claim lapses.
+      const claim = getClaim(email.id, now);
+      const blocked =
+        claim && !holdsClaim(claim, autopilotActor)
+          ? `${claim.actor.name ?? claim.actor.type} is working on it`
+          : blockedBy(matched, now);
+      if (blocked) {
+        if (!state.deferred.has(email.id)) {
+          state.deferred.add(email.id);
+          emit("deferred", `Deferred “${email.subject}”: ${blocked}`, {
+            emailId: email.id,
+          });
+        }
+        continue;
+      }
+      tasks.push(processEmail(email, matched));
+    }
+    started = (await Promise.all(tasks)).filter(Boolean).length;
+  } finally {
+    state.lastPassAt = new Date().toISOString();
+  }
+  return started;
+}
+
+// Passes never overlap: interval ticks and "drain now" wait their turn.
+async function runPass() {
+  const state = worker();
+  while (state.currentPass) await state.currentPass;
+  const pass = launchBatch();
+  state.currentPass = pass;
+  try {
+    return await pass;
+  } finally {
+    if (state.currentPass === pass) state.currentPass = null;
+  }
+}
+
+function schedule(delay: number) {
+  const state = worker();
+  clearTimeout(state.timer);
+  if (state.paused) return;
+  state.timer = setTimeout(async () => {
+    let started = 0;
+    try {
+      started = await runPass();
+    } catch (error) {
+      console.error("[autopilot] pass failed", error);
+    }
+    // Keep going straight away while there is work, otherwise poll.
+    schedule(started ? 0 : intervalMs);
+  }, delay);
+}
+
+export function startAutopilot() {
+  const state = worker();
+  state.unsubscribe ??= subscribe((event) => {
+    if (event.type === "email.queued") schedule(0);
+  });
+  schedule(0);
+}
+
+export function pauseAutopilot() {
+  const state = worker();
+  if (!state.paused) {
+    state.paused = true;
+    clearTimeout(state.timer);
+    setAutopilotPaused(true);
+    emit("paused", "Autopilot paused");
+  }
+  return getAutopilotStatus();
+}
+
+export function resumeAutopilot() {
+  const state = worker();
+  if (state.paused) {
+    state.paused = false;
+    setAutopilotPaused(false);
+    emit("resumed", "Autopilot resumed");
+  }
+  startAutopilot();
+  return getAutopilotStatus();
+}
+
+// Processes everything the limits allow right now, even while paused.
+// Emails that failed earlier get another chance.
+export async function drainNow() {
+  const state = worker();
+  state.failed.clear();
+  let total = 0;
+  for (;;) {
+    const started = await runPass();
+    if (!started) break;
+    total += started;
+  }
+  emit(
+    "drained",
+    `Drain finished: ${total} emails processed, ${listQueue().length} left in the queue`,
+  );
+  return getAutopilotStatus();
+}
+
+export function getAutopilotStatus(): AutopilotStatus {
+  const state = worker();
+  return {
+    paused: state.paused,
+    intervalMs,
+    inFlight: state.inFlightEmails.size,
+    processed: state.processed,
+    lastPassAt: state.lastPassAt,
+    heldEmailIds: [...state.held],
+    // Run results are only needed live; keep the status payload small.
+    events: state.events.map((event) => ({ ...event, result: undefined })),
+  };
+}
@@ -0,0 +1,226 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import {
+  BranchAction,
+  BranchConditionError,
+  chooseBranch,
+  evaluateBranch,
+  parseBranchCondition,
+  resolveBranches,
+} from "@/lib/branches";
+import { EmailEntities, extractEntities } from "@/lib/extraction";
+import { EmailPayload, Workflow } from "@/lib/types";
+import {
+  WorkflowValidationError,
+  validateWorkflow,
+  workflowDocumentSchema,
+} from "@/lib/workflow-definition";
+
+const now = Date.parse("2024-05-06T09:00:00.000Z");
+
+function hoursFromNow(hours: number) {
+  return new Date(now + hours * 3_600_000).toISOString();
+}
+
+function entities(overrides: Partial<EmailEntities> = {}): EmailEntities {
+  return {
+    links: [],
+    portalUrl: null,
+    deadlines: [],
+    nextDeadline: null,
+    urgency: "normal",
+    requestedDocuments: [],
+    contacts: [],
+    amounts: [],
+    ...overrides,
+  };
+}
+
+function holds(expression: string, extracted: EmailEntities) {
+  return evaluateBranch(parseBranchCondition(expression), extracted, now);
+}
+
+test("deadline compares the next deadline in hours", () => {
+  const due = entities({
+    nextDeadline: { text: "tomorrow", dueAt: hoursFromNow(23.5) },
+  });
+  assert.equal(holds("deadline < 24h", due), true);
+  assert.equal(holds("deadline < 1d", due), true);
+  assert.equal(holds("deadline < 90m", due), false);
+  assert.equal(holds("deadline >= 1w", due), false);
+  assert.equal(
+    holds("deadline < 24h", entities({ nextDeadline: null })),
+    false,
+    "no deadline never satisfies a comparison",
+  );
+  assert.equal(holds("deadline >= 24h", entities()), false);
+  assert.equal(
+    holds(
+      "deadline < 0h",
+      entities({ nextDeadline: { text: "today", dueAt: hoursFromNow(-2) } }),
+    ),
+    true,
+    "a deadline that passed since the email arrived is overdue",
+  );
+});
+
+test("dates already past when the email arrived are not its deadline", () => {
+  const email = {
+    id: "email-stale-date",
+    subject: "Offer letter",
+    sender: "hr@example.com",
+    senderName: "HR",
+    to: "you@example.com",
+    preview: "",
+    body: "The old offer expired by 2024-04-01. Please sign the new one by 2024-05-20.",
+    receivedAt: new Date(now).toISOString(),
+    tags: [],
+  } as EmailPayload;
+  const extracted = extractEntities(email);
+  assert.equal(extracted.deadlines.length, 2);
+  assert.equal(extracted.nextDeadline?.text, "2024-05-20");
+  assert.equal(holds("deadline < 24h", extracted), false);
+  assert.equal(holds("deadline >= 1w", extracted), true);
+});
+
+test("urgency, amounts and documents", () => {
+  const extracted = entities({
+    urgency: "immediate",
+    amounts: [
+      { text: "$500", value: 500, currency: "USD" },
+      { text: "$5,000", value: 5000, currency: "USD" },
+    ],
+    requestedDocuments: [{ type: "resume", label: "CV", tags: [] }],
+  });
+  assert.equal(holds("urgency = immediate", extracted), true);
+  assert.equal(holds("urgency != immediate", extracted), false);
+  assert.equal(holds("URGENCY = Immediate", extracted), true);
+  assert.equal(holds("amount >= 5000", extracted), true);
+  assert.equal(holds("amount > 5000", extracted), false);
+  assert.equal(holds("amount > 0", entities()), false);
+  assert.equal(holds("documents = 1", extracted), true);
+  assert.equal(holds("documents > 0", entities()), false);
+});
+
+test("AND binds tighter than OR", () => {
+  assert.deepEqual(
+    parseBranchCondition("urgency = soon OR amount > 10 AND documents = 0"),
+    [
+      [{ field: "urgency", operator: "=", value: "soon" }],
+      [
+        { field: "amount", operator: ">", value: 10 },
+        { field: "documents", operator: "=", value: 0 },
+      ],
+    ],
+  );
+  const extracted = entities({
+    amounts: [{ text: "$20", value: 20, currency: "USD" }],
+  });
+  assert.equal(
+    holds("urgency = soon OR amount > 10 AND documents = 0", extracted),
+    true,
+  );
+  assert.equal(
+    holds("urgency = soon OR amount > 10 AND documents > 0", extracted),
+    false,
+  );
+});
+
+test("syntax errors explain what is wrong", () => {
+  const cases: [string, RegExp][] = [
+    ["", /^Condition is empty$/],
+    ["deadline soon", /^Expected field, operator and value near/],
+    ["deadline < 24", /^deadline expects a duration/],
+    ["deadline = 24h", /^deadline only supports < <= > >=$/],
+    ["urgency = later", /^urgency is one of immediate, soon, normal/],
+    ["urgency > soon", /^urgency only supports = and !=$/],
+    ["amount > lots", /^amount expects a number/],
+    ["size > 10", /^Unknown field "size"/],
+    [
+      "urgency = soon AND",
+      /^Expected field, operator and value near "urgency = soon AND"$/,
+    ],
+  ];
+  for (const [expression, message] of cases) {
+    assert.throws(
+      () => parseBranchCondition(expression),
+      (error) =>
+        error instanceof BranchConditionError && message.test(error.message),
+      expression,
+    );
+  }
+});
+
+test("a branch takes `otherwise` or drops out when its condition fails", () => {
+  const escalate = {
+    id: "escalate",
+    type: "notify_whatsapp",
+    summary: "Escalate",
+    details: "",
+    when: "deadline < 24h",
+    otherwise: {
+      id: "remind",
+      type: "notify_whatsapp",
+      summary: "Remind",
+      details: "",
+    },
+  } as BranchAction;
+  const track = {
+    id: "track",
+    type: "update_tracker",
+    summary: "Track",
+    details: "",
+    when: "urgency = immediate",
+  } as BranchAction;
+  const workflow = { id: "offer-desk", actions: [escalate, track] } as Workflow;
+
+  const urgent = entities({
+    nextDeadline: { text: "tonight", dueAt: hoursFromNow(6) },
+  });
+  assert.deepEqual(
+    resolveBranches(workflow, urgent, now).actions.map((action) => action.id),
+    ["escalate"],
+  );
+  assert.deepEqual(chooseBranch(escalate, entities(), now), {
+    action: escalate.otherwise,
+    condition: "deadline < 24h",
+    taken: "else",
+  });
+  assert.equal(
+    "when" in resolveBranches(workflow, urgent, now).actions[0],
+    false,
+  );
+});
+
+test("an otherwise action can't branch again", () => {
+  const { otherwise } = workflowDocumentSchema.$defs;
+  assert.equal(
+    workflowDocumentSchema.$defs.action.properties.otherwise.$ref,
+    "#/$defs/otherwise",
+  );
+  assert.equal("when" in otherwise.properties, false);
+  assert.equal("otherwise" in otherwise.properties, false);
+
+  assert.throws(
+    () =>
+      validateWorkflow({
+        name: "Offer desk",
+        trigger: { keywords: ["offer"] },
+        actions: [
+          {
+            type: "notify_whatsapp",
+            summary: "Escalate",
+            when: "deadline < 24h",
+            otherwise: {
+              type: "notify_whatsapp",
+              summary: "Remind",
+              when: "urgency = immediate",
+            },
+          },
+        ],
+      }),
+    (error) =>
+      error instanceof WorkflowValidationError &&
+      /cannot branch again/.test(error.message),
+  );
+});
@@ -0,0 +1,217 @@
+import { WorkflowAction } from "@/lib/approvals";
+import { EmailEntities, Urgency } from "@/lib/extraction";
+import { Workflow } from "@/lib/types";
+
+// An action with `when` runs only if the condition holds for what was
+// extracted from the email; otherwise `otherwise` runs in its place, if given.
+export type BranchAction = WorkflowAction & {
+  when?: string;
+  otherwise?: WorkflowAction;
+};
+
+export type BranchField = "deadline" | "urgency" | "amount" | "documents";
+
+export type BranchOperator = "<" | "<=" | ">" | ">=" | "=" | "!=";
+
+export interface BranchComparison {
+  field: BranchField;
+  operator: BranchOperator;
+  // Hours for deadlines.
+  value: number | string;
+}
+
+// Any of the groups, each of which needs all of its comparisons.
+export type BranchCondition = BranchComparison[][];
+
+export class BranchConditionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BranchConditionError";
+  }
+}
+
+export const branchFields: BranchField[] = [
+  "deadline",
+  "urgency",
+  "amount",
+  "documents",
+];
+
+const urgencies: Urgency[] = ["immediate", "soon", "normal"];
+
+const hoursPerUnit: Record<string, number> = {
+  m: 1 / 60,
+  h: 1,
+  d: 24,
+  w: 168,
+};
+
+function parseComparison(text: string): BranchComparison {
+  const match = /^([a-z]+)\s*(<=|>=|!=|<|>|=)\s*(\S+)$/i.exec(text.trim());
+  if (!match) {
+    throw new BranchConditionError(
+      `Expected field, operator and value near "${text.trim()}"`,
+    );
+  }
+  const field = match[1].toLowerCase() as BranchField;
+  const operator = match[2] as BranchOperator;
+  const raw = match[3].toLowerCase();
+  switch (field) {
+    case "deadline": {
+      const duration = /^(\d+(?:\.\d+)?)([mhdw])$/.exec(raw);
+      if (!duration) {
+        throw new BranchConditionError(
+          `deadline expects a duration such as 90m, 24h, 2d or 1w, got "${raw}"`,
+        );
+      }
+      if (operator === "=" || operator === "!=") {
+        throw new BranchConditionError("deadline only supports < <= > >=");
+      }
+      return {
+        field,
+        operator,
+        value: Number(duration[1]) * hoursPerUnit[duration[2]],
+      };
+    }
+    case "urgency":
+      if (!urgencies.includes(raw as Urgency)) {
+        throw new BranchConditionError(
+          `urgency is one of ${urgencies.join(", ")}, got "${raw}"`,
+        );
+      }
+      if (operator !== "=" && operator !== "!=") {
+        throw new BranchConditionError("urgency only supports = and !=");
+      }
+      return { field, operator, value: raw };
+    case "amount":
+    case "documents":
+      if (!/^\d+(?:\.\d+)?$/.test(raw)) {
+        throw new BranchConditionError(
+          `${field} expects a number, got "${raw}"`,
+        );
+      }
+      return { field, operator, value: Number(raw) };
+    default:
+      throw new BranchConditionError(
+        `Unknown field "${match[1]}"; expected one of ${branchFields.join(", ")}`,
+      );
+  }
+}
+
+//   deadline < 24h
+//   urgency = immediate OR amount >= 5000
+//   documents > 0 AND deadline <= 3d
+//
+// AND binds tighter than OR; there are no parentheses.
+export function parseBranchCondition(expression: string): BranchCondition {
+  if (!expression.trim()) {
+    throw new BranchConditionError("Condition is empty");
+  }
+  return expression
+    .split(/\s+OR\s+/i)
+    .map((group) => group.split(/\s+AND\s+/i).map(parseComparison));
+}
+
+function compare(left: number, operator: BranchOperator, right: number) {
+  switch (operator) {
+    case "<":
+      return left < right;
+    case "<=":
+      return left <= right;
+    case ">":
+      return left > right;
+    case ">=":
+      return left >= right;
+    case "=":
+      return left === right;
+    case "!=":
+      return left !== right;
+  }
+}
+
+// Emails without a deadline or an amount never satisfy a comparison on it, so
+// their `otherwise` branch runs. Dates already past when the email arrived
+// don't count as its deadline.
+function holds(
+  comparison: BranchComparison,
+  entities: EmailEntities,
+  now: number,
+) {
+  const { field, operator, value } = comparison;
+  if (field === "urgency") {
+    return (entities.urgency === value) === (operator === "=");
+  }
+  if (field === "documents") {
+    return compare(
+      entities.requestedDocuments.length,
+      operator,
+      value as number,
+    );
+  }
+  if (field === "deadline") {
+    const next = entities.nextDeadline;
+    if (!next) return false;
+    return compare(
+      (Date.parse(next.dueAt) - now) / 3_600_000,
+      operator,
+      value as number,
+    );
+  }
+  const amounts = entities.amounts.map((amount) => amount.value);
+  if (!amounts.length) return false;
+  return compare(Math.max(...amounts), operator, value as number);
+}
+
+export function evaluateBranch(
+  condition: BranchCondition,
+  entities: EmailEntities,
+  now = Date.now(),
+) {
+  return condition.some((group) =>
+    group.every((comparison) => holds(comparison, entities, now)),
+  );
+}
+
+export interface BranchChoice {
+  // Null when the condition fails and there is no `otherwise`.
+  action: WorkflowAction | null;
+  condition: string | null;
+  taken: "then" | "else" | null;
+}
+
+export function chooseBranch(
+  action: WorkflowAction,
+  entities: EmailEntities,
+  now = Date.now(),
+): BranchChoice {
+  const { when, otherwise, ...then } = action as BranchAction;
+  if (when === undefined) return { action, condition: null, taken: null };
+  return evaluateBranch(parseBranchCondition(when), entities, now)
+    ? { action: then, condition: when, taken: "then" }
+    : { action: otherwise ?? null, condition: when, taken: "else" };
+}
+
+// Replaces each branch with the action it takes for this email. Deadlines are
+// measured from `now`.
+export function resolveBranches<T extends Workflow>(
+  workflow: T,
+  entities: EmailEntities,
+  now = Date.now(),
+): T {
+  return {
+    ...workflow,
+    actions: workflow.actions.flatMap((action) => {
+      const chosen = chooseBranch(action, entities, now).action;
+      return chosen ? [chosen] : [];
+    }),
+  };
+}
+
+// Both sides of every branch, for finding an action by the id a run recorded.
+export function branchAlternatives(workflow: Workflow): WorkflowAction[] {
+  return workflow.actions.flatMap((action) => {
+    const { when, otherwise, ...then } = action as BranchAction;
+    if (when === undefined) return [action];
+    return otherwise ? [then, otherwise] : [then];
+  });
+}
@@ -0,0 +1,188 @@
+import { SmtpError, parseSmtpUrl, sendMail } from "@/lib/smtp";
+import { WhatsAppNotification } from "@/lib/types";
+
+export type ChannelName = "whatsapp" | "slack" | "email" | "console";
+
+export type DeliveryStatus = "queued" | "sent" | "delivered" | "failed";
+
+export interface NotificationDelivery {
+  id: string;
+  notificationId: string;
+  channel: ChannelName;
+  status: DeliveryStatus;
+  attempts: number;
+  nextAttemptAt: string | null;
+  providerMessageId?: string;
+  lastError?: string;
+  updatedAt: string;
+}
+
+export interface TrackedNotification extends WhatsAppNotification {
+  deliveries: NotificationDelivery[];
+}
+
+// What a channel knows once the provider accepted the message. Providers that
+// report delivery asynchronously return "sent" and a message id to match later.
+export interface ChannelReceipt {
+  status: "sent" | "delivered";
+  providerMessageId?: string;
+}
+
+export interface NotificationChannel {
+  name: ChannelName;
+  send(notification: WhatsAppNotification): Promise<ChannelReceipt>;
+}
+
+export class ChannelError extends Error {
+  constructor(
+    message: string,
+    public readonly retryable = true,
+  ) {
+    super(message);
+    this.name = "ChannelError";
+  }
+}
+
+const requestTimeoutMs = 10_000;
+
+async function postJson(url: string, body: unknown, headers = {}) {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: "POST",
+      headers: { "content-type": "application/json", ...headers },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(requestTimeoutMs),
+    });
+  } catch (error) {
+    throw new ChannelError(
+      error instanceof Error ? error.message : "Request failed",
+    );
+  }
+  if (!response.ok) {
+    const detail = (await response.text().catch(() => "")).slice(0, 200);
+    // Client errors other than rate limiting will fail the same way next time.
+    throw new ChannelError(
+      `HTTP ${response.status}${detail ? `: ${detail}` : ""}`,
+      response.status >= 500 || response.status === 429,
+    );
+  }
+  return response;
+}
+
+export function whatsappChannel(options: {
+  apiUrl: string;
+  phoneNumberId: string;
+  token: string;
+}): NotificationChannel {
+  return {
+    name: "whatsapp",
+    async send(notification) {
+      const response = await postJson(
+        `${options.apiUrl.replace(/\/$/, "")}/${options.phoneNumberId}/messages`,
+        {
+          messaging_product: "whatsapp",
+          to: notification.to.replace(/[^\d]/g, ""),
+          type: "text",
+          text: { body: notification.message },
+        },
+        { authorization: `Bearer ${options.token}` },
+      );
+      const payload = (await response.json().catch(() => null)) as {
+        messages?: { id?: string }[];
+      } | null;
+      return { status: "sent", providerMessageId: payload?.messages?.[0]?.id };
+    },
+  };
+}
+
+export function slackChannel(options: {
+  webhookUrl: string;
+}): NotificationChannel {
+  return {
+    name: "slack",
+    async send(notification) {
+      await postJson(options.webhookUrl, {
+        text: `*To ${notification.to}*\n${notification.message}`,
+      });
+      return { status: "delivered" };
+    },
+  };
+}
+
+export function emailChannel(options: {
+  smtpUrl: string;
+  from: string;
+  to: string[];
+}): NotificationChannel {
+  const config = parseSmtpUrl(options.smtpUrl);
+  return {
+    name: "email",
+    async send(notification) {
+      try {
+        const { response } = await sendMail(config, {
+          from: options.from,
+          to: options.to,
+          subject: `Agent update for ${notification.to}`,
+          text: notification.message,
+        });
+        return { status: "sent", providerMessageId: response };
+      } catch (error) {
+        if (error instanceof SmtpError) {
+          throw new ChannelError(error.message, error.transient);
+        }
+        throw new ChannelError(
+          error instanceof Error ? error.message : "SMTP delivery failed",
+        );
+      }
+    },
+  };
+}
+
+export const consoleChannel: NotificationChannel = {
+  name: "console",
+  async send(notification) {
+    console.info(`[notify] to ${notification.to}: ${notification.message}`);
+    return { status: "delivered" };
+  },
+};
+
+function requireEnv(name: string) {
+  const value = process.env[name];
+  if (!value) throw new Error(`${name} is required for this channel`);
+  return value;
+}
+
+// NOTIFY_CHANNELS is a comma-separated list; console is the default so local
+// runs never reach a real provider by accident.
+export function configuredChannels(): NotificationChannel[] {
+  const names = (process.env.NOTIFY_CHANNELS ?? "console")
+    .split(",")
+    .map((name) => name.trim())
+    .filter(Boolean);
+  return names.map((name) => {
+    switch (name) {
+      case "whatsapp":
+        return whatsappChannel({
+          apiUrl:
+            process.env.WHATSAPP_API_URL ?? "https://graph.facebook.com/v20.0",
+          phoneNumberId: requireEnv("WHATSAPP_PHONE_NUMBER_ID"),
+          token: requireEnv("WHATSAPP_TOKEN"),
+        });
+      case "slack":
+        return slackChannel({ webhookUrl: requireEnv("SLACK_WEBHOOK_URL") });
+      case "email":
+        return emailChannel({
+          smtpUrl: requireEnv("SMTP_URL"),
+          from: requireEnv("SMTP_FROM"),
+          to: requireEnv("NOTIFY_EMAIL_TO")
+            .split(",")
+            .map((address) => address.trim()),
+        });
+      case "console":
+        return consoleChannel;
+      default:
+        throw new Error(`Unknown notification channel "${name}"`);
+    }
+  });
+}
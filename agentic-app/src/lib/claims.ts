@@ -0,0 +1,106 @@
+import { AuditActor, describeActor } from "@/lib/audit";
+import { publish } from "@/lib/events";
+import { HttpError } from "@/lib/http";
+
+// Who is working on a queued email. Dashboards renew their claims while the
+// operator keeps the email open; a closed tab lets the claim lapse.
+export interface EmailClaim {
+  emailId: string;
+  actor: AuditActor;
+  claimedAt: string;
+  expiresAt: string;
+}
+
+const claimTtlMs = Number(process.env.EMAIL_CLAIM_TTL_MS ?? 120_000);
+
+const globalForClaims = globalThis as typeof globalThis & {
+  emailClaims?: Map<string, EmailClaim>;
+};
+
+function claims() {
+  globalForClaims.emailClaims ??= new Map();
+  return globalForClaims.emailClaims;
+}
+
+function isLive(claim: EmailClaim, now: number) {
+  return Date.parse(claim.expiresAt) > now;
+}
+
+function publishClaims() {
+  publish({ type: "claims", claims: listClaims() });
+}
+
+export function listClaims(now = Date.now()) {
+  const current = claims();
+  for (const [emailId, claim] of current) {
+    if (!isLive(claim, now)) current.delete(emailId);
+  }
+  return [...current.values()];
+}
+
+export function getClaim(emailId: string, now = Date.now()) {
+  const claim = claims().get(emailId);
+  return claim && isLive(claim, now) ? claim : null;
+}
+
+// With a session on either side, only the same tab holds the claim: two tabs
+// under one name, or two operators without one, are different people. Callers
+// without sessions, such as scripts, are told apart by name.
+export function holdsClaim(claim: EmailClaim, actor: AuditActor) {
+  if (claim.actor.session || actor.session) {
+    return (
+      claim.actor.type === actor.type && claim.actor.session === actor.session
+    );
+  }
+  return describeActor(claim.actor) === describeActor(actor);
+}
+
+// Throws 409 while someone else holds the email.
+export function assertNotClaimed(emailId: string, actor: AuditActor) {
+  const claim = getClaim(emailId);
+  if (claim && !holdsClaim(claim, actor)) {
+    throw new HttpError(
+      409,
+      `${claim.actor.name ?? claim.actor.type} is working on this email`,
+      { claim },
+    );
+  }
+}
+
+// Claims or renews the email for the actor. `force` takes it over from
+// whoever holds it.
+export function claimEmail(
+  emailId: string,
+  actor: AuditActor,
+  { force = false } = {},
+) {
+  if (!force) assertNotClaimed(emailId, actor);
+  const now = Date.now();
+  const existing = getClaim(emailId, now);
+  const claim: EmailClaim = {
+    emailId,
+    actor,
+    claimedAt:
+      existing && holdsClaim(existing, actor)
+        ? existing.claimedAt
+        : new Date(now).toISOString(),
+    expiresAt: new Date(now + claimTtlMs).toISOString(),
+  };
+  claims().set(emailId, claim);
+  publishClaims();
+  return claim;
+}
+
+// Only the holder can release a claim; anyone can once the email has left
+// the queue, via `force`.
+export function releaseEmail(
+  emailId: string,
+  actor: AuditActor,
+  { force = false } = {},
+) {
+  const claim = getClaim(emailId);
+  if (!claim || (!force && !holdsClaim(claim, actor))) return false;
+  claims().delete(emailId);
+  publishClaims();
+  return true;
+}
@@ -0,0 +1,107 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import {
+  VaultDocument,
+  detectRequirements,
+  matchDocuments,
+} from "@/lib/documents";
+import { EmailPayload } from "@/lib/types";
+
+function email(subject: string, body: string) {
+  return {
+    id: "email-admissions",
+    subject,
+    sender: "admissions@uni.edu",
+    senderName: "Admissions",
+    to: "you@example.com",
+    preview: "",
+    body,
+    receivedAt: "2024-05-06T09:15:00.000Z",
+    tags: [],
+  } as EmailPayload;
+}
+
+function document(
+  id: string,
+  type: VaultDocument["type"],
+  tags: string[],
+  updatedAt: string,
+  versions = 1,
+): VaultDocument {
+  return {
+    id,
+    name: id,
+    type,
+    tags,
+    versions: Array.from({ length: versions }, (_, index) => ({
+      version: index + 1,
+      filename: `${id}-v${index + 1}.pdf`,
+      contentType: "application/pdf",
+      size: 10,
+      sha256: "0".repeat(64),
+      uploadedAt: updatedAt,
+    })),
+    createdAt: updatedAt,
+    updatedAt,
+  };
+}
+
+test("only sentences that ask for a document are requirements", () => {
+  const required = detectRequirements(
+    email(
+      "Your application",
+      [
+        "Thanks for your resume.",
+        "Please upload your updated transcript and a personal video statement.",
+        "We also need an official transcript before the interview.",
+      ].join(" "),
+    ),
+  );
+  assert.deepEqual(required, [
+    { type: "transcript", label: "updated transcript", tags: [] },
+    { type: "statement", label: "personal video statement", tags: ["video"] },
+    { type: "transcript", label: "official transcript", tags: ["official"] },
+  ]);
+  assert.deepEqual(
+    detectRequirements(email("Hello", "Thanks for your resume and essay.")),
+    [],
+  );
+});
+
+test("the newest document carrying every requested tag is attached", () => {
+  const required = detectRequirements(
+    email(
+      "Documents",
+      "Please send your resume and a video statement. Submit an official transcript.",
+    ),
+  );
+  const check = matchDocuments(required, [
+    document("resume-old", "resume", [], "2024-01-01T00:00:00.000Z"),
+    document("resume-new", "resume", [], "2024-04-01T00:00:00.000Z", 2),
+    document("written", "statement", [], "2024-04-02T00:00:00.000Z"),
+    document("transcript", "transcript", [], "2024-04-03T00:00:00.000Z"),
+  ]);
+  assert.deepEqual(check.attached, [
+    {
+      documentId: "resume-new",
+      name: "resume-new",
+      type: "resume",
+      version: 2,
+      filename: "resume-new-v2.pdf",
+      requirement: "resume",
+    },
+  ]);
+  assert.deepEqual(
+    check.missing.map((item) => item.label),
+    ["video statement", "official transcript"],
+  );
+});
+
+test("a document without any stored version does not count", () => {
+  const required = detectRequirements(email("CV", "Please attach your CV."));
+  const check = matchDocuments(required, [
+    document("empty", "resume", [], "2024-04-01T00:00:00.000Z", 0),
+  ]);
+  assert.deepEqual(check.attached, []);
+  assert.deepEqual(check.missing, required);
+});
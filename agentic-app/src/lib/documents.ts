@@ -0,0 +1,191 @@
+import { WorkflowAction } from "@/lib/approvals";
+import { EmailPayload, ProcessedEmail } from "@/lib/types";
+
+export type DocumentType =
+  | "resume"
+  | "transcript"
+  | "statement"
+  | "portfolio"
+  | "recommendation"
+  | "other";
+
+export const documentTypes: DocumentType[] = [
+  "resume",
+  "transcript",
+  "statement",
+  "portfolio",
+  "recommendation",
+  "other",
+];
+
+export const documentTypeLabels: Record<DocumentType, string> = {
+  resume: "Resume",
+  transcript: "Transcript",
+  statement: "Statement",
+  portfolio: "Portfolio",
+  recommendation: "Recommendation",
+  other: "Other",
+};
+
+export interface DocumentVersion {
+  version: number;
+  filename: string;
+  contentType: string;
+  size: number;
+  sha256: string;
+  uploadedAt: string;
+}
+
+export interface VaultDocument {
+  id: string;
+  name: string;
+  type: DocumentType;
+  // Free-form qualifiers such as "video" or "official" that requests can ask for.
+  tags: string[];
+  versions: DocumentVersion[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface DocumentRequirement {
+  type: DocumentType;
+  // The phrase as the email put it, e.g. "personal video statement".
+  label: string;
+  tags: string[];
+}
+
+export interface AttachedDocument {
+  documentId: string;
+  name: string;
+  type: DocumentType;
+  version: number;
+  filename: string;
+  requirement: string;
+}
+
+export interface DocumentCheck {
+  required: DocumentRequirement[];
+  attached: AttachedDocument[];
+  missing: DocumentRequirement[];
+}
+
+export type DocumentedEmail = ProcessedEmail & { documents?: DocumentCheck };
+
+export function latestVersion(document: VaultDocument) {
+  return document.versions[document.versions.length - 1];
+}
+
+const typePatterns: [DocumentType, RegExp][] = [
+  ["resume", /\b(resume|résumé|cv|curriculum vitae)\b/i],
+  ["transcript", /\b(transcripts?|grade reports?|academic records?)\b/i],
+  [
+    "statement",
+    /\b((personal|video|motivation(al)?|research|purpose) statements?|statements? of purpose|essays?|cover letters?)\b/i,
+  ],
+  ["portfolio", /\b(portfolios?|work samples?|writing samples?)\b/i],
+  [
+    "recommendation",
+    /\b(recommendation( letters?)?|reference letters?|letters? of (recommendation|reference))\b/i,
+  ],
+];
+
+// Qualifiers a requirement keeps when they appear right before the document,
+// so "video statement" is not satisfied by a written one.
+const qualifierPattern = /\b(video|official|signed|certified)\s+(\w+\s+)?$/i;
+
+// Kept in the label only: any version on file satisfies "updated transcript".
+const adjectivePattern = /\b(updated|latest|current|personal)\s+$/i;
+
+const requestPattern =
+  /\b(send|submit|upload|attach|provide|share|need|needs|require[ds]?|include|missing|outstanding|please|bring|updated)\b/i;
+
+// Only sentences that ask for something count, so "thanks for your resume"
+// does not create a requirement.
+export function detectRequirements(email: EmailPayload): DocumentRequirement[] {
+  const sentences = `${email.subject}.\n${email.body}`
+    .split(/(?<=[.!?])\s+|\n+/)
+    .filter((sentence) => requestPattern.test(sentence));
+  const found = new Map<string, DocumentRequirement>();
+  for (const sentence of sentences) {
+    for (const [type, pattern] of typePatterns) {
+      const match = sentence.match(pattern);
+      if (!match || match.index === undefined) continue;
+      const before = sentence.slice(0, match.index);
+      const qualifier = before.match(qualifierPattern)?.[1]?.toLowerCase();
+      const tags = [
+        ...(qualifier ? [qualifier] : []),
+        ...(/\bvideo\b/i.test(match[0]) ? ["video"] : []),
+      ];
+      const adjective = before.match(adjectivePattern)?.[1];
+      const requirement: DocumentRequirement = {
+        type,
+        label: [adjective, qualifier, match[0]]
+          .filter(Boolean)
+          .join(" ")
+          .toLowerCase(),
+        tags: [...new Set(tags)],
+      };
+      const key = `${type}:${requirement.tags.join(",")}`;
+      if (!found.has(key)) found.set(key, requirement);
+    }
+  }
+  return [...found.values()];
+}
+
+// Picks the most recently updated document of the right type that carries
+// every tag the requirement asks for.
+export function matchDocuments(
+  required: DocumentRequirement[],
+  documents: VaultDocument[],
+): DocumentCheck {
+  const attached: AttachedDocument[] = [];
+  const missing: DocumentRequirement[] = [];
+  const newest = [...documents].sort((left, right) =>
+    right.updatedAt.localeCompare(left.updatedAt),
+  );
+  for (const requirement of required) {
+    const document = newest.find(
+      (item) =>
+        item.type === requirement.type &&
+        item.versions.length > 0 &&
+        requirement.tags.every((tag) => item.tags.includes(tag)),
+    );
+    if (!document) {
+      missing.push(requirement);
+      continue;
+    }
+    const version = latestVersion(document);
+    attached.push({
+      documentId: document.id,
+      name: document.name,
+      type: document.type,
+      version: version.version,
+      filename: version.filename,
+      requirement: requirement.label,
+    });
+  }
+  return { required, attached, missing };
+}
+
+export function describeDocumentCheck(check: DocumentCheck) {
+  const lines = [
+    ...check.attached.map(
+      (item) =>
+        `Attached ${item.name} v${item.version} for ${item.requirement}`,
+    ),
+    ...check.missing.map((item) => `Missing: ${item.label}`),
+  ];
+  return lines.join("\n");
+}
+
+export function attachDocuments(
+  action: WorkflowAction,
+  check: DocumentCheck,
+): WorkflowAction {
+  const summary = describeDocumentCheck(check);
+  if (action.type !== "collect_documents" || !summary) return action;
+  return {
+    ...action,
+    details: action.details ? `${action.details}\n${summary}` : summary,
+  };
+}
@@ -0,0 +1,57 @@
+import { EventEmitter } from "node:events";
+import type { AuditActor } from "@/lib/audit";
+import type { AutomationRun } from "@/lib/automation-service";
+import type { AutopilotEvent } from "@/lib/autopilot";
+import type { TrackedNotification } from "@/lib/channels";
+import type { EmailClaim } from "@/lib/claims";
+import { EmailPriority } from "@/lib/priority";
+import { ActionOutcome } from "@/lib/run-outcomes";
+import { ActionLogEntry, EmailPayload } from "@/lib/types";
+
+// In-process bus so producers (intake, the autopilot worker) don't need to
+// know who is listening: the worker, or browsers on a server-sent event stream.
+export type AgentEvent =
+  | { type: "email.queued"; email: EmailPayload }
+  | { type: "autopilot"; event: AutopilotEvent }
+  // The whole queue in rank order after any change to it.
+  | { type: "queue"; emails: EmailPayload[]; priorities: EmailPriority[] }
+  | { type: "run.started"; emailId: string; actor: AuditActor }
+  | { type: "run.step"; emailId: string; outcome: ActionOutcome }
+  // `result` is null when the run failed before it was recorded.
+  | {
+      type: "run.finished";
+      emailId: string;
+      result: AutomationRun | null;
+      error: string | null;
+    }
+  // New log lines, and notifications that are new or changed delivery status.
+  | {
+      type: "activity";
+      logs: ActionLogEntry[];
+      notifications: TrackedNotification[];
+    }
+  | { type: "claims"; claims: EmailClaim[] };
+
+const globalForEvents = globalThis as typeof globalThis & {
+  agentEvents?: EventEmitter;
+};
+
+function bus() {
+  if (!globalForEvents.agentEvents) {
+    globalForEvents.agentEvents = new EventEmitter();
+    // Every open dashboard tab holds a listener.
+    globalForEvents.agentEvents.setMaxListeners(0);
+  }
+  return globalForEvents.agentEvents;
+}
+
+export function publish(event: AgentEvent) {
+  bus().emit("event", event);
+}
+
+export function subscribe(listener: (event: AgentEvent) => void) {
+  bus().on("event", listener);
+  return () => {
+    bus().off("event", listener);
+  };
+}
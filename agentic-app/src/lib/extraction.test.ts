@@ -0,0 +1,73 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import {
+  extractContacts,
+  extractEntities,
+  fillPlaceholders,
+} from "@/lib/extraction";
+import { EmailPayload } from "@/lib/types";
+
+function emailWithBody(body: string) {
+  return {
+    id: "email-signoff",
+    subject: "Interview",
+    sender: "Jane.Doe@example.com",
+    senderName: "Recruiting",
+    to: "you@example.com",
+    preview: "",
+    body,
+    receivedAt: "2024-05-06T09:15:00.000Z",
+    tags: [],
+  } as EmailPayload;
+}
+
+test("a capitalized sign-off names the signer and their phone", () => {
+  for (const signOff of ["Best,", "Kind regards,", "Thank You", "thanks,"]) {
+    const [sender] = extractContacts(
+      emailWithBody(
+        `Hi,\n\nCan we talk on Friday?\n\n${signOff}\nJane Doe\n+1 555 123 4567`,
+      ),
+    );
+    assert.deepEqual(
+      sender,
+      {
+        name: "Jane Doe",
+        email: "jane.doe@example.com",
+        phone: "+1 555 123 4567",
+      },
+      signOff,
+    );
+  }
+});
+
+test("a lowercase line after the sign-off is not a name", () => {
+  const [sender] = extractContacts(
+    emailWithBody("Hi,\n\nBest,\nsent from my phone"),
+  );
+  assert.equal(sender.name, "Recruiting");
+  assert.equal(sender.phone, null);
+});
+
+test("{{deadline}} skips dates already past when the email arrived", () => {
+  const entities = extractEntities(
+    emailWithBody(
+      "The first round closed by 2024-04-30. Send your references by 2024-05-10.",
+    ),
+  );
+  assert.equal(entities.deadlines.length, 2);
+  assert.equal(
+    fillPlaceholders("Due {{deadline}}", entities),
+    "Due 2024-05-10T23:59:59.000Z",
+  );
+});
+
+test("inherited object keys are not placeholders", () => {
+  const entities = extractEntities(emailWithBody("Hello"));
+  assert.equal(
+    fillPlaceholders(
+      "{{constructor}} {{toString}} {{ hasOwnProperty }}",
+      entities,
+    ),
+    "{{constructor}} {{toString}} {{ hasOwnProperty }}",
+  );
+});
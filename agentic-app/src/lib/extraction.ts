@@ -0,0 +1,335 @@
+import { DocumentRequirement, detectRequirements } from "@/lib/documents";
+import { EmailPayload, ProcessedEmail } from "@/lib/types";
+
+export type LinkIntent = "apply" | "submit" | "schedule" | "other";
+
+export type Urgency = "immediate" | "soon" | "normal";
+
+export interface ExtractedLink {
+  url: string;
+  intent: LinkIntent;
+}
+
+export interface ExtractedDeadline {
+  // The words the date came from, e.g. "this afternoon" or "March 15, 2026".
+  text: string;
+  dueAt: string;
+}
+
+export interface ExtractedContact {
+  name: string | null;
+  email: string | null;
+  phone: string | null;
+}
+
+export interface ExtractedAmount {
+  text: string;
+  value: number;
+  currency: string;
+}
+
+export interface EmailEntities {
+  links: ExtractedLink[];
+  // First link with an apply or submit intent.
+  portalUrl: string | null;
+  deadlines: ExtractedDeadline[];
+  // First deadline not already past when the email arrived.
+  nextDeadline: ExtractedDeadline | null;
+  urgency: Urgency;
+  requestedDocuments: DocumentRequirement[];
+  contacts: ExtractedContact[];
+  amounts: ExtractedAmount[];
+}
+
+export type ExtractedEmail = ProcessedEmail & { entities?: EmailEntities };
+
+function textOf(email: EmailPayload) {
+  return `${email.subject}\n${email.body}`;
+}
+
+const intentPatterns: [LinkIntent, RegExp][] = [
+  ["schedule", /calendly|schedule|booking|\bbook\b|meet/i],
+  ["submit", /submit|upload|portal|form|dropbox/i],
+  ["apply", /apply|application|careers?|jobs?|vacanc/i],
+];
+
+// The URL itself decides first; otherwise the words just before it, as in
+// "apply here: https://…".
+function linkIntent(url: string, before: string): LinkIntent {
+  return (
+    intentPatterns.find(([, pattern]) => pattern.test(url))?.[0] ??
+    intentPatterns.find(([, pattern]) =>
+      pattern.test(before.slice(-60)),
+    )?.[0] ??
+    "other"
+  );
+}
+
+export function extractLinks(text: string): ExtractedLink[] {
+  const links: ExtractedLink[] = [];
+  for (const match of text.matchAll(/https?:\/\/[^\s<>()"']+/g)) {
+    const url = match[0].replace(/[.,;:!?]+$/, "");
+    if (links.some((link) => link.url === url)) continue;
+    links.push({
+      url,
+      intent: linkIntent(url, text.slice(0, match.index)),
+    });
+  }
+  return links;
+}
+
+const months =
+  "jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?";
+const datePattern = new RegExp(
+  `(\\d{4}-\\d{2}-\\d{2}|(?:${months})\\.? \\d{1,2}(?:st|nd|rd|th)?,? \\d{4}|\\d{1,2}(?:st|nd|rd|th)? (?:${months}),? \\d{4})`,
+  "gi",
+);
+const deadlineCue =
+  /\b(deadline|due|closes?|closing|by|before|until|no later than)\b[^.\n]{0,20}$/i;
+
+function parseDate(text: string) {
+  const parsed = new Date(
+    /^\d{4}-/.test(text)
+      ? `${text}T23:59:59Z`
+      : `${text.replace(/(\d)(st|nd|rd|th)/i, "$1")} 23:59:59 UTC`,
+  );
+  return Number.isNaN(parsed.getTime()) ? null : parsed;
+}
+
+const weekdays = [
+  "sunday",
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+];
+
+// Relative phrases resolve against when the email arrived, in UTC.
+const relativePhrases: [
+  RegExp,
+  (received: Date, match: RegExpMatchArray) => Date,
+][] = [
+  [/\bthis morning\b/i, (received) => atHour(received, 0, 12)],
+  [/\bthis afternoon\b/i, (received) => atHour(received, 0, 17)],
+  [
+    /\b(today|tonight|end of (the )?day|eod|close of business|cob)\b/i,
+    (received) => atHour(received, 0, 23, 59),
+  ],
+  [/\btomorrow\b/i, (received) => atHour(received, 1, 23, 59)],
+  [
+    new RegExp(
+      `\\b(?:by|on|before|until|this|next) (${weekdays.join("|")})\\b`,
+      "i",
+    ),
+    (received, match) =>
+      nextWeekday(received, weekdays.indexOf(match[1].toLowerCase())),
+  ],
+  [
+    /\b(end of (the )?week|this week)\b/i,
+    (received) => nextWeekday(received, 5),
+  ],
+];
+
+function atHour(received: Date, addDays: number, hours: number, minutes = 0) {
+  const date = new Date(received);
+  date.setUTCDate(date.getUTCDate() + addDays);
+  date.setUTCHours(hours, minutes, 0, 0);
+  return date;
+}
+
+function nextWeekday(received: Date, weekday: number) {
+  const days = (weekday - received.getUTCDay() + 7) % 7;
+  return atHour(received, days, 23, 59);
+}
+
+export function extractDeadlines(
+  text: string,
+  receivedAt: string,
+): ExtractedDeadline[] {
+  const received = Number.isNaN(new Date(receivedAt).getTime())
+    ? new Date()
+    : new Date(receivedAt);
+  const deadlines: ExtractedDeadline[] = [];
+  for (const match of text.matchAll(datePattern)) {
+    if (!deadlineCue.test(text.slice(0, match.index))) continue;
+    const date = parseDate(match[1]);
+    if (date) deadlines.push({ text: match[1], dueAt: date.toISOString() });
+  }
+  for (const [pattern, resolve] of relativePhrases) {
+    const match = text.match(pattern);
+    if (!match) continue;
+    deadlines.push({
+      text: match[0],
+      dueAt: resolve(received, match).toISOString(),
+    });
+  }
+  return deadlines.sort((left, right) => left.dueAt.localeCompare(right.dueAt));
+}
+
+export const immediateCue =
+  /\b(asap|urgent(ly)?|immediately|right away|need (this|it) (today|now)|as soon as possible)\b/i;
+
+// Dates already past when the email arrived are history, not deadlines.
+export function upcomingDeadline(
+  deadlines: ExtractedDeadline[],
+  receivedAt: string,
+) {
+  const received = new Date(receivedAt).getTime() || Date.now();
+  return (
+    deadlines.find(
+      (deadline) => new Date(deadline.dueAt).getTime() >= received,
+    ) ?? null
+  );
+}
+
+export function urgencyOf(
+  text: string,
+  deadlines: ExtractedDeadline[],
+  receivedAt: string,
+): Urgency {
+  if (immediateCue.test(text)) return "immediate";
+  const received = new Date(receivedAt).getTime() || Date.now();
+  const next = upcomingDeadline(deadlines, receivedAt);
+  const hoursLeft = next
+    ? (new Date(next.dueAt).getTime() - received) / 3_600_000
+    : Infinity;
+  if (hoursLeft <= 24) return "immediate";
+  if (hoursLeft <= 72) return "soon";
+  return "normal";
+}
+
+const phonePattern = /(\+?\d[\d\s().-]{7,}\d)/;
+// Sign-offs start a line capitalized, so only the name has to be.
+const signOffPattern =
+  /\b(?:[Rr]egards|[Bb]est|[Tt]hanks|[Tt]hank [Yy]ou|[Ss]incerely|[Cc]heers|[Ww]armly),?\s*\n+\s*([A-Z][\w'’-]+(?: [A-Z][\w'’-]+){0,2})\s*(?:\n|$)/;
+
+// The sender and anyone the body says to contact.
+export function extractContacts(email: EmailPayload): ExtractedContact[] {
+  const contacts: ExtractedContact[] = [];
+  const add = (contact: ExtractedContact) => {
+    const duplicate = contacts.find(
+      (item) =>
+        (contact.email && item.email === contact.email) ||
+        (contact.name && item.name === contact.name),
+    );
+    if (duplicate) {
+      duplicate.name ??= contact.name;
+      duplicate.email ??= contact.email;
+      duplicate.phone ??= contact.phone;
+    } else {
+      contacts.push(contact);
+    }
+  };
+
+  const signOff = email.body.match(signOffPattern);
+  const signature = signOff
+    ? email.body.slice((signOff.index ?? 0) + signOff[0].length)
+    : "";
+  // Whoever signs off is usually the person behind the sender address.
+  add({
+    name: signOff?.[1] ?? (email.senderName || null),
+    email: email.sender.toLowerCase(),
+    phone: signature.match(phonePattern)?.[1]?.trim() ?? null,
+  });
+
+  for (const match of email.body.matchAll(
+    /(?:([A-Z][\w'’-]+(?: [A-Z][\w'’-]+)?)\s*(?:<|\(|at|:)\s*)?([\w.+-]+@[\w-]+(?:\.[\w-]+)+)/g,
+  )) {
+    add({ name: match[1] ?? null, email: match[2].toLowerCase(), phone: null });
+  }
+  return contacts;
+}
+
+const currencySymbols: Record<string, string> = {
+  $: "USD",
+  "€": "EUR",
+  "£": "GBP",
+  "₦": "NGN",
+  "₹": "INR",
+};
+const multipliers: Record<string, number> = {
+  k: 1_000,
+  thousand: 1_000,
+  m: 1_000_000,
+  million: 1_000_000,
+};
+const amountPattern =
+  /(?:([$€£₦₹])\s?|\b(USD|EUR|GBP|NGN|INR|CAD|AUD)\s?)(\d[\d,]*(?:\.\d+)?)(?:\s?(k|m|thousand|million)\b)?|\b(\d[\d,]*(?:\.\d+)?)\s?(USD|EUR|GBP|NGN|INR|CAD|AUD|dollars|euros|pounds)\b/gi;
+
+export function extractAmounts(text: string): ExtractedAmount[] {
+  return [...text.matchAll(amountPattern)].map((match) => {
+    const [text, symbol, code, number, scale, trailing, trailingCode] = match;
+    const value =
+      Number((number ?? trailing).replace(/,/g, "")) *
+      (multipliers[scale?.toLowerCase() ?? ""] ?? 1);
+    const unit = (code ?? trailingCode ?? "").toUpperCase();
+    const currency =
+      currencySymbols[symbol ?? ""] ??
+      ({ DOLLARS: "USD", EUROS: "EUR", POUNDS: "GBP" }[unit] || unit);
+    return { text: text.trim(), value, currency };
+  });
+}
+
+export function extractEntities(email: EmailPayload): EmailEntities {
+  const text = textOf(email);
+  const links = extractLinks(text);
+  const deadlines = extractDeadlines(text, email.receivedAt);
+  return {
+    links,
+    portalUrl:
+      links.find((link) => link.intent === "apply" || link.intent === "submit")
+        ?.url ?? null,
+    deadlines,
+    nextDeadline: upcomingDeadline(deadlines, email.receivedAt),
+    urgency: urgencyOf(text, deadlines, email.receivedAt),
+    requestedDocuments: detectRequirements(email),
+    contacts: extractContacts(email),
+    amounts: extractAmounts(text),
+  };
+}
+
+// Names usable as {{placeholders}} in action summaries and details.
+export const entityFields = [
+  "portalUrl",
+  "deadline",
+  "urgency",
+  "contact",
+  "amount",
+  "documents",
+] as const;
+
+export type EntityField = (typeof entityFields)[number];
+
+export function entityValues(
+  entities: EmailEntities,
+): Record<EntityField, string | null> {
+  const contact = entities.contacts[0];
+  const amount = entities.amounts[0];
+  return {
+    portalUrl: entities.portalUrl,
+    deadline: entities.nextDeadline?.dueAt ?? null,
+    urgency: entities.urgency,
+    contact: contact
+      ? [contact.name, contact.email && `<${contact.email}>`]
+          .filter(Boolean)
+          .join(" ")
+      : null,
+    amount: amount ? amount.text : null,
+    documents: entities.requestedDocuments.length
+      ? entities.requestedDocuments.map((item) => item.label).join(", ")
+      : null,
+  };
+}
+
+export const placeholderPattern = /\{\{\s*([a-zA-Z]+)\s*\}\}/g;
+
+export function fillPlaceholders(text: string, entities: EmailEntities) {
+  const values = entityValues(entities);
+  return text.replace(placeholderPattern, (placeholder, name: string) =>
+    Object.hasOwn(values, name)
+      ? (values[name as EntityField] ?? `(no ${name} found)`)
+      : placeholder,
+  );
+}
@@ -0,0 +1,42 @@
+import assert from "node:assert/strict";
+import { appendFileSync, mkdtempSync, readFileSync, rmSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { after, before, test } from "node:test";
+import type * as FileStore from "@/lib/file-store";
+
+// The file store reads AGENT_DATA_DIR when it is first imported.
+const dataDirectory = mkdtempSync(path.join(os.tmpdir(), "agent-files-"));
+process.env.AGENT_DATA_DIR = dataDirectory;
+
+let files: typeof FileStore;
+
+before(async () => {
+  files = await import("@/lib/file-store");
+});
+
+after(() => {
+  rmSync(dataDirectory, { recursive: true, force: true });
+});
+
+test("a half-written last line is cut off", () => {
+  files.appendJsonLines("log.jsonl", [{ n: 1 }, { n: 2 }]);
+  appendFileSync(path.join(dataDirectory, "log.jsonl"), '{"n": 3, "ti');
+  assert.deepEqual(files.readJsonLines("log.jsonl"), [{ n: 1 }, { n: 2 }]);
+
+  files.appendJsonLines("log.jsonl", [{ n: 4 }]);
+  assert.deepEqual(files.readJsonLines("log.jsonl"), [
+    { n: 1 },
+    { n: 2 },
+    { n: 4 },
+  ]);
+  assert.equal(
+    readFileSync(path.join(dataDirectory, "log.jsonl"), "utf8"),
+    '{"n":1}\n{"n":2}\n{"n":4}\n',
+  );
+});
+
+test("damage before the last line still throws", () => {
+  appendFileSync(path.join(dataDirectory, "broken.jsonl"), '{"n"\n{"n":2}\n');
+  assert.throws(() => files.readJsonLines("broken.jsonl"), SyntaxError);
+});
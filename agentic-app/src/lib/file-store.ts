@@ -0,0 +1,72 @@
+import fs from "node:fs";
+import path from "node:path";
+
+export const dataDirectory =
+  process.env.AGENT_DATA_DIR ?? path.join(process.cwd(), ".data");
+
+function resolve(name: string) {
+  fs.mkdirSync(dataDirectory, { recursive: true });
+  return path.join(dataDirectory, name);
+}
+
+export function readJsonFile<T>(name: string, fallback: T): T {
+  const file = resolve(name);
+  if (!fs.existsSync(file)) return fallback;
+  return JSON.parse(fs.readFileSync(file, "utf8")) as T;
+}
+
+// Write to a sibling temp file first so a crash never leaves half a document.
+export function writeJsonFile(name: string, value: unknown) {
+  const file = resolve(name);
+  const temp = `${file}.${process.pid}.tmp`;
+  fs.writeFileSync(temp, JSON.stringify(value, null, 2));
+  fs.renameSync(temp, file);
+}
+
+// A crash during an append can leave the last line half written. It is cut
+// off, so the next append starts on a fresh line; damage anywhere else still
+// throws.
+export function readJsonLines<T>(name: string): T[] {
+  const file = resolve(name);
+  if (!fs.existsSync(file)) return [];
+  const lines = fs.readFileSync(file, "utf8").split("\n");
+  while (lines.length && !lines[lines.length - 1].trim()) lines.pop();
+  const records: T[] = [];
+  for (const [index, line] of lines.entries()) {
+    if (!line.trim()) continue;
+    try {
+      records.push(JSON.parse(line) as T);
+    } catch (error) {
+      if (index !== lines.length - 1) throw error;
+      console.error(`[store] dropped a partly written line from ${name}`);
+      fs.truncateSync(
+        file,
+        Buffer.byteLength(lines.slice(0, index).join("\n")) + (index ? 1 : 0),
+      );
+    }
+  }
+  return records;
+}
+
+export function appendJsonLines(name: string, records: unknown[]) {
+  if (!records.length) return;
+  fs.appendFileSync(
+    resolve(name),
+    records.map((record) => `${JSON.stringify(record)}\n`).join(""),
+  );
+}
+
+export function writeBinaryFile(name: string, data: Buffer) {
+  const file = resolve(name);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, data);
+}
+
+export function readBinaryFile(name: string) {
+  const file = resolve(name);
+  return fs.existsSync(file) ? fs.readFileSync(file) : null;
+}
+
+export function removeFiles(name: string) {
+  fs.rmSync(resolve(name), { recursive: true, force: true });
+}
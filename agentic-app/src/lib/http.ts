@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+
+export class HttpError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string,
+    public readonly details?: unknown,
+  ) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+export async function readJson(request: Request): Promise<unknown> {
+  try {
+    return await request.json();
+  } catch {
+    throw new HttpError(400, "Request body must be valid JSON");
+  }
+}
+
+export function handleRouteError(error: unknown) {
+  if (error instanceof HttpError) {
+    return NextResponse.json(
+      { error: error.message, details: error.details },
+      { status: error.status },
+    );
+  }
+  console.error(error);
+  return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+}
@@ -0,0 +1,126 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { after, test } from "node:test";
+import { HttpError } from "@/lib/http";
+import {
+  normalizeInbound,
+  signPayload,
+  signatureHeader,
+  verifySignature,
+} from "@/lib/inbound";
+
+// The store reads AGENT_DATA_DIR when it is first imported.
+const dataDirectory = mkdtempSync(path.join(os.tmpdir(), "agent-inbound-"));
+process.env.AGENT_DATA_DIR = dataDirectory;
+process.env.INBOUND_WEBHOOK_SECRET = "test-secret";
+
+after(() => rmSync(dataDirectory, { recursive: true, force: true }));
+
+test("signatures must match the raw body", () => {
+  const body = Buffer.from('{"from":"a@example.com"}');
+  const signature = signPayload("test-secret", body);
+  assert.equal(verifySignature("test-secret", body, signature), true);
+  assert.equal(verifySignature("test-secret", body, ` ${signature}\n`), true);
+  assert.equal(
+    verifySignature(
+      "test-secret",
+      Buffer.from('{"from":"b@example.com"}'),
+      signature,
+    ),
+    false,
+  );
+  assert.equal(verifySignature("other-secret", body, signature), false);
+  assert.equal(verifySignature("test-secret", body, "sha256=abc"), false);
+  assert.equal(verifySignature("test-secret", body, null), false);
+});
+
+test("a plain EmailPayload keeps its id when there is no Message-ID", () => {
+  const payload = {
+    id: "email-offer-1",
+    from: "jane@example.com",
+    subject: "Offer",
+    body: "Attached.",
+  };
+  assert.equal(normalizeInbound(payload).id, "email-offer-1");
+  assert.equal(normalizeInbound(payload).messageId, null);
+  assert.equal(
+    normalizeInbound({ ...payload, messageId: "<abc@mail.example.com>" }).id,
+    "email-abc-mail-example-com",
+  );
+  assert.match(
+    normalizeInbound({ ...payload, id: undefined }).id,
+    /^email-[0-9a-f-]{36}$/,
+  );
+});
+
+function post(payload: unknown) {
+  const body = JSON.stringify(payload);
+  return new Request("http://localhost/api/webhooks/inbound", {
+    method: "POST",
+    headers: {
+      "content-type": "application/json",
+      [signatureHeader]: signPayload("test-secret", body),
+    },
+    body,
+  });
+}
+
+test("a message received twice is rejected with 409", async () => {
+  const { POST } = await import("@/app/api/webhooks/inbound/route");
+  for (const payload of [
+    {
+      messageId: "<offer-2@mail.example.com>",
+      from: "jane@example.com",
+      subject: "Offer",
+      body: "Attached.",
+    },
+    {
+      id: "email-offer-3",
+      from: "jane@example.com",
+      subject: "Offer",
+      body: "Attached.",
+    },
+  ]) {
+    assert.equal((await POST(post(payload))).status, 202);
+    const duplicate = await POST(post(payload));
+    assert.equal(duplicate.status, 409);
+    assert.match((await duplicate.json()).error, /was already received$/);
+  }
+  const unsigned = new Request("http://localhost/api/webhooks/inbound", {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: "{}",
+  });
+  assert.equal((await POST(unsigned)).status, 401);
+});
+
+test("unreadable inbound messages are the sender's error", () => {
+  const payloads = [
+    { email: "Subject: Offer\r\n\r\nNo sender here." },
+    { from: "a@example.com", Attachments: ["offer.pdf"] },
+    { from: "a@example.com", Attachments: [null] },
+  ];
+  for (const payload of payloads) {
+    assert.throws(
+      () => normalizeInbound(payload),
+      (error) => error instanceof HttpError && error.status === 400,
+    );
+  }
+});
+
+test("Postmark attachments are listed", () => {
+  const email = normalizeInbound({
+    From: "Jane <jane@example.com>",
+    Subject: "Offer",
+    TextBody: "Attached.",
+    Attachments: [
+      { Name: "offer.pdf", ContentType: "application/pdf", ContentLength: 42 },
+    ],
+  });
+  assert.equal(email.sender, "jane@example.com");
+  assert.deepEqual(email.attachments, [
+    { filename: "offer.pdf", contentType: "application/pdf", size: 42 },
+  ]);
+});
@@ -0,0 +1,146 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { HttpError } from "@/lib/http";
+import {
+  EmailAttachment,
+  ParsedEmail,
+  htmlToText,
+  parseAddress,
+  parseEml,
+  parseReferences,
+} from "@/lib/mime";
+
+export const signatureHeader = "x-agent-signature";
+
+type Fields = Record<string, unknown>;
+
+export function signPayload(secret: string, body: Buffer | string) {
+  return `sha256=${createHmac("sha256", secret).update(body).digest("hex")}`;
+}
+
+export function verifySignature(
+  secret: string,
+  body: Buffer,
+  signature: string | null,
+) {
+  if (!signature) return false;
+  const expected = Buffer.from(signPayload(secret, body));
+  const received = Buffer.from(signature.trim());
+  return (
+    expected.length === received.length && timingSafeEqual(expected, received)
+  );
+}
+
+function text(fields: Fields, ...keys: string[]) {
+  for (const key of keys) {
+    const value = fields[key];
+    if (typeof value === "string" && value.trim()) return value;
+  }
+  return undefined;
+}
+
+function rawHeader(rawHeaders: string | undefined, name: string) {
+  const match = rawHeaders?.match(
+    new RegExp(`^${name}:\\s*([^\\r\\n]+)`, "im"),
+  );
+  return match?.[1].trim();
+}
+
+function parseDate(value: string | undefined) {
+  if (!value) return new Date().toISOString();
+  const numeric = Number(value);
+  const date = Number.isFinite(numeric)
+    ? new Date(numeric * 1000)
+    : new Date(value);
+  return Number.isNaN(date.getTime())
+    ? new Date().toISOString()
+    : date.toISOString();
+}
+
+function postmarkAttachments(fields: Fields): EmailAttachment[] {
+  const attachments = fields.Attachments;
+  if (!Array.isArray(attachments)) return [];
+  return attachments.map((item: unknown) => {
+    if (!item || typeof item !== "object" || Array.isArray(item)) {
+      throw new HttpError(400, "Inbound attachments must be objects");
+    }
+    const fields = item as Fields;
+    return {
+      filename: text(fields, "Name") ?? "attachment",
+      contentType: text(fields, "ContentType") ?? "application/octet-stream",
+      size: Number(fields.ContentLength ?? 0),
+    };
+  });
+}
+
+// A message parseEml can't read, such as one without a From header, is the
+// sender's error rather than ours.
+function parseRawMime(raw: string) {
+  try {
+    // The field was decoded as UTF-8 text; parseEml wants one char per byte.
+    return parseEml(Buffer.from(raw, "utf8").toString("latin1"));
+  } catch (error) {
+    throw new HttpError(
+      400,
+      error instanceof Error ? error.message : "Unreadable message",
+    );
+  }
+}
+
+// Normalizes SendGrid/Mailgun form posts, Postmark-style JSON and plain
+// EmailPayload JSON. A raw MIME message (`email` field) wins when present.
+// Without a Message-ID, an EmailPayload's own `id` keeps re-posts recognizable.
+export function normalizeInbound(
+  payload: unknown,
+  files: EmailAttachment[] = [],
+): ParsedEmail {
+  if (!payload || typeof payload !== "object" || Array.isArray(payload)) {
+    throw new HttpError(400, "Inbound payload must be an object");
+  }
+  const fields = payload as Fields;
+  const rawMime = text(fields, "email", "body-mime", "RawEmail");
+  if (rawMime) {
+    return { ...parseRawMime(rawMime), tags: ["inbound"] };
+  }
+
+  const from = text(fields, "from", "From", "sender");
+  if (!from) {
+    throw new HttpError(400, "Inbound message has no sender");
+  }
+  const sender = parseAddress(from);
+  const html = text(fields, "html", "body-html", "HtmlBody");
+  const body = (
+    text(fields, "text", "body-plain", "TextBody", "body") ??
+    (html ? htmlToText(html) : "")
+  ).trim();
+  const rawHeaders = text(fields, "headers", "message-headers");
+  const messageId =
+    text(fields, "messageId", "Message-Id", "MessageID") ??
+    rawHeader(rawHeaders, "message-id") ??
+    null;
+  const to = text(fields, "to", "To", "recipient");
+
+  return {
+    id: messageId
+      ? `email-${messageId.replace(/^<|>$/g, "").replace(/[^a-zA-Z0-9]+/g, "-")}`
+      : (text(fields, "id")?.trim() ?? `email-${crypto.randomUUID()}`),
+    messageId: messageId?.replace(/^<|>$/g, "") ?? null,
+    references: parseReferences(
+      text(fields, "References", "references") ??
+        rawHeader(rawHeaders, "references"),
+    ),
+    subject: text(fields, "subject", "Subject") ?? "(no subject)",
+    sender: sender.address,
+    senderName: text(fields, "FromName", "senderName") ?? sender.name,
+    to: to ? parseAddress(to.split(",")[0]).address : "you@example.com",
+    preview: body.replace(/\s+/g, " ").slice(0, 140),
+    body,
+    receivedAt: parseDate(
+      text(fields, "Date", "date", "timestamp", "receivedAt") ??
+        rawHeader(rawHeaders, "date"),
+    ),
+    tags: Array.isArray(fields.tags)
+      ? fields.tags.filter((tag): tag is string => typeof tag === "string")
+      : ["inbound"],
+    attachments: [...postmarkAttachments(fields), ...files],
+  };
+}
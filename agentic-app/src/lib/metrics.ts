@@ -0,0 +1,163 @@
+import {
+  AnalyticsReport,
+  WorkflowAnalytics,
+  confidenceBuckets,
+} from "@/lib/analytics";
+
+export interface QueueGauges {
+  queued: number;
+  pendingApprovals: number;
+}
+
+type Labels = Record<string, string>;
+
+interface Sample {
+  labels?: Labels;
+  value: number | null;
+  suffix?: string;
+}
+
+function escapeLabel(value: string) {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/\n/g, "\\n")
+    .replace(/"/g, '\\"');
+}
+
+function formatLabels(labels: Labels = {}) {
+  const pairs = Object.entries(labels).map(
+    ([name, value]) => `${name}="${escapeLabel(value)}"`,
+  );
+  return pairs.length ? `{${pairs.join(",")}}` : "";
+}
+
+// Samples with a null value (a ratio with nothing to divide by) are left out.
+function family(
+  name: string,
+  type: "counter" | "gauge" | "histogram",
+  help: string,
+  samples: Sample[],
+) {
+  return [
+    `# HELP ${name} ${help}`,
+    `# TYPE ${name} ${type}`,
+    ...samples
+      .filter((sample) => sample.value !== null)
+      .map(
+        ({ labels, value, suffix = "" }) =>
+          `${name}${suffix}${formatLabels(labels)} ${value}`,
+      ),
+  ];
+}
+
+// Prometheus text exposition format, version 0.0.4. Run and action counts are
+// gauges: a retry replaces its run's outcomes, so they can go down.
+export function formatMetrics(report: AnalyticsReport, gauges: QueueGauges) {
+  const { workflows } = report;
+  const perWorkflow = (value: (row: WorkflowAnalytics) => number | null) =>
+    workflows.map((row) => ({
+      labels: { workflow: row.workflowId },
+      value: value(row),
+    }));
+
+  const lines = [
+    ...family("agent_runs", "gauge", "Automation runs recorded.", [
+      { value: report.runs },
+    ]),
+    ...family(
+      "agent_runs_matched",
+      "gauge",
+      "Runs that matched at least one workflow.",
+      [{ value: report.matched }],
+    ),
+    ...family("agent_queue_emails", "gauge", "Emails waiting to be run.", [
+      { value: gauges.queued },
+    ]),
+    ...family(
+      "agent_approvals_pending",
+      "gauge",
+      "Actions held for approval.",
+      [{ value: gauges.pendingApprovals }],
+    ),
+    ...family(
+      "agent_workflow_runs",
+      "gauge",
+      "Runs that matched the workflow.",
+      perWorkflow((row) => row.runs),
+    ),
+    ...family(
+      "agent_workflow_match_ratio",
+      "gauge",
+      "Share of all runs that matched the workflow.",
+      perWorkflow((row) => row.matchRate),
+    ),
+    ...family(
+      "agent_workflow_confidence",
+      "histogram",
+      "Agent confidence on runs that matched the workflow.",
+      workflows.flatMap((row) => {
+        let cumulative = 0;
+        return [
+          ...confidenceBuckets.map((bound, index) => {
+            cumulative += row.confidence[index];
+            return {
+              suffix: "_bucket",
+              labels: { workflow: row.workflowId, le: String(bound) },
+              value: cumulative,
+            };
+          }),
+          {
+            suffix: "_bucket",
+            labels: { workflow: row.workflowId, le: "+Inf" },
+            value: row.runs,
+          },
+          {
+            suffix: "_sum",
+            labels: { workflow: row.workflowId },
+            value: row.confidenceSum,
+          },
+          {
+            suffix: "_count",
+            labels: { workflow: row.workflowId },
+            value: row.runs,
+          },
+        ];
+      }),
+    ),
+    ...family(
+      "agent_workflow_actions",
+      "gauge",
+      "Action outcomes of each run's latest attempt, by status.",
+      workflows.flatMap((row) =>
+        Object.entries(row.actions).map(([status, value]) => ({
+          labels: { workflow: row.workflowId, status },
+          value,
+        })),
+      ),
+    ),
+    ...family(
+      "agent_workflow_action_failure_ratio",
+      "gauge",
+      "Failed actions over failed and succeeded ones.",
+      perWorkflow((row) => row.failureRate),
+    ),
+    ...family(
+      "agent_workflow_sla_clocks",
+      "gauge",
+      "SLA clocks by status.",
+      workflows.flatMap((row) =>
+        Object.entries(row.sla).map(([status, value]) => ({
+          labels: { workflow: row.workflowId, status },
+          value,
+        })),
+      ),
+    ),
+    ...family(
+      "agent_workflow_sla_compliance_ratio",
+      "gauge",
+      "SLA clocks met over met and breached.",
+      perWorkflow((row) => row.slaCompliance),
+    ),
+  ];
+  return `${lines.join("\n")}\n`;
+}
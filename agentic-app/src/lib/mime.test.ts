@@ -0,0 +1,168 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import {
+  htmlToText,
+  isMbox,
+  parseAddress,
+  parseEml,
+  splitMbox,
+} from "@/lib/mime";
+
+// Raw messages arrive as binary strings, one char per byte.
+function raw(lines: string[]) {
+  return Buffer.from(lines.join("\r\n"), "utf8").toString("latin1");
+}
+
+test("multipart/alternative prefers the plain text part", () => {
+  const email = parseEml(
+    raw([
+      "From: TechHire Recruiting <Recruiter@TechHire.io>",
+      "To: You <you@example.com>, cc@example.com",
+      "Subject: Offer letter",
+      "Date: Wed, 08 May 2024 10:05:00 +0000",
+      "Message-ID: <offer.42@techhire.io>",
+      "References: <intro.1@techhire.io> <intro.2@techhire.io>",
+      'Content-Type: multipart/alternative; boundary="alt"',
+      "",
+      "--alt",
+      "Content-Type: text/plain; charset=utf-8",
+      "Content-Transfer-Encoding: quoted-printable",
+      "",
+      "Caf=C3=A9 chat on Friday? The salary is =E2=82=AC60,000 per =",
+      "year.",
+      "--alt",
+      "Content-Type: text/html; charset=utf-8",
+      "",
+      "<p>HTML version</p>",
+      "--alt--",
+    ]),
+  );
+  assert.equal(email.sender, "recruiter@techhire.io");
+  assert.equal(email.senderName, "TechHire Recruiting");
+  assert.equal(email.to, "you@example.com");
+  assert.equal(email.subject, "Offer letter");
+  assert.equal(email.receivedAt, "2024-05-08T10:05:00.000Z");
+  assert.equal(email.messageId, "offer.42@techhire.io");
+  assert.equal(email.id, "email-offer-42-techhire-io");
+  assert.deepEqual(email.references, [
+    "intro.1@techhire.io",
+    "intro.2@techhire.io",
+  ]);
+  assert.equal(
+    email.body,
+    "Café chat on Friday? The salary is €60,000 per year.",
+  );
+  assert.deepEqual(email.attachments, []);
+});
+
+test("an HTML-only message is turned into text", () => {
+  const email = parseEml(
+    raw([
+      "From: awards@brightfuture.edu",
+      'Content-Type: multipart/alternative; boundary="b1"',
+      "",
+      "--b1",
+      "Content-Type: text/html; charset=utf-8",
+      "Content-Transfer-Encoding: base64",
+      "",
+      Buffer.from(
+        "<style>p{}</style><p>Finalist &amp; winner</p><p>Next&nbsp;steps</p>",
+      ).toString("base64"),
+      "--b1--",
+    ]),
+  );
+  assert.equal(email.body, "Finalist & winner\nNext steps");
+  assert.equal(email.subject, "(no subject)");
+  assert.equal(email.senderName, "awards");
+});
+
+test("encoded-word headers decode in their charset", () => {
+  const email = parseEml(
+    raw([
+      "From: =?UTF-8?Q?Jos=C3=A9_Mu=C3=B1oz?= <jose@example.com>",
+      "Subject: =?UTF-8?B?QmV3ZXJidW5n?= =?ISO-8859-1?Q?_f=FCr_das_Stipendium?=",
+      "",
+      "Hallo",
+    ]),
+  );
+  assert.equal(email.senderName, "José Muñoz");
+  assert.equal(email.subject, "Bewerbung für das Stipendium");
+  assert.equal(email.body, "Hallo");
+});
+
+test("raw UTF-8 header values are kept", () => {
+  const email = parseEml(
+    raw(["From: Zoë <zoe@example.com>", "Subject: Résumé review", "", "Hi"]),
+  );
+  assert.equal(email.senderName, "Zoë");
+  assert.equal(email.subject, "Résumé review");
+});
+
+test("attachments are listed with their decoded size", () => {
+  const email = parseEml(
+    raw([
+      "From: hr@example.com",
+      'Content-Type: multipart/mixed; boundary="mixed"',
+      "",
+      "--mixed",
+      "Content-Type: text/plain",
+      "",
+      "Please sign the attached letter.",
+      "--mixed",
+      "Content-Type: application/pdf",
+      "Content-Disposition: attachment; filename*=UTF-8''offre%20sign%C3%A9e.pdf",
+      "Content-Transfer-Encoding: base64",
+      "",
+      Buffer.from("%PDF-1.4 fake").toString("base64"),
+      "--mixed--",
+    ]),
+  );
+  assert.equal(email.body, "Please sign the attached letter.");
+  assert.deepEqual(email.attachments, [
+    {
+      filename: "offre signée.pdf",
+      contentType: "application/pdf",
+      size: 13,
+    },
+  ]);
+});
+
+test("a message without From is rejected", () => {
+  assert.throws(() => parseEml("Subject: hi\r\n\r\nbody"), /no From header/);
+});
+
+test("addresses with comments or no display name", () => {
+  assert.deepEqual(parseAddress("jane@example.com (Jane Doe)"), {
+    name: "Jane Doe",
+    address: "jane@example.com",
+  });
+  assert.deepEqual(parseAddress("JANE@example.com"), {
+    name: "jane",
+    address: "jane@example.com",
+  });
+});
+
+test("mbox files split on From lines and restore quoted ones", () => {
+  const mbox = [
+    "From a@example.com Wed May  8 10:05:00 2024",
+    "From: a@example.com",
+    "",
+    ">From the desk of A",
+    "From b@example.com Wed May  8 11:00:00 2024",
+    "From: b@example.com",
+    "",
+    "Second",
+  ].join("\n");
+  assert.equal(isMbox(mbox), true);
+  const messages = splitMbox(mbox);
+  assert.equal(messages.length, 2);
+  assert.equal(parseEml(messages[0]).body, "From the desk of A");
+  assert.equal(parseEml(messages[1]).sender, "b@example.com");
+});
+
+test("htmlToText keeps line breaks from block elements", () => {
+  assert.equal(
+    htmlToText("<div>One<br>Two</div><script>x()</script><li>Three</li>"),
+    "One\nTwo\nThree",
+  );
+});
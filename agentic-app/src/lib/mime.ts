@@ -0,0 +1,301 @@
+import { EmailPayload } from "@/lib/types";
+
+export interface EmailAttachment {
+  filename: string;
+  contentType: string;
+  size: number;
+}
+
+export interface ParsedEmail extends EmailPayload {
+  messageId: string | null;
+  // Message-IDs of earlier messages in the thread, oldest first.
+  references: string[];
+  attachments: EmailAttachment[];
+}
+
+export function attachmentsOf(email: EmailPayload) {
+  return (email as Partial<ParsedEmail>).attachments ?? [];
+}
+
+export function threadOf(email: EmailPayload) {
+  const parsed = email as Partial<ParsedEmail>;
+  return {
+    messageId: parsed.messageId ?? null,
+    references: parsed.references ?? [],
+  };
+}
+
+export function parseReferences(value: string | null | undefined) {
+  return (value?.match(/<[^<>\s]+>/g) ?? []).map((id) => id.slice(1, -1));
+}
+
+interface HeaderValue {
+  value: string;
+  params: Record<string, string>;
+}
+
+interface CollectedParts {
+  text: string | null;
+  html: string | null;
+  attachments: EmailAttachment[];
+}
+
+// Raw messages are handled as binary strings (one char per byte) until the
+// charset of each part is known, so 8bit and encoded bodies decode correctly.
+function splitHeaderBlock(raw: string) {
+  const separator = /\r?\n\r?\n/.exec(raw);
+  if (!separator) return { headerText: raw, body: "" };
+  return {
+    headerText: raw.slice(0, separator.index),
+    body: raw.slice(separator.index + separator[0].length),
+  };
+}
+
+// RFC 6532 allows raw UTF-8 in header values. Bytes that aren't valid UTF-8
+// are left alone, as are strings that were never binary.
+function decodeRawHeader(value: string) {
+  if (!/[\x80-\xff]/.test(value) || /[^\x00-\xff]/.test(value)) return value;
+  try {
+    return new TextDecoder("utf-8", { fatal: true }).decode(
+      Uint8Array.from(value, (char) => char.charCodeAt(0)),
+    );
+  } catch {
+    return value;
+  }
+}
+
+function parseHeaders(headerText: string) {
+  const headers = new Map<string, string>();
+  for (const line of headerText.replace(/\r?\n[ \t]+/g, " ").split(/\r?\n/)) {
+    const colon = line.indexOf(":");
+    if (colon <= 0) continue;
+    const key = line.slice(0, colon).trim().toLowerCase();
+    if (!headers.has(key)) {
+      headers.set(key, decodeRawHeader(line.slice(colon + 1).trim()));
+    }
+  }
+  return headers;
+}
+
+function parseHeaderValue(raw: string | undefined): HeaderValue {
+  if (!raw) return { value: "", params: {} };
+  const [value, ...rest] = raw.split(";");
+  const params: Record<string, string> = {};
+  const pattern = /([^=;\s]+)\s*=\s*("(?:[^"\\]|\\.)*"|[^;]*)/g;
+  for (const match of rest.join(";").matchAll(pattern)) {
+    const key = match[1].toLowerCase();
+    let paramValue = match[2].trim().replace(/^"|"$/g, "");
+    if (key.endsWith("*")) {
+      const [charset, , encoded = paramValue] = paramValue.split("'");
+      paramValue = decodeCharset(
+        encoded.replace(/%([0-9A-Fa-f]{2})/g, (_, hex: string) =>
+          String.fromCharCode(parseInt(hex, 16)),
+        ),
+        charset || "utf-8",
+      );
+      params[key.slice(0, -1)] = paramValue;
+    } else {
+      params[key] = decodeEncodedWords(paramValue);
+    }
+  }
+  return { value: value.trim().toLowerCase(), params };
+}
+
+function decodeCharset(binary: string, charset: string) {
+  const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0) & 0xff);
+  try {
+    return new TextDecoder(charset).decode(bytes);
+  } catch {
+    return new TextDecoder("utf-8").decode(bytes);
+  }
+}
+
+function decodeQuotedPrintable(input: string) {
+  return input
+    .replace(/=\r?\n/g, "")
+    .replace(/=([0-9A-Fa-f]{2})/g, (_, hex: string) =>
+      String.fromCharCode(parseInt(hex, 16)),
+    );
+}
+
+function decodeBase64(input: string) {
+  try {
+    return atob(input.replace(/[^A-Za-z0-9+/=]/g, ""));
+  } catch {
+    return "";
+  }
+}
+
+function decodeTransferEncoding(body: string, encoding: string) {
+  switch (encoding.toLowerCase()) {
+    case "base64":
+      return decodeBase64(body);
+    case "quoted-printable":
+      return decodeQuotedPrintable(body);
+    default:
+      return body;
+  }
+}
+
+function decodeEncodedWords(value: string) {
+  return value
+    .replace(/(=\?[^?]+\?[BbQq]\?[^?]*\?=)\s+(?==\?)/g, "$1")
+    .replace(
+      /=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g,
+      (_, charset: string, encoding: string, text: string) => {
+        const binary =
+          encoding.toUpperCase() === "B"
+            ? decodeBase64(text)
+            : decodeQuotedPrintable(text.replace(/_/g, " "));
+        return decodeCharset(binary, charset);
+      },
+    );
+}
+
+export function parseAddress(raw: string) {
+  const value = decodeEncodedWords(raw).trim();
+  const angle = /^(.*?)<([^>]+)>/.exec(value);
+  if (angle) {
+    const name = angle[1].trim().replace(/^"|"$/g, "").trim();
+    const address = angle[2].trim().toLowerCase();
+    return { name: name || address.split("@")[0], address };
+  }
+  const comment = /^([^\s(]+)\s*\(([^)]*)\)/.exec(value);
+  if (comment) {
+    const address = comment[1].toLowerCase();
+    return { name: comment[2].trim() || address.split("@")[0], address };
+  }
+  const address = value.toLowerCase();
+  return { name: address.split("@")[0], address };
+}
+
+export function htmlToText(html: string) {
+  return html
+    .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, "")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(p|div|li|tr|h[1-6])>/gi, "\n")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, "&")
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+function collectParts(
+  headers: Map<string, string>,
+  body: string,
+  collected: CollectedParts,
+) {
+  const contentType = parseHeaderValue(
+    headers.get("content-type") ?? "text/plain",
+  );
+  const disposition = parseHeaderValue(headers.get("content-disposition"));
+
+  if (
+    contentType.value.startsWith("multipart/") &&
+    contentType.params.boundary
+  ) {
+    const delimiter = `--${contentType.params.boundary}`;
+    const sections = body.split(delimiter).slice(1);
+    for (const section of sections) {
+      if (section.startsWith("--")) break;
+      const part = splitHeaderBlock(section.replace(/^\r?\n/, ""));
+      collectParts(
+        parseHeaders(part.headerText),
+        part.body.replace(/\r?\n$/, ""),
+        collected,
+      );
+    }
+    return;
+  }
+
+  const decoded = decodeTransferEncoding(
+    body,
+    headers.get("content-transfer-encoding") ?? "7bit",
+  );
+  const filename = disposition.params.filename ?? contentType.params.name;
+
+  if (
+    disposition.value === "attachment" ||
+    filename ||
+    contentType.value === "message/rfc822"
+  ) {
+    collected.attachments.push({
+      filename: filename ?? "attachment",
+      contentType: contentType.value || "application/octet-stream",
+      size: decoded.length,
+    });
+    return;
+  }
+
+  const text = decodeCharset(decoded, contentType.params.charset ?? "utf-8");
+  if (contentType.value === "text/html") {
+    collected.html ??= text;
+  } else if (!contentType.value || contentType.value === "text/plain") {
+    collected.text ??= text;
+  }
+}
+
+export function parseEml(raw: string): ParsedEmail {
+  const { headerText, body } = splitHeaderBlock(
+    raw.replace(/^\xEF\xBB\xBF/, ""),
+  );
+  const headers = parseHeaders(headerText);
+  const from = headers.get("from");
+  if (!from) {
+    throw new Error("Message has no From header");
+  }
+
+  const collected: CollectedParts = { text: null, html: null, attachments: [] };
+  collectParts(headers, body, collected);
+
+  const sender = parseAddress(from);
+  const to = headers.get("to");
+  const date = headers.get("date");
+  const receivedAt =
+    date && !Number.isNaN(new Date(date).getTime())
+      ? new Date(date).toISOString()
+      : new Date().toISOString();
+  const messageId =
+    headers.get("message-id")?.replace(/^<|>$/g, "").trim() || null;
+  const text = (
+    collected.text ?? (collected.html ? htmlToText(collected.html) : "")
+  )
+    .replace(/\r\n/g, "\n")
+    .trim();
+
+  return {
+    id: messageId
+      ? `email-${messageId.replace(/[^a-zA-Z0-9]+/g, "-")}`
+      : `email-${crypto.randomUUID()}`,
+    messageId,
+    references: parseReferences(headers.get("references")),
+    subject:
+      decodeEncodedWords(headers.get("subject") ?? "").trim() || "(no subject)",
+    sender: sender.address,
+    senderName: sender.name,
+    to: to ? parseAddress(to.split(",")[0]).address : "you@example.com",
+    preview: text.replace(/\s+/g, " ").slice(0, 140),
+    body: text,
+    receivedAt,
+    tags: ["imported"],
+    attachments: collected.attachments,
+  };
+}
+
+export function isMbox(raw: string) {
+  return /^From \S+/.test(raw);
+}
+
+// mboxrd: messages start at a "From " line; quoted ">From " lines are restored.
+export function splitMbox(raw: string) {
+  return raw
+    .split(/^From [^\n]*\n/m)
+    .map((message) => message.replace(/^>(>*From )/gm, "$1").trim())
+    .filter(Boolean);
+}
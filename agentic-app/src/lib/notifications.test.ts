@@ -0,0 +1,179 @@
+import assert from "node:assert/strict";
+import { ChildProcess, spawn } from "node:child_process";
+import { mkdtempSync, rmSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { after, before, test } from "node:test";
+import type * as Notifications from "@/lib/notifications";
+import type * as Store from "@/lib/store";
+
+// The store reads AGENT_DATA_DIR when it is first imported.
+const dataDirectory = mkdtempSync(path.join(os.tmpdir(), "agent-notify-"));
+process.env.AGENT_DATA_DIR = dataDirectory;
+
+let notifications: typeof Notifications;
+let store: typeof Store;
+const servers: ChildProcess[] = [];
+let sequence = 0;
+
+before(async () => {
+  notifications = await import("@/lib/notifications");
+  store = await import("@/lib/store");
+});
+
+after(() => {
+  servers.forEach((server) => server.kill());
+  rmSync(dataDirectory, { recursive: true, force: true });
+});
+
+// Starts scripts/mock-notify-server.mjs on a free port and points the
+// WhatsApp and Slack channels at it. It answers the first `fail` requests
+// with 503.
+async function startMockServer({ fail = 0, channels = "whatsapp,slack" }) {
+  const server = spawn(
+    process.execPath,
+    [
+      path.join(process.cwd(), "scripts", "mock-notify-server.mjs"),
+      "0",
+      `--fail=${fail}`,
+    ],
+    { stdio: ["ignore", "pipe", "inherit"] },
+  );
+  servers.push(server);
+  const url = await new Promise<string>((resolve, reject) => {
+    server.once("exit", () => reject(new Error("Mock server exited")));
+    server.stdout!.setEncoding("utf8").on("data", (chunk: string) => {
+      const match = /on (http:\/\/\S+)/.exec(chunk);
+      if (match) resolve(match[1]);
+    });
+  });
+  Object.assign(process.env, {
+    NOTIFY_CHANNELS: channels,
+    WHATSAPP_API_URL: url,
+    WHATSAPP_PHONE_NUMBER_ID: "123",
+    WHATSAPP_TOKEN: "test",
+    SLACK_WEBHOOK_URL: `${url}/slack`,
+  });
+  return url;
+}
+
+function notify() {
+  sequence += 1;
+  const message = {
+    id: `notify-test-${sequence}`,
+    to: "+1 555 0100",
+    message: "Offer received from TechHire",
+    timestamp: new Date().toISOString(),
+  };
+  store.recordActivity([], [message]);
+  notifications.queueNotifications([message]);
+  return message.id;
+}
+
+function deliveriesOf(notificationId: string) {
+  return new Map(
+    store
+      .listDeliveries()
+      .filter((delivery) => delivery.notificationId === notificationId)
+      .map((delivery) => [delivery.channel, delivery]),
+  );
+}
+
+// Makes pending retries due now instead of after their backoff.
+async function retryNow() {
+  store.saveDeliveries(
+    store
+      .listDeliveries()
+      .filter((delivery) => delivery.status === "queued")
+      .map((delivery) => ({
+        ...delivery,
+        nextAttemptAt: new Date().toISOString(),
+      })),
+  );
+  await notifications.deliverDue();
+}
+
+test("delivers to every configured channel", async () => {
+  await startMockServer({});
+  const id = notify();
+  await notifications.deliverDue();
+
+  const deliveries = deliveriesOf(id);
+  assert.equal(deliveries.get("whatsapp")?.status, "sent");
+  assert.match(deliveries.get("whatsapp")?.providerMessageId ?? "", /^wamid\./);
+  assert.equal(deliveries.get("slack")?.status, "delivered");
+  assert.equal(deliveries.get("slack")?.attempts, 1);
+});
+
+test("retries a provider outage with backoff", async () => {
+  await startMockServer({ fail: 2, channels: "whatsapp" });
+  const id = notify();
+  await notifications.deliverDue();
+
+  let delivery = deliveriesOf(id).get("whatsapp")!;
+  assert.equal(delivery.status, "queued");
+  assert.equal(delivery.attempts, 1);
+  assert.match(delivery.lastError ?? "", /^HTTP 503/);
+  const wait = Date.parse(delivery.nextAttemptAt!) - Date.now();
+  assert.ok(wait > 0 && wait <= notifications.backoffDelay(1));
+
+  await retryNow();
+  delivery = deliveriesOf(id).get("whatsapp")!;
+  assert.equal(delivery.status, "queued");
+  assert.equal(delivery.attempts, 2);
+
+  await retryNow();
+  delivery = deliveriesOf(id).get("whatsapp")!;
+  assert.equal(delivery.status, "sent");
+  assert.equal(delivery.attempts, 3);
+  assert.equal(delivery.lastError, undefined);
+  assert.equal(delivery.nextAttemptAt, null);
+});
+
+test("gives up after the last attempt", async () => {
+  await startMockServer({ fail: 100, channels: "whatsapp" });
+  const id = notify();
+  await notifications.deliverDue();
+  for (let round = 1; round < notifications.maxDeliveryAttempts; round += 1) {
+    await retryNow();
+  }
+
+  const delivery = deliveriesOf(id).get("whatsapp")!;
+  assert.equal(delivery.status, "failed");
+  assert.equal(delivery.attempts, notifications.maxDeliveryAttempts);
+  assert.equal(delivery.nextAttemptAt, null);
+});
+
+test("does not retry client errors", async () => {
+  const url = await startMockServer({ channels: "whatsapp" });
+  process.env.WHATSAPP_API_URL = `${url}/unknown`;
+  const id = notify();
+  await notifications.deliverDue();
+
+  const delivery = deliveriesOf(id).get("whatsapp")!;
+  assert.equal(delivery.status, "failed");
+  assert.equal(delivery.attempts, 1);
+  assert.match(delivery.lastError ?? "", /^HTTP 404/);
+});
+
+test("a late failure does not undo a delivery", async () => {
+  await startMockServer({ channels: "whatsapp" });
+  const id = notify();
+  await notifications.deliverDue();
+  const providerMessageId =
+    deliveriesOf(id).get("whatsapp")!.providerMessageId!;
+
+  assert.equal(
+    notifications.applyProviderStatus(providerMessageId, "delivered")?.status,
+    "delivered",
+  );
+  assert.equal(
+    notifications.applyProviderStatus(providerMessageId, "failed", "Expired"),
+    null,
+  );
+  assert.equal(
+    notifications.applyProviderStatus(providerMessageId, "sent"),
+    null,
+  );
+  assert.equal(deliveriesOf(id).get("whatsapp")?.status, "delivered");
+});
@@ -0,0 +1,179 @@
+import {
+  ChannelError,
+  DeliveryStatus,
+  NotificationChannel,
+  NotificationDelivery,
+  configuredChannels,
+} from "@/lib/channels";
+import {
+  findDeliveryByProviderId,
+  getWhatsAppMessage,
+  listDeliveries,
+  saveDeliveries,
+} from "@/lib/store";
+import { WhatsAppNotification } from "@/lib/types";
+
+export const maxDeliveryAttempts = 5;
+const baseBackoffMs = 30_000;
+
+// 30s, 1m, 2m, 4m between the five attempts.
+export function backoffDelay(attempts: number) {
+  return baseBackoffMs * 2 ** Math.max(attempts - 1, 0);
+}
+
+const globalForDelivery = globalThis as typeof globalThis & {
+  deliveryTimer?: ReturnType<typeof setTimeout>;
+  deliveryRunning?: boolean;
+};
+
+function channelsOrNone(): NotificationChannel[] {
+  try {
+    return configuredChannels();
+  } catch (error) {
+    console.error("[notify] channel configuration is invalid", error);
+    return [];
+  }
+}
+
+export function queueNotifications(messages: WhatsAppNotification[]) {
+  const now = new Date().toISOString();
+  const deliveries = messages.flatMap((message) =>
+    channelsOrNone().map((channel): NotificationDelivery => ({
+      id: `${message.id}:${channel.name}`,
+      notificationId: message.id,
+      channel: channel.name,
+      status: "queued",
+      attempts: 0,
+      nextAttemptAt: now,
+      updatedAt: now,
+    })),
+  );
+  saveDeliveries(deliveries);
+  scheduleDeliveries();
+  return messages.map((message) => ({
+    ...message,
+    deliveries: deliveries.filter(
+      (delivery) => delivery.notificationId === message.id,
+    ),
+  }));
+}
+
+async function attempt(
+  delivery: NotificationDelivery,
+  channel: NotificationChannel | undefined,
+): Promise<NotificationDelivery> {
+  const attempts = delivery.attempts + 1;
+  const updatedAt = new Date().toISOString();
+  const message = getWhatsAppMessage(delivery.notificationId);
+  const failed = (lastError: string, retryable: boolean) =>
+    retryable && attempts < maxDeliveryAttempts
+      ? {
+          ...delivery,
+          attempts,
+          lastError,
+          updatedAt,
+          nextAttemptAt: new Date(
+            Date.now() + backoffDelay(attempts),
+          ).toISOString(),
+        }
+      : {
+          ...delivery,
+          attempts,
+          lastError,
+          updatedAt,
+          status: "failed" as const,
+          nextAttemptAt: null,
+        };
+
+  if (!channel) {
+    return failed(`Channel ${delivery.channel} is not configured`, false);
+  }
+  if (!message) return failed("Notification no longer exists", false);
+  try {
+    const receipt = await channel.send(message);
+    return {
+      ...delivery,
+      attempts,
+      updatedAt,
+      status: receipt.status,
+      providerMessageId: receipt.providerMessageId,
+      lastError: undefined,
+      nextAttemptAt: null,
+    };
+  } catch (error) {
+    return failed(
+      error instanceof Error ? error.message : "Delivery failed",
+      error instanceof ChannelError ? error.retryable : true,
+    );
+  }
+}
+
+// Sends every queued delivery that is due, one at a time, then re-arms the
+// timer for the earliest pending retry.
+export async function deliverDue() {
+  if (globalForDelivery.deliveryRunning) return;
+  globalForDelivery.deliveryRunning = true;
+  try {
+    const channels = new Map(
+      channelsOrNone().map((channel) => [channel.name, channel]),
+    );
+    const due = listDeliveries().filter(
+      (delivery) =>
+        delivery.status === "queued" &&
+        delivery.nextAttemptAt !== null &&
+        new Date(delivery.nextAttemptAt).getTime() <= Date.now(),
+    );
+    for (const delivery of due) {
+      saveDeliveries([await attempt(delivery, channels.get(delivery.channel))]);
+    }
+  } finally {
+    globalForDelivery.deliveryRunning = false;
+  }
+  scheduleDeliveries();
+}
+
+export function scheduleDeliveries() {
+  const pending = listDeliveries()
+    .filter(
+      (delivery) => delivery.status === "queued" && delivery.nextAttemptAt,
+    )
+    .map((delivery) => new Date(delivery.nextAttemptAt as string).getTime());
+  clearTimeout(globalForDelivery.deliveryTimer);
+  if (!pending.length) return;
+  const delay = Math.max(Math.min(...pending) - Date.now(), 0);
+  globalForDelivery.deliveryTimer = setTimeout(() => {
+    deliverDue().catch((error) =>
+      console.error("[notify] delivery run failed", error),
+    );
+  }, delay);
+}
+
+// Delivered and failed are both final, so a late "failed" can't undo a
+// delivery.
+const statusRank: Record<DeliveryStatus, number> = {
+  queued: 0,
+  sent: 1,
+  delivered: 2,
+  failed: 2,
+};
+
+// Provider callbacks can arrive out of order; never move a delivery backwards.
+// Returns null when nothing changed.
+export function applyProviderStatus(
+  providerMessageId: string,
+  status: Exclude<DeliveryStatus, "queued">,
+  error?: string,
+) {
+  const delivery = findDeliveryByProviderId(providerMessageId);
+  if (!delivery || statusRank[status] <= statusRank[delivery.status]) {
+    return null;
+  }
+  const updated: NotificationDelivery = {
+    ...delivery,
+    status,
+    lastError: error ?? delivery.lastError,
+    updatedAt: new Date().toISOString(),
+  };
+  saveDeliveries([updated]);
+  return updated;
+}
@@ -0,0 +1,41 @@
+export interface PageRequest {
+  offset: number;
+  limit: number;
+}
+
+export interface Page<T> {
+  items: T[];
+  total: number;
+  offset: number;
+  limit: number;
+  nextOffset: number | null;
+}
+
+const defaultLimit = 20;
+const maxLimit = 100;
+
+export function parsePageRequest(searchParams: URLSearchParams): PageRequest {
+  const offset = Number(searchParams.get("offset") ?? 0);
+  const limit = Number(searchParams.get("limit") ?? defaultLimit);
+  return {
+    offset: Number.isInteger(offset) && offset > 0 ? offset : 0,
+    limit:
+      Number.isInteger(limit) && limit > 0
+        ? Math.min(limit, maxLimit)
+        : defaultLimit,
+  };
+}
+
+export function paginate<T>(
+  items: T[],
+  { offset, limit }: PageRequest = { offset: 0, limit: defaultLimit },
+): Page<T> {
+  const nextOffset = offset + limit;
+  return {
+    items: items.slice(offset, nextOffset),
+    total: items.length,
+    offset,
+    limit,
+    nextOffset: nextOffset < items.length ? nextOffset : null,
+  };
+}
@@ -0,0 +1,144 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import {
+  PriorityContext,
+  orderByPriority,
+  prioritize,
+  scoreEmail,
+} from "@/lib/priority";
+import { SlaClock } from "@/lib/sla";
+import { EmailPayload, ProcessedEmail } from "@/lib/types";
+
+const now = Date.parse("2024-05-08T12:00:00.000Z");
+
+function email(id: string, overrides: Partial<EmailPayload> = {}) {
+  return {
+    id,
+    subject: "Checking in",
+    sender: `${id}@example.com`,
+    senderName: id,
+    to: "you@example.com",
+    preview: "",
+    body: "Just checking in.",
+    receivedAt: "2024-05-08T09:00:00.000Z",
+    tags: [],
+    ...overrides,
+  } as EmailPayload;
+}
+
+const context: PriorityContext = {
+  clocks: [],
+  processed: [],
+  overrides: [],
+  now,
+};
+
+function clock(emailId: string, dueAt: string): SlaClock {
+  return {
+    id: `sla-${emailId}`,
+    emailId,
+    subject: "Checking in",
+    workflowId: "offer-desk",
+    startedAt: "2024-05-08T09:00:00.000Z",
+    dueAt,
+    status: "running",
+    breachedAt: null,
+    completedAt: null,
+    escalatedWith: null,
+  };
+}
+
+test("each factor explains the points it adds", () => {
+  const scored = scoreEmail(
+    email("recruiter", {
+      body: "Please reply ASAP. The form closes by 2024-05-08.",
+      tags: ["VIP"],
+    }),
+    {
+      ...context,
+      clocks: [clock("recruiter", "2024-05-08T12:20:00.000Z")],
+      processed: [
+        { email: email("recruiter") },
+        { email: email("recruiter") },
+      ] as ProcessedEmail[],
+    },
+  );
+  assert.deepEqual(scored.factors, [
+    { label: "Urgent wording", points: 30 },
+    { label: "Deadline in 12h (2024-05-08)", points: 30 },
+    { label: "SLA due in 20m of 3h", points: 25 },
+    { label: "2 earlier emails from this sender", points: 10 },
+    { label: "Tagged VIP", points: 20 },
+  ]);
+  assert.equal(scored.computedScore, 100, "capped at the maximum");
+});
+
+test("past deadlines add nothing and newsletters sink", () => {
+  const scored = scoreEmail(
+    email("digest", {
+      body: "Registration closed by 2024-05-01.",
+      tags: ["newsletter"],
+    }),
+    context,
+  );
+  assert.deepEqual(scored.factors, [
+    { label: "Tagged newsletter", points: -20 },
+  ]);
+  assert.equal(scored.score, 0, "never below zero");
+});
+
+test("a breached SLA clock counts as breached", () => {
+  const scored = scoreEmail(email("late"), {
+    ...context,
+    clocks: [clock("late", "2024-05-08T11:00:00.000Z")],
+  });
+  assert.deepEqual(scored.factors, [
+    { label: "SLA of 2h breached", points: 35 },
+  ]);
+});
+
+test("pins and overrides beat the computed score", () => {
+  const emails = [
+    email("oldest", { receivedAt: "2024-05-08T08:00:00.000Z" }),
+    email("urgent", { body: "Need this today." }),
+    email("pinned"),
+    email("overridden", { receivedAt: "2024-05-08T07:00:00.000Z" }),
+    email("newest", { receivedAt: "2024-05-08T10:00:00.000Z" }),
+  ];
+  const priorities = prioritize(emails, {
+    ...context,
+    overrides: [
+      {
+        emailId: "pinned",
+        pinned: true,
+        priority: null,
+        updatedAt: "2024-05-08T11:00:00.000Z",
+      },
+      {
+        emailId: "overridden",
+        pinned: false,
+        priority: 80,
+        updatedAt: "2024-05-08T11:00:00.000Z",
+      },
+    ],
+  });
+  assert.deepEqual(
+    priorities.map((priority) => [priority.emailId, priority.rank]),
+    [
+      ["pinned", 1],
+      ["overridden", 2],
+      ["urgent", 3],
+      ["oldest", 4],
+      ["newest", 5],
+    ],
+  );
+  const overridden = priorities.find(({ emailId }) => emailId === "overridden");
+  assert.equal(overridden?.overridden, true);
+  assert.equal(overridden?.computedScore, 0);
+
+  const arrived = email("just-arrived");
+  assert.deepEqual(
+    orderByPriority([...emails, arrived], priorities).map(({ id }) => id),
+    ["just-arrived", "pinned", "overridden", "urgent", "oldest", "newest"],
+  );
+});
@@ -0,0 +1,187 @@
+import { extractDeadlines, immediateCue } from "@/lib/extraction";
+import { SlaClock, breachTag, nextDueClock } from "@/lib/sla";
+import { EmailPayload, ProcessedEmail } from "@/lib/types";
+
+export interface PriorityFactor {
+  label: string;
+  points: number;
+}
+
+// Set by an operator. A pinned email sorts above everything unpinned; a
+// priority replaces the computed score.
+export interface PriorityOverride {
+  emailId: string;
+  pinned: boolean;
+  priority: number | null;
+  updatedAt: string;
+}
+
+export interface EmailPriority {
+  emailId: string;
+  // 1-based position in the queue.
+  rank: number;
+  score: number;
+  computedScore: number;
+  pinned: boolean;
+  overridden: boolean;
+  factors: PriorityFactor[];
+}
+
+export interface PriorityContext {
+  clocks: SlaClock[];
+  processed: ProcessedEmail[];
+  overrides: PriorityOverride[];
+  now?: number;
+}
+
+export const maxPriority = 100;
+
+export const tagWeights: Record<string, number> = {
+  // Added by the bump_priority SLA escalation.
+  [breachTag]: 25,
+  urgent: 20,
+  vip: 20,
+  important: 15,
+  priority: 15,
+  newsletter: -20,
+  promotion: -20,
+  bulk: -15,
+};
+
+function formatMinutes(minutes: number) {
+  if (minutes < 60) return `${minutes}m`;
+  if (minutes < 48 * 60) return `${Math.round(minutes / 60)}h`;
+  return `${Math.round(minutes / (24 * 60))}d`;
+}
+
+function deadlineFactor(
+  email: EmailPayload,
+  now: number,
+): PriorityFactor | null {
+  const next = extractDeadlines(
+    `${email.subject}\n${email.body}`,
+    email.receivedAt,
+  ).find((deadline) => new Date(deadline.dueAt).getTime() >= now);
+  if (!next) return null;
+  const minutes = Math.round((new Date(next.dueAt).getTime() - now) / 60_000);
+  const points =
+    minutes <= 24 * 60
+      ? 30
+      : minutes <= 72 * 60
+        ? 20
+        : minutes <= 7 * 24 * 60
+          ? 10
+          : 0;
+  return points
+    ? { label: `Deadline in ${formatMinutes(minutes)} (${next.text})`, points }
+    : null;
+}
+
+function slaFactor(
+  email: EmailPayload,
+  clocks: SlaClock[],
+  now: number,
+): PriorityFactor | null {
+  const clock = nextDueClock(clocks, email.id);
+  if (!clock) return null;
+  const target = Math.round(
+    (new Date(clock.dueAt).getTime() - new Date(clock.startedAt).getTime()) /
+      60_000,
+  );
+  const left = Math.round((new Date(clock.dueAt).getTime() - now) / 60_000);
+  if (clock.status === "breached" || left < 0) {
+    return { label: `SLA of ${formatMinutes(target)} breached`, points: 35 };
+  }
+  return {
+    label: `SLA due in ${formatMinutes(left)} of ${formatMinutes(target)}`,
+    points: left <= 30 ? 25 : left <= 120 ? 15 : 5,
+  };
+}
+
+function senderCounts(processed: ProcessedEmail[]) {
+  const counts = new Map<string, number>();
+  for (const item of processed) {
+    const sender = item.email.sender.toLowerCase();
+    counts.set(sender, (counts.get(sender) ?? 0) + 1);
+  }
+  return counts;
+}
+
+export function scoreEmail(
+  email: EmailPayload,
+  context: PriorityContext & { senders?: Map<string, number> },
+): Omit<EmailPriority, "rank"> {
+  const now = context.now ?? Date.now();
+  const factors: PriorityFactor[] = [];
+  if (immediateCue.test(`${email.subject}\n${email.body}`)) {
+    factors.push({ label: "Urgent wording", points: 30 });
+  }
+  const deadline = deadlineFactor(email, now);
+  if (deadline) factors.push(deadline);
+  const sla = slaFactor(email, context.clocks, now);
+  if (sla) factors.push(sla);
+  const history = (context.senders ?? senderCounts(context.processed)).get(
+    email.sender.toLowerCase(),
+  );
+  if (history) {
+    factors.push({
+      label: `${history} earlier ${history === 1 ? "email" : "emails"} from this sender`,
+      points: Math.min(15, history * 5),
+    });
+  }
+  for (const tag of email.tags) {
+    const points = tagWeights[tag.toLowerCase()];
+    if (points) factors.push({ label: `Tagged ${tag}`, points });
+  }
+
+  const computedScore = Math.max(
+    0,
+    Math.min(
+      maxPriority,
+      factors.reduce((sum, factor) => sum + factor.points, 0),
+    ),
+  );
+  const override = context.overrides.find((item) => item.emailId === email.id);
+  const overridden = override?.priority != null;
+  return {
+    emailId: email.id,
+    score: overridden ? (override.priority as number) : computedScore,
+    computedScore,
+    pinned: override?.pinned ?? false,
+    overridden,
+    factors,
+  };
+}
+
+// Pinned first, then by score; equal scores keep the oldest email first.
+export function prioritize(
+  emails: EmailPayload[],
+  context: PriorityContext,
+): EmailPriority[] {
+  const senders = senderCounts(context.processed);
+  const received = new Map(emails.map((email) => [email.id, email.receivedAt]));
+  return emails
+    .map((email) => scoreEmail(email, { ...context, senders }))
+    .sort(
+      (left, right) =>
+        Number(right.pinned) - Number(left.pinned) ||
+        right.score - left.score ||
+        (received.get(left.emailId) ?? "").localeCompare(
+          received.get(right.emailId) ?? "",
+        ),
+    )
+    .map((priority, index) => ({ ...priority, rank: index + 1 }));
+}
+
+// Emails without a priority yet (just arrived) stay on top until rescored.
+export function orderByPriority<T extends EmailPayload>(
+  emails: T[],
+  priorities: EmailPriority[],
+) {
+  const ranks = new Map(
+    priorities.map((priority) => [priority.emailId, priority.rank]),
+  );
+  return [...emails].sort(
+    (left, right) => (ranks.get(left.id) ?? 0) - (ranks.get(right.id) ?? 0),
+  );
+}
@@ -0,0 +1,57 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { extractEntities } from "@/lib/extraction";
+import { createReplyDraft, renderTemplate, replyValues } from "@/lib/replies";
+import { EmailPayload, Workflow } from "@/lib/types";
+
+const email = {
+  id: "email-offer",
+  subject: "Offer letter",
+  sender: "recruiter@techhire.io",
+  senderName: "TechHire Recruiting",
+  to: "you@example.com",
+  preview: "",
+  body: "Hi,\n\nPlease sign the attached offer letter by Friday.\n\nBest,\nTechHire",
+  receivedAt: "2024-05-06T09:15:00.000Z",
+  tags: ["job"],
+} as EmailPayload;
+
+const workflow = {
+  id: "offer-desk",
+  name: "Offer desk",
+  replyTemplate: { body: "Hi {{senderName}}, thanks for {{subject}}." },
+} as unknown as Workflow;
+
+test("drafting the same email twice keeps both drafts", () => {
+  const entities = extractEntities(email);
+  const first = createReplyDraft(email, workflow, entities, "you@example.com");
+  const second = createReplyDraft(email, workflow, entities, "you@example.com");
+  assert.notEqual(first.id, second.id);
+  assert.equal(first.status, "draft");
+  assert.equal(first.body, "Hi TechHire Recruiting, thanks for Offer letter.");
+});
+
+test("a reply quotes the next deadline, not one already past", () => {
+  const stale = {
+    ...email,
+    body: "The old offer expired on 2024-04-01. Please sign the new one by 2024-05-20.",
+  };
+  const draft = createReplyDraft(
+    stale,
+    {
+      ...workflow,
+      replyTemplate: { body: "I'll sign before {{deadline}}." },
+    } as Workflow,
+    extractEntities(stale),
+    "you@example.com",
+  );
+  assert.equal(draft.body, "I'll sign before May 20, 2024.");
+});
+
+test("inherited object keys are left for a human to spot", () => {
+  const values = replyValues(email, extractEntities(email));
+  assert.equal(
+    renderTemplate("{{constructor}} {{senderName}}", values),
+    "{{constructor}} TechHire Recruiting",
+  );
+});
@@ -0,0 +1,185 @@
+import { EmailEntities, entityValues } from "@/lib/extraction";
+import { threadOf } from "@/lib/mime";
+import { ActionLogEntry, EmailPayload, Workflow } from "@/lib/types";
+
+export interface ReplyTemplate {
+  subject?: string;
+  body: string;
+}
+
+export type ReplyingWorkflow = Workflow & { replyTemplate?: ReplyTemplate };
+
+export type ReplyStatus = "draft" | "sent" | "failed" | "discarded";
+
+export const replyStatuses: ReplyStatus[] = [
+  "draft",
+  "sent",
+  "failed",
+  "discarded",
+];
+
+export interface ReplyDraft {
+  id: string;
+  emailId: string;
+  workflowId: string;
+  from: string;
+  to: string;
+  subject: string;
+  body: string;
+  // Message-ID of the email being answered, without angle brackets.
+  inReplyTo: string | null;
+  references: string[];
+  status: ReplyStatus;
+  createdAt: string;
+  updatedAt: string;
+  sentAt: string | null;
+  messageId: string | null;
+  error: string | null;
+}
+
+export interface ReplyEdit {
+  to?: string;
+  subject?: string;
+  body?: string;
+}
+
+export const replyVariables = [
+  "senderName",
+  "sender",
+  "subject",
+  "deadline",
+  "portalUrl",
+  "urgency",
+  "contact",
+  "amount",
+  "documents",
+] as const;
+
+export type ReplyVariable = (typeof replyVariables)[number];
+
+export const defaultReplyTemplate: ReplyTemplate = {
+  body: [
+    "Hi {{senderName}},",
+    "",
+    "Thank you for your email about “{{subject}}”. I'm on it and will follow up shortly.",
+    "",
+    "Best regards",
+  ].join("\n"),
+};
+
+export function replySubject(subject: string) {
+  return /^\s*re:/i.test(subject) ? subject.trim() : `Re: ${subject.trim()}`;
+}
+
+function formatDeadline(dueAt: string) {
+  return new Date(dueAt).toLocaleString("en-US", {
+    dateStyle: "long",
+    timeZone: "UTC",
+  });
+}
+
+export function replyValues(
+  email: EmailPayload,
+  entities: EmailEntities,
+): Record<ReplyVariable, string | null> {
+  const values = entityValues(entities);
+  return {
+    ...values,
+    senderName: email.senderName || email.sender.split("@")[0],
+    sender: email.sender,
+    subject: email.subject,
+    deadline: entities.nextDeadline
+      ? formatDeadline(entities.nextDeadline.dueAt)
+      : null,
+  };
+}
+
+const variablePattern = /\{\{\s*([a-zA-Z]+)\s*\}\}/g;
+
+// Missing values render as empty text; unknown names are left for a human to spot.
+export function renderTemplate(
+  text: string,
+  values: Record<ReplyVariable, string | null>,
+) {
+  return text.replace(variablePattern, (placeholder, name: string) =>
+    Object.hasOwn(values, name)
+      ? (values[name as ReplyVariable] ?? "")
+      : placeholder,
+  );
+}
+
+export function templateVariablesIn(text: string) {
+  return [...text.matchAll(variablePattern)].map(([, name]) => name);
+}
+
+export function createReplyDraft(
+  email: EmailPayload,
+  workflow: Workflow,
+  entities: EmailEntities,
+  from: string,
+): ReplyDraft {
+  const template =
+    (workflow as ReplyingWorkflow).replyTemplate ?? defaultReplyTemplate;
+  const values = replyValues(email, entities);
+  const thread = threadOf(email);
+  const now = new Date().toISOString();
+  return {
+    // Unique per draft: a requeued email or a re-run step drafts again, and
+    // must not overwrite a reply that was already sent.
+    id: `reply-${email.id}-${workflow.id}-${crypto.randomUUID()}`,
+    emailId: email.id,
+    workflowId: workflow.id,
+    from,
+    to: email.sender,
+    subject: template.subject
+      ? renderTemplate(template.subject, values)
+      : replySubject(email.subject),
+    body: renderTemplate(template.body, values),
+    inReplyTo: thread.messageId,
+    references: thread.messageId
+      ? [...thread.references, thread.messageId]
+      : thread.references,
+    status: "draft",
+    createdAt: now,
+    updatedAt: now,
+    sentAt: null,
+    messageId: null,
+    error: null,
+  };
+}
+
+export function replyLogEntry(draft: ReplyDraft): ActionLogEntry {
+  const timestamp = draft.sentAt ?? draft.updatedAt;
+  switch (draft.status) {
+    case "sent":
+      return {
+        id: `log-${draft.id}-sent-${timestamp}`,
+        workflowId: draft.workflowId,
+        timestamp,
+        title: `Reply sent: ${draft.subject}`,
+        body: `Sent to ${draft.to} as <${draft.messageId}>.`,
+      };
+    case "failed":
+      return {
+        id: `log-${draft.id}-failed-${timestamp}`,
+        workflowId: draft.workflowId,
+        timestamp,
+        title: `Reply failed: ${draft.subject}`,
+        body: `Could not send to ${draft.to}: ${draft.error}`,
+      };
+    default:
+      return {
+        id: `log-${draft.id}-${draft.status}-${timestamp}`,
+        workflowId: draft.workflowId,
+        timestamp,
+        title:
+          draft.status === "draft"
+            ? `Reply drafted: ${draft.subject}`
+            : `Reply discarded: ${draft.subject}`,
+        body:
+          draft.status === "draft"
+            ? `Draft to ${draft.to} is waiting for review in the Automation brief.`
+            : `Draft to ${draft.to} will not be sent.`,
+      };
+  }
+}
@@ -0,0 +1,151 @@
+import { AuditActor, AuditEventType } from "@/lib/audit";
+import { HttpError } from "@/lib/http";
+import { ReplyDraft, ReplyEdit, replyLogEntry } from "@/lib/replies";
+import { parseSmtpUrl, sendMail } from "@/lib/smtp";
+import {
+  getReplyDraft,
+  recordActivity,
+  recordAudit,
+  saveReplyDrafts,
+} from "@/lib/store";
+
+// Replies go out through REPLY_SMTP_URL, falling back to the SMTP_URL that
+// email notifications use.
+function replyTransport() {
+  const url = process.env.REPLY_SMTP_URL ?? process.env.SMTP_URL;
+  if (!url) {
+    throw new HttpError(503, "Set REPLY_SMTP_URL or SMTP_URL to send replies");
+  }
+  return parseSmtpUrl(url);
+}
+
+export function replyFrom(mailbox: string) {
+  return process.env.REPLY_FROM ?? process.env.SMTP_FROM ?? mailbox;
+}
+
+// Drafts with a send in flight. Marked before the first await, so a second
+// send, edit or discard of the same draft gets a 409 instead of racing it.
+const globalForReplies = globalThis as typeof globalThis & {
+  sendingReplies?: Set<string>;
+};
+
+function sending() {
+  globalForReplies.sendingReplies ??= new Set();
+  return globalForReplies.sendingReplies;
+}
+
+function requireDraft(id: string) {
+  const draft = getReplyDraft(id);
+  if (!draft) throw new HttpError(404, `Reply ${id} not found`);
+  return draft;
+}
+
+function requireOpen(draft: ReplyDraft) {
+  if (draft.status === "sent" || draft.status === "discarded") {
+    throw new HttpError(409, `Reply ${draft.id} was already ${draft.status}`);
+  }
+  if (sending().has(draft.id)) {
+    throw new HttpError(409, `Reply ${draft.id} is being sent`);
+  }
+  return draft;
+}
+
+function save(
+  draft: ReplyDraft,
+  audit: { type: AuditEventType; actor: AuditActor; input: unknown },
+  log = false,
+) {
+  saveReplyDrafts([draft]);
+  if (log) recordActivity([replyLogEntry(draft)], []);
+  recordAudit([
+    {
+      ...audit,
+      emailId: draft.emailId,
+      workflowId: draft.workflowId,
+      output: {
+        replyId: draft.id,
+        status: draft.status,
+        to: draft.to,
+        subject: draft.subject,
+        body: draft.body,
+        messageId: draft.messageId,
+        error: draft.error,
+      },
+    },
+  ]);
+  return draft;
+}
+
+export function editReply(id: string, edit: ReplyEdit, actor: AuditActor) {
+  const draft = requireOpen(requireDraft(id));
+  return save(
+    {
+      ...draft,
+      to: edit.to ?? draft.to,
+      subject: edit.subject ?? draft.subject,
+      body: edit.body ?? draft.body,
+      updatedAt: new Date().toISOString(),
+    },
+    { type: "reply.edited", actor, input: edit },
+  );
+}
+
+export function discardReply(id: string, actor: AuditActor) {
+  const draft = requireOpen(requireDraft(id));
+  return save(
+    { ...draft, status: "discarded", updatedAt: new Date().toISOString() },
+    { type: "reply.discarded", actor, input: null },
+    true,
+  );
+}
+
+// In-Reply-To and References keep the reply in the sender's thread.
+export async function sendReply(id: string, actor: AuditActor) {
+  const draft = requireOpen(requireDraft(id));
+  const config = replyTransport();
+  const messageId = `${crypto.randomUUID()}@${draft.from.split("@")[1] ?? "localhost"}`;
+  sending().add(draft.id);
+  try {
+    await sendMail(config, {
+      from: draft.from,
+      to: [draft.to],
+      subject: draft.subject,
+      text: draft.body,
+      headers: {
+        "Message-ID": `<${messageId}>`,
+        ...(draft.inReplyTo ? { "In-Reply-To": `<${draft.inReplyTo}>` } : {}),
+        ...(draft.references.length
+          ? { References: draft.references.map((id) => `<${id}>`).join(" ") }
+          : {}),
+      },
+    });
+  } catch (error) {
+    const failed = save(
+      {
+        ...draft,
+        status: "failed",
+        error: error instanceof Error ? error.message : "SMTP delivery failed",
+        updatedAt: new Date().toISOString(),
+      },
+      { type: "reply.failed", actor, input: null },
+      true,
+    );
+    return { ok: false as const, reply: failed };
+  } finally {
+    sending().delete(draft.id);
+  }
+  const now = new Date().toISOString();
+  const sent = save(
+    {
+      ...draft,
+      status: "sent",
+      messageId,
+      sentAt: now,
+      updatedAt: now,
+      error: null,
+    },
+    { type: "reply.sent", actor, input: null },
+    true,
+  );
+  return { ok: true as const, reply: sent };
+}
@@ -0,0 +1,119 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import {
+  ActionOutcome,
+  RetryPolicyError,
+  mergeOutcomes,
+  parseRetryPolicies,
+  retryPolicyFor,
+  retryableOutcomes,
+  runStatus,
+  withRetries,
+} from "@/lib/run-outcomes";
+
+function outcome(
+  actionId: string,
+  overrides: Partial<ActionOutcome> = {},
+): ActionOutcome {
+  return {
+    actionId,
+    workflowId: "offer-desk",
+    type: "custom",
+    status: "succeeded",
+    message: null,
+    attempts: 1,
+    runtimeSeconds: null,
+    finishedAt: "2024-05-08T10:06:00.000Z",
+    ...overrides,
+  };
+}
+
+test("retry policies parse per type with optional backoff", () => {
+  assert.deepEqual(parseRetryPolicies("webhook=5:10, update_tracker=2,"), {
+    webhook: { attempts: 5, backoffSeconds: 10 },
+    update_tracker: { attempts: 2, backoffSeconds: 0 },
+  });
+  for (const text of ["webhook", "webhook=0", "Webhook=2", "webhook=2:x"]) {
+    assert.throws(() => parseRetryPolicies(text), RetryPolicyError, text);
+  }
+});
+
+test("a plugin's policy wins over its action type's", () => {
+  const policies = parseRetryPolicies("webhook=3:2,custom=2");
+  assert.deepEqual(retryPolicyFor(policies, "custom", "webhook"), {
+    attempts: 3,
+    backoffSeconds: 2,
+  });
+  assert.equal(retryPolicyFor(policies, "custom").attempts, 2);
+  assert.equal(retryPolicyFor(policies, "draft_reply").attempts, 1);
+});
+
+test("retries back off exponentially until the last attempt", async () => {
+  const waits: number[] = [];
+  const sleep = async (ms: number) => {
+    waits.push(ms);
+  };
+  let calls = 0;
+  const flaky = await withRetries(
+    { attempts: 4, backoffSeconds: 2 },
+    () => {
+      calls += 1;
+      if (calls < 3) throw new Error(`HTTP 503 (${calls})`);
+      return "ok";
+    },
+    { sleep },
+  );
+  assert.equal(flaky.ok, true);
+  assert.equal(flaky.value, "ok");
+  assert.equal(flaky.attempts, 3);
+  assert.deepEqual(waits, [2000, 4000]);
+
+  const down = await withRetries(
+    { attempts: 2, backoffSeconds: 1 },
+    () => {
+      throw new Error("HTTP 503");
+    },
+    { sleep },
+  );
+  assert.equal(down.ok, false);
+  assert.equal(down.attempts, 2);
+  assert.equal((down.error as Error).message, "HTTP 503");
+});
+
+test("errors that can't succeed later are not retried", async () => {
+  const result = await withRetries(
+    { attempts: 5, backoffSeconds: 0 },
+    () => {
+      throw new Error("HTTP 404");
+    },
+    { retryable: () => false, sleep: async () => {} },
+  );
+  assert.equal(result.ok, false);
+  assert.equal(result.attempts, 1);
+});
+
+test("a retry re-runs failed steps and replaces them in place", () => {
+  const first = [
+    outcome("analyze"),
+    outcome("webhook", { status: "failed", message: "HTTP 503", attempts: 3 }),
+    outcome("notify", { status: "skipped", skipReason: "earlier_failure" }),
+    outcome("submit", { status: "skipped", skipReason: "approval" }),
+  ];
+  assert.equal(runStatus(first), "failed");
+  assert.deepEqual(
+    retryableOutcomes(first).map(({ actionId }) => actionId),
+    ["webhook", "notify"],
+  );
+
+  const merged = mergeOutcomes(first, [outcome("webhook"), outcome("notify")]);
+  assert.deepEqual(
+    merged.map(({ actionId, status }) => [actionId, status]),
+    [
+      ["analyze", "succeeded"],
+      ["webhook", "succeeded"],
+      ["notify", "succeeded"],
+      ["submit", "skipped"],
+    ],
+  );
+  assert.equal(runStatus(merged), "succeeded");
+});
@@ -0,0 +1,187 @@
+import {
+  ActionLogEntry,
+  AutomationActionType,
+  ProcessedEmail,
+} from "@/lib/types";
+
+export type ActionStatus = "succeeded" | "failed" | "skipped";
+
+export type SkipReason = "approval" | "earlier_failure";
+
+export interface ActionOutcome {
+  actionId: string;
+  workflowId: string;
+  type: AutomationActionType;
+  plugin?: string;
+  status: ActionStatus;
+  // The error for failed actions, or why a skipped one did not run.
+  message: string | null;
+  skipReason?: SkipReason;
+  attempts: number;
+  // Null for actions the agent ran, whose timings are only estimates.
+  runtimeSeconds: number | null;
+  finishedAt: string;
+}
+
+export type RunStatus = "succeeded" | "failed";
+
+// A retry appends the run again under the same runId with a higher attempt;
+// the store keeps only the latest.
+export type OutcomeEmail = ProcessedEmail & {
+  runId?: string;
+  // When the first attempt finished.
+  completedAt?: string;
+  attempt?: number;
+  status?: RunStatus;
+  outcomes?: ActionOutcome[];
+};
+
+export type OutcomeLogEntry = ActionLogEntry & { status?: ActionStatus };
+
+export interface RetryPolicy {
+  attempts: number;
+  backoffSeconds: number;
+}
+
+export const singleAttempt: RetryPolicy = { attempts: 1, backoffSeconds: 0 };
+
+// Keyed by plugin or action type. Only steps that reach outside the app
+// retry by default.
+export const defaultRetryPolicies: Record<string, RetryPolicy> = {
+  webhook: { attempts: 3, backoffSeconds: 2 },
+};
+
+export class RetryPolicyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RetryPolicyError";
+  }
+}
+
+// "webhook=5:10,update_tracker=2" means five attempts of webhooks 10s, 20s,
+// 40s… apart and two tracker updates back to back.
+export function parseRetryPolicies(text: string) {
+  const policies: Record<string, RetryPolicy> = {};
+  for (const part of text.split(",").map((item) => item.trim())) {
+    if (!part) continue;
+    const match = part.match(/^([a-z_]+)=(\d+)(?::(\d+(?:\.\d+)?))?$/);
+    if (!match || Number(match[2]) < 1) {
+      throw new RetryPolicyError(
+        `Invalid retry policy "${part}"; expected type=attempts[:backoffSeconds]`,
+      );
+    }
+    policies[match[1]] = {
+      attempts: Number(match[2]),
+      backoffSeconds: match[3] ? Number(match[3]) : 0,
+    };
+  }
+  return policies;
+}
+
+export function configuredRetryPolicies() {
+  return {
+    ...defaultRetryPolicies,
+    ...parseRetryPolicies(process.env.ACTION_RETRIES ?? ""),
+  };
+}
+
+export function retryPolicyFor(
+  policies: Record<string, RetryPolicy>,
+  type: AutomationActionType,
+  plugin?: string,
+) {
+  return (plugin && policies[plugin]) || policies[type] || singleAttempt;
+}
+
+export interface Attempted<T> {
+  ok: boolean;
+  value: T | null;
+  error: unknown;
+  attempts: number;
+  runtimeSeconds: number;
+}
+
+// Runtime covers the attempts themselves, not the waits between them.
+export async function withRetries<T>(
+  policy: RetryPolicy,
+  run: () => T | Promise<T>,
+  options: {
+    retryable?: (error: unknown) => boolean;
+    sleep?: (ms: number) => Promise<void>;
+  } = {},
+): Promise<Attempted<T>> {
+  const sleep =
+    options.sleep ??
+    ((ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms)));
+  let runtimeMs = 0;
+  for (let attempts = 1; ; attempts++) {
+    const started = performance.now();
+    try {
+      const value = await run();
+      runtimeMs += performance.now() - started;
+      return {
+        ok: true,
+        value,
+        error: null,
+        attempts,
+        runtimeSeconds: Math.round(runtimeMs) / 1000,
+      };
+    } catch (error) {
+      runtimeMs += performance.now() - started;
+      const retryable = options.retryable?.(error) ?? true;
+      if (!retryable || attempts >= policy.attempts) {
+        return {
+          ok: false,
+          value: null,
+          error,
+          attempts,
+          runtimeSeconds: Math.round(runtimeMs) / 1000,
+        };
+      }
+      await sleep(policy.backoffSeconds * 1000 * 2 ** (attempts - 1));
+    }
+  }
+}
+
+export function errorMessage(error: unknown) {
+  return error instanceof Error ? error.message : String(error);
+}
+
+export function runStatus(outcomes: ActionOutcome[]): RunStatus {
+  return outcomes.some((outcome) => outcome.status === "failed")
+    ? "failed"
+    : "succeeded";
+}
+
+// Failed steps and the ones they held back; approvals have their own inbox.
+export function retryableOutcomes(outcomes: ActionOutcome[]) {
+  return outcomes.filter(
+    (outcome) =>
+      outcome.status === "failed" || outcome.skipReason === "earlier_failure",
+  );
+}
+
+// Later outcomes for the same action replace earlier ones, in place.
+export function mergeOutcomes(
+  previous: ActionOutcome[],
+  updates: ActionOutcome[],
+) {
+  const key = (outcome: ActionOutcome) =>
+    `${outcome.workflowId}/${outcome.actionId}`;
+  const byKey = new Map(updates.map((outcome) => [key(outcome), outcome]));
+  return previous.map((outcome) => byKey.get(key(outcome)) ?? outcome);
+}
+
+export function failureLogEntry(
+  emailId: string,
+  outcome: ActionOutcome,
+): OutcomeLogEntry {
+  return {
+    id: `log-${emailId}-${outcome.workflowId}-${outcome.actionId}-failed-${Date.parse(outcome.finishedAt)}`,
+    workflowId: outcome.workflowId,
+    title: `${outcome.plugin ?? outcome.type} failed`,
+    body: `${outcome.message ?? "Unknown error"} after ${outcome.attempts} ${outcome.attempts === 1 ? "attempt" : "attempts"}`,
+    timestamp: outcome.finishedAt,
+    status: "failed",
+  };
+}
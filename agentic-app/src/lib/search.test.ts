@@ -0,0 +1,149 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { ActionOutcome } from "@/lib/run-outcomes";
+import {
+  SearchSource,
+  emptySearchQuery,
+  parseSearchQuery,
+  search,
+  searchTerms,
+} from "@/lib/search";
+import { EmailPayload, ProcessedEmail, Workflow } from "@/lib/types";
+
+function email(id: string, subject: string, receivedAt: string) {
+  return {
+    id,
+    subject,
+    sender: "recruiter@techhire.io",
+    senderName: "TechHire Recruiting",
+    to: "you@example.com",
+    preview: "",
+    body: `About the ${subject.toLowerCase()}.`,
+    receivedAt,
+    tags: ["job"],
+  } as EmailPayload;
+}
+
+function outcome(type: ActionOutcome["type"]): ActionOutcome {
+  return {
+    actionId: `offer-desk-${type}`,
+    workflowId: "offer-desk",
+    type,
+    status: "succeeded",
+    message: null,
+    attempts: 1,
+    runtimeSeconds: null,
+    finishedAt: "2024-05-08T10:06:00.000Z",
+  };
+}
+
+const handled = {
+  email: email("email-offer", "Offer letter", "2024-05-08T10:05:00.000Z"),
+  workflowIds: ["offer-desk"],
+  summary: "Offer from TechHire",
+  confidence: 0.86,
+  outcomes: [outcome("draft_reply"), outcome("notify_whatsapp")],
+} as unknown as ProcessedEmail;
+
+// The workflow was edited after the run: it now only updates the tracker.
+const source: SearchSource = {
+  queue: [email("email-interview", "Interview slots", "2024-05-09T08:00:00Z")],
+  processed: [handled],
+  log: [],
+  workflows: [
+    {
+      id: "offer-desk",
+      actions: [{ id: "track", type: "update_tracker" }],
+    } as Workflow,
+  ],
+  clocks: [],
+  approvals: [],
+};
+
+test("quoted phrases stay together", () => {
+  assert.deepEqual(searchTerms('offer "data engineer"  Loop'), [
+    "offer",
+    "data engineer",
+    "loop",
+  ]);
+});
+
+test("unreadable parameters are dropped instead of failing", () => {
+  const query = parseSearchQuery(
+    new URLSearchParams(
+      "q=offer&in=processed,nowhere&action=dance&status=processed&minConfidence=2&from=May",
+    ),
+  );
+  assert.deepEqual(query, {
+    ...emptySearchQuery,
+    text: "offer",
+    scopes: ["processed"],
+    status: "processed",
+  });
+});
+
+test("processed emails keep the action types their run recorded", () => {
+  const { facets, processed } = search(source, {
+    ...emptySearchQuery,
+    scopes: ["processed"],
+  });
+  assert.deepEqual(facets.actionType, [
+    { value: "draft_reply", count: 1 },
+    { value: "notify_whatsapp", count: 1 },
+  ]);
+  assert.equal(processed.items.length, 1);
+
+  const filtered = (actionType: Workflow["actions"][number]["type"]) =>
+    search(source, { ...emptySearchQuery, scopes: ["processed"], actionType })
+      .processed.items.length;
+  assert.equal(filtered("draft_reply"), 1);
+  assert.equal(filtered("update_tracker"), 0);
+
+  const deleted = search(
+    { ...source, workflows: [] },
+    { ...emptySearchQuery, actionType: "notify_whatsapp" },
+  );
+  assert.equal(deleted.processed.items.length, 1);
+});
+
+test("log entries are left out of the action type facet", () => {
+  const logged = {
+    ...source,
+    log: [
+      {
+        id: "log-offer",
+        workflowId: "offer-desk",
+        timestamp: "2024-05-08T10:06:00.000Z",
+        title: "Tracker: Backend engineer",
+        body: "TechHire tracked as applied.",
+      },
+    ],
+  };
+  const { facets, log } = search(logged, {
+    ...emptySearchQuery,
+    scopes: ["log"],
+  });
+  assert.equal(log.items.length, 1);
+  assert.deepEqual(facets.actionType, []);
+  assert.equal(
+    search(logged, {
+      ...emptySearchQuery,
+      scopes: ["log"],
+      actionType: "update_tracker",
+    }).log.items.length,
+    0,
+  );
+});
+
+test("facets count as if their own filter were not set", () => {
+  const { facets, queue, processed } = search(source, {
+    ...emptySearchQuery,
+    status: "queued",
+  });
+  assert.equal(queue.items.length, 1);
+  assert.equal(processed.items.length, 0);
+  assert.deepEqual(facets.status, [
+    { value: "processed", count: 1 },
+    { value: "queued", count: 1 },
+  ]);
+});
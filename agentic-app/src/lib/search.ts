@@ -0,0 +1,324 @@
+import { ApprovalRequest } from "@/lib/approvals";
+import { Page, PageRequest, paginate } from "@/lib/pagination";
+import { OutcomeEmail } from "@/lib/run-outcomes";
+import { SlaClock } from "@/lib/sla";
+import {
+  ActionLogEntry,
+  AutomationActionType,
+  EmailPayload,
+  ProcessedEmail,
+  Workflow,
+} from "@/lib/types";
+import { automationTypes } from "@/lib/workflows";
+
+export type SearchScope = "queue" | "processed" | "log";
+
+export const searchScopes: SearchScope[] = ["queue", "processed", "log"];
+
+export type SearchStatus = "queued" | "processed" | "needs_approval";
+
+export const searchStatuses: SearchStatus[] = [
+  "queued",
+  "processed",
+  "needs_approval",
+];
+
+export interface SearchQuery {
+  text: string;
+  scopes: SearchScope[];
+  workflowId: string | null;
+  actionType: AutomationActionType | null;
+  // Inclusive UTC dates, YYYY-MM-DD.
+  from: string | null;
+  to: string | null;
+  minConfidence: number | null;
+  status: SearchStatus | null;
+}
+
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+// Each facet counts the results as if its own filter were not set, so the
+// counts show what choosing another value would return.
+export interface SearchFacets {
+  workflow: FacetCount[];
+  actionType: FacetCount[];
+  status: FacetCount[];
+  // Cumulative: how many results reach each minimum confidence.
+  confidence: FacetCount[];
+}
+
+export interface SearchResults {
+  queue: Page<EmailPayload>;
+  processed: Page<ProcessedEmail>;
+  log: Page<ActionLogEntry>;
+  facets: SearchFacets;
+}
+
+export interface SearchSource {
+  queue: EmailPayload[];
+  processed: ProcessedEmail[];
+  log: ActionLogEntry[];
+  workflows: Workflow[];
+  clocks: SlaClock[];
+  approvals: ApprovalRequest[];
+}
+
+export const emptySearchQuery: SearchQuery = {
+  text: "",
+  scopes: searchScopes,
+  workflowId: null,
+  actionType: null,
+  from: null,
+  to: null,
+  minConfidence: null,
+  status: null,
+};
+
+export const confidenceThresholds = [0.9, 0.8, 0.5];
+
+const datePattern = /^\d{4}-\d{2}-\d{2}$/;
+
+// Lenient on purpose: a stale or hand-edited link drops what it can't read
+// instead of failing.
+export function parseSearchQuery(params: URLSearchParams): SearchQuery {
+  const scopes = (params.get("in") ?? "")
+    .split(",")
+    .filter((scope): scope is SearchScope =>
+      searchScopes.includes(scope as SearchScope),
+    );
+  const action = params.get("action");
+  const status = params.get("status");
+  const date = (key: string) => {
+    const value = params.get(key);
+    return value && datePattern.test(value) ? value : null;
+  };
+  const minConfidence = Number(params.get("minConfidence"));
+  return {
+    text: params.get("q")?.trim() ?? "",
+    scopes: scopes.length ? scopes : searchScopes,
+    workflowId: params.get("workflow") || null,
+    actionType: automationTypes.includes(action as AutomationActionType)
+      ? (action as AutomationActionType)
+      : null,
+    from: date("from"),
+    to: date("to"),
+    minConfidence:
+      params.has("minConfidence") && minConfidence >= 0 && minConfidence <= 1
+        ? minConfidence
+        : null,
+    status: searchStatuses.includes(status as SearchStatus)
+      ? (status as SearchStatus)
+      : null,
+  };
+}
+
+export function toSearchParams(query: SearchQuery) {
+  const params = new URLSearchParams();
+  if (query.text) params.set("q", query.text);
+  if (query.scopes.length < searchScopes.length) {
+    params.set("in", query.scopes.join(","));
+  }
+  if (query.workflowId) params.set("workflow", query.workflowId);
+  if (query.actionType) params.set("action", query.actionType);
+  if (query.from) params.set("from", query.from);
+  if (query.to) params.set("to", query.to);
+  if (query.minConfidence !== null) {
+    params.set("minConfidence", String(query.minConfidence));
+  }
+  if (query.status) params.set("status", query.status);
+  return params;
+}
+
+export function isEmptySearch(query: SearchQuery) {
+  return toSearchParams({ ...query, scopes: searchScopes }).toString() === "";
+}
+
+// Whitespace-separated terms must all appear; "quoted phrases" stay together.
+export function searchTerms(text: string) {
+  return [...text.toLowerCase().matchAll(/"([^"]+)"|(\S+)/g)]
+    .map(([, phrase, word]) => (phrase ?? word).trim())
+    .filter(Boolean);
+}
+
+type Dimension = "workflow" | "actionType" | "status" | "confidence";
+
+interface SearchRecord {
+  scope: SearchScope;
+  index: number;
+  text: string;
+  date: string;
+  workflowIds: string[];
+  actionTypes: AutomationActionType[];
+  status: SearchStatus | null;
+  confidence: number | null;
+}
+
+function emailText(email: EmailPayload) {
+  return [
+    email.subject,
+    email.sender,
+    email.senderName,
+    email.body,
+    ...email.tags,
+  ].join("\n");
+}
+
+function toRecords(source: SearchSource, scopes: SearchScope[]) {
+  const actionTypes = new Map(
+    source.workflows.map((workflow) => [
+      workflow.id,
+      workflow.actions.map((action) => action.type),
+    ]),
+  );
+  const typesOf = (workflowIds: string[]) => [
+    ...new Set(workflowIds.flatMap((id) => actionTypes.get(id) ?? [])),
+  ];
+  const awaiting = new Set(
+    source.approvals
+      .filter((approval) => approval.status === "pending")
+      .map((approval) => approval.email.id),
+  );
+  const records: SearchRecord[] = [];
+  if (scopes.includes("queue")) {
+    source.queue.forEach((email, index) => {
+      // SLA clocks record which workflows matched when the email arrived.
+      const workflowIds = [
+        ...new Set(
+          source.clocks
+            .filter((clock) => clock.emailId === email.id)
+            .map((clock) => clock.workflowId),
+        ),
+      ];
+      records.push({
+        scope: "queue",
+        index,
+        text: emailText(email),
+        date: email.receivedAt,
+        workflowIds,
+        actionTypes: typesOf(workflowIds),
+        status: "queued",
+        confidence: null,
+      });
+    });
+  }
+  if (scopes.includes("processed")) {
+    source.processed.forEach((item, index) => {
+      // What the run recorded, so editing or deleting the workflow later
+      // doesn't change how it was handled.
+      const outcomes = (item as OutcomeEmail).outcomes ?? [];
+      records.push({
+        scope: "processed",
+        index,
+        text: `${emailText(item.email)}\n${item.summary}`,
+        date: item.email.receivedAt,
+        workflowIds: item.workflowIds,
+        actionTypes: [...new Set(outcomes.map((outcome) => outcome.type))],
+        status: awaiting.has(item.email.id) ? "needs_approval" : "processed",
+        confidence: item.confidence,
+      });
+    });
+  }
+  if (scopes.includes("log")) {
+    // Log entries don't say which action wrote them, so they have no action
+    // types; the workflow's current actions would over-match and drift.
+    source.log.forEach((entry, index) => {
+      records.push({
+        scope: "log",
+        index,
+        text: [entry.title, entry.body, entry.workflowId].join("\n"),
+        date: entry.timestamp,
+        workflowIds: [entry.workflowId],
+        actionTypes: [],
+        status: null,
+        confidence: null,
+      });
+    });
+  }
+  return records;
+}
+
+// A filter on something a record doesn't have (confidence on a log entry)
+// leaves that record out.
+function passes(
+  record: SearchRecord,
+  query: SearchQuery,
+  terms: string[],
+  skip?: Dimension,
+) {
+  const text = record.text.toLowerCase();
+  const day = record.date.slice(0, 10);
+  return (
+    terms.every((term) => text.includes(term)) &&
+    (!query.from || day >= query.from) &&
+    (!query.to || day <= query.to) &&
+    (skip === "workflow" ||
+      !query.workflowId ||
+      record.workflowIds.includes(query.workflowId)) &&
+    (skip === "actionType" ||
+      !query.actionType ||
+      record.actionTypes.includes(query.actionType)) &&
+    (skip === "status" || !query.status || record.status === query.status) &&
+    (skip === "confidence" ||
+      query.minConfidence === null ||
+      (record.confidence !== null && record.confidence >= query.minConfidence))
+  );
+}
+
+function countBy(values: string[]): FacetCount[] {
+  const counts = new Map<string, number>();
+  for (const value of values) counts.set(value, (counts.get(value) ?? 0) + 1);
+  return [...counts.entries()]
+    .map(([value, count]) => ({ value, count }))
+    .sort(
+      (left, right) =>
+        right.count - left.count || left.value.localeCompare(right.value),
+    );
+}
+
+export function search(
+  source: SearchSource,
+  query: SearchQuery,
+  page?: PageRequest,
+): SearchResults {
+  const terms = searchTerms(query.text);
+  const records = toRecords(source, query.scopes);
+  const matching = (skip?: Dimension) =>
+    records.filter((record) => passes(record, query, terms, skip));
+  const results = matching();
+  const pick = <T>(scope: SearchScope, items: T[]) =>
+    paginate(
+      results
+        .filter((record) => record.scope === scope)
+        .map((record) => items[record.index]),
+      page,
+    );
+  const confidences = matching("confidence")
+    .map((record) => record.confidence)
+    .filter((confidence): confidence is number => confidence !== null);
+  return {
+    queue: pick("queue", source.queue),
+    processed: pick("processed", source.processed),
+    log: pick("log", source.log),
+    facets: {
+      workflow: countBy(
+        matching("workflow").flatMap((record) => record.workflowIds),
+      ),
+      actionType: countBy(
+        matching("actionType").flatMap((record) => record.actionTypes),
+      ),
+      status: countBy(
+        matching("status").flatMap((record) =>
+          record.status ? [record.status] : [],
+        ),
+      ),
+      confidence: confidenceThresholds.map((threshold) => ({
+        value: String(threshold),
+        count: confidences.filter((confidence) => confidence >= threshold)
+          .length,
+      })),
+    },
+  };
+}
@@ -0,0 +1,45 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { defaultWorkflows } from "@/lib/data";
+import { checkRouting, diffReports, loadBaseline } from "@/lib/simulation";
+
+test("the regression corpus routes as recorded in the baseline", () => {
+  assert.ok(
+    loadBaseline(),
+    "record one with `node scripts/check-routing.mjs --update`",
+  );
+  const { changes, passed } = checkRouting(defaultWorkflows);
+  assert.deepEqual(
+    changes.filter((change) => change.kind !== "added"),
+    [],
+  );
+  assert.equal(passed, true);
+});
+
+test("ad-hoc emails are simulated without a baseline", () => {
+  const { baseline, changes, passed } = checkRouting(defaultWorkflows, []);
+  assert.equal(baseline, null);
+  assert.deepEqual(changes, []);
+  assert.equal(passed, true);
+});
+
+test("confidence only counts as drift beyond the tolerance", () => {
+  const report = (confidence: number) => ({
+    generatedAt: "2024-05-06T09:15:00.000Z",
+    workflowIds: ["offer-desk"],
+    results: [
+      {
+        emailId: "corpus-job-backend",
+        subject: "Backend role opportunity",
+        workflowIds: ["offer-desk"],
+        confidence,
+        plannedActions: [],
+      },
+    ],
+  });
+  assert.deepEqual(diffReports(report(0.8), report(0.84)), []);
+  assert.deepEqual(
+    diffReports(report(0.8), report(0.9)).map((change) => change.kind),
+    ["confidence"],
+  );
+});
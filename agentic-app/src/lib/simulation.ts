@@ -0,0 +1,237 @@
+import fs from "node:fs";
+import path from "node:path";
+import { runAutomation } from "@/lib/agent";
+import { analyzeLocally } from "@/lib/analyzers";
+import { approvalReason } from "@/lib/approvals";
+import { chooseBranch, resolveBranches } from "@/lib/branches";
+import { extractEntities } from "@/lib/extraction";
+import { eligibleWorkflows } from "@/lib/triggers";
+import { AutomationActionType, EmailPayload, Workflow } from "@/lib/types";
+import { slugify } from "@/lib/workflow-definition";
+
+// The regression corpus and its recorded baseline live next to the other
+// fixtures so routing changes show up in review alongside the workflow change.
+export const corpusDirectory =
+  process.env.AGENT_CORPUS_DIR ??
+  path.join(process.cwd(), "scripts", "fixtures", "regression");
+
+const corpusFile = "corpus.json";
+const baselineFile = "baseline.json";
+
+// Confidence moves a little whenever the analyzer is tuned; only flag real drift.
+const confidenceTolerance = 0.05;
+
+export interface PlannedAction {
+  workflowId: string;
+  actionId: string;
+  type: AutomationActionType;
+  summary: string;
+  needsApproval: boolean;
+  // Set for branches: the condition and which side this email takes.
+  condition?: string;
+  branch?: "then" | "else";
+}
+
+export interface SimulationResult {
+  emailId: string;
+  subject: string;
+  workflowIds: string[];
+  confidence: number;
+  plannedActions: PlannedAction[];
+}
+
+export interface SimulationReport {
+  generatedAt: string;
+  workflowIds: string[];
+  results: SimulationResult[];
+}
+
+export type RoutingChangeKind =
+  "missing" | "added" | "workflows" | "actions" | "confidence";
+
+export interface RoutingChange {
+  emailId: string;
+  subject: string;
+  kind: RoutingChangeKind;
+  expected: unknown;
+  actual: unknown;
+}
+
+export interface RoutingCheck {
+  report: SimulationReport;
+  baseline: SimulationReport | null;
+  changes: RoutingChange[];
+  passed: boolean;
+}
+
+export interface WorkflowDryRun extends RoutingCheck {
+  workflowId: string;
+}
+
+function readFixture<T>(name: string): T | null {
+  const file = path.join(corpusDirectory, name);
+  if (!fs.existsSync(file)) return null;
+  return JSON.parse(fs.readFileSync(file, "utf8")) as T;
+}
+
+export function loadCorpus() {
+  return readFixture<EmailPayload[]>(corpusFile) ?? [];
+}
+
+export function loadBaseline() {
+  return readFixture<SimulationReport>(baselineFile);
+}
+
+// runAutomation itself is pure; the side effects (queue removal, history,
+// WhatsApp delivery) belong to the automation service, which is bypassed here.
+// Confidence is the local analyzer's, given the same eligible workflows as a
+// live run; an LLM analyzer would tie the baseline to the network. Branch
+// deadlines count from when the email arrived unless `now` is given, so the
+// corpus baseline doesn't drift as time passes.
+export function simulateEmail(
+  email: EmailPayload,
+  workflows: Workflow[],
+  now = Date.parse(email.receivedAt),
+): SimulationResult {
+  const entities = extractEntities(email);
+  const eligible = eligibleWorkflows(workflows, email);
+  const { processedEmail } = runAutomation(
+    email,
+    eligible.map((workflow) => resolveBranches(workflow, entities, now)),
+  );
+  const matched = eligible.filter((workflow) =>
+    processedEmail.workflowIds.includes(workflow.id),
+  );
+  return {
+    emailId: email.id,
+    subject: email.subject,
+    workflowIds: [...processedEmail.workflowIds],
+    confidence: analyzeLocally(email, eligible).confidence,
+    plannedActions: matched.flatMap((workflow) =>
+      workflow.actions.flatMap((item) => {
+        const { action, condition, taken } = chooseBranch(item, entities, now);
+        if (!action) return [];
+        return [
+          {
+            workflowId: workflow.id,
+            actionId: action.id,
+            type: action.type,
+            summary: action.summary,
+            needsApproval: approvalReason(workflow, action) !== null,
+            ...(condition && taken ? { condition, branch: taken } : {}),
+          },
+        ];
+      }),
+    ),
+  };
+}
+
+export function simulateCorpus(
+  emails: EmailPayload[],
+  workflows: Workflow[],
+): SimulationReport {
+  return {
+    generatedAt: new Date().toISOString(),
+    workflowIds: workflows.map((workflow) => workflow.id),
+    results: emails.map((email) => simulateEmail(email, workflows)),
+  };
+}
+
+function sameList(left: string[], right: string[]) {
+  const sorted = [...right].sort();
+  return (
+    left.length === right.length &&
+    [...left].sort().every((item, index) => item === sorted[index])
+  );
+}
+
+function actionKeys(result: SimulationResult) {
+  return result.plannedActions.map(
+    (action) => `${action.workflowId}:${action.type}`,
+  );
+}
+
+export function diffReports(
+  baseline: SimulationReport,
+  report: SimulationReport,
+): RoutingChange[] {
+  const changes: RoutingChange[] = [];
+  const current = new Map(
+    report.results.map((result) => [result.emailId, result]),
+  );
+
+  for (const expected of baseline.results) {
+    const actual = current.get(expected.emailId);
+    const change = (kind: RoutingChangeKind, from: unknown, to: unknown) =>
+      changes.push({
+        emailId: expected.emailId,
+        subject: expected.subject,
+        kind,
+        expected: from,
+        actual: to,
+      });
+    current.delete(expected.emailId);
+
+    if (!actual) {
+      change("missing", expected.workflowIds, null);
+      continue;
+    }
+    if (!sameList(expected.workflowIds, actual.workflowIds)) {
+      change("workflows", expected.workflowIds, actual.workflowIds);
+    } else if (!sameList(actionKeys(expected), actionKeys(actual))) {
+      change("actions", actionKeys(expected), actionKeys(actual));
+    }
+    if (
+      Math.abs(expected.confidence - actual.confidence) > confidenceTolerance
+    ) {
+      change("confidence", expected.confidence, actual.confidence);
+    }
+  }
+
+  for (const added of current.values()) {
+    changes.push({
+      emailId: added.emailId,
+      subject: added.subject,
+      kind: "added",
+      expected: null,
+      actual: added.workflowIds,
+    });
+  }
+  return changes;
+}
+
+// Emails added to the corpus since the baseline was recorded are reported but
+// don't fail the check; record a new baseline to start tracking them. Without
+// a baseline the corpus check fails. Ad-hoc `emails` have no baseline and are
+// only simulated.
+export function checkRouting(
+  workflows: Workflow[],
+  emails?: EmailPayload[],
+): RoutingCheck {
+  const report = simulateCorpus(emails ?? loadCorpus(), workflows);
+  const baseline = emails ? null : loadBaseline();
+  const changes = baseline ? diffReports(baseline, report) : [];
+  return {
+    report,
+    baseline,
+    changes,
+    passed: baseline
+      ? changes.every((change) => change.kind === "added")
+      : Boolean(emails),
+  };
+}
+
+// The draft replaces the saved workflow with the same id; unsaved drafts get a
+// provisional id so their matches can be told apart.
+export function dryRunWorkflow(
+  draft: Workflow,
+  workflows: Workflow[],
+  emails?: EmailPayload[],
+): WorkflowDryRun {
+  const workflowId = draft.id || `draft-${slugify(draft.name)}`;
+  const candidates = [
+    { ...draft, id: workflowId },
+    ...workflows.filter((workflow) => workflow.id !== workflowId),
+  ];
+  return { ...checkRouting(candidates, emails), workflowId };
+}
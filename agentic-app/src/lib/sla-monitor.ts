@@ -0,0 +1,155 @@
+import { systemActor } from "@/lib/audit";
+import { queueNotifications } from "@/lib/notifications";
+import { simulateEmail } from "@/lib/simulation";
+import {
+  SlaClock,
+  breachTag,
+  createSlaClock,
+  isOpen,
+  workflowEscalation,
+} from "@/lib/sla";
+import {
+  getWorkflow,
+  listSlaClocks,
+  listWorkflows,
+  prioritizeEmail,
+  recordActivity,
+  recordAudit,
+  saveSlaClocks,
+} from "@/lib/store";
+import {
+  ActionLogEntry,
+  EmailPayload,
+  WhatsAppNotification,
+} from "@/lib/types";
+
+const globalForSla = globalThis as typeof globalThis & {
+  slaTimer?: ReturnType<typeof setTimeout>;
+};
+
+// Matching is a dry run of the agent, so the clocks start for exactly the
+// workflows a run would pick at the moment the email arrives.
+export function startSlaClocks(email: EmailPayload) {
+  const workflows = listWorkflows();
+  const { workflowIds } = simulateEmail(email, workflows);
+  const running = new Set(
+    listSlaClocks()
+      .filter((clock) => clock.emailId === email.id && isOpen(clock))
+      .map((clock) => clock.workflowId),
+  );
+  const clocks = workflows
+    .filter(
+      (workflow) =>
+        workflowIds.includes(workflow.id) && !running.has(workflow.id),
+    )
+    .map((workflow) => createSlaClock(email, workflow));
+  saveSlaClocks(clocks);
+  scheduleSlaCheck();
+  return clocks;
+}
+
+export function stopSlaClocks(
+  emailId: string,
+  outcome: "handled" | "cancelled",
+) {
+  const completedAt = new Date().toISOString();
+  const stopped = listSlaClocks()
+    .filter((clock) => clock.emailId === emailId && isOpen(clock))
+    .map((clock): SlaClock =>
+      outcome === "cancelled"
+        ? { ...clock, status: "cancelled", completedAt }
+        : {
+            ...clock,
+            status: clock.status === "breached" ? "breached" : "met",
+            completedAt,
+          },
+    );
+  saveSlaClocks(stopped);
+  scheduleSlaCheck();
+  return stopped;
+}
+
+function escalate(clock: SlaClock): SlaClock {
+  const workflow = getWorkflow(clock.workflowId);
+  const escalation = workflow
+    ? workflowEscalation(workflow)
+    : { action: "none" as const };
+  const breachedAt = new Date().toISOString();
+  const label = workflow?.name ?? clock.workflowId;
+  const messages: WhatsAppNotification[] = [];
+
+  if (escalation.action === "notify") {
+    messages.push({
+      id: `notify-${clock.id}`,
+      to: escalation.to ?? process.env.SLA_ESCALATION_TO ?? "on-call",
+      timestamp: breachedAt,
+      message: `SLA breached: ${label} did not handle “${clock.subject}” within ${workflow?.slaMinutes ?? "?"} minutes (due ${clock.dueAt}).`,
+    });
+  } else if (escalation.action === "bump_priority") {
+    prioritizeEmail(clock.emailId, breachTag);
+  }
+
+  const log: ActionLogEntry = {
+    id: `log-${clock.id}-breached`,
+    workflowId: clock.workflowId,
+    timestamp: breachedAt,
+    title: `SLA breached: ${clock.subject}`,
+    body:
+      escalation.action === "none"
+        ? `${label} missed its ${workflow?.slaMinutes ?? "?"} minute SLA.`
+        : `${label} missed its ${workflow?.slaMinutes ?? "?"} minute SLA; escalated with ${escalation.action.replace("_", " ")}.`,
+  };
+  recordActivity([log], messages);
+  recordAudit([
+    {
+      type: "sla.breached",
+      emailId: clock.emailId,
+      workflowId: clock.workflowId,
+      actor: systemActor,
+      input: { clockId: clock.id, dueAt: clock.dueAt },
+      output: { escalation: escalation.action, notifications: messages },
+    },
+  ]);
+  queueNotifications(messages);
+
+  return {
+    ...clock,
+    status: "breached",
+    breachedAt,
+    escalatedWith: escalation.action,
+  };
+}
+
+export function checkSlaBreaches(now = Date.now()) {
+  const breached = listSlaClocks()
+    .filter(
+      (clock) =>
+        clock.status === "running" &&
+        clock.completedAt === null &&
+        new Date(clock.dueAt).getTime() <= now,
+    )
+    .map(escalate);
+  saveSlaClocks(breached);
+  scheduleSlaCheck();
+  return breached;
+}
+
+export function scheduleSlaCheck() {
+  const due = listSlaClocks()
+    .filter((clock) => clock.status === "running" && isOpen(clock))
+    .map((clock) => new Date(clock.dueAt).getTime());
+  clearTimeout(globalForSla.slaTimer);
+  if (!due.length) return;
+  // Timers longer than ~24.8 days overflow; re-check daily at most.
+  const delay = Math.min(
+    Math.max(Math.min(...due) - Date.now(), 0),
+    86_400_000,
+  );
+  globalForSla.slaTimer = setTimeout(() => {
+    try {
+      checkSlaBreaches();
+    } catch (error) {
+      console.error("[sla] breach check failed", error);
+    }
+  }, delay);
+}
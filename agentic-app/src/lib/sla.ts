@@ -0,0 +1,138 @@
+import { EmailPayload, Workflow } from "@/lib/types";
+
+export type SlaClockStatus = "running" | "met" | "breached" | "cancelled";
+
+export type EscalationAction = "notify" | "bump_priority" | "none";
+
+export const escalationActions: EscalationAction[] = [
+  "notify",
+  "bump_priority",
+  "none",
+];
+
+export interface SlaEscalation {
+  action: EscalationAction;
+  // Notification recipient; falls back to SLA_ESCALATION_TO.
+  to?: string;
+}
+
+export type EscalatingWorkflow = Workflow & { escalation?: SlaEscalation };
+
+// Tag the bump_priority escalation puts on a breached email.
+export const breachTag = "sla-breach";
+
+// One clock per (email, matching workflow), started each time the email is
+// queued; a requeued email gets new clocks next to the earlier ones. A breached
+// clock stays "breached" after the email is eventually handled.
+export interface SlaClock {
+  id: string;
+  emailId: string;
+  subject: string;
+  workflowId: string;
+  startedAt: string;
+  dueAt: string;
+  status: SlaClockStatus;
+  breachedAt: string | null;
+  completedAt: string | null;
+  escalatedWith: EscalationAction | null;
+}
+
+export interface SlaComplianceRow {
+  workflowId: string;
+  workflowName: string;
+  slaMinutes: number;
+  met: number;
+  breached: number;
+  running: number;
+  // Share of finished clocks that met the SLA, or null before any finished.
+  compliance: number | null;
+  averageMinutes: number | null;
+}
+
+export function workflowEscalation(workflow: Workflow): SlaEscalation {
+  const configured = (workflow as EscalatingWorkflow).escalation;
+  if (configured) return configured;
+  const fallback = process.env.SLA_ESCALATION as EscalationAction | undefined;
+  return {
+    action:
+      fallback && escalationActions.includes(fallback) ? fallback : "notify",
+  };
+}
+
+export function createSlaClock(
+  email: EmailPayload,
+  workflow: Workflow,
+  startedAt = new Date(),
+): SlaClock {
+  return {
+    id: `sla-${email.id}-${workflow.id}-${startedAt.getTime()}`,
+    emailId: email.id,
+    subject: email.subject,
+    workflowId: workflow.id,
+    startedAt: startedAt.toISOString(),
+    dueAt: new Date(
+      startedAt.getTime() + workflow.slaMinutes * 60_000,
+    ).toISOString(),
+    status: "running",
+    breachedAt: null,
+    completedAt: null,
+    escalatedWith: null,
+  };
+}
+
+export function isOpen(clock: SlaClock) {
+  return clock.completedAt === null && clock.status !== "cancelled";
+}
+
+// The clock that matters for an email is the one due soonest.
+export function nextDueClock(clocks: SlaClock[], emailId: string) {
+  return (
+    clocks
+      .filter((clock) => clock.emailId === emailId && isOpen(clock))
+      .sort((left, right) => left.dueAt.localeCompare(right.dueAt))[0] ?? null
+  );
+}
+
+export function describeSlaClock(clock: SlaClock, now = Date.now()) {
+  const minutes = Math.round((new Date(clock.dueAt).getTime() - now) / 60_000);
+  if (minutes >= 0) return `SLA ${minutes}m left`;
+  return `SLA breached ${-minutes}m ago`;
+}
+
+export function slaReport(
+  workflows: Workflow[],
+  clocks: SlaClock[],
+): SlaComplianceRow[] {
+  return workflows.map((workflow) => {
+    const own = clocks.filter((clock) => clock.workflowId === workflow.id);
+    const count = (status: SlaClockStatus) =>
+      own.filter((clock) => clock.status === status).length;
+    const finished = own.filter(
+      (clock) => clock.completedAt && clock.status !== "cancelled",
+    );
+    const met = count("met");
+    const breached = count("breached");
+    const durations = finished.map(
+      (clock) =>
+        (new Date(clock.completedAt as string).getTime() -
+          new Date(clock.startedAt).getTime()) /
+        60_000,
+    );
+    return {
+      workflowId: workflow.id,
+      workflowName: workflow.name,
+      slaMinutes: workflow.slaMinutes,
+      met,
+      breached,
+      running: count("running"),
+      compliance: met + breached ? met / (met + breached) : null,
+      averageMinutes: durations.length
+        ? Math.round(
+            (durations.reduce((sum, value) => sum + value, 0) /
+              durations.length) *
+              10,
+          ) / 10
+        : null,
+    };
+  });
+}
@@ -0,0 +1,224 @@
+import net from "node:net";
+import tls from "node:tls";
+
+// Just enough SMTP to hand a plain-text message to a relay: implicit TLS
+// (smtps://) or STARTTLS when offered, AUTH PLAIN, and a single recipient list.
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean;
+  username?: string;
+  password?: string;
+}
+
+export interface MailMessage {
+  from: string;
+  to: string[];
+  subject: string;
+  text: string;
+  headers?: Record<string, string>;
+}
+
+export class SmtpError extends Error {
+  constructor(
+    message: string,
+    public readonly code: number | null,
+  ) {
+    super(message);
+    this.name = "SmtpError";
+  }
+
+  // 4xx replies and dropped connections are worth retrying; 5xx are not.
+  get transient() {
+    return this.code === null || (this.code >= 400 && this.code < 500);
+  }
+}
+
+export function parseSmtpUrl(url: string): SmtpConfig {
+  const parsed = new URL(url);
+  if (parsed.protocol !== "smtp:" && parsed.protocol !== "smtps:") {
+    throw new Error(`Unsupported SMTP URL protocol ${parsed.protocol}`);
+  }
+  const secure = parsed.protocol === "smtps:";
+  return {
+    host: parsed.hostname,
+    port: Number(parsed.port) || (secure ? 465 : 587),
+    secure,
+    username: parsed.username ? decodeURIComponent(parsed.username) : undefined,
+    password: parsed.password ? decodeURIComponent(parsed.password) : undefined,
+  };
+}
+
+function encodeHeader(value: string) {
+  return /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value, "utf8").toString("base64")}?=`;
+}
+
+export function formatMessage(message: MailMessage) {
+  const headers: Record<string, string> = {
+    From: message.from,
+    To: message.to.join(", "),
+    Subject: encodeHeader(message.subject),
+    Date: new Date().toUTCString(),
+    "Message-ID": `<${crypto.randomUUID()}@${message.from.split("@")[1] ?? "localhost"}>`,
+    "MIME-Version": "1.0",
+    "Content-Type": "text/plain; charset=utf-8",
+    "Content-Transfer-Encoding": "base64",
+    ...message.headers,
+  };
+  const body =
+    Buffer.from(message.text, "utf8")
+      .toString("base64")
+      .match(/.{1,76}/g)
+      ?.join("\r\n") ?? "";
+  return `${Object.entries(headers)
+    .map(([name, value]) => `${name}: ${value}`)
+    .join("\r\n")}\r\n\r\n${body}`;
+}
+
+class Connection {
+  private buffer = "";
+  private waiting: ((line: string | null) => void) | null = null;
+  private closed = false;
+
+  constructor(private socket: net.Socket) {
+    this.attach(socket);
+  }
+
+  private attach(socket: net.Socket) {
+    socket.setEncoding("utf8");
+    socket.on("data", (chunk: string) => {
+      this.buffer += chunk;
+      this.flush();
+    });
+    socket.on("close", () => {
+      this.closed = true;
+      this.flush();
+    });
+    socket.on("error", () => socket.destroy());
+  }
+
+  private flush() {
+    if (!this.waiting) return;
+    const index = this.buffer.indexOf("\r\n");
+    if (index !== -1) {
+      const line = this.buffer.slice(0, index);
+      this.buffer = this.buffer.slice(index + 2);
+      const resolve = this.waiting;
+      this.waiting = null;
+      resolve(line);
+    } else if (this.closed) {
+      const resolve = this.waiting;
+      this.waiting = null;
+      resolve(null);
+    }
+  }
+
+  private readLine() {
+    return new Promise<string | null>((resolve) => {
+      this.waiting = resolve;
+      this.flush();
+    });
+  }
+
+  async reply(expected: number) {
+    const lines: string[] = [];
+    for (;;) {
+      const line = await this.readLine();
+      if (line === null) {
+        throw new SmtpError("SMTP connection closed unexpectedly", null);
+      }
+      lines.push(line.slice(4));
+      if (line[3] !== "-") {
+        const code = Number(line.slice(0, 3));
+        if (Math.floor(code / 100) !== Math.floor(expected / 100)) {
+          throw new SmtpError(`SMTP ${code}: ${lines.join(" ")}`, code);
+        }
+        return lines;
+      }
+    }
+  }
+
+  async command(line: string, expected: number) {
+    this.socket.write(`${line}\r\n`);
+    return this.reply(expected);
+  }
+
+  async upgrade(host: string) {
+    this.socket.removeAllListeners("data");
+    this.socket.removeAllListeners("close");
+    const secured = tls.connect({ socket: this.socket, servername: host });
+    await new Promise<void>((resolve, reject) => {
+      secured.once("secureConnect", resolve);
+      secured.once("error", reject);
+    });
+    this.socket = secured;
+    this.attach(secured);
+  }
+
+  close() {
+    this.socket.end();
+  }
+}
+
+function connect(config: SmtpConfig, timeoutMs: number) {
+  return new Promise<net.Socket>((resolve, reject) => {
+    const socket = config.secure
+      ? tls.connect({
+          host: config.host,
+          port: config.port,
+          servername: config.host,
+        })
+      : net.connect({ host: config.host, port: config.port });
+    socket.setTimeout(timeoutMs, () =>
+      socket.destroy(new SmtpError("SMTP connection timed out", null)),
+    );
+    socket.once(config.secure ? "secureConnect" : "connect", () =>
+      resolve(socket),
+    );
+    socket.once("error", (error) =>
+      reject(
+        error instanceof SmtpError ? error : new SmtpError(error.message, null),
+      ),
+    );
+  });
+}
+
+export async function sendMail(
+  config: SmtpConfig,
+  message: MailMessage,
+  timeoutMs = 15_000,
+) {
+  const connection = new Connection(await connect(config, timeoutMs));
+  try {
+    await connection.reply(220);
+    const capabilities = await connection.command("EHLO agentic-app", 250);
+    if (
+      !config.secure &&
+      capabilities.some((line) => /^STARTTLS/i.test(line))
+    ) {
+      await connection.command("STARTTLS", 220);
+      await connection.upgrade(config.host);
+      await connection.command("EHLO agentic-app", 250);
+    }
+    if (config.username) {
+      const token = Buffer.from(
+        `\0${config.username}\0${config.password ?? ""}`,
+      ).toString("base64");
+      await connection.command(`AUTH PLAIN ${token}`, 235);
+    }
+    await connection.command(`MAIL FROM:<${message.from}>`, 250);
+    for (const recipient of message.to) {
+      await connection.command(`RCPT TO:<${recipient}>`, 250);
+    }
+    await connection.command("DATA", 354);
+    const data = formatMessage(message).replace(/^\./gm, "..");
+    const [accepted] = await connection.command(`${data}\r\n.`, 250);
+    await connection.command("QUIT", 221).catch(() => undefined);
+    return { response: accepted };
+  } finally {
+    connection.close();
+  }
+}
@@ -0,0 +1,18 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { eventStream } from "@/lib/sse";
+
+test("a client abort after the stream was cancelled is ignored", async () => {
+  const client = new AbortController();
+  const response = eventStream(
+    new Request("http://localhost/api/events", { signal: client.signal }),
+    () => null,
+  );
+  const reader = response.body!.getReader();
+  assert.equal(
+    new TextDecoder().decode((await reader.read()).value),
+    "retry: 5000\n\n",
+  );
+  await reader.cancel();
+  assert.doesNotThrow(() => client.abort());
+});
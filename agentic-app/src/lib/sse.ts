@@ -0,0 +1,50 @@
+import { AgentEvent, subscribe } from "@/lib/events";
+
+const heartbeatMs = 25_000;
+
+// A server-sent event stream of whatever `format` returns for each event on
+// the bus; events it returns null for are not sent.
+export function eventStream(
+  request: Request,
+  format: (event: AgentEvent) => unknown,
+) {
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+  let closed = false;
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (chunk: string) => controller.enqueue(encoder.encode(chunk));
+      const unsubscribe = subscribe((event) => {
+        const data = format(event);
+        if (data !== null) send(`data: ${JSON.stringify(data)}\n\n`);
+      });
+      // Comments keep proxies from closing an idle stream.
+      const heartbeat = setInterval(
+        () => send(": keep-alive\n\n"),
+        heartbeatMs,
+      );
+      cleanup = () => {
+        closed = true;
+        clearInterval(heartbeat);
+        unsubscribe();
+      };
+      // The client may already have cancelled the stream, which closes it.
+      request.signal.addEventListener("abort", () => {
+        if (closed) return;
+        cleanup();
+        controller.close();
+      });
+      send("retry: 5000\n\n");
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+  return new Response(stream, {
+    headers: {
+      "content-type": "text/event-stream",
+      "cache-control": "no-cache, no-transform",
+      connection: "keep-alive",
+    },
+  });
+}
@@ -0,0 +1,720 @@
+import { AnalyticsReport, analyticsReport } from "@/lib/analytics";
+import { ApprovalRequest, ApprovalStatus } from "@/lib/approvals";
+import {
+  AuditActor,
+  AuditEntry,
+  AuditHead,
+  AuditQuery,
+  AuditRecord,
+  AuditVerification,
+  chainEntries,
+  matchesAuditQuery,
+  systemActor,
+  verifyChain,
+} from "@/lib/audit";
+import { NotificationDelivery, TrackedNotification } from "@/lib/channels";
+import { defaultWorkflows, seedEmails } from "@/lib/data";
+import { VaultDocument } from "@/lib/documents";
+import { publish } from "@/lib/events";
+import {
+  appendJsonLines,
+  readJsonFile,
+  readJsonLines,
+  writeJsonFile,
+} from "@/lib/file-store";
+import { Page, PageRequest, paginate } from "@/lib/pagination";
+import {
+  EmailPriority,
+  PriorityOverride,
+  orderByPriority,
+  prioritize,
+} from "@/lib/priority";
+import { ReplyDraft, ReplyStatus } from "@/lib/replies";
+import { OutcomeEmail } from "@/lib/run-outcomes";
+import { SearchQuery, search } from "@/lib/search";
+import { SlaClock, SlaComplianceRow, isOpen, slaReport } from "@/lib/sla";
+import { Application, ApplicationStage } from "@/lib/tracker";
+import {
+  ActionLogEntry,
+  EmailPayload,
+  ProcessedEmail,
+  WhatsAppNotification,
+  Workflow,
+} from "@/lib/types";
+import { slugify } from "@/lib/workflow-definition";
+import {
+  WorkflowChange,
+  WorkflowVersion,
+  diffWorkflows,
+  latestVersion,
+  nextVersion,
+} from "@/lib/workflow-versions";
+
+export interface AgentSnapshot {
+  workflows: Workflow[];
+  emailQueue: EmailPayload[];
+  approvals: ApprovalRequest[];
+  processedEmails: Page<ProcessedEmail>;
+  actionLog: Page<ActionLogEntry>;
+  whatsappMessages: Page<TrackedNotification>;
+  slaClocks: SlaClock[];
+  slaReport: SlaComplianceRow[];
+  analytics: AnalyticsReport;
+  applications: Application[];
+  documents: VaultDocument[];
+  replyDrafts: ReplyDraft[];
+  priorities: EmailPriority[];
+}
+
+interface MutableState {
+  workflows: Workflow[];
+  emailQueue: EmailPayload[];
+  receivedMessageIds: string[];
+  approvals: ApprovalRequest[];
+  deliveries: NotificationDelivery[];
+  slaClocks: SlaClock[];
+  autopilotPaused: boolean | null;
+  applications: Application[];
+  documents: VaultDocument[];
+  replyDrafts: ReplyDraft[];
+  priorityOverrides: PriorityOverride[];
+  // Last record in the audit file, kept apart from it so a truncated trail
+  // shows up in verification.
+  auditHead: AuditHead | null;
+}
+
+interface AgentState extends MutableState {
+  processedEmails: ProcessedEmail[];
+  actionLog: ActionLogEntry[];
+  whatsappMessages: WhatsAppNotification[];
+  workflowVersions: WorkflowVersion[];
+}
+
+const stateFile = "state.json";
+const processedFile = "processed-emails.jsonl";
+const actionLogFile = "action-log.jsonl";
+const whatsappFile = "whatsapp-messages.jsonl";
+const auditFile = "audit-log.jsonl";
+const workflowVersionsFile = "workflow-versions.jsonl";
+
+// Providers retry within hours, so only the most recent message ids need
+// remembering.
+const maxReceivedMessageIds = 5000;
+
+// Kept on globalThis so dev-server module reloads don't reset the agent.
+const globalForStore = globalThis as typeof globalThis & {
+  agentState?: AgentState;
+};
+
+// History files are append-only (oldest first); memory keeps newest first.
+function load(): AgentState {
+  const mutable = readJsonFile<Partial<MutableState>>(stateFile, {});
+  return {
+    workflows: mutable.workflows ?? [...defaultWorkflows],
+    emailQueue: mutable.emailQueue ?? [...seedEmails],
+    receivedMessageIds: mutable.receivedMessageIds ?? [],
+    approvals: mutable.approvals ?? [],
+    deliveries: mutable.deliveries ?? [],
+    slaClocks: mutable.slaClocks ?? [],
+    autopilotPaused: mutable.autopilotPaused ?? null,
+    applications: mutable.applications ?? [],
+    documents: mutable.documents ?? [],
+    replyDrafts: mutable.replyDrafts ?? [],
+    priorityOverrides: mutable.priorityOverrides ?? [],
+    auditHead: mutable.auditHead ?? null,
+    processedEmails: latestRuns(
+      readJsonLines<ProcessedEmail>(processedFile).reverse(),
+    ),
+    actionLog: readJsonLines<ActionLogEntry>(actionLogFile).reverse(),
+    whatsappMessages:
+      readJsonLines<WhatsAppNotification>(whatsappFile).reverse(),
+    workflowVersions:
+      readJsonLines<WorkflowVersion>(workflowVersionsFile).reverse(),
+  };
+}
+
+// A retried run is appended again under its runId; newest first, so the
+// first copy of each is the latest.
+function latestRuns(processed: ProcessedEmail[]) {
+  const seen = new Set<string>();
+  return processed.filter((item) => {
+    const { runId } = item as OutcomeEmail;
+    if (!runId) return true;
+    if (seen.has(runId)) return false;
+    seen.add(runId);
+    return true;
+  });
+}
+
+// Workflows saved before versioning existed start their history at v1.
+function baselineVersions(loaded: AgentState) {
+  const baseline = loaded.workflows
+    .filter((workflow) => !latestVersion(loaded.workflowVersions, workflow.id))
+    .map((workflow) =>
+      nextVersion(loaded.workflowVersions, null, workflow, {
+        source: "created",
+        actor: systemActor,
+      }),
+    )
+    .filter((version): version is WorkflowVersion => version !== null);
+  loaded.workflowVersions = [...baseline, ...loaded.workflowVersions];
+  appendJsonLines(workflowVersionsFile, baseline);
+  return loaded;
+}
+
+function state(): AgentState {
+  globalForStore.agentState ??= baselineVersions(load());
+  return globalForStore.agentState;
+}
+
+function persist() {
+  const {
+    workflows,
+    emailQueue,
+    receivedMessageIds,
+    approvals,
+    deliveries,
+    slaClocks,
+    autopilotPaused,
+    applications,
+    documents,
+    replyDrafts,
+    priorityOverrides,
+    auditHead,
+  } = state();
+  writeJsonFile(stateFile, {
+    workflows,
+    emailQueue,
+    receivedMessageIds,
+    approvals,
+    deliveries,
+    slaClocks,
+    autopilotPaused,
+    applications,
+    documents,
+    replyDrafts,
+    priorityOverrides,
+    auditHead,
+  });
+}
+
+// Replaces records with a matching id in place and puts new ones first.
+function upsert<T extends { id: string }>(existing: T[], updates: T[]) {
+  const byId = new Map(updates.map((item) => [item.id, item]));
+  const replaced = existing.map((item) => {
+    const update = byId.get(item.id);
+    byId.delete(item.id);
+    return update ?? item;
+  });
+  return [...byId.values(), ...replaced];
+}
+
+export function getSnapshot(): AgentSnapshot {
+  const current = state();
+  const { emails, priorities } = rankQueue();
+  return {
+    workflows: [...current.workflows],
+    emailQueue: emails,
+    approvals: listApprovals("pending"),
+    processedEmails: paginate(current.processedEmails),
+    actionLog: paginate(current.actionLog),
+    whatsappMessages: listWhatsAppMessages(),
+    slaClocks: current.slaClocks.filter(isOpen),
+    slaReport: slaReport(current.workflows, current.slaClocks),
+    analytics: getAnalytics(),
+    applications: [...current.applications],
+    documents: [...current.documents],
+    replyDrafts: current.replyDrafts.filter(
+      (draft) => draft.status === "draft" || draft.status === "failed",
+    ),
+    priorities,
+  };
+}
+
+export function listWorkflows() {
+  return [...state().workflows];
+}
+
+export function getWorkflow(id: string) {
+  return state().workflows.find((workflow) => workflow.id === id) ?? null;
+}
+
+// Every change that alters the definition becomes a new version; saving the
+// same definition again does not.
+export function saveWorkflow(workflow: Workflow, change: WorkflowChange) {
+  const current = state();
+  const existing = getWorkflow(workflow.id);
+  const version = nextVersion(
+    current.workflowVersions,
+    existing,
+    workflow,
+    change,
+  );
+  current.workflows = existing
+    ? current.workflows.map((item) =>
+        item.id === workflow.id ? workflow : item,
+      )
+    : [workflow, ...current.workflows];
+  persist();
+  if (version) {
+    current.workflowVersions = [version, ...current.workflowVersions];
+    appendJsonLines(workflowVersionsFile, [version]);
+    recordAudit([
+      {
+        type: "workflow.changed",
+        emailId: null,
+        workflowId: workflow.id,
+        actor: change.actor,
+        input: {
+          source: change.source,
+          restoredFrom: change.restoredFrom,
+          changes: diffWorkflows(existing, workflow),
+        },
+        output: { version: version.version },
+      },
+    ]);
+  }
+  return workflow;
+}
+
+function uniqueWorkflowId(base: string) {
+  const taken = new Set(state().workflows.map((workflow) => workflow.id));
+  let candidate = base;
+  for (let suffix = 2; taken.has(candidate); suffix += 1) {
+    candidate = `${base}-${suffix}`;
+  }
+  return candidate;
+}
+
+// Workflows without an id get a slug of their name, suffixed until unique.
+export function createWorkflow(workflow: Workflow, change: WorkflowChange) {
+  return saveWorkflow(
+    {
+      ...workflow,
+      id: workflow.id || uniqueWorkflowId(slugify(workflow.name)),
+    },
+    change,
+  );
+}
+
+// History outlives the workflow so past runs stay explainable and a deleted
+// workflow can be rolled back into existence.
+export function deleteWorkflow(id: string, actor: AuditActor) {
+  const current = state();
+  const before = current.workflows.length;
+  current.workflows = current.workflows.filter((item) => item.id !== id);
+  if (current.workflows.length === before) return false;
+  persist();
+  recordAudit([
+    {
+      type: "workflow.deleted",
+      emailId: null,
+      workflowId: id,
+      actor,
+      input: null,
+      output: null,
+    },
+  ]);
+  return true;
+}
+
+// Newest first.
+export function listWorkflowVersions(id: string) {
+  return state().workflowVersions.filter(
+    (version) => version.workflowId === id,
+  );
+}
+
+export function getWorkflowVersion(id: string, version: number) {
+  return (
+    state().workflowVersions.find(
+      (item) => item.workflowId === id && item.version === version,
+    ) ?? null
+  );
+}
+
+export function currentWorkflowVersion(id: string) {
+  return latestVersion(state().workflowVersions, id)?.version ?? null;
+}
+
+export function rollbackWorkflow(
+  id: string,
+  version: number,
+  actor: AuditActor,
+) {
+  const target = getWorkflowVersion(id, version);
+  if (!target) return null;
+  return saveWorkflow(target.workflow, {
+    source: "rollback",
+    actor,
+    restoredFrom: version,
+  });
+}
+
+export function listQueue() {
+  return [...state().emailQueue];
+}
+
+// The queue in the order it should be worked, with the reasons for each rank.
+export function rankQueue() {
+  const current = state();
+  const priorities = prioritize(current.emailQueue, {
+    clocks: current.slaClocks,
+    processed: current.processedEmails,
+    overrides: current.priorityOverrides,
+  });
+  return {
+    emails: orderByPriority(current.emailQueue, priorities),
+    priorities,
+  };
+}
+
+// Every open dashboard gets the re-ranked queue after each change.
+function publishQueue() {
+  publish({ type: "queue", ...rankQueue() });
+}
+
+export function getQueuedEmail(id: string) {
+  return state().emailQueue.find((email) => email.id === id) ?? null;
+}
+
+export function enqueueEmail<T extends EmailPayload>(email: T) {
+  const current = state();
+  current.emailQueue = [
+    email,
+    ...current.emailQueue.filter((item) => item.id !== email.id),
+  ];
+  persist();
+  publishQueue();
+  return email;
+}
+
+// Returns false when the message was already received, so webhook retries and
+// duplicate deliveries are not queued twice.
+export function claimMessageId(messageId: string) {
+  const current = state();
+  if (current.receivedMessageIds.includes(messageId)) return false;
+  current.receivedMessageIds = [...current.receivedMessageIds, messageId].slice(
+    -maxReceivedMessageIds,
+  );
+  persist();
+  return true;
+}
+
+// For a message that was claimed but could not be accepted, so the sender's
+// retry is not turned away as a duplicate.
+export function releaseMessageId(messageId: string) {
+  const current = state();
+  current.receivedMessageIds = current.receivedMessageIds.filter(
+    (id) => id !== messageId,
+  );
+  persist();
+}
+
+// Moves a queued email to the front and tags it, e.g. after an SLA breach.
+export function prioritizeEmail(id: string, tag: string) {
+  const email = getQueuedEmail(id);
+  if (!email) return null;
+  return enqueueEmail({
+    ...email,
+    tags: email.tags.includes(tag) ? email.tags : [...email.tags, tag],
+  });
+}
+
+export function removeFromQueue(id: string) {
+  const current = state();
+  const before = current.emailQueue.length;
+  current.emailQueue = current.emailQueue.filter((item) => item.id !== id);
+  if (current.emailQueue.length === before) return false;
+  current.priorityOverrides = current.priorityOverrides.filter(
+    (item) => item.emailId !== id,
+  );
+  persist();
+  publishQueue();
+  return true;
+}
+
+export function recordRun(
+  processedEmail: ProcessedEmail,
+  logs: ActionLogEntry[],
+  whatsappMessages: WhatsAppNotification[],
+) {
+  const current = state();
+  current.processedEmails = latestRuns([
+    processedEmail,
+    ...current.processedEmails,
+  ]);
+  appendJsonLines(processedFile, [processedEmail]);
+  recordActivity(logs, whatsappMessages);
+}
+
+// For log lines and messages produced outside a run, e.g. approval decisions.
+export function recordActivity(
+  logs: ActionLogEntry[],
+  whatsappMessages: WhatsAppNotification[] = [],
+) {
+  const current = state();
+  current.actionLog = [...logs, ...current.actionLog];
+  current.whatsappMessages = [...whatsappMessages, ...current.whatsappMessages];
+  appendJsonLines(actionLogFile, [...logs].reverse());
+  appendJsonLines(whatsappFile, [...whatsappMessages].reverse());
+  publish({
+    type: "activity",
+    logs,
+    notifications: whatsappMessages.map(tracked),
+  });
+}
+
+export function recordAudit(entries: AuditEntry[]) {
+  const current = state();
+  const records = chainEntries(current.auditHead, entries);
+  const last = records.at(-1);
+  if (!last) return records;
+  appendJsonLines(auditFile, records);
+  current.auditHead = { seq: last.seq, hash: last.hash };
+  persist();
+  return records;
+}
+
+// The audit trail is read from disk every time, never cached, so exports and
+// verification see exactly what is stored. Oldest first.
+export function listAuditRecords(query: AuditQuery) {
+  return readJsonLines<AuditRecord>(auditFile).filter((record) =>
+    matchesAuditQuery(record, query),
+  );
+}
+
+export function verifyAuditTrail(): AuditVerification {
+  const { auditHead } = state();
+  let records: AuditRecord[];
+  try {
+    records = readJsonLines<AuditRecord>(auditFile);
+  } catch {
+    return {
+      valid: false,
+      checked: 0,
+      head: auditHead,
+      problem: { seq: 0, reason: `${auditFile} is not valid JSON Lines` },
+    };
+  }
+  return verifyChain(records, auditHead);
+}
+
+export function listApprovals(status?: ApprovalStatus) {
+  const { approvals } = state();
+  return status
+    ? approvals.filter((approval) => approval.status === status)
+    : [...approvals];
+}
+
+export function getApproval(id: string) {
+  return state().approvals.find((approval) => approval.id === id) ?? null;
+}
+
+export function saveApprovals(approvals: ApprovalRequest[]) {
+  if (!approvals.length) return;
+  const current = state();
+  current.approvals = upsert(current.approvals, approvals);
+  persist();
+}
+
+export function listProcessedEmails(page?: PageRequest) {
+  return paginate(state().processedEmails, page);
+}
+
+export function getLatestRun(emailId: string): OutcomeEmail | null {
+  return (
+    state().processedEmails.find((item) => item.email.id === emailId) ?? null
+  );
+}
+
+export function searchAll(query: SearchQuery, page?: PageRequest) {
+  const current = state();
+  return search(
+    {
+      queue: rankQueue().emails,
+      processed: current.processedEmails,
+      log: current.actionLog,
+      workflows: current.workflows,
+      clocks: current.slaClocks,
+      approvals: current.approvals,
+    },
+    query,
+    page,
+  );
+}
+
+export function listActionLog(page?: PageRequest) {
+  return paginate(state().actionLog, page);
+}
+
+function tracked(message: WhatsAppNotification): TrackedNotification {
+  return {
+    ...message,
+    deliveries: state().deliveries.filter(
+      (delivery) => delivery.notificationId === message.id,
+    ),
+  };
+}
+
+export function listWhatsAppMessages(
+  page?: PageRequest,
+): Page<TrackedNotification> {
+  const result = paginate(state().whatsappMessages, page);
+  return { ...result, items: result.items.map(tracked) };
+}
+
+export function getWhatsAppMessage(id: string) {
+  return state().whatsappMessages.find((message) => message.id === id) ?? null;
+}
+
+export function listDeliveries() {
+  return [...state().deliveries];
+}
+
+export function findDeliveryByProviderId(providerMessageId: string) {
+  return (
+    state().deliveries.find(
+      (delivery) => delivery.providerMessageId === providerMessageId,
+    ) ?? null
+  );
+}
+
+export function saveDeliveries(deliveries: NotificationDelivery[]) {
+  if (!deliveries.length) return;
+  const current = state();
+  current.deliveries = upsert(current.deliveries, deliveries);
+  persist();
+  const ids = new Set(deliveries.map((delivery) => delivery.notificationId));
+  publish({
+    type: "activity",
+    logs: [],
+    notifications: current.whatsappMessages
+      .filter((message) => ids.has(message.id))
+      .map(tracked),
+  });
+}
+
+export function listSlaClocks() {
+  return [...state().slaClocks];
+}
+
+export function saveSlaClocks(clocks: SlaClock[]) {
+  if (!clocks.length) return;
+  const current = state();
+  current.slaClocks = upsert(current.slaClocks, clocks);
+  persist();
+  // Clocks move emails up the queue.
+  publishQueue();
+}
+
+export function getSlaReport() {
+  const current = state();
+  return slaReport(current.workflows, current.slaClocks);
+}
+
+export function getAnalytics(windowHours?: number) {
+  const current = state();
+  return analyticsReport(
+    current.workflows,
+    current.processedEmails,
+    current.slaClocks,
+    { windowHours },
+  );
+}
+
+// null until someone pauses or resumes, so the env default still applies.
+export function getAutopilotPaused() {
+  return state().autopilotPaused;
+}
+
+export function setAutopilotPaused(paused: boolean) {
+  state().autopilotPaused = paused;
+  persist();
+}
+
+export function listApplications(stage?: ApplicationStage) {
+  const { applications } = state();
+  return stage
+    ? applications.filter((application) => application.stage === stage)
+    : [...applications];
+}
+
+export function getApplication(id: string) {
+  return (
+    state().applications.find((application) => application.id === id) ?? null
+  );
+}
+
+export function saveApplications(applications: Application[]) {
+  if (!applications.length) return;
+  const current = state();
+  current.applications = upsert(current.applications, applications);
+  persist();
+}
+
+export function listDocuments() {
+  return [...state().documents];
+}
+
+export function getDocument(id: string) {
+  return state().documents.find((document) => document.id === id) ?? null;
+}
+
+export function saveDocument(document: VaultDocument) {
+  const current = state();
+  current.documents = upsert(current.documents, [document]);
+  persist();
+  return document;
+}
+
+export function deleteDocument(id: string) {
+  const current = state();
+  const before = current.documents.length;
+  current.documents = current.documents.filter((item) => item.id !== id);
+  if (current.documents.length === before) return false;
+  persist();
+  return true;
+}
+
+export function listReplyDrafts(
+  filter: { status?: ReplyStatus; emailId?: string } = {},
+) {
+  return state().replyDrafts.filter(
+    (draft) =>
+      (!filter.status || draft.status === filter.status) &&
+      (!filter.emailId || draft.emailId === filter.emailId),
+  );
+}
+
+export function getReplyDraft(id: string) {
+  return state().replyDrafts.find((draft) => draft.id === id) ?? null;
+}
+
+export function saveReplyDrafts(drafts: ReplyDraft[]) {
+  if (!drafts.length) return;
+  const current = state();
+  current.replyDrafts = upsert(current.replyDrafts, drafts);
+  persist();
+}
+
+// An override that neither pins nor sets a priority is dropped.
+export function savePriorityOverride(override: PriorityOverride) {
+  const current = state();
+  const others = current.priorityOverrides.filter(
+    (item) => item.emailId !== override.emailId,
+  );
+  current.priorityOverrides =
+    override.pinned || override.priority !== null
+      ? [override, ...others]
+      : others;
+  persist();
+  publishQueue();
+  return override;
+}
+
+export function getPriorityOverride(emailId: string) {
+  return (
+    state().priorityOverrides.find((item) => item.emailId === emailId) ?? null
+  );
+}
@@ -0,0 +1,142 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import {
+  Application,
+  applyUpdate,
+  findApplication,
+  inferStage,
+  roleTitle,
+  trackEmail,
+} from "@/lib/tracker";
+import { EmailPayload } from "@/lib/types";
+
+let sequence = 0;
+
+function email(subject: string, body: string, sender = "talent@datanest.com") {
+  sequence += 1;
+  return {
+    id: `email-tracker-${sequence}`,
+    subject,
+    sender,
+    senderName: "DataNest Talent",
+    to: "you@example.com",
+    preview: "",
+    body,
+    receivedAt: "2024-05-08T16:30:00.000Z",
+    tags: ["job"],
+  } as EmailPayload;
+}
+
+test("stage signals are checked in order", () => {
+  const stage = (subject: string, body = "") =>
+    inferStage(email(subject, body));
+  assert.equal(
+    stage("Update", "Unfortunately, after your interview we went another way."),
+    "rejected",
+  );
+  assert.equal(stage("Your offer letter"), "offer");
+  assert.equal(
+    stage("Congratulations!", "Congratulations on reaching the final round."),
+    "interview",
+  );
+  assert.equal(stage("Thank you for applying"), "submitted");
+  assert.equal(stage("Round 1 invitation"), null);
+});
+
+test("follow-up subjects reduce to the role", () => {
+  assert.equal(
+    roleTitle("Re: Backend role opportunity – Round 2"),
+    "Backend role opportunity",
+  );
+  assert.equal(roleTitle("Fwd: Data engineer update"), "Data engineer");
+});
+
+test("follow-ups move the application forward, never back", () => {
+  const opening = email(
+    "Data engineer position",
+    "Thank you for applying. Apply via https://careers.datanest.com/apply by 2024-05-20.",
+  );
+  const created = trackEmail([], opening, "job-desk");
+  assert.equal(created.stage, "submitted");
+  assert.equal(created.role, "Data engineer position");
+  assert.equal(created.portalUrl, "https://careers.datanest.com/apply");
+  assert.equal(created.deadline, "2024-05-20");
+  assert.equal(created.kind, "job");
+
+  const interview = email(
+    "Re: Data engineer position - next steps",
+    "Could you share two interview slots next week?",
+  );
+  assert.equal(findApplication([created], interview)?.id, created.id);
+  const moved = trackEmail([created], interview, "job-desk");
+  assert.equal(moved.id, created.id);
+  assert.equal(moved.stage, "interview");
+  assert.deepEqual(moved.emailIds, [opening.id, interview.id]);
+  assert.deepEqual(
+    moved.history.map((change) => change.stage),
+    ["submitted", "interview"],
+  );
+
+  const late = trackEmail(
+    [moved],
+    email("Data engineer position", "Thank you for applying again."),
+    "job-desk",
+  );
+  assert.equal(late.stage, "interview");
+});
+
+test("another domain or role starts a new application", () => {
+  const existing = trackEmail(
+    [],
+    email("Data engineer position", "Thank you for applying."),
+    "job-desk",
+  );
+  const elsewhere = email(
+    "Data engineer position",
+    "Thank you for applying.",
+    "jobs@otherco.com",
+  );
+  assert.equal(findApplication([existing], elsewhere), null);
+  assert.equal(
+    findApplication(
+      [existing],
+      email("Frontend developer role", "Thank you for applying."),
+    ),
+    null,
+  );
+});
+
+test("a date already past is not the tracked deadline", () => {
+  const application = trackEmail(
+    [],
+    email(
+      "Scholarship application",
+      "The first round closed by 2024-04-30. Send your essay by 2024-05-15.",
+      "awards@brightfuture.edu",
+    ),
+    "scholarship-desk",
+  );
+  assert.equal(application.kind, "scholarship");
+  assert.equal(application.deadline, "2024-05-15");
+});
+
+test("a human can move an application anywhere", () => {
+  const application: Application = trackEmail(
+    [],
+    email("Your offer letter", "We are pleased to offer you the role."),
+    "job-desk",
+  );
+  assert.equal(application.stage, "offer");
+  const reopened = applyUpdate(application, {
+    stage: "interview",
+    deadline: null,
+    note: "Offer withdrawn; one more round",
+  });
+  assert.equal(reopened.stage, "interview");
+  assert.equal(reopened.deadline, null);
+  assert.equal(
+    reopened.history.at(-1)?.note,
+    "Offer withdrawn; one more round",
+  );
+  assert.equal(applyUpdate(reopened, {}).history.length, 2);
+});
@@ -0,0 +1,306 @@
+import {
+  extractDeadlines,
+  extractLinks,
+  upcomingDeadline,
+} from "@/lib/extraction";
+import { ActionLogEntry, EmailPayload } from "@/lib/types";
+
+export type ApplicationStage =
+  "drafted" | "submitted" | "interview" | "offer" | "rejected";
+
+export const applicationStages: ApplicationStage[] = [
+  "drafted",
+  "submitted",
+  "interview",
+  "offer",
+  "rejected",
+];
+
+export type ApplicationKind = "scholarship" | "job";
+
+export interface StageChange {
+  stage: ApplicationStage;
+  at: string;
+  emailId?: string;
+  note: string;
+}
+
+export interface Application {
+  id: string;
+  kind: ApplicationKind;
+  organization: string;
+  // Sender domain; follow-ups from the same domain are matched against it.
+  domain: string;
+  role: string;
+  portalUrl: string | null;
+  // Calendar date (YYYY-MM-DD) when one could be read from the email.
+  deadline: string | null;
+  stage: ApplicationStage;
+  workflowId: string | null;
+  emailIds: string[];
+  history: StageChange[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ApplicationUpdate {
+  stage?: ApplicationStage;
+  deadline?: string | null;
+  portalUrl?: string | null;
+  note?: string;
+}
+
+export const stageLabels: Record<ApplicationStage, string> = {
+  drafted: "Drafted",
+  submitted: "Submitted",
+  interview: "Interview",
+  offer: "Offer",
+  rejected: "Rejected",
+};
+
+const stageRank: Record<ApplicationStage, number> = {
+  drafted: 0,
+  submitted: 1,
+  interview: 2,
+  offer: 3,
+  rejected: 3,
+};
+
+export function isClosed(application: Application) {
+  return application.stage === "offer" || application.stage === "rejected";
+}
+
+// Checked in order, so "unfortunately … after your interview" is a rejection.
+// A first "Round 1" email is the opening itself, not an interview, and
+// "congratulations" alone is as likely to mean a finalist spot as an offer.
+const stageSignals: [ApplicationStage, RegExp][] = [
+  [
+    "rejected",
+    /\b(unfortunately|regret to|not been selected|not selected|not moving forward|unsuccessful)\b/i,
+  ],
+  [
+    "offer",
+    /\b(offer letter|pleased to offer|you have been awarded|congratulations[^.!?]{0,40}\b(offers?|award(ed)?|accepted))\b/i,
+  ],
+  [
+    "interview",
+    /\b(interview|round [2-9]|next round|final round|finalist|assessment|shortlisted)\b/i,
+  ],
+  [
+    "submitted",
+    /\b(application (has been )?received|received your application|thank you for applying|successfully submitted)\b/i,
+  ],
+];
+
+export function inferStage(email: EmailPayload): ApplicationStage | null {
+  const text = `${email.subject}\n${email.body}`;
+  return stageSignals.find(([, pattern]) => pattern.test(text))?.[0] ?? null;
+}
+
+const followUpPattern =
+  /\b(re|fwd?):|follow[- ]?up|reminder|update|round \d+|next steps/i;
+
+const fillerWords = new Set([
+  "a",
+  "an",
+  "and",
+  "application",
+  "for",
+  "from",
+  "in",
+  "of",
+  "opportunity",
+  "the",
+  "to",
+  "your",
+]);
+
+// "Re: Backend role opportunity – Round 2" and "Backend role opportunity"
+// both reduce to "backend role".
+export function roleTitle(subject: string) {
+  return (
+    subject
+      .replace(/^\s*((re|fwd?|fw)\s*:\s*)+/i, "")
+      .replace(
+        /\s*[-–—:|]?\s*(round \d+|follow[- ]?up|reminder|update)\b.*$/i,
+        "",
+      )
+      .trim() || subject.trim()
+  );
+}
+
+function roleTokens(role: string) {
+  return new Set(
+    role
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter((word) => word && !fillerWords.has(word)),
+  );
+}
+
+function sameRole(left: string, right: string) {
+  const a = roleTokens(left);
+  const b = roleTokens(right);
+  if (!a.size || !b.size) return false;
+  const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+  return [...small].every((word) => large.has(word));
+}
+
+function senderDomain(email: EmailPayload) {
+  return email.sender.split("@").pop()?.toLowerCase() ?? email.sender;
+}
+
+// The apply/submit link and the first deadline not already past when the
+// email arrived, as calendar date.
+function portalAndDeadline(email: EmailPayload) {
+  const text = `${email.subject}\n${email.body}`;
+  const links = extractLinks(text);
+  const portalUrl =
+    links.find((link) => link.intent === "apply" || link.intent === "submit")
+      ?.url ??
+    links[0]?.url ??
+    null;
+  const deadline =
+    upcomingDeadline(
+      extractDeadlines(text, email.receivedAt),
+      email.receivedAt,
+    )?.dueAt.slice(0, 10) ?? null;
+  return { portalUrl, deadline };
+}
+
+// The application an email belongs to: one it was already filed under, an
+// open one from the same sender domain with a matching role, or the only open
+// one from that domain when the email reads like a follow-up.
+export function findApplication(
+  applications: Application[],
+  email: EmailPayload,
+) {
+  const filed = applications.find((application) =>
+    application.emailIds.includes(email.id),
+  );
+  if (filed) return filed;
+  const domain = senderDomain(email);
+  const role = roleTitle(email.subject);
+  const candidates = applications.filter(
+    (application) => application.domain === domain && !isClosed(application),
+  );
+  return (
+    candidates.find((application) => sameRole(application.role, role)) ??
+    (candidates.length === 1 && followUpPattern.test(email.subject)
+      ? candidates[0]
+      : null)
+  );
+}
+
+export function moveToStage(
+  application: Application,
+  change: StageChange,
+): Application {
+  return {
+    ...application,
+    stage: change.stage,
+    history: [...application.history, change],
+    updatedAt: change.at,
+  };
+}
+
+// Emails only ever move an application forward; a human can move it anywhere.
+export function trackEmail(
+  applications: Application[],
+  email: EmailPayload,
+  workflowId: string,
+  options: { submitted?: boolean } = {},
+): Application {
+  const at = new Date().toISOString();
+  const text = `${email.subject}\n${email.body}`;
+  const inferred =
+    inferStage(email) ?? (options.submitted ? "submitted" : null);
+  const existing = findApplication(applications, email);
+  const { portalUrl, deadline } = portalAndDeadline(email);
+
+  if (existing) {
+    const updated: Application = {
+      ...existing,
+      emailIds: existing.emailIds.includes(email.id)
+        ? existing.emailIds
+        : [...existing.emailIds, email.id],
+      portalUrl: existing.portalUrl ?? portalUrl,
+      deadline: deadline ?? existing.deadline,
+      updatedAt: at,
+    };
+    if (
+      inferred &&
+      !isClosed(existing) &&
+      stageRank[inferred] > stageRank[existing.stage]
+    ) {
+      return moveToStage(updated, {
+        stage: inferred,
+        at,
+        emailId: email.id,
+        note: email.subject,
+      });
+    }
+    return updated;
+  }
+
+  const stage = inferred ?? "drafted";
+  return {
+    id: `application-${crypto.randomUUID()}`,
+    kind: /scholarship|grant|fellowship|bursary|award/i.test(text)
+      ? "scholarship"
+      : "job",
+    organization: email.senderName || senderDomain(email),
+    domain: senderDomain(email),
+    role: roleTitle(email.subject),
+    portalUrl,
+    deadline,
+    stage,
+    workflowId,
+    emailIds: [email.id],
+    history: [{ stage, at, emailId: email.id, note: email.subject }],
+    createdAt: at,
+    updatedAt: at,
+  };
+}
+
+export function applyUpdate(
+  application: Application,
+  update: ApplicationUpdate,
+): Application {
+  const at = new Date().toISOString();
+  const updated: Application = {
+    ...application,
+    ...(update.deadline !== undefined ? { deadline: update.deadline } : {}),
+    ...(update.portalUrl !== undefined ? { portalUrl: update.portalUrl } : {}),
+    updatedAt: at,
+  };
+  if (update.stage && update.stage !== application.stage) {
+    return moveToStage(updated, {
+      stage: update.stage,
+      at,
+      note: update.note ?? "Moved by hand",
+    });
+  }
+  return updated;
+}
+
+export function trackerLogEntry(
+  before: Application | null,
+  after: Application,
+  workflowId: string,
+): ActionLogEntry {
+  const moved = before && before.stage !== after.stage;
+  return {
+    id: `log-${after.id}-${after.updatedAt}`,
+    workflowId,
+    timestamp: after.updatedAt,
+    title: before
+      ? `Tracker: ${after.role}`
+      : `Tracker: new application ${after.role}`,
+    body: moved
+      ? `${after.organization} moved from ${stageLabels[before.stage]} to ${stageLabels[after.stage]}.`
+      : before
+        ? `${after.organization} follow-up recorded; still ${stageLabels[after.stage]}.`
+        : `${after.organization} tracked as ${stageLabels[after.stage]}${after.deadline ? `, deadline ${after.deadline}` : ""}.`,
+  };
+}
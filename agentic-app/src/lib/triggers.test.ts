@@ -0,0 +1,143 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import {
+  ConditionSyntaxError,
+  evaluateCondition,
+  formatCondition,
+  parseConditionExpression,
+  readCondition,
+} from "@/lib/triggers";
+import { EmailPayload } from "@/lib/types";
+
+// Monday 2024-05-06, 09:15 UTC.
+const email = {
+  id: "email-offer",
+  subject: "Offer letter for Backend Engineer",
+  sender: "Recruiter@jobs.TechHire.io",
+  senderName: "TechHire Recruiting",
+  to: "you@example.com",
+  preview: "",
+  body: "Apply at https://techhire.io/roles/42/apply by Friday.",
+  receivedAt: "2024-05-06T09:15:00.000Z",
+  tags: ["Job"],
+  attachments: [
+    { filename: "offer.pdf", contentType: "application/pdf", size: 42 },
+  ],
+} as EmailPayload;
+
+function matches(expression: string, target: EmailPayload = email) {
+  return evaluateCondition(parseConditionExpression(expression)!, target);
+}
+
+test("terms match the email", () => {
+  const cases: [string, boolean][] = [
+    ["sender:*@*.techhire.io", true],
+    ["from:someone@techhire.io", false],
+    ["domain:techhire.io", true],
+    ["domain:@jobs.techhire.io", true],
+    ["domain:hire.io", false],
+    ["tag:JOB", true],
+    ["subject:offer", true],
+    ["subject:/offer/", false],
+    ["subject:/^Offer/", true],
+    ["body:/https?:\\/\\/\\S+\\/apply/i", true],
+    ['subject:"backend engineer"', true],
+    ["has:attachment", true],
+    ["received:09:00-17:00", true],
+    ["received:22:00-09:15", false],
+    ["received:22:00-09:16", true],
+    ["day:mon-fri", true],
+    ["day:sat,sun", false],
+    ["day:fri-mon", true],
+  ];
+  for (const [expression, expected] of cases) {
+    assert.equal(matches(expression), expected, expression);
+  }
+});
+
+test("NOT binds tighter than AND, which binds tighter than OR", () => {
+  assert.deepEqual(parseConditionExpression("tag:a OR NOT tag:b tag:c"), {
+    any: [{ tag: "a" }, { all: [{ not: { tag: "b" } }, { tag: "c" }] }],
+  });
+  assert.equal(matches("tag:other OR tag:job AND NOT has:attachment"), false);
+  assert.equal(matches("(tag:other OR tag:job) AND NOT day:sat"), true);
+  assert.equal(
+    matches("has:attachment", { ...email, attachments: [] } as EmailPayload),
+    false,
+  );
+});
+
+test("an empty expression has no conditions", () => {
+  assert.equal(parseConditionExpression("   "), undefined);
+});
+
+test("formatted conditions parse back to the same tree", () => {
+  for (const expression of [
+    'sender:*@techhire.io AND (tag:"two words" OR subject:/a\\/b/)',
+    "NOT (domain:example.com OR body:/urgent/i) day:mon,wed received:22:00-06:00",
+    'tag:"quote \\" and \\\\ backslash"',
+    "NOT has:attachment",
+  ]) {
+    const condition = parseConditionExpression(expression)!;
+    assert.deepEqual(
+      parseConditionExpression(formatCondition(condition)),
+      condition,
+      expression,
+    );
+  }
+});
+
+test("syntax errors explain what is wrong", () => {
+  const cases: [string, RegExp][] = [
+    ["offer", /^Expected field:value or AND\/OR\/NOT near "offer"$/],
+    ['tag:"open', /^Unterminated quote$/],
+    ["subject:/open", /^Unterminated \/regex\/$/],
+    ["subject:/(/", /^Invalid regular expression/],
+    ["tag:", /^tag: needs a value$/],
+    ["has:link", /^has: only supports "attachment"$/],
+    ["received:9-5", /^received: expects HH:MM-HH:MM/],
+    ["day:someday", /^Unknown weekday/],
+    ["size:10", /^Unknown field "size:"$/],
+    ["(tag:a", /^Missing closing parenthesis$/],
+    ["tag:a)", /^Unexpected trailing input$/],
+    ["tag:a AND", /^Unexpected end of expression$/],
+    ["OR tag:a", /^Unexpected OR$/],
+  ];
+  for (const [expression, message] of cases) {
+    assert.throws(
+      () => parseConditionExpression(expression),
+      (error) =>
+        error instanceof ConditionSyntaxError && message.test(error.message),
+      expression,
+    );
+  }
+});
+
+test("JSON conditions report problems by path", () => {
+  assert.deepEqual(
+    readCondition(
+      {
+        all: [
+          { subject: "(" },
+          { receivedBetween: { from: "9:00", to: "17:00" } },
+          { receivedOn: ["mon", "someday"] },
+          { color: "red" },
+        ],
+      },
+      "trigger.conditions",
+    ).issues.map((issue) => issue.path),
+    [
+      "trigger.conditions.all[0].subject",
+      "trigger.conditions.all[1].receivedBetween",
+      "trigger.conditions.all[2].receivedOn",
+      "trigger.conditions.all[3].color",
+    ],
+  );
+  assert.deepEqual(readCondition("tag:", "conditions").issues, [
+    { path: "conditions", message: "tag: needs a value" },
+  ]);
+  assert.deepEqual(readCondition({ not: { tag: "Job" } }, "conditions"), {
+    condition: { not: { tag: "job" } },
+    issues: [],
+  });
+});
@@ -0,0 +1,486 @@
+import { attachmentsOf } from "@/lib/mime";
+import { EmailPayload, Workflow } from "@/lib/types";
+
+export type Weekday = "sun" | "mon" | "tue" | "wed" | "thu" | "fri" | "sat";
+
+export type TriggerCondition =
+  | { all: TriggerCondition[] }
+  | { any: TriggerCondition[] }
+  | { not: TriggerCondition }
+  | { sender: string }
+  | { domain: string }
+  | { tag: string }
+  | { subject: string; flags?: string }
+  | { body: string; flags?: string }
+  | { hasAttachments: boolean }
+  | { receivedBetween: { from: string; to: string } }
+  | { receivedOn: Weekday[] };
+
+// Stored alongside the keyword trigger; `conditions` gates the workflow before
+// runAutomation scores keywords and categories.
+export type ConditionalTrigger = Workflow["trigger"] & {
+  conditions?: TriggerCondition;
+};
+
+export class ConditionSyntaxError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConditionSyntaxError";
+  }
+}
+
+export const weekdays: Weekday[] = [
+  "sun",
+  "mon",
+  "tue",
+  "wed",
+  "thu",
+  "fri",
+  "sat",
+];
+
+const timePattern = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export function triggerConditions(workflow: Workflow) {
+  return (workflow.trigger as ConditionalTrigger).conditions;
+}
+
+function globToRegExp(glob: string) {
+  const escaped = glob
+    .toLowerCase()
+    .replace(/[.+?^${}()|[\]\\]/g, "\\$&")
+    .replace(/\*/g, ".*");
+  return new RegExp(`^${escaped}$`);
+}
+
+function minutesOfDay(time: string) {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+function safeRegExp(pattern: string, flags = "i") {
+  try {
+    return new RegExp(pattern, flags);
+  } catch {
+    return null;
+  }
+}
+
+// Times and weekdays are evaluated in UTC so results don't depend on where the
+// agent happens to run.
+export function evaluateCondition(
+  condition: TriggerCondition,
+  email: EmailPayload,
+): boolean {
+  if ("all" in condition) {
+    return condition.all.every((item) => evaluateCondition(item, email));
+  }
+  if ("any" in condition) {
+    return condition.any.some((item) => evaluateCondition(item, email));
+  }
+  if ("not" in condition) return !evaluateCondition(condition.not, email);
+  if ("sender" in condition) {
+    return globToRegExp(condition.sender).test(email.sender.toLowerCase());
+  }
+  if ("domain" in condition) {
+    const domain = email.sender.toLowerCase().split("@")[1] ?? "";
+    const expected = condition.domain.toLowerCase().replace(/^@/, "");
+    return domain === expected || domain.endsWith(`.${expected}`);
+  }
+  if ("tag" in condition) {
+    const tag = condition.tag.toLowerCase();
+    return email.tags.some((item) => item.toLowerCase() === tag);
+  }
+  if ("subject" in condition) {
+    return (
+      safeRegExp(condition.subject, condition.flags)?.test(email.subject) ??
+      false
+    );
+  }
+  if ("body" in condition) {
+    return (
+      safeRegExp(condition.body, condition.flags)?.test(email.body) ?? false
+    );
+  }
+  if ("hasAttachments" in condition) {
+    return attachmentsOf(email).length > 0 === condition.hasAttachments;
+  }
+  const received = new Date(email.receivedAt);
+  if ("receivedOn" in condition) {
+    return condition.receivedOn.includes(weekdays[received.getUTCDay()]);
+  }
+  const minute = received.getUTCHours() * 60 + received.getUTCMinutes();
+  const from = minutesOfDay(condition.receivedBetween.from);
+  const to = minutesOfDay(condition.receivedBetween.to);
+  return from <= to
+    ? minute >= from && minute < to
+    : minute >= from || minute < to;
+}
+
+export function matchesConditions(workflow: Workflow, email: EmailPayload) {
+  const conditions = triggerConditions(workflow);
+  return conditions ? evaluateCondition(conditions, email) : true;
+}
+
+// Disabled workflows stay in the designer but never match.
+export type ToggleableWorkflow = Workflow & { enabled?: boolean };
+
+export function isEnabled(workflow: Workflow) {
+  return (workflow as ToggleableWorkflow).enabled !== false;
+}
+
+export function eligibleWorkflows(workflows: Workflow[], email: EmailPayload) {
+  return workflows.filter(
+    (workflow) => isEnabled(workflow) && matchesConditions(workflow, email),
+  );
+}
+
+// --- Expression syntax -----------------------------------------------------
+//
+//   domain:techhire.io AND body:/https?:\/\/\S+\/apply/i
+//   (tag:scholarship OR subject:/award/i) AND NOT has:attachment
+//   sender:*@techhire.io received:09:00-17:00 day:mon-fri
+//
+// Adjacent terms are ANDed; NOT binds tighter than AND, which binds tighter
+// than OR. Values containing spaces can be double-quoted, with \" and \\
+// escapes. A /regex/ uses exactly the flags written after it; plain text
+// matches case-insensitively.
+
+type Token =
+  | { kind: "open" | "close" | "and" | "or" | "not" }
+  | { kind: "term"; field: string; value: string };
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+  while (index < expression.length) {
+    const char = expression[index];
+    if (/\s/.test(char)) {
+      index += 1;
+    } else if (char === "(" || char === ")") {
+      tokens.push({ kind: char === "(" ? "open" : "close" });
+      index += 1;
+    } else {
+      const field = /^([a-zA-Z]+):/.exec(expression.slice(index));
+      if (!field) {
+        const word = /^\S+/
+          .exec(expression.slice(index))![0]
+          .replace(/\).*$/, "");
+        const keyword = word.toUpperCase();
+        if (keyword === "AND" || keyword === "OR" || keyword === "NOT") {
+          tokens.push({ kind: keyword.toLowerCase() as "and" | "or" | "not" });
+          index += word.length;
+          continue;
+        }
+        throw new ConditionSyntaxError(
+          `Expected field:value or AND/OR/NOT near "${word}"`,
+        );
+      }
+      index += field[0].length;
+      const rest = expression.slice(index);
+      let value: string;
+      if (rest.startsWith('"')) {
+        const match = /^"((?:\\.|[^"\\])*)"/.exec(rest);
+        if (!match) throw new ConditionSyntaxError("Unterminated quote");
+        value = match[1].replace(/\\(.)/g, "$1");
+        index += match[0].length;
+      } else if (rest.startsWith("/")) {
+        const match = /^\/((?:\\.|[^/\\])+)\/([a-z]*)/.exec(rest);
+        if (!match) throw new ConditionSyntaxError("Unterminated /regex/");
+        value = match[0];
+        index += match[0].length;
+      } else {
+        value = /^[^\s()]*/.exec(rest)![0];
+        index += value.length;
+      }
+      tokens.push({ kind: "term", field: field[1].toLowerCase(), value });
+    }
+  }
+  return tokens;
+}
+
+function parseRegexValue(value: string) {
+  const match = /^\/(.+)\/([a-z]*)$/.exec(value);
+  const pattern = match
+    ? match[1].replace(/\\(.)/g, (escape, char) =>
+        char === "/" ? "/" : escape,
+      )
+    : value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const flags = match ? match[2] : "i";
+  if (!safeRegExp(pattern, flags)) {
+    throw new ConditionSyntaxError(`Invalid regular expression ${value}`);
+  }
+  return { pattern, flags: flags === "i" ? undefined : flags };
+}
+
+function parseDays(value: string): Weekday[] {
+  const parts = value.toLowerCase().split(",");
+  const days = new Set<Weekday>();
+  for (const part of parts) {
+    const [start, end = start] = part.split("-") as Weekday[];
+    const from = weekdays.indexOf(start);
+    const to = weekdays.indexOf(end);
+    if (from === -1 || to === -1) {
+      throw new ConditionSyntaxError(`Unknown weekday in "${value}"`);
+    }
+    for (let day = from; ; day = (day + 1) % 7) {
+      days.add(weekdays[day]);
+      if (day === to) break;
+    }
+  }
+  return weekdays.filter((day) => days.has(day));
+}
+
+function termToCondition(field: string, value: string): TriggerCondition {
+  if (!value) throw new ConditionSyntaxError(`${field}: needs a value`);
+  switch (field) {
+    case "sender":
+    case "from":
+      return { sender: value.toLowerCase() };
+    case "domain":
+      return { domain: value.toLowerCase().replace(/^@/, "") };
+    case "tag":
+      return { tag: value.toLowerCase() };
+    case "subject":
+    case "body": {
+      const { pattern, flags } = parseRegexValue(value);
+      const extra = flags === undefined ? {} : { flags };
+      return field === "subject"
+        ? { subject: pattern, ...extra }
+        : { body: pattern, ...extra };
+    }
+    case "has":
+      if (!/^attachments?$/i.test(value)) {
+        throw new ConditionSyntaxError(`has: only supports "attachment"`);
+      }
+      return { hasAttachments: true };
+    case "received": {
+      const [from, to] = value.split("-");
+      if (!timePattern.test(from ?? "") || !timePattern.test(to ?? "")) {
+        throw new ConditionSyntaxError(
+          `received: expects HH:MM-HH:MM (UTC), got "${value}"`,
+        );
+      }
+      return { receivedBetween: { from, to } };
+    }
+    case "day":
+      return { receivedOn: parseDays(value) };
+    default:
+      throw new ConditionSyntaxError(`Unknown field "${field}:"`);
+  }
+}
+
+export function parseConditionExpression(
+  expression: string,
+): TriggerCondition | undefined {
+  const tokens = tokenize(expression);
+  if (!tokens.length) return undefined;
+  let position = 0;
+
+  const parseOr = (): TriggerCondition => {
+    const items = [parseAnd()];
+    while (tokens[position]?.kind === "or") {
+      position += 1;
+      items.push(parseAnd());
+    }
+    return items.length === 1 ? items[0] : { any: items };
+  };
+
+  const parseAnd = (): TriggerCondition => {
+    const items = [parseUnary()];
+    for (;;) {
+      const next = tokens[position];
+      if (next?.kind === "and") {
+        position += 1;
+      } else if (!next || next.kind === "or" || next.kind === "close") {
+        break;
+      }
+      items.push(parseUnary());
+    }
+    return items.length === 1 ? items[0] : { all: items };
+  };
+
+  const parseUnary = (): TriggerCondition => {
+    const token = tokens[position];
+    position += 1;
+    if (!token) throw new ConditionSyntaxError("Unexpected end of expression");
+    if (token.kind === "not") return { not: parseUnary() };
+    if (token.kind === "open") {
+      const inner = parseOr();
+      if (tokens[position]?.kind !== "close") {
+        throw new ConditionSyntaxError("Missing closing parenthesis");
+      }
+      position += 1;
+      return inner;
+    }
+    if (token.kind === "term") return termToCondition(token.field, token.value);
+    throw new ConditionSyntaxError(`Unexpected ${token.kind.toUpperCase()}`);
+  };
+
+  const condition = parseOr();
+  if (position < tokens.length) {
+    throw new ConditionSyntaxError("Unexpected trailing input");
+  }
+  return condition;
+}
+
+function formatValue(value: string) {
+  return /^\/|[\s()"\\]/.test(value)
+    ? `"${value.replace(/["\\]/g, "\\$&")}"`
+    : value;
+}
+
+// Bare slashes in the pattern are escaped so they don't end the /regex/.
+function formatRegex(pattern: string, flags = "i") {
+  const escaped = pattern.replace(/\\.|\//g, (match) =>
+    match === "/" ? "\\/" : match,
+  );
+  return `/${escaped}/${flags}`;
+}
+
+export function formatCondition(
+  condition: TriggerCondition,
+  nested = false,
+): string {
+  const wrap = (text: string) => (nested ? `(${text})` : text);
+  if ("all" in condition) {
+    return wrap(
+      condition.all.map((item) => formatCondition(item, true)).join(" AND "),
+    );
+  }
+  if ("any" in condition) {
+    return wrap(
+      condition.any.map((item) => formatCondition(item, true)).join(" OR "),
+    );
+  }
+  if ("not" in condition) return `NOT ${formatCondition(condition.not, true)}`;
+  if ("sender" in condition) return `sender:${formatValue(condition.sender)}`;
+  if ("domain" in condition) return `domain:${formatValue(condition.domain)}`;
+  if ("tag" in condition) return `tag:${formatValue(condition.tag)}`;
+  if ("subject" in condition) {
+    return `subject:${formatRegex(condition.subject, condition.flags)}`;
+  }
+  if ("body" in condition) {
+    return `body:${formatRegex(condition.body, condition.flags)}`;
+  }
+  if ("hasAttachments" in condition) {
+    return condition.hasAttachments ? "has:attachment" : "NOT has:attachment";
+  }
+  if ("receivedOn" in condition) return `day:${condition.receivedOn.join(",")}`;
+  return `received:${condition.receivedBetween.from}-${condition.receivedBetween.to}`;
+}
+
+export function describeConditions(workflow: Workflow) {
+  const conditions = triggerConditions(workflow);
+  return conditions ? formatCondition(conditions) : null;
+}
+
+type UnknownRecord = Record<string, unknown>;
+
+function isRecord(value: unknown): value is UnknownRecord {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Accepts either the expression syntax or the JSON tree; returns the tree or a
+// list of problems keyed by path.
+export function readCondition(
+  input: unknown,
+  path: string,
+): {
+  condition?: TriggerCondition;
+  issues: { path: string; message: string }[];
+} {
+  if (typeof input === "string") {
+    try {
+      return { condition: parseConditionExpression(input), issues: [] };
+    } catch (error) {
+      return {
+        issues: [
+          {
+            path,
+            message:
+              error instanceof ConditionSyntaxError
+                ? error.message
+                : "could not be parsed",
+          },
+        ],
+      };
+    }
+  }
+
+  const issues: { path: string; message: string }[] = [];
+  const visit = (value: unknown, at: string): TriggerCondition | undefined => {
+    if (!isRecord(value) || Object.keys(value).length === 0) {
+      issues.push({ path: at, message: "must be a condition object" });
+      return undefined;
+    }
+    const key = Object.keys(value).find((item) => item !== "flags")!;
+    const item = value[key];
+    const fail = (message: string) => {
+      issues.push({ path: `${at}.${key}`, message });
+      return undefined;
+    };
+    switch (key) {
+      case "all":
+      case "any": {
+        if (!Array.isArray(item) || !item.length) {
+          return fail("must be a non-empty list of conditions");
+        }
+        const children = item.map((child, index) =>
+          visit(child, `${at}.${key}[${index}]`),
+        );
+        return children.every(Boolean)
+          ? ({ [key]: children } as TriggerCondition)
+          : undefined;
+      }
+      case "not": {
+        const child = visit(item, `${at}.not`);
+        return child ? { not: child } : undefined;
+      }
+      case "sender":
+      case "domain":
+      case "tag":
+        if (typeof item !== "string" || !item) return fail("must be a string");
+        return { [key]: item.toLowerCase() } as TriggerCondition;
+      case "subject":
+      case "body": {
+        const flags = typeof value.flags === "string" ? value.flags : undefined;
+        if (typeof item !== "string" || !safeRegExp(item, flags)) {
+          return fail("must be a valid regular expression");
+        }
+        return {
+          [key]: item,
+          ...(flags === undefined ? {} : { flags }),
+        } as TriggerCondition;
+      }
+      case "hasAttachments":
+        if (typeof item !== "boolean") return fail("must be true or false");
+        return { hasAttachments: item };
+      case "receivedBetween":
+        if (
+          !isRecord(item) ||
+          typeof item.from !== "string" ||
+          typeof item.to !== "string" ||
+          !timePattern.test(item.from) ||
+          !timePattern.test(item.to)
+        ) {
+          return fail('must be { from: "HH:MM", to: "HH:MM" } in UTC');
+        }
+        return { receivedBetween: { from: item.from, to: item.to } };
+      case "receivedOn":
+        if (
+          !Array.isArray(item) ||
+          !item.length ||
+          item.some((day) => !weekdays.includes(day as Weekday))
+        ) {
+          return fail(`must list weekdays (${weekdays.join(", ")})`);
+        }
+        return { receivedOn: item as Weekday[] };
+      default:
+        return fail("is not a known condition");
+    }
+  };
+
+  const condition = visit(input, path);
+  return issues.length ? { issues } : { condition, issues };
+}
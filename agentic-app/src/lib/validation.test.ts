@@ -0,0 +1,56 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { HttpError } from "@/lib/http";
+import { parseStatusCallback } from "@/lib/validation";
+
+test("malformed WhatsApp callbacks are the sender's error", () => {
+  const payloads = [
+    [],
+    { entry: {} },
+    { entry: [null] },
+    { entry: [{ changes: "none" }] },
+    { entry: [{ changes: [{ value: [] }] }] },
+    { entry: [{ changes: [{ value: { statuses: {} } }] }] },
+    { entry: [{ changes: [{ value: { statuses: [1] } }] }] },
+    { entry: [{ changes: [{ value: { statuses: [{ errors: "x" }] } }] }] },
+  ];
+  for (const payload of payloads) {
+    assert.throws(
+      () => parseStatusCallback(payload),
+      (error) => error instanceof HttpError && error.status === 400,
+      JSON.stringify(payload),
+    );
+  }
+});
+
+test("WhatsApp statuses are read from every entry and change", () => {
+  const statuses = parseStatusCallback({
+    entry: [
+      {
+        changes: [{ value: { statuses: [{ id: "wamid.1", status: "read" }] } }],
+      },
+      {
+        changes: [
+          { value: {} },
+          {
+            value: {
+              statuses: [
+                {
+                  id: "wamid.2",
+                  status: "failed",
+                  errors: [{ title: "Expired" }],
+                },
+              ],
+            },
+          },
+        ],
+      },
+      {},
+    ],
+  });
+  assert.deepEqual(statuses, [
+    { id: "wamid.1", status: "read", error: undefined },
+    { id: "wamid.2", status: "failed", error: "Expired" },
+  ]);
+  assert.deepEqual(parseStatusCallback({}), []);
+});
@@ -0,0 +1,279 @@
+import { ApprovalDecision } from "@/lib/approvals";
+import { AuditQuery } from "@/lib/audit";
+import { HttpError } from "@/lib/http";
+import { PriorityOverride, maxPriority } from "@/lib/priority";
+import { ReplyEdit } from "@/lib/replies";
+import {
+  ApplicationStage,
+  ApplicationUpdate,
+  applicationStages,
+} from "@/lib/tracker";
+import { EmailPayload, Workflow } from "@/lib/types";
+import {
+  WorkflowValidationError,
+  validateWorkflow,
+} from "@/lib/workflow-definition";
+
+type UnknownRecord = Record<string, unknown>;
+
+function isRecord(value: unknown): value is UnknownRecord {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function requireString(source: UnknownRecord, key: string, label: string) {
+  const value = source[key];
+  if (typeof value !== "string" || !value.trim()) {
+    throw new HttpError(400, `${label}.${key} must be a non-empty string`);
+  }
+  return value;
+}
+
+function optionalString(source: UnknownRecord, key: string, fallback: string) {
+  const value = source[key];
+  return typeof value === "string" && value.trim() ? value : fallback;
+}
+
+function stringList(source: UnknownRecord, key: string) {
+  const value = source[key];
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || value.some((item) => typeof item !== "string")) {
+    throw new HttpError(400, `${key} must be an array of strings`);
+  }
+  return value as string[];
+}
+
+export function parseEmailPayload(input: unknown): EmailPayload {
+  if (!isRecord(input)) {
+    throw new HttpError(400, "email must be an object");
+  }
+  const body = requireString(input, "body", "email");
+  const sender = requireString(input, "sender", "email");
+  const receivedAt = optionalString(
+    input,
+    "receivedAt",
+    new Date().toISOString(),
+  );
+  if (Number.isNaN(new Date(receivedAt).getTime())) {
+    throw new HttpError(400, "email.receivedAt must be an ISO date");
+  }
+
+  return {
+    id: optionalString(input, "id", `email-${crypto.randomUUID()}`),
+    subject: requireString(input, "subject", "email"),
+    sender,
+    senderName: optionalString(input, "senderName", sender.split("@")[0]),
+    to: optionalString(input, "to", "you@example.com"),
+    preview: optionalString(input, "preview", body.slice(0, 140)),
+    body,
+    receivedAt,
+    tags: stringList(input, "tags"),
+  };
+}
+
+function editableString(source: UnknownRecord, key: string) {
+  const value = source[key];
+  if (value === undefined) return undefined;
+  if (typeof value !== "string") {
+    throw new HttpError(400, `${key} must be a string`);
+  }
+  return value;
+}
+
+export function parseApprovalDecision(input: unknown): ApprovalDecision {
+  if (!isRecord(input)) {
+    throw new HttpError(400, "Body must be an object");
+  }
+  const { decision } = input;
+  if (decision !== "approve" && decision !== "reject") {
+    throw new HttpError(400, 'decision must be "approve" or "reject"');
+  }
+  const summary = editableString(input, "summary");
+  if (summary !== undefined && !summary.trim()) {
+    throw new HttpError(400, "summary must not be empty");
+  }
+  return {
+    decision,
+    reviewer: requireString(input, "reviewer", "approval").trim(),
+    summary,
+    details: editableString(input, "details"),
+    note: editableString(input, "note")?.trim() || undefined,
+  };
+}
+
+function nullableString(source: UnknownRecord, key: string) {
+  const value = source[key];
+  if (value === null) return null;
+  return editableString(source, key)?.trim() || null;
+}
+
+export function parseApplicationUpdate(input: unknown): ApplicationUpdate {
+  if (!isRecord(input)) {
+    throw new HttpError(400, "Body must be an object");
+  }
+  const { stage } = input;
+  if (
+    stage !== undefined &&
+    !applicationStages.includes(stage as ApplicationStage)
+  ) {
+    throw new HttpError(
+      400,
+      `stage must be one of ${applicationStages.join(", ")}`,
+    );
+  }
+  const deadline =
+    input.deadline === undefined
+      ? undefined
+      : nullableString(input, "deadline");
+  if (deadline && !/^\d{4}-\d{2}-\d{2}$/.test(deadline)) {
+    throw new HttpError(400, "deadline must be a date like 2025-03-31");
+  }
+  const portalUrl =
+    input.portalUrl === undefined
+      ? undefined
+      : nullableString(input, "portalUrl");
+  if (portalUrl && !/^https?:\/\//.test(portalUrl)) {
+    throw new HttpError(400, "portalUrl must be an http(s) URL");
+  }
+  return {
+    stage: stage as ApplicationStage | undefined,
+    deadline,
+    portalUrl,
+    note: editableString(input, "note")?.trim() || undefined,
+  };
+}
+
+export function parsePriorityOverride(
+  input: unknown,
+): Partial<Pick<PriorityOverride, "pinned" | "priority">> {
+  if (!isRecord(input)) {
+    throw new HttpError(400, "Body must be an object");
+  }
+  const { pinned, priority } = input;
+  if (pinned !== undefined && typeof pinned !== "boolean") {
+    throw new HttpError(400, "pinned must be true or false");
+  }
+  if (
+    priority !== undefined &&
+    priority !== null &&
+    (typeof priority !== "number" ||
+      !Number.isInteger(priority) ||
+      priority < 0 ||
+      priority > maxPriority)
+  ) {
+    throw new HttpError(
+      400,
+      `priority must be a whole number from 0 to ${maxPriority}, or null`,
+    );
+  }
+  if (pinned === undefined && priority === undefined) {
+    throw new HttpError(400, "Provide pinned, priority or both");
+  }
+  return { pinned, priority: priority as number | null | undefined };
+}
+
+export function parseAuditQuery(searchParams: URLSearchParams): AuditQuery {
+  const date = (key: "from" | "to") => {
+    const value = searchParams.get(key)?.trim();
+    if (!value) return null;
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+      throw new HttpError(400, `${key} must be a date like 2025-03-31`);
+    }
+    return value;
+  };
+  const query = {
+    from: date("from"),
+    to: date("to"),
+    emailId: searchParams.get("emailId")?.trim() || null,
+  };
+  if (query.from && query.to && query.from > query.to) {
+    throw new HttpError(400, "from must not be after to");
+  }
+  return query;
+}
+
+export function parseRollback(input: unknown) {
+  const version = isRecord(input) ? input.version : undefined;
+  if (
+    typeof version !== "number" ||
+    !Number.isInteger(version) ||
+    version < 1
+  ) {
+    throw new HttpError(400, "version must be a version number");
+  }
+  return version;
+}
+
+export function parseReplyEdit(input: unknown): ReplyEdit {
+  if (!isRecord(input)) {
+    throw new HttpError(400, "Body must be an object");
+  }
+  const to = editableString(input, "to")?.trim();
+  if (to !== undefined && !/^[^\s@]+@[^\s@]+$/.test(to)) {
+    throw new HttpError(400, "to must be an email address");
+  }
+  const subject = editableString(input, "subject");
+  if (subject !== undefined && !subject.trim()) {
+    throw new HttpError(400, "subject must not be empty");
+  }
+  return { to, subject, body: editableString(input, "body") };
+}
+
+export interface ProviderStatus {
+  id?: string;
+  status?: string;
+  error?: string;
+}
+
+function recordList(value: unknown, label: string) {
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || !value.every(isRecord)) {
+    throw new HttpError(400, `${label} must be an array of objects`);
+  }
+  return value;
+}
+
+// WhatsApp nests message statuses under entry[].changes[].value.statuses[].
+export function parseStatusCallback(input: unknown): ProviderStatus[] {
+  if (!isRecord(input)) {
+    throw new HttpError(400, "Request body must be an object");
+  }
+  return recordList(input.entry, "entry").flatMap((entry) =>
+    recordList(entry.changes, "entry.changes").flatMap((change) => {
+      const value = change.value ?? {};
+      if (!isRecord(value)) {
+        throw new HttpError(400, "entry.changes.value must be an object");
+      }
+      const statuses = recordList(
+        value.statuses,
+        "entry.changes.value.statuses",
+      );
+      return statuses.map((status) => {
+        const [error] = recordList(
+          status.errors,
+          "entry.changes.value.statuses.errors",
+        );
+        const text = error?.message ?? error?.title;
+        return {
+          id: typeof status.id === "string" ? status.id : undefined,
+          status: typeof status.status === "string" ? status.status : undefined,
+          error: typeof text === "string" ? text : undefined,
+        };
+      });
+    }),
+  );
+}
+
+export function parseWorkflow(input: unknown): Workflow {
+  try {
+    return validateWorkflow(input);
+  } catch (error) {
+    throw toHttpError(error);
+  }
+}
+
+export function toHttpError(error: unknown) {
+  if (error instanceof WorkflowValidationError) {
+    return new HttpError(400, error.message, error.issues);
+  }
+  return error;
+}
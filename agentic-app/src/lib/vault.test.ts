@@ -0,0 +1,48 @@
+import assert from "node:assert/strict";
+import { existsSync, mkdtempSync, rmSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { after, before, test } from "node:test";
+import type * as Vault from "@/lib/vault";
+
+// The store reads AGENT_DATA_DIR when it is first imported.
+const dataDirectory = mkdtempSync(path.join(os.tmpdir(), "agent-vault-"));
+process.env.AGENT_DATA_DIR = dataDirectory;
+
+let vault: typeof Vault;
+
+before(async () => {
+  vault = await import("@/lib/vault");
+});
+
+after(() => {
+  rmSync(dataDirectory, { recursive: true, force: true });
+});
+
+const file = (text: string) => ({
+  filename: "resume.pdf",
+  contentType: "application/pdf",
+  data: Buffer.from(text),
+});
+
+test("a rejected upload leaves no file behind", () => {
+  const document = vault.addDocument(file("v1"), { type: "resume" });
+  const stored = (version: number) =>
+    existsSync(path.join(dataDirectory, "vault", document.id, `v${version}`));
+  assert.equal(stored(1), true);
+
+  assert.throws(
+    () => vault.addVersion(document.id, file("v2"), { type: "cv" }),
+    {
+      status: 400,
+    },
+  );
+  assert.equal(stored(2), false);
+
+  const updated = vault.addVersion(document.id, file("v2"));
+  assert.deepEqual(
+    updated.versions.map((version) => version.version),
+    [1, 2],
+  );
+  assert.equal(stored(2), true);
+});
@@ -0,0 +1,156 @@
+import { createHash } from "node:crypto";
+import {
+  DocumentType,
+  DocumentVersion,
+  VaultDocument,
+  documentTypes,
+} from "@/lib/documents";
+import { readBinaryFile, removeFiles, writeBinaryFile } from "@/lib/file-store";
+import { HttpError } from "@/lib/http";
+import { deleteDocument, getDocument, saveDocument } from "@/lib/store";
+
+const maxBytes = Number(process.env.VAULT_MAX_BYTES) || 20 * 1024 * 1024;
+
+export interface UploadedFile {
+  filename: string;
+  contentType: string;
+  data: Buffer;
+}
+
+export interface DocumentFields {
+  name?: string;
+  type?: string;
+  tags?: string[];
+}
+
+// Multipart fields: `file`, plus optional `name`, `type` and comma-separated `tags`.
+export async function readDocumentForm(request: Request) {
+  if (
+    !(request.headers.get("content-type") ?? "").startsWith(
+      "multipart/form-data",
+    )
+  ) {
+    throw new HttpError(400, "Upload documents as multipart/form-data");
+  }
+  const form = await request.formData();
+  const entry = form.get("file");
+  if (!entry || typeof entry === "string") {
+    throw new HttpError(400, "file is required");
+  }
+  const text = (key: string) => {
+    const value = form.get(key);
+    return typeof value === "string" && value.trim() ? value : undefined;
+  };
+  const file: UploadedFile = {
+    filename: entry.name || "document",
+    contentType: entry.type,
+    data: Buffer.from(await entry.arrayBuffer()),
+  };
+  const fields: DocumentFields = {
+    name: text("name"),
+    type: text("type"),
+    tags: text("tags")?.split(","),
+  };
+  return { file, fields };
+}
+
+function versionPath(documentId: string, version: number) {
+  return `vault/${documentId}/v${version}`;
+}
+
+function storeVersion(documentId: string, version: number, file: UploadedFile) {
+  if (!file.data.length) throw new HttpError(400, "The uploaded file is empty");
+  if (file.data.length > maxBytes) {
+    throw new HttpError(413, `Files are limited to ${maxBytes} bytes`);
+  }
+  writeBinaryFile(versionPath(documentId, version), file.data);
+  return {
+    version,
+    filename: file.filename,
+    contentType: file.contentType || "application/octet-stream",
+    size: file.data.length,
+    sha256: createHash("sha256").update(file.data).digest("hex"),
+    uploadedAt: new Date().toISOString(),
+  } satisfies DocumentVersion;
+}
+
+function readType(type: string | undefined, fallback?: DocumentType) {
+  if (type === undefined && fallback) return fallback;
+  if (!documentTypes.includes(type as DocumentType)) {
+    throw new HttpError(400, `type must be one of ${documentTypes.join(", ")}`);
+  }
+  return type as DocumentType;
+}
+
+function normalizeTags(tags: string[]) {
+  return [
+    ...new Set(tags.map((tag) => tag.trim().toLowerCase()).filter(Boolean)),
+  ];
+}
+
+export function addDocument(file: UploadedFile, fields: DocumentFields) {
+  const id = `doc-${crypto.randomUUID()}`;
+  const type = readType(fields.type);
+  const version = storeVersion(id, 1, file);
+  return saveDocument({
+    id,
+    name: fields.name?.trim() || file.filename,
+    type,
+    tags: normalizeTags(fields.tags ?? []),
+    versions: [version],
+    createdAt: version.uploadedAt,
+    updatedAt: version.uploadedAt,
+  });
+}
+
+function requireDocument(id: string) {
+  const document = getDocument(id);
+  if (!document) throw new HttpError(404, `Document ${id} not found`);
+  return document;
+}
+
+// Uploading to an existing document keeps earlier versions downloadable.
+// Fields are checked before the file is stored, so a rejected upload leaves
+// nothing behind.
+export function addVersion(
+  id: string,
+  file: UploadedFile,
+  fields: DocumentFields = {},
+) {
+  const document = requireDocument(id);
+  const type = readType(fields.type, document.type);
+  const next = (document.versions.at(-1)?.version ?? 0) + 1;
+  const version = storeVersion(id, next, file);
+  return saveDocument({
+    ...document,
+    name: fields.name?.trim() || document.name,
+    type,
+    tags: fields.tags ? normalizeTags(fields.tags) : document.tags,
+    versions: [...document.versions, version],
+    updatedAt: version.uploadedAt,
+  } satisfies VaultDocument);
+}
+
+export function readVersion(id: string, version?: number) {
+  const document = requireDocument(id);
+  const entry =
+    version === undefined
+      ? document.versions.at(-1)
+      : document.versions.find((item) => item.version === version);
+  const data = entry ? readBinaryFile(versionPath(id, entry.version)) : null;
+  if (!entry || !data) {
+    throw new HttpError(
+      404,
+      version === undefined
+        ? `Document ${id} has no stored file`
+        : `Document ${id} has no version ${version}`,
+    );
+  }
+  return { document, version: entry, data };
+}
+
+export function removeDocument(id: string) {
+  requireDocument(id);
+  deleteDocument(id);
+  removeFiles(`vault/${id}`);
+}
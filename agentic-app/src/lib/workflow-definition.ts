@@ -0,0 +1,734 @@
+import {
+  PluginAction,
+  getPlugin,
+  pluginTypes,
+  readPluginParams,
+} from "@/lib/action-plugins";
+import { WorkflowAction } from "@/lib/approvals";
+import type { LimitedWorkflow, WorkflowLimits } from "@/lib/autopilot";
+import {
+  BranchAction,
+  BranchConditionError,
+  parseBranchCondition,
+} from "@/lib/branches";
+import {
+  EntityField,
+  entityFields,
+  placeholderPattern,
+} from "@/lib/extraction";
+import {
+  ReplyTemplate,
+  ReplyVariable,
+  ReplyingWorkflow,
+  replyVariables,
+  templateVariablesIn,
+} from "@/lib/replies";
+import {
+  EscalatingWorkflow,
+  SlaEscalation,
+  escalationActions,
+} from "@/lib/sla";
+import {
+  ConditionalTrigger,
+  ToggleableWorkflow,
+  formatCondition,
+  isEnabled,
+  readCondition,
+  triggerConditions,
+} from "@/lib/triggers";
+import { AutomationActionType, Workflow } from "@/lib/types";
+import { automationTypes } from "@/lib/workflows";
+import { YamlSyntaxError, parseYaml, stringifyYaml } from "@/lib/yaml";
+
+export const workflowFormatVersion = 1;
+
+export type WorkflowFileFormat = "json" | "yaml";
+
+export interface WorkflowDocument {
+  version: typeof workflowFormatVersion;
+  workflows: Workflow[];
+}
+
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+export class WorkflowValidationError extends Error {
+  constructor(public readonly issues: ValidationIssue[]) {
+    super(
+      issues.length === 1
+        ? `${issues[0].path}: ${issues[0].message}`
+        : `${issues.length} validation errors in workflow definition`,
+    );
+    this.name = "WorkflowValidationError";
+  }
+}
+
+const stepProperties = {
+  id: { type: "string" },
+  type: { enum: automationTypes },
+  summary: { type: "string", minLength: 1 },
+  details: { type: "string" },
+  plugin: {
+    description: "Plugin that runs a custom action",
+    enum: pluginTypes,
+  },
+  params: {
+    description: "Parameters declared by the plugin",
+    type: "object",
+  },
+} as const;
+
+// Published at /api/workflows/schema so definitions kept in git can be
+// validated by editors and CI as well as by this app.
+export const workflowDocumentSchema = {
+  $schema: "https://json-schema.org/draft/2020-12/schema",
+  $id: "/api/workflows/schema",
+  title: "Agent workflow definitions",
+  type: "object",
+  required: ["version", "workflows"],
+  additionalProperties: false,
+  properties: {
+    $schema: { type: "string" },
+    version: { const: workflowFormatVersion },
+    workflows: { type: "array", items: { $ref: "#/$defs/workflow" } },
+  },
+  $defs: {
+    workflow: {
+      type: "object",
+      required: ["name", "trigger", "actions"],
+      additionalProperties: false,
+      properties: {
+        id: { type: "string", pattern: "^[a-z0-9][a-z0-9-]*$" },
+        name: { type: "string", minLength: 1 },
+        description: { type: "string" },
+        trigger: {
+          type: "object",
+          additionalProperties: false,
+          properties: {
+            keywords: { type: "array", items: { type: "string" } },
+            categories: { type: "array", items: { type: "string" } },
+            autoDetect: { type: "boolean" },
+            conditions: {
+              description:
+                "Expression such as `domain:techhire.io AND body:/apply/i`, or the equivalent all/any/not tree",
+              type: ["string", "object"],
+            },
+          },
+        },
+        actions: {
+          type: "array",
+          minItems: 1,
+          items: { $ref: "#/$defs/action" },
+        },
+        enabled: {
+          description: "Disabled workflows are kept but never match",
+          type: "boolean",
+        },
+        autopilot: { type: "boolean" },
+        slaMinutes: { type: "number", exclusiveMinimum: 0 },
+        escalation: {
+          description: "What to do when an email misses the SLA",
+          type: "object",
+          required: ["action"],
+          additionalProperties: false,
+          properties: {
+            action: { enum: escalationActions },
+            to: { type: "string" },
+          },
+        },
+        limits: {
+          description:
+            "How hard the background autopilot may run this workflow",
+          type: "object",
+          additionalProperties: false,
+          properties: {
+            concurrency: { type: "integer", minimum: 1 },
+            perMinute: { type: "number", exclusiveMinimum: 0 },
+          },
+        },
+        replyTemplate: {
+          description:
+            "Text for draft_reply actions; {{placeholders}} come from the email",
+          type: "object",
+          required: ["body"],
+          additionalProperties: false,
+          properties: {
+            subject: { type: "string" },
+            body: { type: "string", minLength: 1 },
+          },
+        },
+        successMetric: { type: "string" },
+        playbookHighlights: { type: "array", items: { type: "string" } },
+      },
+    },
+    action: {
+      type: "object",
+      required: ["type", "summary"],
+      additionalProperties: false,
+      properties: {
+        ...stepProperties,
+        when: {
+          description:
+            "Run only if this holds, e.g. `deadline < 24h` or `urgency = immediate OR amount >= 5000`",
+          type: "string",
+        },
+        otherwise: {
+          description: "Runs instead when `when` does not hold",
+          $ref: "#/$defs/otherwise",
+        },
+      },
+    },
+    // An otherwise action can't branch again.
+    otherwise: {
+      type: "object",
+      required: ["type", "summary"],
+      additionalProperties: false,
+      properties: stepProperties,
+    },
+  },
+} as const;
+
+type UnknownRecord = Record<string, unknown>;
+
+function isRecord(value: unknown): value is UnknownRecord {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+export function slugify(name: string) {
+  return (
+    name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "") || "workflow"
+  );
+}
+
+class IssueCollector {
+  readonly issues: ValidationIssue[] = [];
+
+  add(path: string, message: string) {
+    this.issues.push({ path, message });
+  }
+
+  unknownKeys(value: UnknownRecord, path: string, allowed: readonly string[]) {
+    for (const key of Object.keys(value)) {
+      if (!allowed.includes(key)) this.add(`${path}.${key}`, "is not allowed");
+    }
+  }
+
+  string(value: unknown, path: string, options: { required?: boolean } = {}) {
+    if (value === undefined && !options.required) return undefined;
+    if (typeof value !== "string" || (options.required && !value.trim())) {
+      this.add(path, "must be a non-empty string");
+      return undefined;
+    }
+    return value;
+  }
+
+  boolean(value: unknown, path: string) {
+    if (value === undefined) return undefined;
+    if (typeof value !== "boolean") {
+      this.add(path, "must be true or false");
+      return undefined;
+    }
+    return value;
+  }
+
+  stringList(value: unknown, path: string) {
+    if (value === undefined) return [];
+    if (!Array.isArray(value)) {
+      this.add(path, "must be a list of strings");
+      return [];
+    }
+    return value.filter((item, index) => {
+      if (typeof item === "string") return true;
+      this.add(`${path}[${index}]`, "must be a string");
+      return false;
+    }) as string[];
+  }
+}
+
+// `otherwise` is read with `branch` false: branches don't nest.
+function readAction(
+  action: unknown,
+  actionPath: string,
+  fallbackId: string,
+  collector: IssueCollector,
+  branch = true,
+): BranchAction | null {
+  if (!isRecord(action)) {
+    collector.add(actionPath, "must be an object");
+    return null;
+  }
+  collector.unknownKeys(
+    action,
+    actionPath,
+    Object.keys(workflowDocumentSchema.$defs.action.properties),
+  );
+  const type = collector.string(action.type, `${actionPath}.type`, {
+    required: true,
+  });
+  if (type && !automationTypes.includes(type as AutomationActionType)) {
+    collector.add(
+      `${actionPath}.type`,
+      `unknown action type "${type}"; expected one of ${automationTypes.join(", ")}`,
+    );
+  }
+  const summary = collector.string(action.summary, `${actionPath}.summary`, {
+    required: true,
+  });
+  for (const key of ["summary", "details"] as const) {
+    const text = action[key];
+    if (typeof text !== "string") continue;
+    for (const [, field] of text.matchAll(placeholderPattern)) {
+      if (!entityFields.includes(field as EntityField)) {
+        collector.add(
+          `${actionPath}.${key}`,
+          `unknown placeholder {{${field}}}; expected one of ${entityFields.join(", ")}`,
+        );
+      }
+    }
+  }
+  let plugin: PluginAction["plugin"];
+  let params: PluginAction["params"];
+  const pluginName = collector.string(action.plugin, `${actionPath}.plugin`);
+  if (pluginName !== undefined) {
+    const definition = getPlugin(pluginName);
+    if (!definition) {
+      collector.add(
+        `${actionPath}.plugin`,
+        `unknown plugin "${pluginName}"; expected one of ${pluginTypes.join(", ")}`,
+      );
+    } else if (type !== "custom") {
+      collector.add(`${actionPath}.plugin`, "needs type custom");
+    } else if (action.params !== undefined && !isRecord(action.params)) {
+      collector.add(`${actionPath}.params`, "must be an object");
+    } else {
+      const result = readPluginParams(
+        definition,
+        isRecord(action.params) ? action.params : {},
+      );
+      result.problems.forEach((problem) =>
+        collector.add(`${actionPath}.params.${problem.param}`, problem.message),
+      );
+      plugin = definition.type;
+      params = result.params;
+    }
+  } else if (action.params !== undefined) {
+    collector.add(`${actionPath}.params`, "needs a plugin");
+  }
+  const id = collector.string(action.id, `${actionPath}.id`) ?? fallbackId;
+
+  let when: string | undefined;
+  let otherwise: WorkflowAction | undefined;
+  if (
+    !branch &&
+    (action.when !== undefined || action.otherwise !== undefined)
+  ) {
+    collector.add(actionPath, "cannot branch again inside otherwise");
+  } else {
+    when = collector.string(action.when, `${actionPath}.when`);
+    if (when !== undefined) {
+      try {
+        parseBranchCondition(when);
+      } catch (error) {
+        collector.add(
+          `${actionPath}.when`,
+          error instanceof BranchConditionError
+            ? error.message
+            : "could not be parsed",
+        );
+      }
+    }
+    if (action.otherwise !== undefined) {
+      if (when === undefined) {
+        collector.add(`${actionPath}.otherwise`, "needs a when condition");
+      }
+      otherwise =
+        readAction(
+          action.otherwise,
+          `${actionPath}.otherwise`,
+          `${id}-else`,
+          collector,
+          false,
+        ) ?? undefined;
+    }
+  }
+
+  return {
+    id,
+    type: type as AutomationActionType,
+    summary: summary ?? "",
+    details: collector.string(action.details, `${actionPath}.details`) ?? "",
+    ...(plugin ? { plugin, params } : {}),
+    ...(when !== undefined ? { when } : {}),
+    ...(otherwise ? { otherwise } : {}),
+  };
+}
+
+function readWorkflow(
+  input: unknown,
+  path: string,
+  collector: IssueCollector,
+): Workflow | null {
+  if (!isRecord(input)) {
+    collector.add(path, "must be an object");
+    return null;
+  }
+  const before = collector.issues.length;
+  const { properties } = workflowDocumentSchema.$defs.workflow;
+  collector.unknownKeys(input, path, Object.keys(properties));
+
+  const name = collector.string(input.name, `${path}.name`, { required: true });
+  const id = collector.string(input.id, `${path}.id`);
+  if (id !== undefined && !new RegExp(properties.id.pattern).test(id)) {
+    collector.add(
+      `${path}.id`,
+      "must be lowercase letters, digits and dashes (e.g. scholarship-intake)",
+    );
+  }
+
+  const trigger = isRecord(input.trigger) ? input.trigger : {};
+  if (!isRecord(input.trigger)) {
+    collector.add(`${path}.trigger`, "must be an object");
+  } else {
+    collector.unknownKeys(
+      trigger,
+      `${path}.trigger`,
+      Object.keys(properties.trigger.properties),
+    );
+  }
+
+  const actions: Workflow["actions"] = [];
+  if (!Array.isArray(input.actions) || !input.actions.length) {
+    collector.add(`${path}.actions`, "must list at least one action");
+  } else {
+    // Generated ids skip the ones already given, so an action added before
+    // a saved one doesn't take its id.
+    const prefix = id ?? slugify(name ?? "workflow");
+    const given = new Set(
+      input.actions.flatMap((action) =>
+        isRecord(action) && typeof action.id === "string" ? [action.id] : [],
+      ),
+    );
+    let next = 1;
+    const seen = new Set<string>();
+    input.actions.forEach((action, index) => {
+      while (given.has(`${prefix}-${next}`)) next += 1;
+      const actionPath = `${path}.actions[${index}]`;
+      const read = readAction(
+        action,
+        actionPath,
+        `${prefix}-${next}`,
+        collector,
+      );
+      next += 1;
+      if (!read) return;
+      for (const item of [read, read.otherwise]) {
+        if (!item) continue;
+        if (seen.has(item.id)) {
+          collector.add(actionPath, `duplicate action id "${item.id}"`);
+        }
+        seen.add(item.id);
+      }
+      actions.push(read);
+    });
+  }
+
+  let slaMinutes = 30;
+  if (input.slaMinutes !== undefined) {
+    if (
+      typeof input.slaMinutes !== "number" ||
+      !Number.isFinite(input.slaMinutes) ||
+      input.slaMinutes <= 0
+    ) {
+      collector.add(`${path}.slaMinutes`, "must be a positive number");
+    } else {
+      slaMinutes = input.slaMinutes;
+    }
+  }
+
+  let escalation: SlaEscalation | undefined;
+  if (input.escalation !== undefined) {
+    const escalationPath = `${path}.escalation`;
+    if (!isRecord(input.escalation)) {
+      collector.add(escalationPath, "must be an object");
+    } else {
+      collector.unknownKeys(
+        input.escalation,
+        escalationPath,
+        Object.keys(properties.escalation.properties),
+      );
+      const action = input.escalation.action;
+      if (!escalationActions.includes(action as SlaEscalation["action"])) {
+        collector.add(
+          `${escalationPath}.action`,
+          `must be one of ${escalationActions.join(", ")}`,
+        );
+      } else {
+        const to = collector.string(
+          input.escalation.to,
+          `${escalationPath}.to`,
+        );
+        escalation = {
+          action: action as SlaEscalation["action"],
+          ...(to ? { to } : {}),
+        };
+      }
+    }
+  }
+
+  let limits: WorkflowLimits | undefined;
+  if (input.limits !== undefined) {
+    const limitsPath = `${path}.limits`;
+    if (!isRecord(input.limits)) {
+      collector.add(limitsPath, "must be an object");
+    } else {
+      collector.unknownKeys(
+        input.limits,
+        limitsPath,
+        Object.keys(properties.limits.properties),
+      );
+      const { concurrency, perMinute } = input.limits;
+      if (
+        concurrency !== undefined &&
+        (!Number.isInteger(concurrency) || (concurrency as number) < 1)
+      ) {
+        collector.add(
+          `${limitsPath}.concurrency`,
+          "must be a whole number of at least 1",
+        );
+      }
+      if (
+        perMinute !== undefined &&
+        (typeof perMinute !== "number" ||
+          !Number.isFinite(perMinute) ||
+          perMinute <= 0)
+      ) {
+        collector.add(`${limitsPath}.perMinute`, "must be a positive number");
+      }
+      limits = {
+        ...(typeof concurrency === "number" ? { concurrency } : {}),
+        ...(typeof perMinute === "number" ? { perMinute } : {}),
+      };
+    }
+  }
+
+  let replyTemplate: ReplyTemplate | undefined;
+  if (input.replyTemplate !== undefined) {
+    const templatePath = `${path}.replyTemplate`;
+    if (!isRecord(input.replyTemplate)) {
+      collector.add(templatePath, "must be an object");
+    } else {
+      collector.unknownKeys(
+        input.replyTemplate,
+        templatePath,
+        Object.keys(properties.replyTemplate.properties),
+      );
+      const subject = collector.string(
+        input.replyTemplate.subject,
+        `${templatePath}.subject`,
+      );
+      const body = collector.string(
+        input.replyTemplate.body,
+        `${templatePath}.body`,
+        { required: true },
+      );
+      for (const [field, text] of [
+        ["subject", subject],
+        ["body", body],
+      ] as const) {
+        for (const name of templateVariablesIn(text ?? "")) {
+          if (!replyVariables.includes(name as ReplyVariable)) {
+            collector.add(
+              `${templatePath}.${field}`,
+              `unknown placeholder {{${name}}}; expected one of ${replyVariables.join(", ")}`,
+            );
+          }
+        }
+      }
+      if (body) replyTemplate = { ...(subject ? { subject } : {}), body };
+    }
+  }
+
+  let conditions: ConditionalTrigger["conditions"];
+  if (trigger.conditions !== undefined && trigger.conditions !== "") {
+    const result = readCondition(
+      trigger.conditions,
+      `${path}.trigger.conditions`,
+    );
+    result.issues.forEach((issue) => collector.add(issue.path, issue.message));
+    conditions = result.condition;
+  }
+
+  const workflowTrigger: ConditionalTrigger = {
+    keywords: collector
+      .stringList(trigger.keywords, `${path}.trigger.keywords`)
+      .map((keyword) => keyword.toLowerCase()),
+    categories: collector.stringList(
+      trigger.categories,
+      `${path}.trigger.categories`,
+    ),
+    autoDetect:
+      collector.boolean(trigger.autoDetect, `${path}.trigger.autoDetect`) ??
+      true,
+    ...(conditions ? { conditions } : {}),
+  };
+
+  const enabled = collector.boolean(input.enabled, `${path}.enabled`);
+
+  const workflow: EscalatingWorkflow &
+    LimitedWorkflow &
+    ReplyingWorkflow &
+    ToggleableWorkflow = {
+    id: id ?? "",
+    name: name ?? "",
+    description:
+      collector.string(input.description, `${path}.description`) ?? "",
+    trigger: workflowTrigger,
+    actions,
+    ...(enabled === false ? { enabled } : {}),
+    autopilot: collector.boolean(input.autopilot, `${path}.autopilot`) ?? true,
+    slaMinutes,
+    ...(escalation ? { escalation } : {}),
+    ...(limits ? { limits } : {}),
+    ...(replyTemplate ? { replyTemplate } : {}),
+    successMetric:
+      collector.string(input.successMetric, `${path}.successMetric`) ?? "",
+    playbookHighlights: collector.stringList(
+      input.playbookHighlights,
+      `${path}.playbookHighlights`,
+    ),
+  };
+
+  return collector.issues.length === before ? workflow : null;
+}
+
+// An empty `id` means "assign one": the store derives a unique slug from the name.
+export function validateWorkflow(input: unknown, path = "workflow"): Workflow {
+  const collector = new IssueCollector();
+  const workflow = readWorkflow(input, path, collector);
+  if (!workflow) throw new WorkflowValidationError(collector.issues);
+  return workflow;
+}
+
+export function validateWorkflowDocument(input: unknown): WorkflowDocument {
+  const collector = new IssueCollector();
+  if (!isRecord(input)) {
+    throw new WorkflowValidationError([
+      { path: "$", message: "must be an object with version and workflows" },
+    ]);
+  }
+  collector.unknownKeys(input, "$", ["$schema", "version", "workflows"]);
+  if (input.version !== workflowFormatVersion) {
+    collector.add(
+      "$.version",
+      `unsupported version ${JSON.stringify(input.version)}; expected ${workflowFormatVersion}`,
+    );
+  }
+  const workflows: Workflow[] = [];
+  if (!Array.isArray(input.workflows)) {
+    collector.add("$.workflows", "must be a list");
+  } else {
+    input.workflows.forEach((item, index) => {
+      const workflow = readWorkflow(item, `$.workflows[${index}]`, collector);
+      if (workflow) workflows.push(workflow);
+    });
+    const seen = new Set<string>();
+    workflows.forEach((workflow, index) => {
+      if (!workflow.id) return;
+      if (seen.has(workflow.id)) {
+        collector.add(
+          `$.workflows[${index}].id`,
+          `duplicate id "${workflow.id}"`,
+        );
+      }
+      seen.add(workflow.id);
+    });
+  }
+  if (collector.issues.length) {
+    throw new WorkflowValidationError(collector.issues);
+  }
+  return { version: workflowFormatVersion, workflows };
+}
+
+export function detectFormat(
+  text: string,
+  hint?: string | null,
+): WorkflowFileFormat {
+  if (hint && /json/i.test(hint)) return "json";
+  if (hint && /ya?ml/i.test(hint)) return "yaml";
+  return /^\s*[{[]/.test(text) ? "json" : "yaml";
+}
+
+export function parseWorkflowDocument(
+  text: string,
+  format: WorkflowFileFormat,
+): WorkflowDocument {
+  let parsed: unknown;
+  try {
+    parsed = format === "json" ? JSON.parse(text) : parseYaml(text);
+  } catch (error) {
+    const message =
+      error instanceof YamlSyntaxError || error instanceof SyntaxError
+        ? error.message
+        : "could not be parsed";
+    throw new WorkflowValidationError([{ path: "$", message }]);
+  }
+  return validateWorkflowDocument(parsed);
+}
+
+function actionDefinition(action: WorkflowAction): Record<string, unknown> {
+  const { id, type, summary, details, plugin, params, when, otherwise } =
+    action as BranchAction & PluginAction;
+  return {
+    id,
+    type,
+    summary,
+    details,
+    ...(plugin ? { plugin, params } : {}),
+    ...(when !== undefined ? { when } : {}),
+    ...(otherwise ? { otherwise: actionDefinition(otherwise) } : {}),
+  };
+}
+
+export function toDefinition(workflow: Workflow) {
+  const conditions = triggerConditions(workflow);
+  const { escalation } = workflow as EscalatingWorkflow;
+  const { limits } = workflow as LimitedWorkflow;
+  const { replyTemplate } = workflow as ReplyingWorkflow;
+  return {
+    id: workflow.id,
+    name: workflow.name,
+    description: workflow.description,
+    trigger: {
+      ...workflow.trigger,
+      ...(conditions ? { conditions: formatCondition(conditions) } : {}),
+    },
+    actions: workflow.actions.map(actionDefinition),
+    ...(isEnabled(workflow) ? {} : { enabled: false }),
+    autopilot: workflow.autopilot,
+    slaMinutes: workflow.slaMinutes,
+    ...(escalation ? { escalation } : {}),
+    ...(limits ? { limits } : {}),
+    ...(replyTemplate ? { replyTemplate } : {}),
+    successMetric: workflow.successMetric,
+    playbookHighlights: workflow.playbookHighlights,
+  };
+}
+
+export function serializeWorkflowDocument(
+  workflows: Workflow[],
+  format: WorkflowFileFormat,
+) {
+  const document = {
+    $schema: workflowDocumentSchema.$id,
+    version: workflowFormatVersion,
+    workflows: workflows.map(toDefinition),
+  };
+  return format === "json"
+    ? `${JSON.stringify(document, null, 2)}\n`
+    : stringifyYaml(document);
+}
@@ -0,0 +1,159 @@
+import type { AuditActor } from "@/lib/audit";
+import { ProcessedEmail, Workflow } from "@/lib/types";
+import { toDefinition } from "@/lib/workflow-definition";
+
+export type WorkflowChangeSource =
+  "created" | "updated" | "imported" | "rollback";
+
+export interface WorkflowChange {
+  source: WorkflowChangeSource;
+  actor: AuditActor;
+  // Set for rollbacks: the version whose definition was restored.
+  restoredFrom?: number;
+}
+
+// Versions are never edited; a rollback is a new version with old contents.
+export interface WorkflowVersion extends WorkflowChange {
+  workflowId: string;
+  version: number;
+  workflow: Workflow;
+  createdAt: string;
+}
+
+// Which version of each matched workflow handled the email, by workflow id.
+export type VersionedEmail = ProcessedEmail & {
+  workflowVersions?: Record<string, number>;
+};
+
+export interface FieldChange {
+  // e.g. "trigger.keywords" or "actions[draft-1].summary".
+  path: string;
+  before: unknown;
+  after: unknown;
+  // For lists of strings such as keywords.
+  added?: string[];
+  removed?: string[];
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function hasIds(value: unknown): value is { id: string }[] {
+  return (
+    Array.isArray(value) &&
+    value.every((item) => isPlainObject(item) && typeof item.id === "string")
+  );
+}
+
+function isStringList(value: unknown): value is string[] {
+  return (
+    Array.isArray(value) && value.every((item) => typeof item === "string")
+  );
+}
+
+function diffValues(
+  path: string,
+  before: unknown,
+  after: unknown,
+  changes: FieldChange[],
+) {
+  if (JSON.stringify(before) === JSON.stringify(after)) return;
+  const child = (key: string) => (path ? `${path}.${key}` : key);
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+    for (const key of keys) {
+      diffValues(child(key), before[key], after[key], changes);
+    }
+    return;
+  }
+  // Actions are matched by id so a reorder or insert doesn't read as every
+  // later action changing.
+  if (hasIds(before) && hasIds(after)) {
+    const ids = [...new Set([...before, ...after].map((item) => item.id))];
+    for (const id of ids) {
+      diffValues(
+        `${path}[${id}]`,
+        before.find((item) => item.id === id),
+        after.find((item) => item.id === id),
+        changes,
+      );
+    }
+    const order = (items: { id: string }[], others: { id: string }[]) =>
+      items
+        .map((item) => item.id)
+        .filter((id) => others.some((other) => other.id === id));
+    if (order(before, after).join() !== order(after, before).join()) {
+      changes.push({
+        path: `${path} order`,
+        before: before.map((item) => item.id),
+        after: after.map((item) => item.id),
+      });
+    }
+    return;
+  }
+  if (isStringList(before) && isStringList(after)) {
+    changes.push({
+      path,
+      before,
+      after,
+      added: after.filter((item) => !before.includes(item)),
+      removed: before.filter((item) => !after.includes(item)),
+    });
+    return;
+  }
+  changes.push({ path, before, after });
+}
+
+// Compares definitions as they are exported, so conditions read as
+// expressions rather than syntax trees. No `before` means everything is new.
+export function diffWorkflows(
+  before: Workflow | null,
+  after: Workflow,
+): FieldChange[] {
+  const changes: FieldChange[] = [];
+  diffValues(
+    "",
+    before ? toDefinition(before) : {},
+    toDefinition(after),
+    changes,
+  );
+  return changes;
+}
+
+// Null when `workflow` matches what is saved now. Numbering carries on
+// through deletions, so a restored workflow keeps its history.
+export function nextVersion(
+  history: WorkflowVersion[],
+  current: Workflow | null,
+  workflow: Workflow,
+  change: WorkflowChange,
+  createdAt = new Date().toISOString(),
+): WorkflowVersion | null {
+  if (current && !diffWorkflows(current, workflow).length) return null;
+  const latest = latestVersion(history, workflow.id);
+  return {
+    workflowId: workflow.id,
+    version: (latest?.version ?? 0) + 1,
+    workflow,
+    ...change,
+    createdAt,
+  };
+}
+
+export function latestVersion(history: WorkflowVersion[], workflowId: string) {
+  return history.reduce<WorkflowVersion | null>(
+    (latest, item) =>
+      item.workflowId === workflowId &&
+      (!latest || item.version > latest.version)
+        ? item
+        : latest,
+    null,
+  );
+}
+
+export function describeChange(version: WorkflowVersion) {
+  return version.source === "rollback"
+    ? `rolled back to v${version.restoredFrom}`
+    : version.source;
+}
@@ -0,0 +1,12 @@
+import { AutomationActionType } from "@/lib/types";
+
+export const automationTypes: AutomationActionType[] = [
+  "analysis",
+  "draft_reply",
+  "submit_application",
+  "notify_whatsapp",
+  "update_tracker",
+  "coordinate",
+  "collect_documents",
+  "custom",
+];
@@ -0,0 +1,122 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { YamlSyntaxError, parseYaml, stringifyYaml } from "@/lib/yaml";
+
+test("values survive a round trip", () => {
+  const value = {
+    id: "offer-desk",
+    name: "Offer desk: signing",
+    autopilot: false,
+    slaMinutes: 90,
+    confidence: 0.75,
+    owner: null,
+    trigger: { keywords: ["offer", "true", "42", "#hiring"], categories: [] },
+    replyTemplate: { body: "Hi {{senderName}},\n\n  Thanks!\n" },
+    tags: ["@ops", "`code`", " padded ", "- dash", "a: b", ""],
+    nested: [["a", "b"], [["c"]], [], {}],
+    actions: [
+      { id: "notify", type: "notify_whatsapp", details: "" },
+      { id: "track", type: "update_tracker", params: { steps: [1, 2] } },
+    ],
+  };
+  assert.deepEqual(parseYaml(stringifyYaml(value)), value);
+});
+
+test("literal blocks keep blank lines and folded blocks fold", () => {
+  const text = [
+    "literal: |",
+    "  line1",
+    "",
+    "    indented",
+    "  line3",
+    "",
+    "folded: >",
+    "  a",
+    "  b",
+    "",
+    "  c",
+    "next: 1",
+  ].join("\n");
+  assert.deepEqual(parseYaml(text), {
+    literal: "line1\n\n  indented\nline3\n",
+    folded: "a b\nc\n",
+    next: 1,
+  });
+});
+
+test("blocks inside sequence items indent from the key", () => {
+  const text = [
+    "actions:",
+    "  - details: |",
+    "      Check the offer.",
+    "      # keep this line",
+    "    type: analysis # note",
+    "  - - summary: >",
+    "        folded",
+    "",
+    "      id: nested",
+    "  - notes: |",
+    "      last",
+    "",
+  ].join("\n");
+  assert.deepEqual(parseYaml(text), {
+    actions: [
+      { details: "Check the offer.\n# keep this line\n", type: "analysis" },
+      [{ summary: "folded\n", id: "nested" }],
+      { notes: "last\n" },
+    ],
+  });
+  assert.deepEqual(parseYaml("- body: |\n    text\n"), [{ body: "text\n" }]);
+});
+
+test("nested sequences", () => {
+  assert.deepEqual(parseYaml("- - a\n  - b\n- - - c\n- d"), [
+    ["a", "b"],
+    [["c"]],
+    "d",
+  ]);
+  assert.deepEqual(parseYaml("steps:\n  - - a\n    - key: 1\n      other: 2"), {
+    steps: [["a", { key: 1, other: 2 }]],
+  });
+});
+
+test("comments, quoting and document markers", () => {
+  const text = [
+    "---",
+    "# A workflow",
+    "name: 'It''s mine' # trailing",
+    'url: "https://example.com/#top"',
+    "channel: '#ops'",
+    "list: [a, 'b, c', 3]",
+    "empty: {}",
+  ].join("\n");
+  assert.deepEqual(parseYaml(text), {
+    name: "It's mine",
+    url: "https://example.com/#top",
+    channel: "#ops",
+    list: ["a", "b, c", 3],
+    empty: {},
+  });
+});
+
+test("syntax errors name the line", () => {
+  const cases: [string, RegExp][] = [
+    ["a: 1\n\tb: 2", /^Tabs are not allowed for indentation \(line 2\)$/],
+    ["a: 'open", /^Unterminated single-quoted string \(line 1\)$/],
+    ['a: "open', /^Invalid double-quoted string \(line 1\)$/],
+    ["a: [1, 2", /^Unterminated flow sequence \(line 1\)$/],
+    ["a: {b: 1}", /^Flow mappings are not supported \(line 1\)$/],
+    ["a: 1\n  b: 2", /^Unexpected indentation \(line 2\)$/],
+    ["a: 1\njust text", /^Expected a key: value pair \(line 2\)$/],
+  ];
+  for (const [text, message] of cases) {
+    assert.throws(
+      () => parseYaml(text),
+      (error) => {
+        assert.ok(error instanceof YamlSyntaxError, text);
+        assert.match(error.message, message);
+        return true;
+      },
+    );
+  }
+});
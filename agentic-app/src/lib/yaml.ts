@@ -0,0 +1,347 @@
+// A deliberately small YAML reader/writer covering what workflow definition
+// files need: block mappings and sequences, flow lists, quoted and plain
+// scalars, literal/folded blocks and comments. Anchors, tags and multi-document
+// streams are not supported.
+
+export class YamlSyntaxError extends Error {
+  constructor(
+    message: string,
+    public readonly line: number,
+  ) {
+    super(`${message} (line ${line})`);
+    this.name = "YamlSyntaxError";
+  }
+}
+
+interface Line {
+  indent: number;
+  content: string;
+  number: number;
+}
+
+function stripComment(content: string) {
+  let quote: string | null = null;
+  for (let index = 0; index < content.length; index += 1) {
+    const char = content[index];
+    if (quote) {
+      if (char === "\\" && quote === '"') index += 1;
+      else if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === "#" && (index === 0 || /\s/.test(content[index - 1]))) {
+      return content.slice(0, index).trimEnd();
+    }
+  }
+  return content.trimEnd();
+}
+
+function splitFlowItems(content: string) {
+  const items: string[] = [];
+  let quote: string | null = null;
+  let current = "";
+  for (const char of content) {
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === ",") {
+      items.push(current.trim());
+      current = "";
+      continue;
+    }
+    current += char;
+  }
+  if (current.trim()) items.push(current.trim());
+  return items;
+}
+
+function parseScalar(raw: string, line: number): unknown {
+  const value = raw.trim();
+  if (value.startsWith('"')) {
+    try {
+      return JSON.parse(value);
+    } catch {
+      throw new YamlSyntaxError("Invalid double-quoted string", line);
+    }
+  }
+  if (value.startsWith("'")) {
+    if (!value.endsWith("'") || value.length < 2) {
+      throw new YamlSyntaxError("Unterminated single-quoted string", line);
+    }
+    return value.slice(1, -1).replace(/''/g, "'");
+  }
+  if (value.startsWith("[")) {
+    if (!value.endsWith("]")) {
+      throw new YamlSyntaxError("Unterminated flow sequence", line);
+    }
+    return splitFlowItems(value.slice(1, -1)).map((item) =>
+      parseScalar(item, line),
+    );
+  }
+  if (value.startsWith("{")) {
+    if (value === "{}") return {};
+    throw new YamlSyntaxError("Flow mappings are not supported", line);
+  }
+  if (value === "" || value === "~" || value === "null") return null;
+  if (value === "true") return true;
+  if (value === "false") return false;
+  if (/^-?\d+(\.\d+)?$/.test(value)) return Number(value);
+  return value;
+}
+
+function findKeySeparator(content: string) {
+  // "{a: b}" is a flow mapping, not a key; parseScalar rejects it.
+  if (content.startsWith("{")) return -1;
+  let quote: string | null = null;
+  for (let index = 0; index < content.length; index += 1) {
+    const char = content[index];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (
+      char === ":" &&
+      (index === content.length - 1 || content[index + 1] === " ")
+    ) {
+      return index;
+    }
+  }
+  return -1;
+}
+
+function isSequenceItem(content: string) {
+  return content === "-" || content.startsWith("- ");
+}
+
+class Parser {
+  private position = 0;
+
+  constructor(private readonly lines: Line[]) {}
+
+  parse(): unknown {
+    if (!this.lines.length) return null;
+    const value = this.parseBlock(this.lines[0].indent);
+    const rest = this.lines[this.position];
+    if (rest) throw new YamlSyntaxError("Unexpected indentation", rest.number);
+    return value;
+  }
+
+  private peek() {
+    return this.lines[this.position];
+  }
+
+  private parseBlock(indent: number): unknown {
+    const line = this.peek();
+    if (isSequenceItem(line.content)) return this.parseSequence(indent);
+    if (findKeySeparator(line.content) !== -1) return this.parseMapping(indent);
+    this.position += 1;
+    return parseScalar(line.content, line.number);
+  }
+
+  private parseSequence(indent: number) {
+    const items: unknown[] = [];
+    let line = this.peek();
+    while (line && line.indent === indent && isSequenceItem(line.content)) {
+      const rest = line.content.slice(1).trimStart();
+      const itemIndent = indent + (line.content.length - rest.length);
+      if (!rest) {
+        this.position += 1;
+        const next = this.peek();
+        items.push(
+          next && next.indent > indent ? this.parseBlock(next.indent) : null,
+        );
+      } else if (isSequenceItem(rest)) {
+        // "- - a" opens a nested sequence whose items align after the dash.
+        this.lines[this.position] = {
+          ...line,
+          indent: itemIndent,
+          content: rest,
+        };
+        items.push(this.parseSequence(itemIndent));
+      } else if (findKeySeparator(rest) !== -1 && !/^["'[{]/.test(rest)) {
+        // "- key: value" opens a mapping whose keys align after the dash.
+        this.lines[this.position] = {
+          ...line,
+          indent: itemIndent,
+          content: rest,
+        };
+        items.push(this.parseMapping(itemIndent));
+      } else {
+        this.position += 1;
+        items.push(parseScalar(rest, line.number));
+      }
+      line = this.peek();
+    }
+    return items;
+  }
+
+  private parseMapping(indent: number) {
+    const result: Record<string, unknown> = {};
+    let line = this.peek();
+    while (line && line.indent === indent && !isSequenceItem(line.content)) {
+      const separator = findKeySeparator(line.content);
+      if (separator === -1) {
+        throw new YamlSyntaxError("Expected a key: value pair", line.number);
+      }
+      const key = String(
+        parseScalar(line.content.slice(0, separator), line.number),
+      );
+      const rest = line.content.slice(separator + 1).trim();
+      this.position += 1;
+
+      const next = this.peek();
+      if (rest === "|" || rest === ">") {
+        result[key] = this.parseBlockScalar(indent, rest === ">");
+      } else if (rest) {
+        result[key] = parseScalar(rest, line.number);
+      } else if (next && next.indent > indent) {
+        result[key] = this.parseBlock(next.indent);
+      } else if (
+        next &&
+        next.indent === indent &&
+        isSequenceItem(next.content)
+      ) {
+        result[key] = this.parseSequence(indent);
+      } else {
+        result[key] = null;
+      }
+      line = this.peek();
+    }
+    return result;
+  }
+
+  private parseBlockScalar(indent: number, folded: boolean) {
+    const collected: Line[] = [];
+    let line = this.peek();
+    while (line && line.indent > indent) {
+      collected.push(line);
+      this.position += 1;
+      line = this.peek();
+    }
+    // Trailing blank lines belong to whatever follows the block.
+    while (collected.length && !collected[collected.length - 1].content) {
+      collected.pop();
+    }
+    if (!collected.length) return "";
+    const base = Math.min(
+      ...collected.filter((item) => item.content).map((item) => item.indent),
+    );
+    const texts = collected.map((item) =>
+      item.content ? " ".repeat(item.indent - base) + item.content : "",
+    );
+    if (!folded) return `${texts.join("\n")}\n`;
+    // Folding joins lines with a space; each blank line becomes a newline.
+    let value = "";
+    texts.forEach((text, index) => {
+      if (!text) value += "\n";
+      else value += index > 0 && texts[index - 1] ? ` ${text}` : text;
+    });
+    return `${value}\n`;
+  }
+}
+
+// "- key: |" starts the block's key after the dash, so its lines and siblings
+// are indented relative to the key, not the dash.
+function keyIndent(indent: number, content: string) {
+  let rest = content;
+  while (isSequenceItem(rest)) {
+    const after = rest.slice(1).trimStart();
+    indent += rest.length - after.length;
+    rest = after;
+  }
+  return indent;
+}
+
+export function parseYaml(text: string): unknown {
+  const rawLines = text.replace(/\r\n/g, "\n").split("\n");
+  const lines: Line[] = [];
+  let blockIndent: number | null = null;
+
+  rawLines.forEach((raw, index) => {
+    if (/^\s*(---|\.\.\.)\s*$/.test(raw)) return;
+    const indent = raw.length - raw.trimStart().length;
+    if (raw.includes("\t") && raw.slice(0, indent).includes("\t")) {
+      throw new YamlSyntaxError(
+        "Tabs are not allowed for indentation",
+        index + 1,
+      );
+    }
+    // Lines inside a literal/folded block keep their comments and blanks;
+    // blank ones count as indented past the key so the block takes them in.
+    if (blockIndent !== null && (indent > blockIndent || !raw.trim())) {
+      lines.push({
+        indent: raw.trim() ? indent : blockIndent + 1,
+        content: raw.trim(),
+        number: index + 1,
+      });
+      return;
+    }
+    blockIndent = null;
+    const content = stripComment(raw.trim());
+    if (!content) return;
+    lines.push({ indent, content, number: index + 1 });
+    if (/:\s*[|>]$/.test(content)) blockIndent = keyIndent(indent, content);
+  });
+
+  return new Parser(lines).parse();
+}
+
+function isPlainSafe(value: string) {
+  return (
+    /^[A-Za-z_./][^:#\n]*$/.test(value) &&
+    value === value.trim() &&
+    !["true", "false", "null", "~"].includes(value) &&
+    !/^-?\d+(\.\d+)?$/.test(value)
+  );
+}
+
+function stringifyScalar(value: unknown) {
+  if (value === null || value === undefined) return "null";
+  if (typeof value === "string") {
+    return isPlainSafe(value) ? value : JSON.stringify(value);
+  }
+  return String(value);
+}
+
+function isContainer(value: unknown): value is object {
+  return typeof value === "object" && value !== null;
+}
+
+function isEmptyContainer(value: object) {
+  return Array.isArray(value)
+    ? value.length === 0
+    : Object.keys(value).length === 0;
+}
+
+function stringifyNode(value: unknown, indent: number): string[] {
+  const pad = " ".repeat(indent);
+  if (Array.isArray(value)) {
+    return value.flatMap((item) => {
+      if (isContainer(item) && !isEmptyContainer(item)) {
+        const [first, ...rest] = stringifyNode(item, indent + 2);
+        return [`${pad}- ${first.trimStart()}`, ...rest];
+      }
+      return [`${pad}- ${stringifyInline(item)}`];
+    });
+  }
+  if (isContainer(value)) {
+    return Object.entries(value).flatMap(([key, item]) => {
+      const label = `${pad}${stringifyScalar(key)}:`;
+      if (isContainer(item) && !isEmptyContainer(item)) {
+        return [label, ...stringifyNode(item, indent + 2)];
+      }
+      return [`${label} ${stringifyInline(item)}`];
+    });
+  }
+  return [`${pad}${stringifyScalar(value)}`];
+}
+
+function stringifyInline(value: unknown) {
+  if (Array.isArray(value)) return "[]";
+  if (isContainer(value)) return "{}";
+  return stringifyScalar(value);
+}
+
+export function stringifyYaml(value: unknown) {
+  return `${stringifyNode(value, 0).join("\n")}\n`;
+}